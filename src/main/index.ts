@@ -12,7 +12,21 @@ import { isDev } from './utils'
 import { MemoryIPCHandlers } from './services/memory/MemoryIPCHandlers'
 import { ChatIPCHandlers } from './services/chat/ChatIPCHandlers'
 import { CoreIPCHandlers } from './services/ipc/CoreIPCHandlers'
+import { TokenUsageIPCHandlers } from './services/ai/TokenUsageIPCHandlers'
+import { AIConfigIPCHandlers } from './services/ai/AIConfigIPCHandlers'
+import { createResilientProvider } from './services/ai/providers/resilient'
+import { PromptTemplateIPCHandlers } from './services/agents/prompts/PromptTemplateIPCHandlers'
+import { WorkspaceIPCHandlers } from './services/workspace/WorkspaceIPCHandlers'
+import { ApprovalIPCHandlers } from './services/agents/approvals/ApprovalIPCHandlers'
+import { WorkSessionIPCHandlers } from './services/agents/work/WorkSessionIPCHandlers'
+import { TaskHierarchyIPCHandlers } from './services/tasks/TaskHierarchyIPCHandlers'
+import { CustomPersonaIPCHandlers } from './services/agents/custom/CustomPersonaIPCHandlers'
+import { RoutingIPCHandlers } from './services/agents/routing/RoutingIPCHandlers'
+import { MessageQueueIPCHandlers } from './services/agents/queue/MessageQueueIPCHandlers'
 import { createAgentOrchestrator } from './services/agents/AgentOrchestrator'
+import { createPersonaStateService } from './services/agents/state/PersonaStateService'
+import { createTestRunner } from './services/agents/testing/TestRunner'
+import { MessageRouter } from './services/agents/MessageRouter'
 import { EventBus } from './services/core/EventBus'
 
 // Get __dirname equivalent in ES modules
@@ -27,6 +41,16 @@ let mainWindow: BrowserWindow | null = null
 let memoryIPCHandlers: MemoryIPCHandlers | null = null
 let chatIPCHandlers: ChatIPCHandlers | null = null
 let coreIPCHandlers: CoreIPCHandlers | null = null
+let tokenUsageIPCHandlers: TokenUsageIPCHandlers | null = null
+let promptTemplateIPCHandlers: PromptTemplateIPCHandlers | null = null
+let aiConfigIPCHandlers: AIConfigIPCHandlers | null = null
+let workspaceIPCHandlers: WorkspaceIPCHandlers | null = null
+let approvalIPCHandlers: ApprovalIPCHandlers | null = null
+let taskHierarchyIPCHandlers: TaskHierarchyIPCHandlers | null = null
+let customPersonaIPCHandlers: CustomPersonaIPCHandlers | null = null
+let workSessionIPCHandlers: WorkSessionIPCHandlers | null = null
+let routingIPCHandlers: RoutingIPCHandlers | null = null
+let messageQueueIPCHandlers: MessageQueueIPCHandlers | null = null
 let agentOrchestrator: any | null = null
 let eventBus: EventBus | null = null
 
@@ -136,25 +160,113 @@ const initializeServices = async (): Promise<void> => {
     await coreIPCHandlers.initialize()
     console.log('Core IPC Handlers initialized successfully')
     
+    // Initialize AI Provider Configuration; memories are embedded with its credentials
+    console.log('Initializing AI Provider Configuration...')
+    aiConfigIPCHandlers = new AIConfigIPCHandlers()
+    await aiConfigIPCHandlers.initialize()
+    console.log('AI Provider Configuration initialized successfully')
+    
     // Initialize Memory System
     console.log('Initializing Memory System...')
-    memoryIPCHandlers = new MemoryIPCHandlers()
+    memoryIPCHandlers = new MemoryIPCHandlers(aiConfigIPCHandlers.getAIConfigService())
     await memoryIPCHandlers.initialize()
     console.log('Memory System initialized successfully')
     
     // Initialize Chat System
     console.log('Initializing Chat System...')
-    chatIPCHandlers = new ChatIPCHandlers()
+    chatIPCHandlers = new ChatIPCHandlers(eventBus)
     await chatIPCHandlers.initialize()
     console.log('Chat System initialized successfully')
     
+    // Initialize Token Usage Accounting
+    console.log('Initializing Token Usage Accounting...')
+    tokenUsageIPCHandlers = new TokenUsageIPCHandlers()
+    await tokenUsageIPCHandlers.initialize()
+    console.log('Token Usage Accounting initialized successfully')
+    
+    // Initialize Prompt Templates
+    console.log('Initializing Prompt Templates...')
+    promptTemplateIPCHandlers = new PromptTemplateIPCHandlers()
+    await promptTemplateIPCHandlers.initialize()
+    console.log('Prompt Templates initialized successfully')
+    
+    // Initialize Project Workspaces
+    console.log('Initializing Project Workspaces...')
+    workspaceIPCHandlers = new WorkspaceIPCHandlers()
+    await workspaceIPCHandlers.initialize()
+    console.log('Project Workspaces initialized successfully')
+    
+    // Initialize Action Approvals
+    console.log('Initializing Action Approvals...')
+    approvalIPCHandlers = new ApprovalIPCHandlers()
+    await approvalIPCHandlers.initialize()
+    console.log('Action Approvals initialized successfully')
+    
+    // Initialize Task Hierarchy
+    console.log('Initializing Task Hierarchy...')
+    taskHierarchyIPCHandlers = new TaskHierarchyIPCHandlers()
+    await taskHierarchyIPCHandlers.initialize()
+    console.log('Task Hierarchy initialized successfully')
+    
+    // Initialize Custom Personas
+    console.log('Initializing Custom Personas...')
+    customPersonaIPCHandlers = new CustomPersonaIPCHandlers()
+    await customPersonaIPCHandlers.initialize()
+    console.log('Custom Personas initialized successfully')
+    
+    // Initialize Agent Work Sessions
+    console.log('Initializing Agent Work Sessions...')
+    workSessionIPCHandlers = new WorkSessionIPCHandlers(eventBus)
+    await workSessionIPCHandlers.initialize()
+    console.log('Agent Work Sessions initialized successfully')
+    
+    // Initialize Message Routing
+    console.log('Initializing Message Routing...')
+    routingIPCHandlers = new RoutingIPCHandlers(aiConfigIPCHandlers.getAIConfigService())
+    await routingIPCHandlers.initialize()
+    console.log('Message Routing initialized successfully')
+    
     // Initialize Agent System with Memory Integration
     console.log('Initializing Agent System...')
     const memoryService = memoryIPCHandlers.getMemoryService()
-    agentOrchestrator = createAgentOrchestrator(eventBus, memoryService)
+    const workspaceService = workspaceIPCHandlers.getWorkspaceService()
+    const getProjectSettings = coreIPCHandlers.getProjectSettings.bind(coreIPCHandlers)
+    const customPersonas = customPersonaIPCHandlers.getCustomPersonaService().list()
+    const personaState = createPersonaStateService({
+      storagePath: join(app.getPath('userData'), 'app-data', 'persona-state')
+    })
+    agentOrchestrator = createAgentOrchestrator(eventBus, memoryService, undefined, {
+      llmProvider: createResilientProvider(aiConfigIPCHandlers.getAIConfigService().getProviderRegistry()),
+      tokenUsageTracker: tokenUsageIPCHandlers.getTokenUsageService(),
+      promptTemplates: promptTemplateIPCHandlers.getPromptTemplateService(),
+      workspace: workspaceService,
+      testRunner: createTestRunner(workspaceService, getProjectSettings),
+      personaState,
+      approvals: approvalIPCHandlers.getApprovalQueue(),
+      taskHierarchy: taskHierarchyIPCHandlers.getTaskHierarchyService(),
+      customPersonas
+    })
     await agentOrchestrator.initialize()
+    chatIPCHandlers.attachAgentSystem({
+      router: new MessageRouter(
+        memoryService,
+        customPersonas,
+        routingIPCHandlers.getIntentClassifier(),
+        routingIPCHandlers.getRoutingFeedback()
+      ),
+      orchestrator: agentOrchestrator,
+      questions: agentOrchestrator,
+      messageGroups: agentOrchestrator,
+      routingFeedback: routingIPCHandlers.getRoutingFeedback()
+    })
     console.log('Agent System initialized successfully')
     
+    // Initialize Message Queue
+    console.log('Initializing Message Queue...')
+    messageQueueIPCHandlers = new MessageQueueIPCHandlers(agentOrchestrator)
+    await messageQueueIPCHandlers.initialize()
+    console.log('Message Queue initialized successfully')
+    
     // TODO: Initialize other domain services
     // - Project service
     // - Git service
@@ -180,12 +292,66 @@ const cleanupServices = async (): Promise<void> => {
   try {
     console.log('Cleaning up backend services...')
     
+    // Cleanup Message Queue
+    if (messageQueueIPCHandlers) {
+      await messageQueueIPCHandlers.cleanup()
+      messageQueueIPCHandlers = null
+    }
+    
     // Cleanup Agent System
     if (agentOrchestrator) {
       await agentOrchestrator.shutdown()
       agentOrchestrator = null
     }
     
+    // Cleanup Message Routing
+    if (routingIPCHandlers) {
+      await routingIPCHandlers.cleanup()
+      routingIPCHandlers = null
+    }
+    
+    // Cleanup Agent Work Sessions
+    if (workSessionIPCHandlers) {
+      await workSessionIPCHandlers.cleanup()
+      workSessionIPCHandlers = null
+    }
+    
+    // Cleanup Custom Personas
+    if (customPersonaIPCHandlers) {
+      await customPersonaIPCHandlers.cleanup()
+      customPersonaIPCHandlers = null
+    }
+    
+    // Cleanup Task Hierarchy
+    if (taskHierarchyIPCHandlers) {
+      await taskHierarchyIPCHandlers.cleanup()
+      taskHierarchyIPCHandlers = null
+    }
+    
+    // Cleanup Action Approvals
+    if (approvalIPCHandlers) {
+      await approvalIPCHandlers.cleanup()
+      approvalIPCHandlers = null
+    }
+    
+    // Cleanup Project Workspaces
+    if (workspaceIPCHandlers) {
+      await workspaceIPCHandlers.cleanup()
+      workspaceIPCHandlers = null
+    }
+    
+    // Cleanup Prompt Templates
+    if (promptTemplateIPCHandlers) {
+      await promptTemplateIPCHandlers.cleanup()
+      promptTemplateIPCHandlers = null
+    }
+    
+    // Cleanup Token Usage Accounting
+    if (tokenUsageIPCHandlers) {
+      await tokenUsageIPCHandlers.cleanup()
+      tokenUsageIPCHandlers = null
+    }
+    
     // Cleanup Chat System
     if (chatIPCHandlers) {
       await chatIPCHandlers.cleanup()
@@ -198,6 +364,12 @@ const cleanupServices = async (): Promise<void> => {
       memoryIPCHandlers = null
     }
     
+    // Cleanup AI Provider Configuration
+    if (aiConfigIPCHandlers) {
+      await aiConfigIPCHandlers.cleanup()
+      aiConfigIPCHandlers = null
+    }
+    
     // Cleanup Core IPC Handlers
     if (coreIPCHandlers) {
       coreIPCHandlers.cleanup()
@@ -0,0 +1,103 @@
+/**
+ * Agent Memory Manager
+ *
+ * Adapts the memory domain service to the MemoryManager interface the
+ * persona agents use. Persona memory kinds (e.g. `system_design`) are kept
+ * as tags, and memories are scoped to the agent type and, when known, the
+ * project of the message being processed.
+ */
+
+import { AgentRole } from '@/shared/contracts/AgentDomain'
+import { IMemoryDomainService, Memory, MemoryType } from '@/shared/contracts/MemoryDomain'
+import { MemoryManager } from './base/Agent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentMemoryManagerConfig {
+  readonly importance: number
+  readonly searchThreshold: number
+}
+
+// =============================================================================
+// Agent Memory Manager
+// =============================================================================
+
+export class AgentMemoryManager implements MemoryManager {
+  constructor(
+    private readonly memoryService: IMemoryDomainService,
+    private readonly agentType: AgentRole,
+    private readonly config: AgentMemoryManagerConfig
+  ) {}
+
+  async store(_agentId: string, content: string, type: string, projectId?: string): Promise<void> {
+    // Memory is best-effort context; a failed write must not fail the agent's reply
+    const result = await this.memoryService.storeMemory({
+      content,
+      type: this.toMemoryType(type, projectId),
+      scope: 'personal',
+      metadata: {
+        tags: [type, this.agentType],
+        source: `agent-${this.agentType}`,
+        importance: this.config.importance,
+        accessCount: 0,
+        projectId,
+        agentType: this.agentType
+      }
+    })
+
+    if (!result.success) {
+      console.warn(`Failed to store ${this.agentType} memory:`, result.error.message)
+    }
+  }
+
+  async retrieve(_agentId: string, query: string, limit: number = 5, projectId?: string): Promise<Memory[]> {
+    const result = await this.memoryService.searchMemories({
+      query,
+      agentType: this.agentType,
+      projectId,
+      limit,
+      threshold: this.config.searchThreshold
+    })
+
+    if (!result.success) {
+      console.warn(`Failed to search ${this.agentType} memories:`, result.error.message)
+      return []
+    }
+    return result.data.map(searchResult => searchResult.memory)
+  }
+
+  async forget(_agentId: string, contentId: string): Promise<void> {
+    const result = await this.memoryService.archiveMemory(contentId, `Forgotten by ${this.agentType} agent`)
+    if (!result.success) {
+      console.warn(`Failed to forget ${this.agentType} memory ${contentId}:`, result.error.message)
+    }
+  }
+
+  private toMemoryType(kind: string, projectId?: string): MemoryType {
+    if (kind === 'conversation') {
+      return 'conversation'
+    }
+    return projectId ? 'project' : 'global'
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_AGENT_MEMORY_MANAGER_CONFIG: AgentMemoryManagerConfig = {
+  importance: 0.5,
+  searchThreshold: 0.7
+}
+
+export function createAgentMemoryManager(
+  memoryService: IMemoryDomainService,
+  agentType: AgentRole,
+  config?: Partial<AgentMemoryManagerConfig>
+): AgentMemoryManager {
+  return new AgentMemoryManager(memoryService, agentType, { ...DEFAULT_AGENT_MEMORY_MANAGER_CONFIG, ...config })
+}
+
+export default AgentMemoryManager
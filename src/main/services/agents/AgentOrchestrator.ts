@@ -8,21 +8,30 @@
 import { EventEmitter } from 'events'
 import { v4 as uuidv4 } from 'uuid'
 import { 
+  ActionApproval,
   Agent,
+  AgentConfiguration,
   AgentError, 
   AgentMessage, 
   AgentMessageSentEvent, 
   AgentNotAvailableError,
   AgentResponse,
+  AgentRole,
+  AgentStatistics,
   AgentStatus,
   AgentStatusChangedEvent,
   AgentType,
+  ClarificationAnswer,
+  ClarificationQuestion,
   CollaborationContext,
   CollaborationError,
   CollaborationStatus,
+  CustomPersonaDefinition,
   IAgentDomainService,
   InvalidStateTransitionError,
+  MessageQueueMetrics,
   MessageTimeoutError,
+  QueuedAgentMessage,
   RateLimitExceededError,
   SystemMetrics
 } from '@/shared/contracts/AgentDomain'
@@ -41,11 +50,28 @@ import {
 } from '@/shared/contracts/common'
 import { IEventBus } from '@/shared/contracts/EventBus'
 import { IMemoryDomainService } from '../../../shared/contracts/MemoryDomain'
+import { DEFAULT_MODEL, createDefaultProviderRegistry } from '../ai/providers/registry'
+import { createResilientProvider } from '../ai/providers/resilient'
+import { createAgentMemoryManager } from './AgentMemoryManager'
 import { 
   AgentStateMachine, 
   AgentStateMachineFactory,
   AgentStateMachineManager
 } from './AgentStateMachine'
+import { BaseAgent, LLMProvider, MemoryManager, TokenUsageTracker } from './base/Agent'
+import { CustomPersonaAgent } from './personas/CustomPersona'
+import { ArchitectAgent } from './personas/Architect'
+import { EngineerAgent } from './personas/Engineer'
+import { ProducerAgent } from './personas/Producer'
+import { QAAgent } from './personas/QA'
+import { ActionApprovalQueue } from './approvals/ActionApprovalQueue'
+import { PromptTemplateService } from './prompts/PromptTemplateService'
+import { AgentMessageQueue, AgentQueueTask, createAgentMessageQueue } from './queue/AgentMessageQueue'
+import { PersonaStateService } from './state/PersonaStateService'
+import { TestRunner } from './testing/TestRunner'
+import { AgentToolLibrary, DEFAULT_AGENT_PERMISSIONS, createAgentToolLibrary } from './tools/AgentToolLibrary'
+import { TaskHierarchyService } from '../tasks/TaskHierarchyService'
+import { WorkspaceService } from '../workspace/WorkspaceService'
 
 // =============================================================================
 // Types and Interfaces
@@ -53,7 +79,7 @@ import {
 
 export interface AgentRegistration {
   readonly agent: Agent
-  readonly service: IAgentDomainService
+  readonly service: BaseAgent
   readonly stateMachine: AgentStateMachine
   readonly registeredAt: Date
 }
@@ -84,13 +110,57 @@ export interface OrchestratorConfig {
   readonly healthCheckInterval: number
   readonly rateLimitWindowMs: number
   readonly enableMetricsCollection: boolean
+  /**
+   * Messages that may wait per agent before new ones are rejected
+   */
+  readonly maxQueueDepth: number
+}
+
+/**
+ * Shared services the persona agents are built with
+ */
+export interface AgentRuntimeServices {
+  /**
+   * Defaults to the built-in provider registry with retries and fallbacks
+   */
+  readonly llmProvider?: LLMProvider
+  readonly tokenUsageTracker?: TokenUsageTracker
+  readonly promptTemplates?: PromptTemplateService
+  /**
+   * Where the Engineer proposes file changes; without it the Engineer cannot write files
+   */
+  readonly workspace?: WorkspaceService
+  /**
+   * Runs the project's test suite for QA; without it QA cannot execute tests
+   */
+  readonly testRunner?: TestRunner
+  /**
+   * Project task trees the Producer's plan is synced into
+   */
+  readonly taskHierarchy?: TaskHierarchyService
+  /**
+   * Where persona working state is saved per project; kept in memory only without it
+   */
+  readonly personaState?: PersonaStateService
+  /**
+   * Holds actions that need confirmation; without it they run right away
+   */
+  readonly approvals?: ActionApprovalQueue
+  /**
+   * Additional roles declared in config, registered next to the built-in agents
+   */
+  readonly customPersonas?: CustomPersonaDefinition[]
+  /**
+   * Standard tools the agents may call; built from the services above when omitted
+   */
+  readonly tools?: AgentToolLibrary
 }
 
 export interface AgentPool {
-  readonly available: Set<AgentType>
-  readonly busy: Set<AgentType>
-  readonly offline: Set<AgentType>
-  readonly error: Set<AgentType>
+  readonly available: Set<AgentRole>
+  readonly busy: Set<AgentRole>
+  readonly offline: Set<AgentRole>
+  readonly error: Set<AgentRole>
 }
 
 // =============================================================================
@@ -98,12 +168,42 @@ export interface AgentPool {
 // =============================================================================
 
 export class AgentOrchestrator extends EventEmitter implements IAgentDomainService {
-  private readonly agents = new Map<AgentType, AgentRegistration>()
+  private readonly agents = new Map<AgentRole, AgentRegistration>()
   private readonly collaborations = new Map<string, CollaborationSession>()
   private readonly pendingMessages = new Map<string, PendingMessage>()
   private readonly stateMachineManager = new AgentStateMachineManager()
   private readonly rateLimiter = new Map<string, number[]>()
   private readonly metrics = new Map<string, number>()
+  private readonly toolLibrary: AgentToolLibrary
+  private readonly messageQueue: AgentMessageQueue
+  // Project whose saved state each persona currently holds
+  private readonly personaProjects = new Map<AgentRole, string | undefined>()
+  // Approved actions change persona state, so they wait their turn like messages do
+  private readonly runApprovedAction = async <T>(approval: ActionApproval, execute: () => Promise<T>): Promise<T> => {
+    // The action's own error is what the approval records, not the queue's wrapper around it
+    let failure: unknown
+    const result = await this.runInProject(approval.agentType, {
+      id: approval.id,
+      projectId: approval.projectId,
+      priority: 'high',
+      preview: `Approved ${approval.action.type}: ${approval.action.description}`,
+      internal: true
+    }, async () => {
+      try {
+        return Ok(await execute())
+      } catch (error) {
+        failure = error
+        return Err(new GenericDomainError('ACTION_FAILED', 'agent', (error as Error).message, error as Error))
+      }
+    })
+    if (!result.success) {
+      throw failure ?? result.error
+    }
+    return result.data
+  }
+  private readonly onQueueUpdated = () => {
+    this.emit('queue:updated')
+  }
   
   private healthCheckTimer?: NodeJS.Timeout
   private isRunning = false
@@ -111,9 +211,21 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
   constructor(
     private readonly eventBus: IEventBus,
     private readonly memoryService?: IMemoryDomainService,
-    private readonly config: OrchestratorConfig = DEFAULT_ORCHESTRATOR_CONFIG
+    private readonly config: OrchestratorConfig = DEFAULT_ORCHESTRATOR_CONFIG,
+    private readonly services: AgentRuntimeServices = {}
   ) {
     super()
+    this.toolLibrary = services.tools ?? createAgentToolLibrary(
+      { workspace: services.workspace, taskHierarchy: services.taskHierarchy, memoryService, approvals: services.approvals },
+      { customPersonas: services.customPersonas ?? [] }
+    )
+    this.messageQueue = createAgentMessageQueue({
+      getConcurrencyLimit: agent => this.agents.get(agent)?.service.configuration.rateLimits.maxConcurrentTasks ?? 1,
+      // A persona holds the state of one project at a time
+      canRunAlongside: (message, running) => running.every(other => other.projectId === message.projectId),
+      run: (message, signal) => this.deliverMessage(message, signal)
+    }, { maxQueueDepth: config.maxQueueDepth })
+    this.messageQueue.on('queue-updated', this.onQueueUpdated)
     this.setupEventHandling()
   }
 
@@ -127,14 +239,17 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     }
 
     try {
-      // Initialize built-in agents
-      await this.initializeBuiltInAgents()
-      
+      // Initialize built-in agents, then the personas declared in config
+      const llmProvider = this.services.llmProvider ?? createResilientProvider(createDefaultProviderRegistry())
+      await this.initializeBuiltInAgents(llmProvider)
+      await this.initializeCustomPersonas(llmProvider)
+
       // Start health check timer
       this.startHealthCheck()
       
       // Subscribe to domain events
       this.subscribeToEvents()
+      this.services.approvals?.setActionRunner(this.runApprovedAction)
       
       this.isRunning = true
       this.emit('orchestrator:initialized')
@@ -160,6 +275,13 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
       
       // Complete active collaborations
       await this.shutdownActiveCollaborations()
+      this.messageQueue.cancelAll()
+      this.services.approvals?.setActionRunner(undefined)
+
+      // Save persona state before the agents go away
+      this.agents.forEach(registration => this.persistPersonaState(registration))
+      await this.services.personaState?.flush()
+      this.personaProjects.clear()
       
       // Shutdown all agents
       await this.shutdownAllAgents()
@@ -169,6 +291,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
       this.collaborations.clear()
       this.pendingMessages.clear()
       this.stateMachineManager.destroyAll()
+      this.services.customPersonas?.forEach(persona => AgentStateMachineFactory.unregister(persona.id))
       
       this.isRunning = false
       this.emit('orchestrator:shutdown')
@@ -184,31 +307,66 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     return this.isRunning && this.agents.size > 0
   }
 
+  /**
+   * The persona agent instance registered for a type
+   */
+  getAgentInstance(type: AgentRole): BaseAgent | undefined {
+    return this.agents.get(type)?.service
+  }
+
+  /**
+   * Questions the Producer is waiting on the user to answer for a project
+   */
+  async listClarificationQuestions(projectId?: string): Promise<ClarificationQuestion[]> {
+    if (!this.agents.has(AgentType.PRODUCER)) {
+      return []
+    }
+
+    const result = await this.runInProject(AgentType.PRODUCER, {
+      id: uuidv4(),
+      projectId,
+      priority: 'high',
+      preview: 'List clarification questions',
+      internal: true
+    }, async service => Ok((service as ProducerAgent).getPendingQuestions()))
+    return result.success ? result.data : []
+  }
+
+  async answerClarificationQuestion(answer: ClarificationAnswer): Promise<Result<ClarificationQuestion, DomainError>> {
+    return this.runInProject(AgentType.PRODUCER, {
+      id: uuidv4(),
+      projectId: answer.projectId,
+      priority: 'high',
+      preview: `Answer: ${answer.answer}`,
+      internal: true
+    }, service => (service as ProducerAgent).answerQuestion(answer.questionId, answer.answer))
+  }
+
   // =============================================================================
   // Agent Management (IAgentDomainService Implementation)
   // =============================================================================
 
   async getAllAgents(): Promise<Agent[]> {
-    return Array.from(this.agents.values()).map(reg => reg.agent)
+    return Promise.all(Array.from(this.agents.values()).map(reg => this.getCurrentEntity(reg)))
   }
 
-  async getAgentsByType(type: AgentType): Promise<Agent[]> {
+  async getAgentsByType(type: AgentRole): Promise<Agent[]> {
     const registration = this.agents.get(type)
-    return registration ? [registration.agent] : []
+    return registration ? [await this.getCurrentEntity(registration)] : []
   }
 
-  async getAgentByType(type: AgentType): Promise<Agent> {
+  async getAgentByType(type: AgentRole): Promise<Agent> {
     const registration = this.agents.get(type)
     if (!registration) {
       throw new EntityNotFoundError('agent', `Agent of type ${type} not found`)
     }
-    return registration.agent
+    return this.getCurrentEntity(registration)
   }
 
   async getById(id: string): Promise<Agent> {
     for (const [, registration] of this.agents) {
       if (registration.agent.id === id) {
-        return registration.agent
+        return this.getCurrentEntity(registration)
       }
     }
     throw new EntityNotFoundError('agent', `Agent with id ${id} not found`)
@@ -276,6 +434,31 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
         error: agentPool.error.size
       }
     })
+
+    // Check message queue depth
+    const queueMetrics = this.messageQueue.getMetrics()
+    const fullQueues = Object.entries(queueMetrics.byAgent)
+      .filter(([, metrics]) => metrics.queued >= metrics.maxQueueDepth)
+      .map(([agent]) => agent)
+    checks.push({
+      name: 'message_queue',
+      healthy: fullQueues.length === 0,
+      message: fullQueues.length === 0
+        ? `${queueMetrics.queued} messages queued, ${queueMetrics.running} running`
+        : `Message queue full for ${fullQueues.join(', ')}`,
+      details: { queued: queueMetrics.queued, running: queueMetrics.running }
+    })
+    
+    // Check each agent's own health
+    for (const [type, registration] of this.agents) {
+      const agentHealth = await registration.service.healthCheck()
+      checks.push({
+        name: `agent_${type}`,
+        healthy: agentHealth.healthy,
+        message: agentHealth.checks.map(check => check.message).join('; '),
+        details: { status: registration.stateMachine.getCurrentState() }
+      })
+    }
     
     // Check event bus
     checks.push({
@@ -292,29 +475,19 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     }
   }
 
-  async updateAgentConfiguration(agentId: string, configuration: Partial<any>): Promise<Agent> {
-    const agent = await this.getById(agentId)
-    return this.update(agentId, { 
-      configuration: { ...agent.configuration, ...configuration }
-    })
+  async updateAgentConfiguration(agentId: string, configuration: Partial<AgentConfiguration>): Promise<Agent> {
+    const registration = this.findRegistration(agentId)
+    return registration.service.updateAgentConfiguration(agentId, configuration)
   }
 
   async setAgentEnabled(agentId: string, enabled: boolean): Promise<Agent> {
-    const registration = Array.from(this.agents.values())
-      .find(reg => reg.agent.id === agentId)
-    
-    if (!registration) {
-      throw new EntityNotFoundError('agent', `Agent ${agentId} not found`)
-    }
-
+    const registration = this.findRegistration(agentId)
     const targetStatus = enabled ? AgentStatus.IDLE : AgentStatus.OFFLINE
-    const success = await registration.stateMachine.transition(targetStatus, 'Manual enable/disable')
-    
-    if (!success) {
+    if (!registration.stateMachine.canTransition(targetStatus)) {
       throw new InvalidStateTransitionError(agentId, registration.stateMachine.getCurrentState(), targetStatus)
     }
 
-    return this.update(agentId, { status: targetStatus })
+    return registration.service.setAgentEnabled(agentId, enabled)
   }
 
   // =============================================================================
@@ -328,7 +501,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
         return Err(new ValidationError('agent', 'Message must have specific target agent'))
       }
 
-      const targetAgent = message.to as AgentType
+      const targetAgent = message.to as AgentRole
       const registration = this.agents.get(targetAgent)
       
       if (!registration) {
@@ -341,45 +514,41 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
         return Err(rateLimitResult.error)
       }
 
-      // Check agent availability
-      if (!registration.stateMachine.isAvailable()) {
-        return Err(new AgentNotAvailableError(
-          registration.agent.id, 
-          registration.stateMachine.getCurrentState()
-        ))
-      }
-
-      // Send message to agent service
-      const response = await registration.service.sendMessage(message)
-      
-      if (response.success) {
-        // Update metrics
-        this.updateMetrics(registration.agent.type, 'message_sent')
-        
-        // Emit event
-        this.eventBus.publishAsync({
-          id: uuidv4(),
-          version: 1,
-          type: 'agent.message.sent',
-          domain: 'agent',
-          agentId: registration.agent.id,
-          agentType: registration.agent.type,
-          aggregateId: registration.agent.id,
-          timestamp: new Date(),
-          payload: {
-            messageId: message.id,
-            to: message.to,
-            messageType: message.messageType
-          }
-        } as AgentMessageSentEvent)
+      // Messages wait for a busy agent, but not for one that is switched off or failing
+      const state = registration.stateMachine.getCurrentState()
+      if (state === AgentStatus.OFFLINE || state === AgentStatus.ERROR) {
+        return Err(new AgentNotAvailableError(registration.agent.id, state))
       }
 
-      return response
+      return await this.messageQueue.enqueue(targetAgent, message)
     } catch (error) {
       return Err(new GenericDomainError('MESSAGE_SEND_FAILED', 'agent', 'Failed to send message', error as Error))
     }
   }
 
+  /**
+   * Cancels a message that is waiting for its agent or being worked on; false when it already finished
+   */
+  cancelMessage(messageId: string): boolean {
+    return this.messageQueue.cancel(messageId)
+  }
+
+  /**
+   * Keeps follow-ups of `messageId` that are still to be sent together with it,
+   * so that cancelling it cancels them too; returns a function that closes the group
+   */
+  openMessageGroup(messageId: string): () => void {
+    return this.messageQueue.openGroup(messageId)
+  }
+
+  getMessageQueue(): QueuedAgentMessage[] {
+    return this.messageQueue.list()
+  }
+
+  getQueueMetrics(): MessageQueueMetrics {
+    return this.messageQueue.getMetrics()
+  }
+
   async sendMessageAndWait(
     message: AgentMessage, 
     timeoutMs: number = this.config.defaultMessageTimeout
@@ -402,6 +571,8 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
         const pending = this.pendingMessages.get(messageId)
         if (pending) {
           this.pendingMessages.delete(messageId)
+          // Nobody is waiting for the reply anymore
+          this.messageQueue.cancel(message.id)
           pending.reject(new MessageTimeoutError(messageId, timeoutMs))
         }
       }, timeoutMs)
@@ -640,41 +811,38 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
   // =============================================================================
 
   async getAgentStatistics(agentId: string): Promise<any> {
-    // Implementation would track real statistics
-    return {
-      totalMessages: this.metrics.get(`${agentId}:messages`) ?? 0,
-      totalTokensUsed: this.metrics.get(`${agentId}:tokens`) ?? 0,
-      averageResponseTime: this.metrics.get(`${agentId}:avg_response_time`) ?? 0,
-      successRate: this.metrics.get(`${agentId}:success_rate`) ?? 1.0,
-      lastActiveAt: new Date()
-    }
+    const registration = this.findRegistration(agentId)
+    return registration.service.getAgentStatistics(agentId)
   }
 
   async getSystemMetrics(): Promise<SystemMetrics> {
     const agentPool = this.getAgentPool()
+    const statistics: AgentStatistics[] = await Promise.all(
+      Array.from(this.agents.values()).map(reg => reg.service.getAgentStatistics(reg.agent.id))
+    )
+    const totalMessages = statistics.reduce((sum, stats) => sum + stats.totalMessages, 0)
     
     return {
       totalAgents: this.agents.size,
       activeAgents: agentPool.available.size + agentPool.busy.size,
-      totalMessages: Array.from(this.metrics.entries())
-        .filter(([key]) => key.endsWith(':messages'))
-        .reduce((sum, [, value]) => sum + value, 0),
-      averageResponseTime: this.calculateAverageResponseTime(),
-      errorRate: this.calculateErrorRate(),
+      totalMessages,
+      averageResponseTime: this.calculateAverageResponseTime(statistics, totalMessages),
+      errorRate: this.calculateErrorRate(statistics, totalMessages),
       resourceUsage: {
         memoryUsage: process.memoryUsage().heapUsed / 1024 / 1024, // MB
         cpuUsage: 0, // Would be calculated from actual metrics
-        tokenUsage: Array.from(this.metrics.entries())
-          .filter(([key]) => key.endsWith(':tokens'))
-          .reduce((sum, [, value]) => sum + value, 0),
+        tokenUsage: statistics.reduce((sum, stats) => sum + stats.totalTokensUsed, 0),
         apiCallsPerMinute: this.calculateAPICallsPerMinute()
       }
     }
   }
 
   async resetAgentStatistics(agentId: string): Promise<void> {
+    const registration = this.findRegistration(agentId)
+    await registration.service.resetAgentStatistics(agentId)
+
     const metricsToReset = Array.from(this.metrics.keys())
-      .filter(key => key.startsWith(`${agentId}:`))
+      .filter(key => key.startsWith(`${registration.agent.type}:`))
     
     for (const key of metricsToReset) {
       this.metrics.delete(key)
@@ -685,50 +853,206 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
   // Private Implementation
   // =============================================================================
 
-  private async initializeBuiltInAgents(): Promise<void> {
-    // This would create the default agent instances
-    // For now, we'll register placeholder agents
+  private async initializeBuiltInAgents(llmProvider: LLMProvider): Promise<void> {
     const agentTypes = [AgentType.PRODUCER, AgentType.ARCHITECT, AgentType.ENGINEER, AgentType.QA]
     
     for (const type of agentTypes) {
-      const agent: Agent = {
+      await this.registerAgent(this.createAgentEntity(type, this.getAgentName(type), this.getAgentAvatar(type)), llmProvider)
+    }
+  }
+
+  private async initializeCustomPersonas(llmProvider: LLMProvider): Promise<void> {
+    for (const persona of this.services.customPersonas ?? []) {
+      if (this.agents.has(persona.id)) {
+        console.warn(`Skipping custom persona ${persona.id}: an agent of that type is already registered`)
+        continue
+      }
+
+      const agent = this.createAgentEntity(persona.id, persona.name, persona.avatar)
+      const configured: Agent = {
+        ...agent,
+        capabilities: persona.capabilities.map(name => ({ name, description: name, enabled: true, parameters: {} })),
+        configuration: {
+          ...agent.configuration,
+          systemPrompt: persona.systemPrompt,
+          tools: [...persona.allowedTools],
+          permissions: [...persona.permissions]
+        }
+      }
+
+      AgentStateMachineFactory.register(persona.id)
+      await this.registerAgent(configured, llmProvider)
+    }
+  }
+
+  private createAgentEntity(type: AgentRole, name: string, avatar: string): Agent {
+    return {
+      id: uuidv4(),
+      type,
+      name,
+      avatar,
+      status: AgentStatus.IDLE,
+      capabilities: [],
+      configuration: this.getDefaultConfiguration(type),
+      statistics: {
+        totalMessages: 0,
+        totalTokensUsed: 0,
+        averageResponseTime: 0,
+        successRate: 1.0,
+        lastActiveAt: new Date()
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+  }
+
+  private async registerAgent(agent: Agent, llmProvider: LLMProvider): Promise<void> {
+    // Agents start offline and come up through their own initialize()
+    const stateMachine = AgentStateMachineFactory.create(agent.id, agent.type, AgentStatus.OFFLINE)
+    const memoryManager = this.memoryService ? createAgentMemoryManager(this.memoryService, agent.type) : undefined
+    const service = this.createPersonaAgent(agent, stateMachine, llmProvider, memoryManager)
+    if (this.services.approvals) {
+      service.attachApprovalQueue(this.services.approvals)
+    }
+    service.attachTools(this.toolLibrary.getToolsFor(agent.type, agent.configuration.tools))
+    await service.initialize()
+
+    const registration: AgentRegistration = {
+      agent,
+      service,
+      stateMachine,
+      registeredAt: new Date()
+    }
+
+    this.agents.set(agent.type, registration)
+  }
+
+  private createPersonaAgent(
+    agent: Agent,
+    stateMachine: AgentStateMachine,
+    llmProvider: LLMProvider,
+    memoryManager?: MemoryManager
+  ): BaseAgent {
+    const { tokenUsageTracker, promptTemplates } = this.services
+    const args = [agent, stateMachine, this.eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates] as const
+
+    switch (agent.type) {
+      case AgentType.PRODUCER:
+        return new ProducerAgent(...args, this.services.taskHierarchy)
+      case AgentType.ARCHITECT:
+        return new ArchitectAgent(...args)
+      case AgentType.ENGINEER:
+        return new EngineerAgent(...args, this.services.workspace)
+      case AgentType.QA:
+        return new QAAgent(...args, this.services.testRunner)
+    }
+
+    const persona = this.services.customPersonas?.find(candidate => candidate.id === agent.type)
+    if (!persona) {
+      throw new ValidationError('agent', `Unknown agent type ${agent.type}`)
+    }
+    return new CustomPersonaAgent(persona, ...args)
+  }
+
+  /**
+   * Runs a message from the queue on its agent, with the agent's state for the message's project
+   */
+  private async deliverMessage(message: AgentMessage, signal: AbortSignal): Promise<Result<AgentResponse, DomainError>> {
+    const registration = this.agents.get(message.to as AgentRole)
+    if (!registration) {
+      return Err(new EntityNotFoundError('agent', `Target agent ${message.to} not found`))
+    }
+
+    // The agent may have been switched off while the message waited
+    const state = registration.stateMachine.getCurrentState()
+    if (state === AgentStatus.OFFLINE || state === AgentStatus.ERROR) {
+      return Err(new AgentNotAvailableError(registration.agent.id, state))
+    }
+
+    await this.restorePersonaState(registration, message.projectId)
+    const response = await registration.service.sendMessage(message, { signal })
+    this.persistPersonaState(registration)
+
+    if (response.success) {
+      // Update metrics
+      this.updateMetrics(registration.agent.type, 'message_sent')
+
+      // Emit event
+      this.eventBus.publishAsync({
         id: uuidv4(),
-        type,
-        name: this.getAgentName(type),
-        avatar: this.getAgentAvatar(type),
-        status: AgentStatus.IDLE,
-        capabilities: [],
-        configuration: this.getDefaultConfiguration(type),
-        statistics: {
-          totalMessages: 0,
-          totalTokensUsed: 0,
-          averageResponseTime: 0,
-          successRate: 1.0,
-          lastActiveAt: new Date()
-        },
-        createdAt: new Date(),
-        updatedAt: new Date()
+        version: 1,
+        type: 'agent.message.sent',
+        domain: 'agent',
+        agentId: registration.agent.id,
+        agentType: registration.agent.type,
+        aggregateId: registration.agent.id,
+        timestamp: new Date(),
+        payload: {
+          messageId: message.id,
+          to: message.to,
+          messageType: message.messageType
+        }
+      } as AgentMessageSentEvent)
+    }
+
+    return response
+  }
+
+  /**
+   * Queues work for an agent that needs its state for `task.projectId`, saving the state once done
+   */
+  private runInProject<T>(
+    agentType: AgentRole,
+    task: AgentQueueTask,
+    run: (service: BaseAgent) => Promise<Result<T, DomainError>>
+  ): Promise<Result<T, DomainError>> {
+    return this.messageQueue.enqueueTask(agentType, task, async () => {
+      const registration = this.agents.get(agentType)
+      if (!registration) {
+        return Err(new EntityNotFoundError('agent', `Agent ${agentType} not found`))
       }
 
-      const stateMachine = AgentStateMachineFactory.create(agent.id, type)
-      
-      // For now, create a mock service
-      const service: IAgentDomainService = this.createMockAgentService(agent, stateMachine)
-      
-      const registration: AgentRegistration = {
-        agent,
-        service,
-        stateMachine,
-        registeredAt: new Date()
+      await this.restorePersonaState(registration, task.projectId)
+      try {
+        return await run(registration.service)
+      } finally {
+        this.persistPersonaState(registration)
       }
+    })
+  }
+
+  private async restorePersonaState(registration: AgentRegistration, projectId?: string): Promise<void> {
+    const store = this.services.personaState
+    const type = registration.agent.type
+    if (!store || (this.personaProjects.has(type) && this.personaProjects.get(type) === projectId)) {
+      return
+    }
+
+    this.persistPersonaState(registration)
+    registration.service.importState(await store.load(type, projectId))
+    this.personaProjects.set(type, projectId)
+  }
 
-      this.agents.set(type, registration)
+  private persistPersonaState(registration: AgentRegistration): void {
+    const store = this.services.personaState
+    const type = registration.agent.type
+    if (store && this.personaProjects.has(type)) {
+      store.save(type, registration.service.exportState(), this.personaProjects.get(type))
     }
   }
 
-  private createMockAgentService(_agent: Agent, _stateMachine: AgentStateMachine): IAgentDomainService {
-    // This is a placeholder - real implementation would create actual agent services
-    return {} as IAgentDomainService
+  private findRegistration(agentId: string): AgentRegistration {
+    const registration = Array.from(this.agents.values())
+      .find(reg => reg.agent.id === agentId)
+    
+    if (!registration) {
+      throw new EntityNotFoundError('agent', `Agent ${agentId} not found`)
+    }
+    return registration
+  }
+
+  private getCurrentEntity(registration: AgentRegistration): Promise<Agent> {
+    return registration.service.findById(registration.agent.id)
   }
 
   private getAgentName(type: AgentType): string {
@@ -751,13 +1075,15 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     return avatars[type]
   }
 
-  private getDefaultConfiguration(type: AgentType): any {
+  private getDefaultConfiguration(type: AgentRole): AgentConfiguration {
     return {
-      model: 'claude-3-sonnet-20241022',
+      // Follows the provider and model chosen in the AI settings
+      model: DEFAULT_MODEL,
       temperature: 0.7,
       maxTokens: 4096,
       systemPrompt: `You are the ${type} agent in Project Maestro.`,
-      tools: [],
+      tools: this.toolLibrary.getToolNamesFor(type),
+      permissions: [...(DEFAULT_AGENT_PERMISSIONS[type as AgentType] ?? [])],
       memoryAccess: {
         global: true,
         project: true,
@@ -837,7 +1163,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
    * Allow agents to search memories for context
    */
   async searchMemoriesForAgent(
-    agentType: AgentType, 
+    agentType: AgentRole, 
     query: string, 
     options?: { projectId?: string; limit?: number }
   ): Promise<Result<any[], DomainError>> {
@@ -866,7 +1192,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
    * Store memory from agent conversation
    */
   async storeAgentMemory(
-    agentType: AgentType,
+    agentType: AgentRole,
     content: string,
     metadata: {
       projectId?: string
@@ -920,7 +1246,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     }
   }
 
-  private async attemptAgentRecovery(agentType: AgentType): Promise<void> {
+  private async attemptAgentRecovery(agentType: AgentRole): Promise<void> {
     const registration = this.agents.get(agentType)
     if (!registration) return
 
@@ -951,6 +1277,9 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
   private async shutdownAllAgents(): Promise<void> {
     for (const [, registration] of this.agents) {
       try {
+        if (registration.stateMachine.getCurrentState() !== AgentStatus.OFFLINE) {
+          await registration.service.cleanup()
+        }
         await registration.stateMachine.forceTransition(
           AgentStatus.OFFLINE, 
           'Orchestrator shutdown'
@@ -983,7 +1312,7 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     return Ok(undefined)
   }
 
-  private updateMetrics(agentType: AgentType, metric: string): void {
+  private updateMetrics(agentType: AgentRole, metric: string): void {
     if (!this.config.enableMetricsCollection) return
     
     const key = `${agentType}:${metric}`
@@ -1023,19 +1352,20 @@ export class AgentOrchestrator extends EventEmitter implements IAgentDomainServi
     return pool
   }
 
-  private calculateAverageResponseTime(): number {
-    // Placeholder implementation
-    return 1500 // ms
+  private calculateAverageResponseTime(statistics: AgentStatistics[], totalMessages: number): number {
+    if (totalMessages === 0) return 0
+    return statistics.reduce((sum, stats) => sum + stats.averageResponseTime * stats.totalMessages, 0) / totalMessages
   }
 
-  private calculateErrorRate(): number {
-    // Placeholder implementation
-    return 0.02 // 2%
+  private calculateErrorRate(statistics: AgentStatistics[], totalMessages: number): number {
+    if (totalMessages === 0) return 0
+    return statistics.reduce((sum, stats) => sum + (1 - stats.successRate) * stats.totalMessages, 0) / totalMessages
   }
 
   private calculateAPICallsPerMinute(): number {
-    // Placeholder implementation
-    return 25
+    const oneMinuteAgo = Date.now() - 60000
+    return Array.from(this.rateLimiter.values())
+      .reduce((sum, timestamps) => sum + timestamps.filter(timestamp => timestamp > oneMinuteAgo).length, 0)
   }
 }
 
@@ -1048,7 +1378,8 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
   defaultMessageTimeout: 30000, // 30 seconds
   healthCheckInterval: 60000, // 1 minute
   rateLimitWindowMs: 60000, // 1 minute
-  enableMetricsCollection: true
+  enableMetricsCollection: true,
+  maxQueueDepth: 20
 }
 
 // =============================================================================
@@ -1058,10 +1389,11 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
 export function createAgentOrchestrator(
   eventBus: IEventBus,
   memoryService?: IMemoryDomainService,
-  config?: Partial<OrchestratorConfig>
+  config?: Partial<OrchestratorConfig>,
+  services?: AgentRuntimeServices
 ): AgentOrchestrator {
   const fullConfig = { ...DEFAULT_ORCHESTRATOR_CONFIG, ...config }
-  return new AgentOrchestrator(eventBus, memoryService, fullConfig)
+  return new AgentOrchestrator(eventBus, memoryService, fullConfig, services)
 }
 
 export default AgentOrchestrator
\ No newline at end of file
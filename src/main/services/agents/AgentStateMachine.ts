@@ -5,7 +5,8 @@
  * This prevents chaos in agent coordination by ensuring predictable behavior.
  */
 
-import { AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import { AgentRole, AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import { ValidationError } from '@/shared/contracts/common'
 import { EventEmitter } from 'events'
 
 // =============================================================================
@@ -22,7 +23,7 @@ export interface StateTransition {
 
 export interface TransitionContext {
   readonly agentId: string
-  readonly agentType: AgentType
+  readonly agentType: AgentRole
   readonly previousState: AgentStatus
   readonly timestamp: Date
   readonly reason?: string
@@ -51,13 +52,13 @@ export class AgentStateMachine extends EventEmitter {
   private currentState: AgentStatus
   private readonly config: StateMachineConfig
   private readonly agentId: string
-  private readonly agentType: AgentType
+  private readonly agentType: AgentRole
   private timeoutHandle?: NodeJS.Timeout
   private readonly transitionHistory: TransitionContext[] = []
 
   constructor(
     agentId: string,
-    agentType: AgentType,
+    agentType: AgentRole,
     config: StateMachineConfig,
     initialState?: AgentStatus
   ) {
@@ -535,16 +536,30 @@ export const QA_AGENT_STATE_MACHINE: StateMachineConfig = {
 // =============================================================================
 
 export class AgentStateMachineFactory {
+  // Custom personas are only known to the factory once they have been registered
+  private static readonly customConfigs = new Map<AgentRole, StateMachineConfig>()
+
   static create(
     agentId: string,
-    agentType: AgentType,
+    agentType: AgentRole,
     initialState?: AgentStatus
   ): AgentStateMachine {
     const config = this.getConfigForAgentType(agentType)
     return new AgentStateMachine(agentId, agentType, config, initialState)
   }
 
-  private static getConfigForAgentType(agentType: AgentType): StateMachineConfig {
+  /**
+   * Register a custom persona type, with the standard state machine unless another is given
+   */
+  static register(agentType: AgentRole, config: StateMachineConfig = STANDARD_AGENT_STATE_MACHINE): void {
+    this.customConfigs.set(agentType, config)
+  }
+
+  static unregister(agentType: AgentRole): void {
+    this.customConfigs.delete(agentType)
+  }
+
+  private static getConfigForAgentType(agentType: AgentRole): StateMachineConfig {
     switch (agentType) {
       case AgentType.PRODUCER:
         return PRODUCER_AGENT_STATE_MACHINE
@@ -553,9 +568,14 @@ export class AgentStateMachineFactory {
       case AgentType.QA:
         return QA_AGENT_STATE_MACHINE
       case AgentType.ARCHITECT:
-      default:
         return STANDARD_AGENT_STATE_MACHINE
     }
+
+    const config = this.customConfigs.get(agentType)
+    if (!config) {
+      throw new ValidationError('agent', `Unknown agent type ${agentType}`)
+    }
+    return config
   }
 }
 
@@ -566,7 +586,7 @@ export class AgentStateMachineFactory {
 export class AgentStateMachineManager {
   private readonly stateMachines = new Map<string, AgentStateMachine>()
 
-  getOrCreate(agentId: string, agentType: AgentType): AgentStateMachine {
+  getOrCreate(agentId: string, agentType: AgentRole): AgentStateMachine {
     let stateMachine = this.stateMachines.get(agentId)
     
     if (!stateMachine) {
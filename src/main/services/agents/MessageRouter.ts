@@ -5,9 +5,11 @@
  * which agent should respond based on content, intent, and project context.
  */
 
-import { AgentType } from '@/shared/contracts/AgentDomain'
-import { DomainError, Err, GenericDomainError, Ok, Result } from '@/shared/contracts/common'
+import { AgentRole, AgentType, CustomPersonaDefinition, IntentClassifierKind } from '@/shared/contracts/AgentDomain'
+import { DomainError, Err, GenericDomainError, Ok, Result, ValidationError } from '@/shared/contracts/common'
 import { IMemoryDomainService } from '@/shared/contracts/MemoryDomain'
+import { EmbeddingIntentClassifier } from './routing/EmbeddingIntentClassifier'
+import { RoutingFeedbackService } from './routing/RoutingFeedbackService'
 
 // =============================================================================
 // Types and Interfaces
@@ -35,11 +37,26 @@ export enum UserIntent {
 }
 
 export interface RoutingResult {
-  readonly primaryAgent: AgentType
-  readonly secondaryAgents: AgentType[]
+  readonly primaryAgent: AgentRole
+  readonly secondaryAgents: AgentRole[]
   readonly confidence: number
   readonly reasoning: string
   readonly suggestedResponse?: string
+  readonly intent: UserIntent
+  readonly intentClassifier: IntentClassifierKind
+}
+
+export interface IntentClassification {
+  readonly intent: UserIntent
+  readonly confidence: number
+  readonly classifier: IntentClassifierKind
+}
+
+export interface RoutingOptions {
+  /**
+   * Bring in every agent with something to add, even when the primary agent is confident
+   */
+  readonly roundTable?: boolean
 }
 
 export interface AgentCapabilities {
@@ -49,18 +66,27 @@ export interface AgentCapabilities {
   readonly confidence: (context: MessageContext) => number
 }
 
+// Share of an intent's keywords a message must contain before the embedding classifier is skipped
+const DEFAULT_KEYWORD_CONFIDENCE_THRESHOLD = 0.2
+
 // =============================================================================
 // Message Router Implementation
 // =============================================================================
 
 export class MessageRouter {
-  private readonly agentCapabilities: Record<AgentType, AgentCapabilities>
+  private readonly agentCapabilities: Record<AgentRole, AgentCapabilities>
+  private readonly customPersonas = new Map<AgentRole, CustomPersonaDefinition>()
   private readonly intentClassifier: IntentClassifier
 
   constructor(
-    private readonly memoryService?: IMemoryDomainService
+    private readonly memoryService?: IMemoryDomainService,
+    customPersonas: CustomPersonaDefinition[] = [],
+    private readonly embeddingClassifier?: EmbeddingIntentClassifier,
+    private readonly routingFeedback?: RoutingFeedbackService,
+    private readonly keywordConfidenceThreshold = DEFAULT_KEYWORD_CONFIDENCE_THRESHOLD
   ) {
     this.agentCapabilities = this.initializeAgentCapabilities()
+    customPersonas.forEach(persona => this.registerCustomPersona(persona))
     this.intentClassifier = new IntentClassifier()
   }
 
@@ -68,11 +94,14 @@ export class MessageRouter {
   // Public API
   // =============================================================================
 
-  async routeMessage(context: MessageContext): Promise<Result<RoutingResult, DomainError>> {
+  async routeMessage(
+    context: MessageContext,
+    options: RoutingOptions = {}
+  ): Promise<Result<RoutingResult, DomainError>> {
     try {
       // 1. Classify user intent
-      const intent = await this.classifyIntent(context)
-      const enhancedContext = { ...context, userIntent: intent }
+      const classification = await this.classifyIntent(context)
+      const enhancedContext = { ...context, userIntent: classification.intent }
 
       // 2. Search for relevant memories to enhance context
       const memories = await this.getRelevantMemories(enhancedContext)
@@ -82,7 +111,7 @@ export class MessageRouter {
       const scores = await this.calculateAgentConfidence(contextWithMemories)
 
       // 4. Determine routing result
-      const routing = this.determineRouting(scores, contextWithMemories)
+      const routing = this.determineRouting(scores, contextWithMemories, classification, options)
 
       return Ok(routing)
     } catch (error) {
@@ -96,22 +125,33 @@ export class MessageRouter {
   }
 
   async routeWithExplicitTarget(
-    targetAgent: AgentType,
-    context: MessageContext
+    targetAgent: AgentRole,
+    context: MessageContext,
+    options: RoutingOptions = {}
   ): Promise<Result<RoutingResult, DomainError>> {
+    const capabilities = this.agentCapabilities[targetAgent]
+    if (!capabilities) {
+      return Err(new ValidationError('agent', `Unknown agent ${targetAgent}`))
+    }
+
     try {
-      const intent = await this.classifyIntent(context)
-      const capabilities = this.agentCapabilities[targetAgent]
+      const classification = await this.classifyIntent(context)
       
       // Calculate confidence for explicit targeting
-      const confidence = capabilities.confidence({ ...context, userIntent: intent })
+      const enhancedContext = { ...context, userIntent: classification.intent }
+      const confidence = capabilities.confidence(enhancedContext)
+      const secondaryAgents = options.roundTable
+        ? this.determineSecondaryAgents(await this.calculateAgentConfidence(enhancedContext), enhancedContext, targetAgent, confidence, options)
+        : []
       
       return Ok({
         primaryAgent: targetAgent,
-        secondaryAgents: [],
+        secondaryAgents,
         confidence,
         reasoning: `Explicitly targeted to ${targetAgent}`,
-        suggestedResponse: this.generateSuggestedResponse(targetAgent, context)
+        suggestedResponse: this.generateSuggestedResponse(targetAgent, context),
+        intent: classification.intent,
+        intentClassifier: classification.classifier
       })
     } catch (error) {
       return Err(new GenericDomainError(
@@ -127,8 +167,21 @@ export class MessageRouter {
   // Intent Classification
   // =============================================================================
 
-  private async classifyIntent(context: MessageContext): Promise<UserIntent> {
-    return this.intentClassifier.classify(context)
+  /**
+   * Keywords decide when they clearly point at one intent; otherwise the
+   * message is compared to labeled examples, and the keyword guess is kept
+   * only when no example is similar enough
+   */
+  private async classifyIntent(context: MessageContext): Promise<IntentClassification> {
+    const keyword = this.intentClassifier.classify(context)
+    if (keyword.confidence >= this.keywordConfidenceThreshold || !this.embeddingClassifier) {
+      return keyword
+    }
+
+    const match = await this.embeddingClassifier.classify(context.content, context.projectId)
+    return match
+      ? { intent: match.intent, confidence: match.similarity, classifier: 'embedding' }
+      : keyword
   }
 
   // =============================================================================
@@ -137,11 +190,16 @@ export class MessageRouter {
 
   private async calculateAgentConfidence(
     context: MessageContext
-  ): Promise<Record<AgentType, number>> {
-    const scores: Record<AgentType, number> = {} as Record<AgentType, number>
+  ): Promise<Record<AgentRole, number>> {
+    const scores = {} as Record<AgentRole, number>
+    // Past corrections in the project shift scores towards the agents the user picked for this intent
+    const adjustments = context.userIntent
+      ? this.routingFeedback?.getWeightAdjustments(context.projectId, context.userIntent) ?? {}
+      : {}
 
     for (const [agentType, capabilities] of Object.entries(this.agentCapabilities)) {
-      scores[agentType as AgentType] = capabilities.confidence(context)
+      const score = capabilities.confidence(context) + (adjustments[agentType] ?? 0)
+      scores[agentType] = Math.max(0, Math.min(score, 1.0))
     }
 
     return scores
@@ -152,25 +210,28 @@ export class MessageRouter {
   // =============================================================================
 
   private determineRouting(
-    scores: Record<AgentType, number>,
-    context: MessageContext
+    scores: Record<AgentRole, number>,
+    context: MessageContext,
+    classification: IntentClassification,
+    options: RoutingOptions
   ): RoutingResult {
     // Sort agents by confidence score
     const sortedAgents = Object.entries(scores)
       .sort(([, a], [, b]) => b - a)
-      .map(([agentType]) => agentType as AgentType)
+      .map(([agentType]) => agentType)
 
     const primaryAgent = sortedAgents[0]
     const primaryScore = scores[primaryAgent]
 
     // Determine if collaboration is needed
-    const secondaryAgents = this.determineSecondaryAgents(scores, context, primaryScore)
+    const secondaryAgents = this.determineSecondaryAgents(scores, context, primaryAgent, primaryScore, options)
 
     const reasoning = this.generateRoutingReasoning(
       primaryAgent,
       primaryScore,
       secondaryAgents,
-      context
+      context,
+      classification.classifier
     )
 
     return {
@@ -178,30 +239,36 @@ export class MessageRouter {
       secondaryAgents,
       confidence: primaryScore,
       reasoning,
-      suggestedResponse: this.generateSuggestedResponse(primaryAgent, context)
+      suggestedResponse: this.generateSuggestedResponse(primaryAgent, context),
+      intent: classification.intent,
+      intentClassifier: classification.classifier
     }
   }
 
   private determineSecondaryAgents(
-    scores: Record<AgentType, number>,
+    scores: Record<AgentRole, number>,
     _context: MessageContext,
-    primaryScore: number
-  ): AgentType[] {
-    const secondaryThreshold = 0.7
+    primaryAgent: AgentRole,
+    primaryScore: number,
+    options: RoutingOptions = {}
+  ): AgentRole[] {
+    // A round table asks for second opinions, so any agent with relevant expertise may join
+    const secondaryThreshold = options.roundTable ? 0.5 : 0.7
     const collaborationThreshold = 0.8
 
     // If primary agent has high confidence, no collaboration needed
-    if (primaryScore >= collaborationThreshold) {
+    if (!options.roundTable && primaryScore >= collaborationThreshold) {
       return []
     }
 
-    // Find agents with scores above secondary threshold
+    // Find agents with scores above secondary threshold, strongest first
     return Object.entries(scores)
       .filter(([agentType, score]) => 
         score >= secondaryThreshold && 
-        agentType !== Object.keys(scores)[0] // Not the primary agent
+        agentType !== primaryAgent
       )
-      .map(([agentType]) => agentType as AgentType)
+      .sort(([, a], [, b]) => b - a)
+      .map(([agentType]) => agentType)
       .slice(0, 2) // Max 2 secondary agents
   }
 
@@ -236,7 +303,7 @@ export class MessageRouter {
   // Agent Capabilities Configuration
   // =============================================================================
 
-  private initializeAgentCapabilities(): Record<AgentType, AgentCapabilities> {
+  private initializeAgentCapabilities(): Record<AgentRole, AgentCapabilities> {
     return {
       [AgentType.PRODUCER]: {
         expertise: [
@@ -321,6 +388,18 @@ export class MessageRouter {
     }
   }
 
+  private registerCustomPersona(persona: CustomPersonaDefinition): void {
+    const capabilities: AgentCapabilities = {
+      expertise: persona.capabilities,
+      keywords: persona.routing.keywords,
+      // Intents are checked against UserIntent when the persona config is loaded
+      intentMatches: persona.routing.intents as UserIntent[],
+      confidence: (context) => this.calculateCustomPersonaConfidence(context, capabilities)
+    }
+    this.agentCapabilities[persona.id] = capabilities
+    this.customPersonas.set(persona.id, persona)
+  }
+
   // =============================================================================
   // Agent-Specific Confidence Calculations
   // =============================================================================
@@ -420,6 +499,21 @@ export class MessageRouter {
     return Math.min(confidence, 1.0)
   }
 
+  private calculateCustomPersonaConfidence(context: MessageContext, capabilities: AgentCapabilities): number {
+    let confidence = 0.2
+
+    // Intent matching
+    if (context.userIntent && capabilities.intentMatches.includes(context.userIntent)) {
+      confidence += 0.5
+    }
+
+    // Keyword matching is all a custom persona has to go on beyond its intents
+    const keywordMatches = this.countKeywordMatches(context.content, capabilities.keywords)
+    confidence += Math.min(keywordMatches * 0.2, 0.6)
+
+    return Math.min(confidence, 1.0)
+  }
+
   // =============================================================================
   // Pattern Detection Helpers
   // =============================================================================
@@ -465,44 +559,46 @@ export class MessageRouter {
   // =============================================================================
 
   private generateRoutingReasoning(
-    primaryAgent: AgentType,
+    primaryAgent: AgentRole,
     confidence: number,
-    secondaryAgents: AgentType[],
-    context: MessageContext
+    secondaryAgents: AgentRole[],
+    context: MessageContext,
+    classifier: IntentClassifierKind
   ): string {
     const agentName = this.getAgentName(primaryAgent)
     const intent = context.userIntent || 'general inquiry'
+    const intentSource = classifier === 'embedding' ? 'similar example messages' : 'keywords'
     
     let reasoning = `Routed to ${agentName} (${Math.round(confidence * 100)}% confidence) `
-    reasoning += `based on ${intent} intent and content analysis.`
+    reasoning += `based on ${intent} intent (matched by ${intentSource}) and content analysis.`
 
     if (secondaryAgents.length > 0) {
-      const secondaryNames = secondaryAgents.map(this.getAgentName).join(', ')
+      const secondaryNames = secondaryAgents.map(agent => this.getAgentName(agent)).join(', ')
       reasoning += ` Collaboration with ${secondaryNames} may be beneficial.`
     }
 
     return reasoning
   }
 
-  private generateSuggestedResponse(agentType: AgentType, _context: MessageContext): string {
-    const suggestions = {
+  private generateSuggestedResponse(agentType: AgentRole, _context: MessageContext): string {
+    const suggestions: Record<AgentRole, string> = {
       [AgentType.PRODUCER]: "I'll help you organize this project and clarify the requirements.",
       [AgentType.ARCHITECT]: "Let me analyze the technical requirements and design approach.",
       [AgentType.ENGINEER]: "I'll help implement this feature and write the necessary code.",
       [AgentType.QA]: "I'll help ensure this meets quality standards and create appropriate tests."
     }
 
-    return suggestions[agentType]
+    return suggestions[agentType] ?? `I'll look into this as the team's ${this.getAgentName(agentType)}.`
   }
 
-  private getAgentName(agentType: AgentType): string {
-    const names = {
+  private getAgentName(agentType: AgentRole): string {
+    const names: Record<AgentRole, string> = {
       [AgentType.PRODUCER]: 'Producer',
       [AgentType.ARCHITECT]: 'Architect',
       [AgentType.ENGINEER]: 'Engineer',
       [AgentType.QA]: 'QA'
     }
-    return names[agentType]
+    return names[agentType] ?? this.customPersonas.get(agentType)?.name ?? agentType
   }
 }
 
@@ -554,7 +650,10 @@ class IntentClassifier {
     }
   }
 
-  classify(context: MessageContext): UserIntent {
+  /**
+   * Confidence is the share of the top intent's keywords the message contains
+   */
+  classify(context: MessageContext): IntentClassification {
     const content = context.content.toLowerCase()
     const scores: Record<UserIntent, number> = {} as Record<UserIntent, number>
 
@@ -572,9 +671,9 @@ class IntentClassifier {
 
     // If no clear intent, default to general question
     if (topScore < 0.1) {
-      return UserIntent.GENERAL_QUESTION
+      return { intent: UserIntent.GENERAL_QUESTION, confidence: topScore, classifier: 'keyword' }
     }
 
-    return topIntent as UserIntent
+    return { intent: topIntent as UserIntent, confidence: topScore, classifier: 'keyword' }
   }
 }
\ No newline at end of file
@@ -0,0 +1,292 @@
+/**
+ * Action Approval Queue
+ *
+ * Holds agent actions that need the user's confirmation, such as writing
+ * files, until they are approved or rejected. Approving runs the action,
+ * optionally with edited parameters. Every decision is appended to an audit
+ * log that is persisted across restarts; pending approvals are not, since the
+ * agent that would run them is gone after a restart.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ActionApproval,
+  ActionApprovalDecision,
+  ActionApprovalFilter,
+  ActionApprovalRecord,
+  ActionApprovalStatus,
+  AgentAction,
+  AgentRole
+} from '@/shared/contracts/AgentDomain'
+import {
+  BusinessRuleViolationError,
+  DomainError,
+  EntityNotFoundError,
+  Err,
+  GenericDomainError,
+  Ok,
+  Result
+} from '@/shared/contracts/common'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ApprovalHandlers {
+  /**
+   * Runs the approved action with its final parameters
+   */
+  execute(parameters: Record<string, unknown>): Promise<Record<string, unknown> | void>
+  /**
+   * Cleans up after a rejection, such as discarding a proposed change set
+   */
+  reject?(): Promise<void>
+}
+
+/**
+ * Runs an approved action on behalf of its agent, such as with the agent's state for the approval's project
+ */
+export type ApprovedActionRunner = <T>(approval: ActionApproval, execute: () => Promise<T>) => Promise<T>
+
+export interface ApprovalRequest {
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly action: AgentAction
+  readonly handlers: ApprovalHandlers
+}
+
+export interface ActionApprovalQueueConfig {
+  /**
+   * JSON file the decision log is persisted to; kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  readonly maxRecords: number
+}
+
+interface DecisionLogFile {
+  readonly version: number
+  readonly records: ActionApprovalRecord[]
+}
+
+const DECISION_LOG_VERSION = 1
+
+// =============================================================================
+// Action Approval Queue Implementation
+// =============================================================================
+
+export class ActionApprovalQueue extends EventEmitter {
+  private readonly config: ActionApprovalQueueConfig
+  private readonly approvals = new Map<string, ActionApproval>()
+  private readonly handlers = new Map<string, ApprovalHandlers>()
+  private records: ActionApprovalRecord[] = []
+  private actionRunner?: ApprovedActionRunner
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: ActionApprovalQueueConfig) {
+    super()
+    this.config = config
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const log = JSON.parse(data) as DecisionLogFile
+      if (log.version !== DECISION_LOG_VERSION) {
+        console.warn(`Ignoring approval decision log with unsupported version ${log.version}`)
+        return
+      }
+      this.records = log.records.map(record => ({ ...record, decidedAt: new Date(record.decidedAt) }))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load approval decision log:', error)
+      }
+    }
+  }
+
+  /**
+   * Route approved actions through `runner`; without one they run as soon as they are approved
+   */
+  setActionRunner(runner?: ApprovedActionRunner): void {
+    this.actionRunner = runner
+  }
+
+  enqueue(request: ApprovalRequest): ActionApproval {
+    const approval: ActionApproval = {
+      id: uuidv4(),
+      agentType: request.agentType,
+      projectId: request.projectId,
+      action: { ...request.action, confirmation: true },
+      status: 'pending',
+      createdAt: new Date()
+    }
+
+    this.approvals.set(approval.id, approval)
+    this.handlers.set(approval.id, request.handlers)
+    this.emit('approval-updated', approval)
+    return approval
+  }
+
+  get(id: string): ActionApproval | undefined {
+    return this.approvals.get(id)
+  }
+
+  list(filter: ActionApprovalFilter = {}): ActionApproval[] {
+    return Array.from(this.approvals.values())
+      .filter(approval => filter.projectId === undefined || approval.projectId === filter.projectId)
+      .filter(approval => filter.status === undefined || approval.status === filter.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  /**
+   * Decisions made so far, newest first
+   */
+  getDecisionLog(filter: Pick<ActionApprovalFilter, 'projectId'> = {}): ActionApprovalRecord[] {
+    return this.records
+      .filter(record => filter.projectId === undefined || record.projectId === filter.projectId)
+      .slice()
+      .reverse()
+  }
+
+  /**
+   * Run a pending action, with `decision.parameters` in place of the proposed ones when given
+   */
+  async approve(id: string, decision: ActionApprovalDecision = {}): Promise<Result<ActionApproval, DomainError>> {
+    const pending = this.getPending(id)
+    if (!pending.success) {
+      return pending
+    }
+
+    const parameters = decision.parameters ?? pending.data.action.parameters
+    const approved = this.update(pending.data, 'approved', {
+      action: { ...pending.data.action, parameters },
+      decidedAt: new Date(),
+      reason: decision.reason
+    })
+    this.record(approved, 'approved', decision.parameters !== undefined)
+
+    const handlers = this.handlers.get(id)
+    this.handlers.delete(id)
+    try {
+      const execute = async () => handlers?.execute(parameters)
+      const result = await (this.actionRunner ? this.actionRunner(approved, execute) : execute())
+      return Ok(this.update(approved, 'executed', { result: result || undefined }))
+    } catch (error) {
+      const message = (error as Error).message
+      this.update(approved, 'failed', { error: message })
+      return Err(error instanceof DomainError
+        ? error
+        : new GenericDomainError('ACTION_FAILED', 'agent', `${approved.action.type} failed: ${message}`, error as Error))
+    }
+  }
+
+  async reject(id: string, decision: Pick<ActionApprovalDecision, 'reason'> = {}): Promise<Result<ActionApproval, DomainError>> {
+    const pending = this.getPending(id)
+    if (!pending.success) {
+      return pending
+    }
+
+    const rejected = this.update(pending.data, 'rejected', { decidedAt: new Date(), reason: decision.reason })
+    this.record(rejected, 'rejected', false)
+
+    const handlers = this.handlers.get(id)
+    this.handlers.delete(id)
+    try {
+      await handlers?.reject?.()
+    } catch (error) {
+      console.error(`Failed to clean up after rejecting ${rejected.action.type}:`, error)
+    }
+    return Ok(rejected)
+  }
+
+  /**
+   * Resolves once pending decision log writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private getPending(id: string): Result<ActionApproval, DomainError> {
+    const approval = this.approvals.get(id)
+    if (!approval) {
+      return Err(new EntityNotFoundError('approval', id))
+    }
+    if (approval.status !== 'pending') {
+      return Err(new BusinessRuleViolationError('agent', `Approval ${id} is already ${approval.status}`))
+    }
+    return Ok(approval)
+  }
+
+  private update(
+    approval: ActionApproval,
+    status: ActionApprovalStatus,
+    changes: Partial<Omit<ActionApproval, 'id' | 'status'>>
+  ): ActionApproval {
+    const updated: ActionApproval = { ...approval, ...changes, status }
+    this.approvals.set(approval.id, updated)
+    this.emit('approval-updated', updated)
+    return updated
+  }
+
+  private record(approval: ActionApproval, decision: ActionApprovalRecord['decision'], parametersEdited: boolean): void {
+    this.records.push({
+      approvalId: approval.id,
+      agentType: approval.agentType,
+      projectId: approval.projectId,
+      actionType: approval.action.type,
+      decision,
+      parameters: approval.action.parameters,
+      parametersEdited,
+      reason: approval.reason,
+      decidedAt: approval.decidedAt ?? new Date()
+    })
+    if (this.records.length > this.config.maxRecords) {
+      this.records = this.records.slice(-this.config.maxRecords)
+    }
+    this.scheduleSave()
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save approval decision log:', error))
+  }
+
+  private async save(): Promise<void> {
+    const log: DecisionLogFile = {
+      version: DECISION_LOG_VERSION,
+      records: this.records
+    }
+
+    await fs.mkdir(path.dirname(this.config.storagePath!), { recursive: true })
+    await fs.writeFile(this.config.storagePath!, JSON.stringify(log, null, 2))
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_ACTION_APPROVAL_QUEUE_CONFIG: ActionApprovalQueueConfig = {
+  maxRecords: 1000
+}
+
+export function createActionApprovalQueue(config?: Partial<ActionApprovalQueueConfig>): ActionApprovalQueue {
+  return new ActionApprovalQueue({ ...DEFAULT_ACTION_APPROVAL_QUEUE_CONFIG, ...config })
+}
+
+export default ActionApprovalQueue
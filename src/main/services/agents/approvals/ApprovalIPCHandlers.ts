@@ -0,0 +1,121 @@
+/**
+ * Approval IPC Handlers
+ *
+ * Backs the renderer's approvals inbox: lists agent actions waiting for
+ * confirmation, approves them (optionally with edited parameters) or rejects
+ * them, and exposes the log of past decisions.
+ */
+
+import { BrowserWindow, app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { ActionApproval } from '@/shared/contracts/AgentDomain'
+import { ActionApprovalQueue, createActionApprovalQueue } from './ActionApprovalQueue'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const ApprovalFilterSchema = z.object({
+  projectId: z.string().optional(),
+  status: z.enum(['pending', 'approved', 'rejected', 'executed', 'failed']).optional()
+})
+
+const ApproveSchema = z.object({
+  id: z.string(),
+  parameters: z.record(z.unknown()).optional(),
+  reason: z.string().max(2000).optional()
+})
+
+const RejectSchema = z.object({
+  id: z.string(),
+  reason: z.string().max(2000).optional()
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class ApprovalIPCHandlers {
+  private readonly approvalQueue: ActionApprovalQueue
+  private readonly onApprovalUpdated = (approval: ActionApproval) => {
+    this.sendToRenderer('approvals:updated', approval)
+  }
+
+  constructor() {
+    this.approvalQueue = createActionApprovalQueue({
+      storagePath: path.join(app.getPath('userData'), 'app-data', 'approval-decisions.json')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.approvalQueue.initialize()
+    this.registerHandlers()
+    this.approvalQueue.on('approval-updated', this.onApprovalUpdated)
+    console.log('Approval IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.approvalQueue.off('approval-updated', this.onApprovalUpdated)
+    await this.approvalQueue.flush()
+
+    const handlers = [
+      'approvals:list',
+      'approvals:get',
+      'approvals:approve',
+      'approvals:reject',
+      'approvals:decisions'
+    ]
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+  }
+
+  getApprovalQueue(): ActionApprovalQueue {
+    return this.approvalQueue
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('approvals:list', async (_event, filter: unknown) => {
+      return this.approvalQueue.list(ApprovalFilterSchema.parse(filter ?? {}))
+    })
+
+    ipcMain.handle('approvals:get', async (_event, id: unknown) => {
+      return this.approvalQueue.get(z.string().parse(id)) ?? null
+    })
+
+    ipcMain.handle('approvals:approve', async (_event, input: unknown) => {
+      const { id, ...decision } = ApproveSchema.parse(input)
+      const result = await this.approvalQueue.approve(id, decision)
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+
+    ipcMain.handle('approvals:reject', async (_event, input: unknown) => {
+      const { id, ...decision } = RejectSchema.parse(input)
+      const result = await this.approvalQueue.reject(id, decision)
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+
+    ipcMain.handle('approvals:decisions', async (_event, filter: unknown) => {
+      return this.approvalQueue.getDecisionLog(ApprovalFilterSchema.pick({ projectId: true }).parse(filter ?? {}))
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
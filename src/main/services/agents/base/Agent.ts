@@ -6,26 +6,50 @@
  * tool execution, and memory integration.
  */
 
+import { AsyncLocalStorage } from 'async_hooks'
 import { EventEmitter } from 'events'
 import { v4 as uuidv4 } from 'uuid'
 import {
+  ActionApproval,
+  AgentAction,
+  AgentArtifactRecord,
   AgentConfiguration,
   Agent as AgentEntity,
+  AgentError,
   AgentErrorOccurredEvent,
   AgentMessage,
   AgentMessageSchema,
   AgentNotAvailableError,
   AgentResponse,
+  AgentResponseChunkEvent,
+  AgentResponseCompletedEvent,
+  AgentRole,
   AgentStatistics,
   AgentStatus,
   AgentStatusChangedEvent,
+  AgentThinkingStepRecord,
+  AgentToolInvokedEvent,
   AgentType,
+  AgentWorkArtifactEvent,
+  AgentWorkEndedEvent,
+  AgentWorkPhase,
+  AgentWorkProgressEvent,
+  AgentWorkStartedEvent,
   CollaborationContext,
   CollaborationStatus,
   IAgentDomainService,
+  LLMCallAttempt,
+  MessageCancelledError,
   MessageHistoryOptions,
+  PromptTemplateUsage,
   RateLimitExceededError,
-  SystemMetrics
+  SystemMetrics,
+  TokenUsage,
+  TokenUsageRecord,
+  ToolInvocationOutcome,
+  ToolInvocationRecord,
+  ToolPermissionDeniedError,
+  ToolTimeoutError
 } from '@/shared/contracts/AgentDomain'
 import {
   BusinessRuleViolationError,
@@ -39,6 +63,8 @@ import {
 } from '@/shared/contracts/common'
 import { IEventBus } from '@/shared/contracts/EventBus'
 import { AgentStateMachine } from '../AgentStateMachine'
+import { ActionApprovalQueue, ApprovalHandlers } from '../approvals/ActionApprovalQueue'
+import { PromptTemplateService, PromptVariablesFor, createPromptTemplateService } from '../prompts/PromptTemplateService'
 
 // =============================================================================
 // Base Agent Types
@@ -46,11 +72,13 @@ import { AgentStateMachine } from '../AgentStateMachine'
 
 export interface AgentContext {
   readonly agentId: string
-  readonly agentType: AgentType
+  readonly agentType: AgentRole
   readonly projectId?: string
   readonly taskId?: string
   readonly userId?: string
   readonly sessionId?: string
+  readonly messageId?: string
+  readonly threadId?: string
   readonly metadata: Record<string, unknown>
 }
 
@@ -59,23 +87,187 @@ export interface AgentTool {
   readonly description: string
   readonly parameters: Record<string, any>
   readonly requiredPermission: string
-  readonly allowedAgents: AgentType[]
+  readonly allowedAgents: AgentRole[]
   readonly timeoutMs: number
-  execute(params: unknown, context: AgentContext): Promise<any>
+  /**
+   * `signal` is aborted when the call runs past `timeoutMs`
+   */
+  execute(params: unknown, context: AgentContext, signal?: AbortSignal): Promise<any>
+}
+
+export interface LLMMessage {
+  readonly role: 'system' | 'user' | 'assistant'
+  readonly content: string
+}
+
+export interface LLMChatOptions {
+  /**
+   * Model identifier, optionally prefixed with a provider name
+   * (e.g. `bedrock:anthropic.claude-3-sonnet-20240229-v1:0`, `ollama:llama3`)
+   */
+  readonly model?: string
+  readonly temperature?: number
+  readonly maxTokens?: number
+  /**
+   * Tools the model may call; providers send them using their native tool-use API
+   */
+  readonly tools?: LLMToolDefinition[]
+  /**
+   * Per-attempt timeout, honoured by the resilient provider wrapper
+   */
+  readonly timeoutMs?: number
+  /**
+   * Models to try in order once retries on the primary model are exhausted
+   */
+  readonly fallbackModels?: string[]
+  /**
+   * Reports every attempt made for this call, including retries and fallbacks
+   */
+  readonly onAttempt?: (attempt: LLMCallAttempt) => void
+  /**
+   * Aborts the call, e.g. when the message it is made for is cancelled
+   */
+  readonly signal?: AbortSignal
+}
+
+export interface LLMToolDefinition {
+  readonly name: string
+  readonly description: string
+  /**
+   * JSON Schema describing the tool input
+   */
+  readonly inputSchema: Record<string, unknown>
+}
+
+export interface LLMToolCall {
+  readonly id: string
+  readonly name: string
+  readonly input: Record<string, unknown>
+}
+
+/**
+ * Action a persona can take, offered to the model as a tool
+ */
+export interface AgentActionDefinition extends LLMToolDefinition {
+  readonly requiresConfirmation?: boolean
+}
+
+export interface LLMCallOptions {
+  readonly systemPrompt?: string
+  readonly tools?: LLMToolDefinition[]
+}
+
+export interface LLMChatResult {
+  readonly content: string
+  /**
+   * Token usage as reported by the provider; absent when the backend does not report it
+   */
+  readonly usage?: TokenUsage
+  readonly toolCalls?: LLMToolCall[]
+}
+
+export interface LLMStreamChunk {
+  readonly delta: string
+  readonly done: boolean
+  readonly usage?: TokenUsage
+  /**
+   * Tool calls assembled from the stream; only set on the final chunk
+   */
+  readonly toolCalls?: LLMToolCall[]
 }
 
 export interface LLMProvider {
-  chat(messages: any[], options?: any): Promise<string>
+  chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult>
+  /**
+   * Incremental variant of `chat`. The final chunk has `done: true` and
+   * carries token usage when the provider reports it.
+   */
+  chatStream?(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk>
   generateEmbedding(text: string): Promise<number[]>
+  /**
+   * Model `generateEmbedding` currently uses; vectors from different models
+   * must not be compared with each other
+   */
+  getEmbeddingModel?(): string
   isAvailable(): boolean
 }
 
+export interface TokenBudgetCheck {
+  readonly agentId: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly tokensPerHour: number
+}
+
+/**
+ * Accounts for LLM token usage and decides whether an agent may spend more
+ */
+export interface TokenUsageTracker {
+  recordUsage(record: TokenUsageRecord): void
+  checkBudget(check: TokenBudgetCheck): Result<void, RateLimitExceededError>
+}
+
 export interface MemoryManager {
-  store(agentId: string, content: string, type: string): Promise<void>
-  retrieve(agentId: string, query: string, limit?: number): Promise<any[]>
+  /**
+   * `projectId` is the project of the message being processed, when it has one
+   */
+  store(agentId: string, content: string, type: string, projectId?: string): Promise<void>
+  retrieve(agentId: string, query: string, limit?: number, projectId?: string): Promise<any[]>
   forget(agentId: string, contentId: string): Promise<void>
 }
 
+/**
+ * A persona's working state for one project, such as its plans and open bugs.
+ * `version` is the persona's own state format, so older snapshots can be recognised.
+ */
+export interface PersonaStateSnapshot {
+  readonly version: number
+  readonly data: Record<string, unknown>
+}
+
+// Rounds of tool calls per LLM call before the model has to answer
+const MAX_TOOL_ROUNDS = 5
+// Tool results are cut off beyond this many characters before going back to the model
+const MAX_TOOL_RESULT_CHARS = 16000
+// Thinking steps and artifacts are cut off beyond this many characters before they are published
+const MAX_WORK_CONTENT_CHARS = 8000
+
+/**
+ * What an agent keeps track of for one message while it processes it
+ */
+interface MessageScope {
+  /**
+   * Project of the message, so LLM usage can be attributed to it
+   */
+  readonly projectId?: string
+  /**
+   * Templates rendered for the message, reported on its response
+   */
+  readonly promptUsage: PromptTemplateUsage[]
+  /**
+   * Work session of the message, reported as agent.work.* events
+   */
+  workSessionId?: string
+  /**
+   * Aborts the message's LLM calls when it is cancelled
+   */
+  readonly signal?: AbortSignal
+  /**
+   * No tools are offered, so the reply cannot lead to actions
+   */
+  readonly actionsDisabled?: boolean
+  /**
+   * Reported with the streamed reply so it can be matched to the message it follows up on
+   */
+  readonly parentMessageId?: string
+}
+
+type AgentWorkEvent = AgentWorkStartedEvent | AgentWorkProgressEvent | AgentWorkArtifactEvent | AgentWorkEndedEvent
+
+const truncateWorkContent = (content: string): string => content.length > MAX_WORK_CONTENT_CHARS
+  ? `${content.slice(0, MAX_WORK_CONTENT_CHARS)}\n[truncated ${content.length - MAX_WORK_CONTENT_CHARS} characters]`
+  : content
+
 // =============================================================================
 // Base Agent Implementation
 // =============================================================================
@@ -86,6 +278,8 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
   protected readonly eventBus: IEventBus
   protected readonly llmProvider: LLMProvider
   protected readonly memoryManager?: MemoryManager
+  protected readonly tokenUsageTracker?: TokenUsageTracker
+  protected readonly promptTemplates: PromptTemplateService
   protected readonly tools = new Map<string, AgentTool>()
   
   // Internal mutable state (not exposed through readonly interface)
@@ -99,13 +293,19 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
   private readonly messageHistory: AgentMessage[] = []
   private readonly activeCollaborations = new Set<string>()
   private rateLimitTracker = new Map<string, number[]>()
+  // An agent may work on several messages at once, each in its own scope
+  private readonly messageScope = new AsyncLocalStorage<MessageScope>()
+  private inFlightMessages = 0
+  private approvalQueue?: ActionApprovalQueue
 
   constructor(
     agentEntity: AgentEntity,
     stateMachine: AgentStateMachine,
     eventBus: IEventBus,
     llmProvider: LLMProvider,
-    memoryManager?: MemoryManager
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService
   ) {
     super()
     this.agentEntity = agentEntity
@@ -113,6 +313,8 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     this.eventBus = eventBus
     this.llmProvider = llmProvider
     this.memoryManager = memoryManager
+    this.tokenUsageTracker = tokenUsageTracker
+    this.promptTemplates = promptTemplates || createPromptTemplateService()
     
     // Initialize mutable state
     this.agentEntityState = {
@@ -124,7 +326,6 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
 
     this.setupStateMachineHandlers()
     this.setupEventBusHandlers()
-    this.initializeTools()
   }
 
   // =============================================================================
@@ -144,7 +345,7 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     return this.agentEntity.id
   }
 
-  get type(): AgentType {
+  get type(): AgentRole {
     return this.agentEntity.type
   }
 
@@ -183,6 +384,35 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     return this.stateMachine.hasError()
   }
 
+  /**
+   * Hold actions that need confirmation in `queue` until the user decides on them
+   */
+  attachApprovalQueue(queue: ActionApprovalQueue): void {
+    this.approvalQueue = queue
+  }
+
+  /**
+   * Offer tools from the tool library to the model alongside the persona's actions
+   */
+  attachTools(tools: AgentTool[]): void {
+    tools.forEach(tool => this.registerTool(tool))
+  }
+
+  /**
+   * Working state to keep for the current project; personas without any return undefined
+   */
+  exportState(): PersonaStateSnapshot | undefined {
+    return undefined
+  }
+
+  /**
+   * Replace the working state with one saved for another project, or start
+   * empty when there is none
+   */
+  importState(_snapshot: PersonaStateSnapshot | undefined): void {
+    // Stateless by default
+  }
+
   // =============================================================================
   // DomainService Implementation (Required methods)
   // =============================================================================
@@ -241,11 +471,11 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     return [this.agentEntity]
   }
 
-  async getAgentsByType(type: AgentType): Promise<AgentEntity[]> {
+  async getAgentsByType(type: AgentRole): Promise<AgentEntity[]> {
     return this.type === type ? [this.agentEntity] : []
   }
 
-  async getAgentByType(type: AgentType): Promise<AgentEntity> {
+  async getAgentByType(type: AgentRole): Promise<AgentEntity> {
     if (this.type !== type) {
       throw new ValidationError('agent', `This agent is type ${this.type}, not ${type}`)
     }
@@ -310,7 +540,13 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
   // Message Handling
   // =============================================================================
 
-  async sendMessage(message: AgentMessage): Promise<Result<AgentResponse, DomainError>> {
+  /**
+   * `signal` cancels the message, aborting any LLM call it is waiting on
+   */
+  async sendMessage(
+    message: AgentMessage,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<Result<AgentResponse, DomainError>> {
     try {
       // Validate message
       const validation = AgentMessageSchema.safeParse(message)
@@ -324,21 +560,34 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
         return Err(rateLimitCheck.error)
       }
 
+      // Check token budgets
+      const budgetCheck = this.checkTokenBudget(validation.data.projectId)
+      if (!budgetCheck.success) {
+        return Err(budgetCheck.error)
+      }
+
       // Check availability
-      if (!this.stateMachine.canTransition(AgentStatus.THINKING)) {
+      if (!this.canTakeMessage()) {
         return Err(new AgentNotAvailableError(this.id, this.status))
       }
 
       // Process message
       const context = this.createContext(message)
-      const response = await this.processMessageWithStateMachine(validation.data, context)
+      const response = await this.processMessageWithStateMachine(validation.data, context, options.signal)
       
       // Store in history
       this.addToMessageHistory(validation.data)
       
       return Ok(response)
     } catch (error) {
+      // Cancelling is the caller's choice, not an agent failure
+      if (options.signal?.aborted) {
+        return Err(new MessageCancelledError(message.id, error as Error))
+      }
       await this.handleError(error as Error, 'sendMessage')
+      if (error instanceof RateLimitExceededError) {
+        return Err(error)
+      }
       return Err(new GenericDomainError('MESSAGE_PROCESSING_FAILED', 'agent', 'Failed to process message', error as Error))
     }
   }
@@ -457,20 +706,21 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     if (this.id !== agentId) {
       throw new ValidationError('agent', `Cannot get statistics for different agent ${agentId}`)
     }
-    return this.agentEntity.statistics
+    return this.agentEntityState.statistics
   }
 
   async getSystemMetrics(): Promise<SystemMetrics> {
+    const statistics = this.agentEntityState.statistics
     return {
       totalAgents: 1,
       activeAgents: this.isAvailable() ? 1 : 0,
-      totalMessages: this.agentEntity.statistics.totalMessages,
-      averageResponseTime: this.agentEntity.statistics.averageResponseTime,
-      errorRate: 1 - this.agentEntity.statistics.successRate,
+      totalMessages: statistics.totalMessages,
+      averageResponseTime: statistics.averageResponseTime,
+      errorRate: 1 - statistics.successRate,
       resourceUsage: {
         memoryUsage: 0,
         cpuUsage: 0,
-        tokenUsage: this.agentEntity.statistics.totalTokensUsed,
+        tokenUsage: statistics.totalTokensUsed,
         apiCallsPerMinute: 0
       }
     }
@@ -496,64 +746,301 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
 
   protected async processMessageWithStateMachine(
     message: AgentMessage, 
-    context: AgentContext
+    context: AgentContext,
+    signal?: AbortSignal
   ): Promise<AgentResponse> {
-    // Transition to thinking
-    await this.stateMachine.transition(AgentStatus.THINKING, 'Processing message')
-    
-    try {
-      // Process the message using the persona-specific implementation
-      const response = await this.processAgentMessage(message, context)
-      
-      // Transition back to idle
-      await this.stateMachine.transition(AgentStatus.IDLE, 'Message processed')
-      
-      // Update statistics
-      this.updateStatistics('message_processed')
+    const scope: MessageScope = {
+      projectId: context.projectId,
+      promptUsage: [],
+      signal,
+      actionsDisabled: message.metadata?.actionsDisabled,
+      parentMessageId: message.metadata?.parentMessageId
+    }
+
+    return this.messageScope.run(scope, async () => {
+      // Transition to thinking with the first message; the last one to finish decides where the agent goes next
+      if (this.inFlightMessages++ === 0) {
+        await this.stateMachine.transition(AgentStatus.THINKING, 'Processing message')
+      }
+      this.startWorkSession(message, context)
+      let nextState = AgentStatus.IDLE
+      let reason = 'Message processed'
       
-      return response
-    } catch (error) {
-      // Transition to error state
-      await this.stateMachine.transition(AgentStatus.ERROR, (error as Error).message)
-      throw error
+      try {
+        // Process the message using the persona-specific implementation
+        const personaResponse = await this.processAgentMessage(message, context)
+        const response: AgentResponse = scope.promptUsage.length > 0
+          ? { ...personaResponse, promptTemplates: [...scope.promptUsage] }
+          : personaResponse
+        this.endWorkSession('completed')
+        
+        // Update statistics
+        this.updateStatistics('message_processed')
+        
+        return response
+      } catch (error) {
+        this.endWorkSession('failed', (error as Error).message)
+        reason = (error as Error).message
+        // Running out of budget or being cancelled is not a fault of the agent; it stays usable
+        if (!(error instanceof RateLimitExceededError) && !signal?.aborted) {
+          nextState = AgentStatus.ERROR
+        }
+        throw error
+      } finally {
+        if (--this.inFlightMessages === 0) {
+          await this.stateMachine.transition(nextState, reason)
+        }
+      }
+    })
+  }
+
+  /**
+   * Run an action right away, or hold it for approval when it needs
+   * confirmation. A held action comes back with its `approvalId`.
+   */
+  protected async executeOrQueue(
+    action: AgentAction,
+    context: AgentContext,
+    execute: (action: AgentAction) => Promise<AgentAction>
+  ): Promise<AgentAction> {
+    if (action.confirmation) {
+      const approval = this.queueForApproval(action, context, {
+        execute: async parameters => (await execute({ ...action, parameters })).parameters
+      })
+      if (approval) {
+        return { ...action, parameters: { ...action.parameters, approvalId: approval.id } }
+      }
     }
+    return execute(action)
   }
 
-  protected async callLLM(messages: any[], systemPrompt?: string): Promise<string> {
-    const fullMessages = [
-      { role: 'system', content: systemPrompt || this.getSystemPrompt() },
-      ...messages
-    ]
+  /**
+   * Hold an action until the user approves it, then run it for the same
+   * project. Without an approval queue nothing is held and undefined is returned.
+   */
+  protected queueForApproval(
+    action: AgentAction,
+    context: AgentContext,
+    handlers: ApprovalHandlers
+  ): ActionApproval | undefined {
+    if (!this.approvalQueue) {
+      return undefined
+    }
 
-    const options = {
-      temperature: this.configuration.temperature,
-      max_tokens: this.configuration.maxTokens
+    const { projectId } = context
+    return this.approvalQueue.enqueue({
+      agentType: this.type,
+      projectId,
+      action,
+      handlers: {
+        execute: parameters => this.withProject(projectId, () => handlers.execute(parameters)),
+        reject: handlers.reject
+      }
+    })
+  }
+
+  protected async callLLM(messages: LLMMessage[], systemPrompt?: string): Promise<string> {
+    const fullMessages = this.buildLLMMessages(messages, systemPrompt)
+
+    this.assertCanCallLLM()
+    const result = await this.llmProvider.chat(fullMessages, this.buildLLMChatOptions())
+    this.recordTokenUsage(fullMessages, result.content, result.usage)
+    return result.content
+  }
+
+  /**
+   * Like callLLM, but publishes the reply incrementally as agent.response.chunk
+   * events keyed by the originating message id, followed by agent.response.completed.
+   * Falls back to a single chunk when the provider cannot stream. Calls to
+   * registered tools are run and their results sent back to the model, which
+   * then continues its reply; the remaining tool calls are returned alongside the content.
+   */
+  protected async callLLMStream(
+    messages: LLMMessage[],
+    context: AgentContext,
+    callOptions: LLMCallOptions = {}
+  ): Promise<LLMChatResult> {
+    let conversation = messages
+    const actionCalls: LLMToolCall[] = []
+
+    for (let round = 1; ; round++) {
+      const result = await this.streamLLMCall(conversation, context, callOptions)
+      const toolCalls = result.toolCalls ?? []
+      const registeredCalls = toolCalls.filter(toolCall => this.tools.has(toolCall.name))
+      actionCalls.push(...toolCalls.filter(toolCall => !this.tools.has(toolCall.name)))
+
+      if (registeredCalls.length === 0 || round === MAX_TOOL_ROUNDS) {
+        if (registeredCalls.length > 0) {
+          console.warn(`Agent ${this.id} stopped after ${round} rounds of tool calls`)
+        }
+        return { ...result, toolCalls: actionCalls.length > 0 ? actionCalls : undefined }
+      }
+
+      const toolResults: string[] = []
+      for (const toolCall of registeredCalls) {
+        toolResults.push(await this.runToolCall(toolCall, context))
+      }
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: result.content.trim() || `Calling ${registeredCalls.map(toolCall => toolCall.name).join(', ')}` },
+        { role: 'user', content: `TOOL RESULTS:\n\n${toolResults.join('\n\n')}` }
+      ]
+    }
+  }
+
+  /**
+   * Render a prompt template, honouring overrides for the active project, and
+   * note the template version so it is reported on the response
+   */
+  protected renderPrompt<K extends string>(templateId: K, variables: PromptVariablesFor<K>): string {
+    const { text, usage } = this.promptTemplates.render(templateId, variables, this.activeProjectId)
+    const promptUsage = this.messageScope.getStore()?.promptUsage
+    if (promptUsage && !promptUsage.some(entry => entry.id === usage.id)) {
+      promptUsage.push(usage)
+    }
+    return text
+  }
+
+  /**
+   * Actions this persona can take. They are offered to the model as tools and
+   * the resulting tool calls come back as AgentActions.
+   */
+  protected getActionDefinitions(): AgentActionDefinition[] {
+    return []
+  }
+
+  /**
+   * Tool schemas sent with the response call: persona actions plus registered
+   * tools, or none for a message that has actions disabled
+   */
+  protected getToolDefinitions(): LLMToolDefinition[] {
+    if (this.messageScope.getStore()?.actionsDisabled) {
+      return []
     }
 
-    return this.llmProvider.chat(fullMessages, options)
+    const registeredTools = Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.parameters
+    }))
+    return [...this.getActionDefinitions(), ...registeredTools]
+  }
+
+  /**
+   * Map tool calls from the model onto AgentActions. Calls to unknown tools or
+   * with missing required parameters are reported as errors instead of being dropped.
+   */
+  protected mapToolCallsToActions(toolCalls: LLMToolCall[] = []): { actions: AgentAction[]; errors: AgentError[] } {
+    const definitions = new Map<string, AgentActionDefinition>(
+      this.getToolDefinitions().map(definition => [definition.name, definition])
+    )
+    const actions: AgentAction[] = []
+    const errors: AgentError[] = []
+
+    for (const toolCall of toolCalls) {
+      const definition = definitions.get(toolCall.name)
+      if (!definition) {
+        errors.push({
+          code: 'UNKNOWN_TOOL_CALL',
+          message: `Model called unknown tool ${toolCall.name}`,
+          severity: 'warning',
+          recoverable: true,
+          context: { toolCallId: toolCall.id }
+        })
+        continue
+      }
+
+      const required = (definition.inputSchema.required as string[] | undefined) || []
+      const missing = required.filter(parameter => toolCall.input[parameter] === undefined)
+      if (missing.length > 0) {
+        errors.push({
+          code: 'INVALID_TOOL_CALL',
+          message: `Tool call ${toolCall.name} is missing required parameters: ${missing.join(', ')}`,
+          severity: 'warning',
+          recoverable: true,
+          context: { toolCallId: toolCall.id, input: toolCall.input }
+        })
+        continue
+      }
+
+      actions.push({
+        type: toolCall.name,
+        description: definition.description,
+        parameters: toolCall.input,
+        confirmation: definition.requiresConfirmation ?? false
+      })
+    }
+
+    return { actions, errors }
   }
 
   protected async storeMemory(content: string, type: string = 'conversation'): Promise<void> {
     if (this.memoryManager) {
-      await this.memoryManager.store(this.id, content, type)
+      await this.memoryManager.store(this.id, content, type, this.activeProjectId)
     }
   }
 
   protected async retrieveMemory(query: string, limit: number = 5): Promise<any[]> {
     if (this.memoryManager) {
-      return this.memoryManager.retrieve(this.id, query, limit)
+      return this.memoryManager.retrieve(this.id, query, limit, this.activeProjectId)
     }
     return []
   }
 
-  protected async executeTool(toolName: string, parameters: unknown): Promise<any> {
+  /**
+   * Run a registered tool. The tool must allow this agent type, be among the
+   * agent's configured tools and require a permission the agent holds, and it
+   * is aborted once it runs past its timeout. Every call is logged, refused ones included.
+   */
+  protected async executeTool(
+    toolName: string,
+    parameters: unknown,
+    context: AgentContext = this.createContext()
+  ): Promise<unknown> {
+    const startedAt = Date.now()
+    const log = (outcome: ToolInvocationOutcome, result?: unknown, error?: Error) =>
+      this.logToolInvocation({
+        id: uuidv4(),
+        toolName,
+        agentId: this.id,
+        agentType: this.type,
+        projectId: context.projectId,
+        parameters,
+        outcome,
+        resultSize: result === undefined ? 0 : (JSON.stringify(result)?.length ?? 0),
+        durationMs: Date.now() - startedAt,
+        error: error?.message,
+        timestamp: new Date()
+      })
+
     const tool = this.tools.get(toolName)
-    if (!tool) {
-      throw new ValidationError('agent', `Tool ${toolName} not found`)
+    const denial = tool
+      ? this.checkToolAccess(tool)
+      : new ValidationError('agent', `Tool ${toolName} not found`)
+    if (!tool || denial) {
+      log('denied', undefined, denial)
+      throw denial
     }
 
-    const context = this.createContext()
-    return tool.execute(parameters, context)
+    const controller = new AbortController()
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(new ToolTimeoutError(tool.name, tool.timeoutMs))
+      }, tool.timeoutMs)
+    })
+
+    try {
+      const result = await Promise.race([tool.execute(parameters, context, controller.signal), timeout])
+      log('success', result)
+      return result
+    } catch (error) {
+      log(error instanceof ToolTimeoutError ? 'timeout' : 'failed', undefined, error as Error)
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
   }
 
   protected registerTool(tool: AgentTool): void {
@@ -571,6 +1058,8 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
       taskId: message?.taskId,
       userId: 'current-user', // Would be extracted from session
       sessionId: uuidv4(),
+      messageId: message?.id,
+      threadId: message?.metadata.threadId,
       metadata: message?.metadata.context || {}
     }
   }
@@ -593,6 +1082,121 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     this.eventBus.publishAsync(event)
   }
 
+  /**
+   * Move the work session of the message being processed to a phase, with
+   * what the agent concluded on the way. Does nothing outside of a message.
+   */
+  protected reportProgress(
+    phase: AgentWorkPhase,
+    progressPercentage: number,
+    thinkingStep?: Omit<AgentThinkingStepRecord, 'id' | 'timestamp'>
+  ): void {
+    if (!this.workSessionId) {
+      return
+    }
+    this.publishWorkEvent<AgentWorkProgressEvent>('agent.work.progress', {
+      sessionId: this.workSessionId,
+      phase,
+      progressPercentage: Math.min(100, Math.max(0, progressPercentage)),
+      thinkingStep: thinkingStep && {
+        ...thinkingStep,
+        id: uuidv4(),
+        content: truncateWorkContent(thinkingStep.content),
+        timestamp: new Date()
+      }
+    })
+  }
+
+  /**
+   * Report the actions the model chose for the message as a planning step
+   */
+  protected reportPlannedActions(actions: AgentAction[]): void {
+    this.reportProgress('implementing', 70, {
+      type: 'planning',
+      title: actions.length > 0 ? `Planned ${actions.length} action(s)` : 'Answered without actions',
+      content: actions.map(action => `- ${action.type}: ${action.description}`).join('\n') || 'The reply needed no follow-up actions.'
+    })
+  }
+
+  /**
+   * Report how the message's actions went; nothing is reported when there were none
+   */
+  protected reportActionResults(actions: AgentAction[], errors: AgentError[]): void {
+    if (actions.length === 0 && errors.length === 0) {
+      return
+    }
+    this.reportProgress('reviewing', 90, {
+      type: errors.length > 0 ? 'reflection' : 'execution',
+      title: errors.length > 0 ? `Ran ${actions.length} action(s) with ${errors.length} error(s)` : `Ran ${actions.length} action(s)`,
+      content: [
+        ...actions.map(action => `- ${action.type}${action.parameters.approvalId ? ' (awaiting approval)' : ''}`),
+        ...errors.map(error => `! ${error.message}`)
+      ].join('\n')
+    })
+  }
+
+  /**
+   * Record something the message's work produced, such as a change set or a
+   * test run. Actions run later, after an approval, are not part of the session.
+   */
+  protected reportArtifact(artifact: Omit<AgentArtifactRecord, 'id' | 'createdAt'>): void {
+    if (!this.workSessionId) {
+      return
+    }
+    this.publishWorkEvent<AgentWorkArtifactEvent>('agent.work.artifact', {
+      sessionId: this.workSessionId,
+      artifact: { ...artifact, id: uuidv4(), content: truncateWorkContent(artifact.content), createdAt: new Date() }
+    })
+  }
+
+  protected emitResponseChunk(messageId: string, delta: string, content: string, threadId?: string): void {
+    const event: AgentResponseChunkEvent = {
+      id: uuidv4(),
+      type: 'agent.response.chunk',
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload: {
+        messageId,
+        parentMessageId: this.messageScope.getStore()?.parentMessageId,
+        delta,
+        content,
+        threadId
+      }
+    }
+    this.eventBus.publishAsync(event)
+  }
+
+  protected emitResponseCompleted(messageId: string, content: string, threadId?: string, usage?: TokenUsage): void {
+    const event: AgentResponseCompletedEvent = {
+      id: uuidv4(),
+      type: 'agent.response.completed',
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload: {
+        messageId,
+        parentMessageId: this.messageScope.getStore()?.parentMessageId,
+        content,
+        threadId,
+        usage
+      }
+    }
+    this.eventBus.publishAsync(event)
+  }
+
+  /**
+   * Run work that happens outside a message, such as an approved action or an
+   * answered question, attributed to the project it belongs to
+   */
+  protected async withProject<T>(projectId: string | undefined, run: () => Promise<T>): Promise<T> {
+    return this.messageScope.run({ promptUsage: [], ...this.messageScope.getStore(), projectId }, run)
+  }
+
   // =============================================================================
   // Private Implementation
   // =============================================================================
@@ -622,9 +1226,110 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     })
   }
 
-  private initializeTools(): void {
-    // Base tools available to all agents would be registered here
-    // Implementation would load tools based on agent configuration
+  private get activeProjectId(): string | undefined {
+    return this.messageScope.getStore()?.projectId
+  }
+
+  private get workSessionId(): string | undefined {
+    return this.messageScope.getStore()?.workSessionId
+  }
+
+  /**
+   * An idle agent takes a message; a busy one takes more up to its concurrent task limit
+   */
+  private canTakeMessage(): boolean {
+    if (this.inFlightMessages === 0) {
+      return this.stateMachine.canTransition(AgentStatus.THINKING)
+    }
+    return this.inFlightMessages < this.configuration.rateLimits.maxConcurrentTasks &&
+      (this.stateMachine.isBusy() || this.stateMachine.isAvailable())
+  }
+
+  private startWorkSession(message: AgentMessage, context: AgentContext): void {
+    const scope = this.messageScope.getStore()
+    if (!scope) {
+      return
+    }
+    scope.workSessionId = uuidv4()
+    this.publishWorkEvent<AgentWorkStartedEvent>('agent.work.started', {
+      sessionId: scope.workSessionId,
+      messageId: message.id,
+      projectId: context.projectId,
+      taskId: context.taskId,
+      objective: message.content.length > 200 ? `${message.content.slice(0, 200)}…` : message.content
+    })
+  }
+
+  private endWorkSession(status: AgentWorkEndedEvent['payload']['status'], error?: string): void {
+    const scope = this.messageScope.getStore()
+    if (!scope?.workSessionId) {
+      return
+    }
+    this.publishWorkEvent<AgentWorkEndedEvent>('agent.work.ended', { sessionId: scope.workSessionId, status, error })
+    scope.workSessionId = undefined
+  }
+
+  private publishWorkEvent<E extends AgentWorkEvent>(type: E['type'], payload: E['payload']): void {
+    const event = {
+      id: uuidv4(),
+      type,
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload
+    } as E
+    this.eventBus.publishAsync(event)
+  }
+
+  private checkToolAccess(tool: AgentTool): ToolPermissionDeniedError | undefined {
+    if (!tool.allowedAgents.includes(this.type)) {
+      return new ToolPermissionDeniedError(tool.name, this.type, 'the tool does not allow this agent type')
+    }
+    if (!this.configuration.tools.includes(tool.name)) {
+      return new ToolPermissionDeniedError(tool.name, this.type, 'the tool is not among the agent\'s configured tools')
+    }
+    if (!(this.configuration.permissions ?? []).includes(tool.requiredPermission)) {
+      return new ToolPermissionDeniedError(tool.name, this.type, `the ${tool.requiredPermission} permission is required`)
+    }
+    return undefined
+  }
+
+  /**
+   * Run a tool call from the model and describe the outcome for the model;
+   * failures are reported back rather than ending the reply
+   */
+  private async runToolCall(toolCall: LLMToolCall, context: AgentContext): Promise<string> {
+    try {
+      const result = JSON.stringify(await this.executeTool(toolCall.name, toolCall.input, context) ?? null, null, 2)
+      const text = result.length > MAX_TOOL_RESULT_CHARS
+        ? `${result.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated ${result.length - MAX_TOOL_RESULT_CHARS} characters]`
+        : result
+      return `${toolCall.name} (${toolCall.id}) returned:\n${text}`
+    } catch (error) {
+      return `${toolCall.name} (${toolCall.id}) failed: ${(error as Error).message}`
+    }
+  }
+
+  private logToolInvocation(invocation: ToolInvocationRecord): void {
+    const parameters = JSON.stringify(invocation.parameters) ?? ''
+    console.log(
+      `Tool ${invocation.toolName} called by ${invocation.agentType}: ${invocation.outcome} in ${invocation.durationMs}ms, ` +
+      `${invocation.resultSize} chars, parameters ${parameters.length > 200 ? `${parameters.slice(0, 200)}…` : parameters}`
+    )
+
+    const event: AgentToolInvokedEvent = {
+      id: uuidv4(),
+      type: 'agent.tool.invoked',
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload: { invocation }
+    }
+    this.eventBus.publishAsync(event)
   }
 
   private async checkRateLimit(operation: string): Promise<Result<void, DomainError>> {
@@ -645,6 +1350,134 @@ export abstract class BaseAgent extends EventEmitter implements IAgentDomainServ
     return Ok(undefined)
   }
 
+  private buildLLMMessages(messages: LLMMessage[], systemPrompt?: string): LLMMessage[] {
+    return [
+      { role: 'system', content: systemPrompt || this.getSystemPrompt() },
+      ...messages
+    ]
+  }
+
+  private buildLLMChatOptions(tools?: LLMToolDefinition[]): LLMChatOptions {
+    return {
+      model: this.configuration.model,
+      temperature: this.configuration.temperature,
+      maxTokens: this.configuration.maxTokens,
+      tools: tools && tools.length > 0 ? tools : undefined,
+      timeoutMs: this.configuration.timeoutMs,
+      fallbackModels: this.configuration.fallbackModels,
+      onAttempt: attempt => this.recordLLMAttempt(attempt),
+      signal: this.messageScope.getStore()?.signal
+    }
+  }
+
+  /**
+   * A single streamed LLM call, without running tool calls
+   */
+  private async streamLLMCall(
+    messages: LLMMessage[],
+    context: AgentContext,
+    callOptions: LLMCallOptions
+  ): Promise<LLMChatResult> {
+    const messageId = context.messageId || uuidv4()
+    const fullMessages = this.buildLLMMessages(messages, callOptions.systemPrompt)
+    const options = this.buildLLMChatOptions(callOptions.tools)
+
+    this.assertCanCallLLM()
+
+    if (!this.llmProvider.chatStream) {
+      const result = await this.llmProvider.chat(fullMessages, options)
+      this.recordTokenUsage(fullMessages, result.content, result.usage)
+      this.emitResponseChunk(messageId, result.content, result.content, context.threadId)
+      this.emitResponseCompleted(messageId, result.content, context.threadId, result.usage)
+      return result
+    }
+
+    let content = ''
+    let usage: TokenUsage | undefined
+    let toolCalls: LLMToolCall[] | undefined
+
+    for await (const chunk of this.llmProvider.chatStream(fullMessages, options)) {
+      if (chunk.delta) {
+        content += chunk.delta
+        this.emitResponseChunk(messageId, chunk.delta, content, context.threadId)
+      }
+      if (chunk.usage) {
+        usage = chunk.usage
+      }
+      if (chunk.toolCalls) {
+        toolCalls = chunk.toolCalls
+      }
+    }
+
+    this.recordTokenUsage(fullMessages, content, usage)
+    this.emitResponseCompleted(messageId, content, context.threadId, usage)
+    return { content, usage, toolCalls }
+  }
+
+  private checkTokenBudget(projectId?: string): Result<void, RateLimitExceededError> {
+    if (!this.tokenUsageTracker) {
+      return Ok(undefined)
+    }
+
+    return this.tokenUsageTracker.checkBudget({
+      agentId: this.id,
+      agentType: this.type,
+      projectId,
+      tokensPerHour: this.configuration.rateLimits.tokensPerHour
+    })
+  }
+
+  /**
+   * Re-checked before every LLM call, since a single message can make several calls
+   */
+  private assertCanCallLLM(): void {
+    this.messageScope.getStore()?.signal?.throwIfAborted()
+    const budgetCheck = this.checkTokenBudget(this.activeProjectId)
+    if (!budgetCheck.success) {
+      throw budgetCheck.error
+    }
+  }
+
+  private recordTokenUsage(messages: LLMMessage[], content: string, usage?: TokenUsage): void {
+    // Roughly four characters per token for providers that do not report usage
+    const tokenUsage = usage || {
+      inputTokens: Math.ceil(messages.reduce((sum, message) => sum + message.content.length, 0) / 4),
+      outputTokens: Math.ceil(content.length / 4)
+    }
+
+    this.agentEntityState.statistics = {
+      ...this.agentEntityState.statistics,
+      totalTokensUsed: this.agentEntityState.statistics.totalTokensUsed + tokenUsage.inputTokens + tokenUsage.outputTokens
+    }
+
+    this.tokenUsageTracker?.recordUsage({
+      agentId: this.id,
+      agentType: this.type,
+      projectId: this.activeProjectId,
+      model: this.configuration.model,
+      inputTokens: tokenUsage.inputTokens,
+      outputTokens: tokenUsage.outputTokens,
+      timestamp: new Date()
+    })
+  }
+
+  private recordLLMAttempt(attempt: LLMCallAttempt): void {
+    const previous = this.agentEntityState.statistics.llmAttempts
+    const failed = attempt.outcome !== 'success'
+
+    this.agentEntityState.statistics = {
+      ...this.agentEntityState.statistics,
+      llmAttempts: {
+        totalAttempts: (previous?.totalAttempts ?? 0) + 1,
+        retries: (previous?.retries ?? 0) + (attempt.outcome === 'retry' ? 1 : 0),
+        fallbacks: (previous?.fallbacks ?? 0) + (attempt.outcome === 'fallback' ? 1 : 0),
+        timeouts: (previous?.timeouts ?? 0) + (failed && attempt.timedOut ? 1 : 0),
+        failedCalls: (previous?.failedCalls ?? 0) + (attempt.outcome === 'failed' ? 1 : 0),
+        lastAttempt: attempt
+      }
+    }
+  }
+
   private addToMessageHistory(message: AgentMessage): void {
     this.messageHistory.push(message)
     
@@ -0,0 +1,49 @@
+/**
+ * Custom Persona IPC Handlers
+ *
+ * Loads the personas declared in `custom-personas.json` under the app data
+ * directory and lets the renderer list them, so the Team panel shows them
+ * next to the built-in agents.
+ */
+
+import { app, ipcMain } from 'electron'
+import * as path from 'path'
+import { CustomPersonaService, createCustomPersonaService } from './CustomPersonaService'
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class CustomPersonaIPCHandlers {
+  private readonly personaService: CustomPersonaService
+
+  constructor() {
+    this.personaService = createCustomPersonaService({
+      configPath: path.join(app.getPath('userData'), 'app-data', 'custom-personas.json')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.personaService.initialize()
+    this.registerHandlers()
+    console.log(`Custom persona IPC handlers initialized with ${this.personaService.list().length} personas`)
+  }
+
+  async cleanup(): Promise<void> {
+    ipcMain.removeHandler('agent:personas')
+  }
+
+  getCustomPersonaService(): CustomPersonaService {
+    return this.personaService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('agent:personas', async () => {
+      return this.personaService.list()
+    })
+  }
+}
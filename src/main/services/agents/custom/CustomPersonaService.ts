@@ -0,0 +1,136 @@
+/**
+ * Custom Persona Service
+ *
+ * Loads the agent roles a team declares in config, such as DevOps, Designer
+ * or Security Reviewer, from a versioned JSON file. Entries that fail
+ * validation are skipped with a warning instead of stopping the app from
+ * starting, so one broken persona does not take the built-in agents down with it.
+ */
+
+import * as fs from 'fs/promises'
+import { z } from 'zod'
+import { AgentRoleSchema, AgentType, CustomPersonaDefinition } from '@/shared/contracts/AgentDomain'
+import { UserIntent } from '../MessageRouter'
+import { TOOL_PERMISSIONS } from '../tools/AgentToolLibrary'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CustomPersonaServiceConfig {
+  /**
+   * JSON file the personas are declared in; no custom personas are loaded when omitted
+   */
+  readonly configPath?: string
+}
+
+interface CustomPersonaFile {
+  readonly version: number
+  readonly personas?: unknown[]
+}
+
+const PERSONA_FILE_VERSION = 1
+const BUILT_IN_TYPES = new Set<string>(Object.values(AgentType))
+// Personas that do not say otherwise may look things up but not change anything
+const DEFAULT_PERMISSIONS = [TOOL_PERMISSIONS.READ_FILES, TOOL_PERMISSIONS.READ_TASKS, TOOL_PERMISSIONS.READ_MEMORY]
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+// Persona text ends up in prompt templates, where `{{` would start a placeholder
+const TemplateTextSchema = z.string().trim()
+  .refine(text => !text.includes('{{'), 'Must not contain {{placeholders}}')
+
+const CustomPersonaSchema = z.object({
+  id: AgentRoleSchema.refine(id => !BUILT_IN_TYPES.has(id), 'Must not reuse a built-in agent type'),
+  name: TemplateTextSchema.pipe(z.string().min(1).max(60)),
+  description: TemplateTextSchema.pipe(z.string().max(500)).default(''),
+  avatar: z.string().trim().min(1).max(16).default('🤖'),
+  systemPrompt: TemplateTextSchema.pipe(z.string().min(1).max(20000)),
+  personalityTraits: z.array(TemplateTextSchema.pipe(z.string().min(1))).default([]),
+  capabilities: z.array(TemplateTextSchema.pipe(z.string().min(1))).default([]),
+  allowedTools: z.array(z.string().trim().min(1)).default([]),
+  permissions: z.array(z.string().trim().min(1)).default(DEFAULT_PERMISSIONS),
+  routing: z.object({
+    keywords: z.array(z.string().trim().toLowerCase().min(1)).default([]),
+    intents: z.array(z.nativeEnum(UserIntent)).default([])
+  }).default({})
+})
+
+// =============================================================================
+// Custom Persona Service Implementation
+// =============================================================================
+
+export class CustomPersonaService {
+  private readonly config: CustomPersonaServiceConfig
+  private personas: CustomPersonaDefinition[] = []
+
+  constructor(config: CustomPersonaServiceConfig) {
+    this.config = config
+  }
+
+  async initialize(): Promise<void> {
+    this.personas = []
+    if (!this.config.configPath) {
+      return
+    }
+
+    const file = await this.readConfig(this.config.configPath)
+    if (!file) {
+      return
+    }
+    if (file.version !== PERSONA_FILE_VERSION) {
+      console.warn(`Ignoring custom personas with unsupported version ${file.version}`)
+      return
+    }
+
+    for (const [index, entry] of (file.personas ?? []).entries()) {
+      const parsed = CustomPersonaSchema.safeParse(entry)
+      if (!parsed.success) {
+        const issues = parsed.error.errors.map(issue => `${issue.path.join('.') || 'persona'}: ${issue.message}`)
+        console.warn(`Skipping custom persona #${index + 1}: ${issues.join('; ')}`)
+        continue
+      }
+      if (this.get(parsed.data.id)) {
+        console.warn(`Skipping custom persona #${index + 1}: ${parsed.data.id} is declared twice`)
+        continue
+      }
+      this.personas.push(parsed.data)
+    }
+  }
+
+  /**
+   * Personas that passed validation, in the order they are declared
+   */
+  list(): CustomPersonaDefinition[] {
+    return [...this.personas]
+  }
+
+  get(id: string): CustomPersonaDefinition | undefined {
+    return this.personas.find(persona => persona.id === id)
+  }
+
+  private async readConfig(filePath: string): Promise<CustomPersonaFile | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as CustomPersonaFile
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load custom personas from ${filePath}:`, error)
+      }
+      return undefined
+    }
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_CUSTOM_PERSONA_CONFIG: CustomPersonaServiceConfig = {}
+
+export function createCustomPersonaService(config?: Partial<CustomPersonaServiceConfig>): CustomPersonaService {
+  return new CustomPersonaService({ ...DEFAULT_CUSTOM_PERSONA_CONFIG, ...config })
+}
+
+export default CustomPersonaService
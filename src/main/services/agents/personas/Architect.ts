@@ -9,12 +9,22 @@
 import {
   AgentAction,
   Agent as AgentEntity,
+  AgentError,
   AgentMessage,
   AgentResponse,
   AgentType
 } from '@/shared/contracts/AgentDomain'
-import { AgentContext, BaseAgent, LLMProvider, MemoryManager } from '../base/Agent'
+import {
+  AgentActionDefinition,
+  AgentContext,
+  BaseAgent,
+  LLMProvider,
+  MemoryManager,
+  PersonaStateSnapshot,
+  TokenUsageTracker
+} from '../base/Agent'
 import { AgentStateMachine } from '../AgentStateMachine'
+import { PromptTemplateService } from '../prompts/PromptTemplateService'
 import { IEventBus } from '@/shared/contracts/EventBus'
 import { DomainEvent } from '@/shared/contracts/common'
 import { v4 as uuidv4 } from 'uuid'
@@ -163,6 +173,31 @@ export interface DecisionOption {
   readonly cost: 'low' | 'medium' | 'high'
 }
 
+// =============================================================================
+// Action Schemas
+// =============================================================================
+
+const SYSTEM_DESIGN_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    architecture_type: { type: 'string', enum: ['monolithic', 'microservices', 'serverless', 'hybrid'] },
+    key_components: { type: 'array', items: { type: 'string' } },
+    tech_stack: {
+      type: 'object',
+      properties: {
+        frontend: { type: 'array', items: { type: 'string' } },
+        backend: { type: 'array', items: { type: 'string' } },
+        database: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  },
+  required: ['title', 'description']
+}
+
+const STATE_VERSION = 1
+
 // =============================================================================
 // Architect Agent Implementation
 // =============================================================================
@@ -177,10 +212,11 @@ export class ArchitectAgent extends BaseAgent {
     stateMachine: AgentStateMachine,
     eventBus: IEventBus,
     llmProvider: LLMProvider,
-    memoryManager?: MemoryManager
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService
   ) {
-    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager)
-    this.initializeArchitectTools()
+    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates)
   }
 
   // =============================================================================
@@ -188,95 +224,7 @@ export class ArchitectAgent extends BaseAgent {
   // =============================================================================
 
   protected getSystemPrompt(): string {
-    return `
-You are the Architect, a senior technical architect and system designer specializing in creating robust, scalable software solutions.
-
-CORE IDENTITY:
-You are an experienced system architect with deep expertise in software design patterns, scalability, security, and technology selection. You work closely with the Producer to understand requirements and provide technical guidance to the Engineer and QA agents.
-
-CORE RESPONSIBILITIES:
-1. Design comprehensive system architectures based on requirements
-2. Make informed technology stack recommendations with clear justifications
-3. Create detailed technical specifications and component designs
-4. Identify and resolve potential technical risks and constraints
-5. Plan deployment strategies and infrastructure requirements
-6. Document design decisions with clear rationale
-7. Guide technical implementation through other agents
-8. Ensure architectural consistency throughout the project
-
-PERSONALITY TRAITS:
-- Thorough and methodical in approach
-- Thinks systematically about trade-offs and implications
-- Values simplicity and maintainability over complexity
-- Considers long-term scalability and evolution
-- Pragmatic about technology choices based on actual needs
-- Clear communicator of technical concepts
-- Collaborative but decisive on technical matters
-
-DESIGN PHILOSOPHY:
-- Start with the simplest solution that meets requirements
-- Choose boring, proven technologies over cutting-edge when appropriate
-- Design for failure and recovery scenarios
-- Prioritize maintainability and developer experience
-- Consider operational requirements from the start
-- Document decisions and rationale for future reference
-
-INTERACTION PATTERNS:
-
-When receiving requirements from Producer:
-1. Acknowledge the requirements and ask clarifying technical questions
-2. Identify key architectural decisions that need to be made
-3. Propose 2-3 architectural approaches with trade-offs
-4. Recommend the best approach with clear justification
-5. Create detailed technical specifications
-6. Identify what needs to be built by Engineer and tested by QA
-
-When making technology recommendations:
-1. Consider the project's scale, complexity, and constraints
-2. Evaluate multiple options objectively
-3. Recommend based on team expertise, project timeline, and long-term maintenance
-4. Explain trade-offs clearly (performance vs complexity, cost vs features, etc.)
-5. Consider operational requirements (monitoring, deployment, scaling)
-
-When designing system components:
-1. Start with high-level architecture and drill down to components
-2. Define clear interfaces and contracts between components
-3. Consider data flow and state management
-4. Plan for error handling and edge cases
-5. Design for testability and maintainability
-6. Document component responsibilities and interactions
-
-COMMUNICATION STYLE:
-- Lead with the architectural approach, then dive into details
-- Use diagrams and structured formats when helpful
-- Explain technical decisions in business terms when communicating with Producer
-- Be specific about implementation guidance for Engineer
-- Ask targeted questions to resolve ambiguity
-- Present options with clear recommendations
-- Always consider the "why" behind technical choices
-
-TOOLS YOU HAVE ACCESS TO:
-- create_system_design: Create comprehensive system design documentation
-- evaluate_tech_stack: Analyze and recommend technology choices
-- design_data_model: Create data models and database schemas
-- plan_deployment: Design deployment and infrastructure strategy
-- document_decision: Record technical decisions with rationale
-- create_architecture_diagram: Generate system architecture visualizations
-
-CONSTRAINTS:
-- Always consider non-functional requirements (performance, security, scalability)
-- Factor in team expertise and learning curve for technology choices
-- Consider operational complexity and maintenance burden
-- Think about testing strategy and quality assurance approaches
-- Plan for monitoring, logging, and observability from the start
-- Consider security implications of all design decisions
-- Balance ideal architecture with practical constraints (time, budget, expertise)
-
-CONTEXT AWARENESS:
-You have access to conversation history, previous design decisions, and project context. Build on previous work and maintain consistency across design decisions. Reference earlier discussions naturally and evolve designs based on new information.
-
-Remember: Your role is to create technical solutions that are robust, maintainable, and aligned with business needs. You bridge the gap between business requirements and technical implementation, ensuring the project is built on a solid foundation.
-    `.trim()
+    return this.renderPrompt('architect.system', {})
   }
 
   protected getPersonalityTraits(): string[] {
@@ -307,41 +255,121 @@ Remember: Your role is to create technical solutions that are robust, maintainab
     ]
   }
 
+  protected getActionDefinitions(): AgentActionDefinition[] {
+    return [
+      {
+        name: 'create_system_design',
+        description: 'Create the system design for the project',
+        inputSchema: SYSTEM_DESIGN_SCHEMA
+      },
+      {
+        name: 'update_system_design',
+        description: 'Update the current system design',
+        inputSchema: { ...SYSTEM_DESIGN_SCHEMA, required: [] }
+      },
+      {
+        name: 'evaluate_tech_stack',
+        description: 'Evaluate technology choices against selection criteria',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            technologies: { type: 'array', items: { type: 'string' } },
+            criteria: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['technologies']
+        }
+      },
+      {
+        name: 'design_data_model',
+        description: 'Design data entities and their relationships',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            entities: { type: 'array', items: { type: 'object' } },
+            relationships: { type: 'array', items: { type: 'object' } }
+          },
+          required: ['entities']
+        }
+      },
+      {
+        name: 'plan_deployment',
+        description: 'Plan the deployment strategy and infrastructure',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            strategy: { type: 'string', enum: ['blue_green', 'rolling', 'canary', 'recreate'] },
+            infrastructure: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['strategy']
+        }
+      },
+      {
+        name: 'document_decision',
+        description: 'Record a technical decision with its options and recommendation',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            options: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  pros: { type: 'array', items: { type: 'string' } },
+                  cons: { type: 'array', items: { type: 'string' } },
+                  complexity: { type: 'string', enum: ['low', 'medium', 'high'] },
+                  cost: { type: 'string', enum: ['low', 'medium', 'high'] }
+                }
+              }
+            },
+            recommendation: { type: 'string' }
+          },
+          required: ['title', 'description']
+        }
+      }
+    ]
+  }
+
   protected async processAgentMessage(message: AgentMessage, context: AgentContext): Promise<AgentResponse> {
     // Store message in memory for future reference
     await this.storeMemory(`Technical discussion: ${message.content}`, 'conversation')
 
     // Analyze the message for technical requirements and decisions
+    this.reportProgress('analyzing', 10)
     const analysisPrompt = this.buildTechnicalAnalysisPrompt(message)
     const analysis = await this.callLLM([
       { role: 'user', content: analysisPrompt }
     ])
+    this.reportProgress('planning', 40, { type: 'analysis', title: 'Analyzed the technical requirements', content: analysis })
 
     // Generate architectural response
     const responsePrompt = this.buildArchitecturalResponsePrompt(message, analysis)
-    const responseContent = await this.callLLM([
+    const { content: responseContent, toolCalls } = await this.callLLMStream([
       { role: 'user', content: responsePrompt }
-    ])
+    ], context, { tools: this.getToolDefinitions() })
+
+    // Actions arrive as native tool calls alongside the response
+    const { actions, errors } = this.mapToolCallsToActions(toolCalls)
+    this.reportPlannedActions(actions)
 
-    // Extract architectural actions from the response
-    const actions = await this.extractArchitecturalActions(responseContent, context)
+    // Execute extracted actions; ones that need confirmation are held for approval
+    const executed = await this.executeActions(actions, context)
+    const allErrors = [...errors, ...executed.errors]
+    this.reportActionResults(executed.actions, allErrors)
 
-    // Build the response
-    const response: AgentResponse = {
+    return {
       messageId: message.id,
       agentType: AgentType.ARCHITECT,
       content: responseContent,
-      actions,
+      actions: executed.actions,
+      errors: allErrors.length > 0 ? allErrors : undefined,
       statusUpdate: {
         status: this.status,
         message: 'Analyzing technical requirements and designing solution'
       }
     }
-
-    // Execute extracted actions
-    await this.executeActions(actions, context)
-
-    return response
   }
 
   // =============================================================================
@@ -357,26 +385,7 @@ Remember: Your role is to create technical solutions that are robust, maintainab
       `Pending technical decisions: ${this.pendingDecisions.map(d => d.title).join(', ')}` :
       'No pending technical decisions'
 
-    return `
-Analyze this message from a system architecture perspective:
-
-CURRENT TECHNICAL CONTEXT:
-${currentDesign}
-${pendingDecisions}
-
-MESSAGE TO ANALYZE:
-"${message.content}"
-
-From an Architect's perspective, analyze:
-1. What technical requirements or constraints are mentioned?
-2. What architectural decisions need to be made?
-3. What system components or technologies are involved?
-4. Are there any technical risks or challenges to address?
-5. What design patterns or architectural approaches are relevant?
-6. What needs to be clarified for proper technical implementation?
-
-Focus on technical implications and architectural considerations.
-    `.trim()
+    return this.renderPrompt('architect.analysis', { currentDesign, pendingDecisions, message: message.content })
   }
 
   private buildArchitecturalResponsePrompt(message: AgentMessage, analysis: string): string {
@@ -385,117 +394,57 @@ Focus on technical implications and architectural considerations.
       `Working on: ${this.currentSystemDesign.title}` : 
       'No active system design'
 
-    return `
-You are the Architect responding to this message. Provide technical guidance and architectural insights.
-
-TECHNICAL ANALYSIS:
-${analysis}
-
-RELEVANT CONTEXT:
-${recentMemories}
-${designContext}
-
-MESSAGE:
-"${message.content}"
-
-Craft an architectural response that:
-1. Addresses the technical aspects of the message
-2. Provides clear architectural guidance and recommendations
-3. Identifies key technical decisions that need to be made
-4. Suggests appropriate technologies and approaches with justification
-5. Considers scalability, maintainability, and operational concerns
-6. Plans next steps for technical implementation
-7. Identifies what Engineer and QA agents need to know
-
-Keep your response technical but accessible, with clear reasoning for your recommendations.
-If system design updates are needed, mention that you'll update the technical specifications.
-    `.trim()
-  }
-
-  private async extractArchitecturalActions(responseContent: string, _context: AgentContext): Promise<AgentAction[]> {
-    const actions: AgentAction[] = []
-
-    const actionPrompt = `
-Analyze this Architect response and identify technical actions that should be taken:
-
-RESPONSE:
-"${responseContent}"
-
-Identify if the response suggests:
-1. Creating or updating system design (extract technical details)
-2. Evaluating technology stack choices (extract technologies and criteria)
-3. Designing data models (extract entity and relationship details)
-4. Planning deployment strategy (extract infrastructure requirements)
-5. Documenting technical decisions (extract decision details)
-6. Coordinating with other agents (identify which agents and what tasks)
-
-Return a JSON array of actions in this format:
-[
-  {
-    "type": "create_system_design",
-    "description": "Create comprehensive system design",
-    "parameters": {
-      "title": "system title",
-      "description": "system description",
-      "architecture_type": "monolithic|microservices|serverless|hybrid",
-      "key_components": ["component1", "component2"],
-      "tech_stack": {"frontend": [], "backend": [], "database": []}
-    }
+    return this.renderPrompt('architect.response', { analysis, recentMemories, designContext, message: message.content })
   }
-]
-
-Only include actions that are clearly indicated in the response. Return empty array if no actions.
-    `.trim()
-
-    try {
-      const actionsText = await this.callLLM([
-        { role: 'user', content: actionPrompt }
-      ])
-
-      const extractedActions = JSON.parse(actionsText)
-      
-      for (const action of extractedActions) {
-        actions.push({
-          type: action.type,
-          description: action.description,
-          parameters: action.parameters,
-          confirmation: false // Architect actions don't need confirmation
-        })
-      }
-    } catch (error) {
-      console.warn('Failed to extract architectural actions from response:', error)
-    }
 
-    return actions
-  }
+  private async executeActions(
+    actions: AgentAction[],
+    context: AgentContext
+  ): Promise<{ actions: AgentAction[]; errors: AgentError[] }> {
+    const executed: AgentAction[] = []
+    const errors: AgentError[] = []
 
-  private async executeActions(actions: AgentAction[], _context: AgentContext): Promise<void> {
     for (const action of actions) {
       try {
-        switch (action.type) {
-          case 'create_system_design':
-            await this.createSystemDesign(action.parameters)
-            break
-          case 'update_system_design':
-            await this.updateSystemDesign(action.parameters)
-            break
-          case 'evaluate_tech_stack':
-            await this.evaluateTechStack(action.parameters)
-            break
-          case 'design_data_model':
-            await this.designDataModel(action.parameters)
-            break
-          case 'plan_deployment':
-            await this.planDeployment(action.parameters)
-            break
-          case 'document_decision':
-            await this.documentTechnicalDecision(action.parameters)
-            break
-        }
+        executed.push(await this.executeOrQueue(action, context, approved => this.executeAction(approved)))
       } catch (error) {
         console.error(`Failed to execute architectural action ${action.type}:`, error)
+        errors.push({
+          code: 'ACTION_FAILED',
+          message: `${action.type} failed: ${(error as Error).message}`,
+          severity: 'error',
+          recoverable: true,
+          context: { action: action.type }
+        })
+        executed.push(action)
       }
     }
+
+    return { actions: executed, errors }
+  }
+
+  private async executeAction(action: AgentAction): Promise<AgentAction> {
+    switch (action.type) {
+      case 'create_system_design':
+        await this.createSystemDesign(action.parameters)
+        break
+      case 'update_system_design':
+        await this.updateSystemDesign(action.parameters)
+        break
+      case 'evaluate_tech_stack':
+        await this.evaluateTechStack(action.parameters)
+        break
+      case 'design_data_model':
+        await this.designDataModel(action.parameters)
+        break
+      case 'plan_deployment':
+        await this.planDeployment(action.parameters)
+        break
+      case 'document_decision':
+        await this.documentTechnicalDecision(action.parameters)
+        break
+    }
+    return action
   }
 
   private async createSystemDesign(parameters: any): Promise<void> {
@@ -564,6 +513,12 @@ Only include actions that are clearly indicated in the response. Return empty ar
 
     this.currentSystemDesign = systemDesign
     this.designHistory.push(systemDesign)
+    this.reportArtifact({
+      type: 'document',
+      title: systemDesign.title,
+      content: JSON.stringify(systemDesign, null, 2),
+      tags: ['system-design', systemDesign.architecture.type]
+    })
 
     // Store in memory
     await this.storeMemory(
@@ -721,6 +676,12 @@ Only include actions that are clearly indicated in the response. Return empty ar
     }
 
     this.pendingDecisions.push(decision)
+    this.reportArtifact({
+      type: 'document',
+      title: decision.title || 'Technical decision',
+      content: JSON.stringify(decision, null, 2),
+      tags: ['technical-decision']
+    })
 
     // Store in memory
     await this.storeMemory(
@@ -749,9 +710,26 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return 'Recent technical context to be implemented'
   }
 
-  private initializeArchitectTools(): void {
-    // Architect-specific tools would be registered here
-    // For now, we rely on the action extraction system
+  // =============================================================================
+  // Persona State
+  // =============================================================================
+
+  exportState(): PersonaStateSnapshot {
+    return {
+      version: STATE_VERSION,
+      data: {
+        currentSystemDesign: this.currentSystemDesign,
+        pendingDecisions: this.pendingDecisions,
+        designHistory: this.designHistory
+      }
+    }
+  }
+
+  importState(snapshot: PersonaStateSnapshot | undefined): void {
+    const data = snapshot?.version === STATE_VERSION ? snapshot.data : undefined
+    this.currentSystemDesign = data?.currentSystemDesign as SystemDesign | undefined
+    this.pendingDecisions = (data?.pendingDecisions as TechnicalDecision[] | undefined) ?? []
+    this.designHistory = (data?.designHistory as SystemDesign[] | undefined) ?? []
   }
 
   // =============================================================================
@@ -0,0 +1,105 @@
+/**
+ * Custom Persona Agent
+ *
+ * Runs an agent role declared in config, such as DevOps, Designer or Security
+ * Reviewer. Everything that sets it apart from the other custom personas
+ * comes from its definition: name, prompts, traits, capabilities and the
+ * tools it may use.
+ */
+
+import {
+  Agent as AgentEntity,
+  AgentMessage,
+  AgentResponse,
+  CustomPersonaDefinition
+} from '@/shared/contracts/AgentDomain'
+import {
+  AgentContext,
+  BaseAgent,
+  LLMProvider,
+  MemoryManager,
+  TokenUsageTracker
+} from '../base/Agent'
+import { AgentStateMachine } from '../AgentStateMachine'
+import { PromptTemplateService } from '../prompts/PromptTemplateService'
+import { createCustomPersonaPromptTemplates } from '../prompts/templates/custom'
+import { IEventBus } from '@/shared/contracts/EventBus'
+
+// =============================================================================
+// Custom Persona Agent Implementation
+// =============================================================================
+
+export class CustomPersonaAgent extends BaseAgent {
+  private readonly persona: CustomPersonaDefinition
+
+  constructor(
+    persona: CustomPersonaDefinition,
+    agentEntity: AgentEntity,
+    stateMachine: AgentStateMachine,
+    eventBus: IEventBus,
+    llmProvider: LLMProvider,
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService
+  ) {
+    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates)
+    this.persona = persona
+
+    // Re-registering replaces the templates of an edited config; overrides are kept
+    createCustomPersonaPromptTemplates(persona).forEach(definition => this.promptTemplates.register(definition))
+  }
+
+  get definition(): CustomPersonaDefinition {
+    return this.persona
+  }
+
+  // =============================================================================
+  // BaseAgent Implementation
+  // =============================================================================
+
+  protected getSystemPrompt(): string {
+    return this.renderPrompt(`${this.persona.id}.system`, {})
+  }
+
+  protected getPersonalityTraits(): string[] {
+    return [...this.persona.personalityTraits]
+  }
+
+  protected getCapabilities(): string[] {
+    return [...this.persona.capabilities]
+  }
+
+  protected async processAgentMessage(message: AgentMessage, context: AgentContext): Promise<AgentResponse> {
+    await this.storeMemory(`User message: ${message.content}`, 'conversation')
+
+    this.reportProgress('analyzing', 10)
+    const memories = await this.retrieveMemory(message.content, 3)
+    const recentMemories = memories.length > 0
+      ? memories.map(memory => `- ${memory.content}`).join('\n')
+      : 'No relevant memories'
+    this.reportProgress('planning', 30, { type: 'analysis', title: 'Recalled related memories', content: recentMemories })
+
+    const responsePrompt = this.renderPrompt(`${this.persona.id}.response`, { recentMemories, message: message.content })
+    const { content: responseContent, toolCalls } = await this.callLLMStream([
+      { role: 'user', content: responsePrompt }
+    ], context, { tools: this.getToolDefinitions() })
+
+    // Custom personas have no actions of their own; stray tool calls are reported back
+    const { errors } = this.mapToolCallsToActions(toolCalls)
+    this.reportActionResults([], errors)
+
+    return {
+      messageId: message.id,
+      agentType: this.type,
+      content: responseContent,
+      actions: [],
+      errors: errors.length > 0 ? errors : undefined,
+      statusUpdate: {
+        status: this.status,
+        message: `Responding as ${this.persona.name}`
+      }
+    }
+  }
+}
+
+export default CustomPersonaAgent
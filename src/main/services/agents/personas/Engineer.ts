@@ -7,16 +7,29 @@
  */
 
 import {
+  ActionApproval,
   AgentAction,
   Agent as AgentEntity,
+  AgentError,
   AgentMessage,
   AgentResponse,
-  AgentType
+  AgentType,
+  ChangeSet
 } from '@/shared/contracts/AgentDomain'
-import { AgentContext, BaseAgent, LLMProvider, MemoryManager } from '../base/Agent'
+import {
+  AgentActionDefinition,
+  AgentContext,
+  BaseAgent,
+  LLMProvider,
+  MemoryManager,
+  PersonaStateSnapshot,
+  TokenUsageTracker
+} from '../base/Agent'
 import { AgentStateMachine } from '../AgentStateMachine'
+import { PromptTemplateService } from '../prompts/PromptTemplateService'
+import { WorkspaceService } from '../../workspace/WorkspaceService'
 import { IEventBus } from '@/shared/contracts/EventBus'
-import { DomainEvent } from '@/shared/contracts/common'
+import { BusinessRuleViolationError, DomainEvent, ValidationError } from '@/shared/contracts/common'
 import { v4 as uuidv4 } from 'uuid'
 
 // =============================================================================
@@ -145,6 +158,8 @@ export interface ImplementationTask {
   readonly status: 'todo' | 'in_progress' | 'code_review' | 'testing' | 'done'
 }
 
+const STATE_VERSION = 1
+
 // =============================================================================
 // Engineer Agent Implementation
 // =============================================================================
@@ -154,16 +169,20 @@ export class EngineerAgent extends BaseAgent {
   private implementationHistory: CodeImplementation[] = []
   private pendingTasks: ImplementationTask[] = []
   private codeReviews: CodeReview[] = []
+  private readonly workspace?: WorkspaceService
 
   constructor(
     agentEntity: AgentEntity,
     stateMachine: AgentStateMachine,
     eventBus: IEventBus,
     llmProvider: LLMProvider,
-    memoryManager?: MemoryManager
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService,
+    workspace?: WorkspaceService
   ) {
-    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager)
-    this.initializeEngineerTools()
+    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates)
+    this.workspace = workspace
   }
 
   // =============================================================================
@@ -171,109 +190,7 @@ export class EngineerAgent extends BaseAgent {
   // =============================================================================
 
   protected getSystemPrompt(): string {
-    return `
-You are the Engineer, a senior software developer specializing in creating high-quality, maintainable code implementations.
-
-CORE IDENTITY:
-You are an experienced software engineer with expertise across multiple programming languages, frameworks, and development practices. You transform architectural designs and requirements into working code, focusing on quality, performance, and maintainability.
-
-CORE RESPONSIBILITIES:
-1. Implement features and components based on architectural designs
-2. Write clean, well-documented, and testable code
-3. Create comprehensive unit and integration tests
-4. Refactor existing code to improve quality and maintainability
-5. Optimize code for performance and resource efficiency
-6. Debug and fix issues in existing codebases
-7. Review code for quality, security, and best practices
-8. Document implementation decisions and code usage
-
-PERSONALITY TRAITS:
-- Detail-oriented and methodical in coding approach
-- Values clean code principles and best practices
-- Pragmatic about balancing perfection with delivery timelines
-- Collaborative and open to feedback and code reviews
-- Continuous learner, stays updated with technology trends
-- Problem solver who enjoys debugging and optimization challenges
-- Quality-focused but understands business constraints
-
-DEVELOPMENT PHILOSOPHY:
-- Write code that tells a story and is easy to understand
-- Test early and test often - TDD when appropriate
-- Refactor continuously to prevent technical debt
-- Choose simplicity over cleverness
-- Document the "why" not just the "how"
-- Consider future maintainers when writing code
-- Optimize for readability first, performance second
-- Follow established patterns and conventions
-
-INTERACTION PATTERNS:
-
-When receiving implementation requirements:
-1. Acknowledge the requirements and ask clarifying questions about edge cases
-2. Break down complex tasks into smaller, manageable components
-3. Propose implementation approach with technology choices
-4. Identify potential challenges and propose solutions
-5. Estimate effort and timeline realistically
-6. Create detailed implementation plan with milestones
-
-When implementing code:
-1. Start with interfaces and contracts, then implement
-2. Write tests alongside or before implementation (TDD)
-3. Focus on one component at a time, ensuring it works before moving on
-4. Document complex logic and business rules inline
-5. Consider error handling and edge cases throughout
-6. Refactor as you go to maintain clean code
-
-When debugging or fixing issues:
-1. Reproduce the issue systematically
-2. Analyze root cause, not just symptoms
-3. Propose minimal fix that addresses the root cause
-4. Consider broader implications of the fix
-5. Add tests to prevent regression
-6. Document the issue and solution for future reference
-
-COMMUNICATION STYLE:
-- Be specific about technical implementation details
-- Explain complex concepts in understandable terms
-- Ask targeted questions to clarify requirements
-- Provide realistic estimates and timeline expectations
-- Share trade-offs and alternative approaches
-- Communicate progress and blockers proactively
-- Use code examples to illustrate points when helpful
-
-TOOLS YOU HAVE ACCESS TO:
-- implement_feature: Create complete feature implementation with tests
-- refactor_code: Improve existing code structure and quality
-- debug_issue: Systematically debug and fix code problems
-- optimize_performance: Analyze and improve code performance
-- review_code: Conduct thorough code reviews with feedback
-- generate_tests: Create comprehensive test suites
-- create_documentation: Generate technical documentation
-
-CONSTRAINTS:
-- Always write production-quality code with proper error handling
-- Include comprehensive tests for all implementations
-- Follow established coding standards and conventions
-- Consider security implications of all code changes
-- Optimize for maintainability and future changes
-- Document complex business logic and technical decisions
-- Never compromise on code quality for speed alone
-- Always consider the impact on existing code and systems
-
-QUALITY STANDARDS:
-- Code should be self-documenting with clear variable and function names
-- All public interfaces should have comprehensive documentation
-- Error handling should be explicit and user-friendly
-- Performance should be considered but not prematurely optimized
-- Security best practices should be followed throughout
-- Code should be testable and have good test coverage
-- Dependencies should be minimal and well-justified
-
-CONTEXT AWARENESS:
-You have access to architectural designs, previous implementations, and project context. Build on existing patterns and maintain consistency with the overall system design. Reference previous work and ensure new code integrates well with existing components.
-
-Remember: Your role is to transform ideas and designs into working, maintainable software. You bridge the gap between technical specifications and running code, ensuring the final product meets both functional and quality requirements.
-    `.trim()
+    return this.renderPrompt('engineer.system', {})
   }
 
   protected getPersonalityTraits(): string[] {
@@ -304,41 +221,158 @@ Remember: Your role is to transform ideas and designs into working, maintainable
     ]
   }
 
+  protected getActionDefinitions(): AgentActionDefinition[] {
+    return [
+      {
+        name: 'implement_feature',
+        description: 'Implement a feature by writing its source and test files; the user reviews the changes before they are written',
+        requiresConfirmation: true,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            language: { type: 'string' },
+            framework: { type: 'string' },
+            files: { type: 'array', items: { type: 'string' }, description: 'Source file paths, relative to the project root' },
+            tests: { type: 'array', items: { type: 'string' }, description: 'Test file paths, relative to the project root' },
+            complexity: { type: 'string', enum: ['simple', 'moderate', 'complex', 'expert'] }
+          },
+          required: ['title', 'description']
+        }
+      },
+      {
+        name: 'create_tests',
+        description: 'Create tests for existing code',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: { type: 'string', description: 'Code under test' },
+            testType: { type: 'string', enum: ['unit', 'integration', 'e2e'] },
+            coverage: { type: 'number', description: 'Target line coverage percentage' }
+          },
+          required: ['target']
+        }
+      },
+      {
+        name: 'refactor_code',
+        description: 'Plan a refactoring of existing code',
+        requiresConfirmation: true,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scope: { type: 'string' },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['rename', 'extract', 'inline', 'move', 'restructure'] },
+                  description: { type: 'string' },
+                  files: { type: 'array', items: { type: 'string' } },
+                  impact: { type: 'string', enum: ['low', 'medium', 'high'] },
+                  automated: { type: 'boolean' }
+                }
+              }
+            },
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] }
+          },
+          required: ['scope']
+        }
+      },
+      {
+        name: 'debug_issue',
+        description: 'Investigate a defect',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            issue: { type: 'string' },
+            symptoms: { type: 'array', items: { type: 'string' } },
+            approach: { type: 'string' }
+          },
+          required: ['issue']
+        }
+      },
+      {
+        name: 'optimize_performance',
+        description: 'Optimize the performance of a component',
+        requiresConfirmation: true,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: { type: 'string' },
+            metrics: { type: 'array', items: { type: 'string' } },
+            approach: { type: 'string' }
+          },
+          required: ['target']
+        }
+      },
+      {
+        name: 'review_code',
+        description: 'Review code for quality issues',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            files: { type: 'array', items: { type: 'string' } },
+            reviewType: { type: 'string', enum: ['functionality', 'performance', 'security', 'maintainability'] }
+          },
+          required: ['files']
+        }
+      },
+      {
+        name: 'create_documentation',
+        description: 'Write technical documentation',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'Kind of documentation, e.g. api or readme' },
+            content: { type: 'string' },
+            target: { type: 'string', description: 'What is being documented' }
+          },
+          required: ['type', 'target']
+        }
+      }
+    ]
+  }
+
   protected async processAgentMessage(message: AgentMessage, context: AgentContext): Promise<AgentResponse> {
     // Store message in memory for implementation context
     await this.storeMemory(`Implementation request: ${message.content}`, 'conversation')
 
     // Analyze the message for implementation requirements
+    this.reportProgress('analyzing', 10)
     const analysisPrompt = this.buildImplementationAnalysisPrompt(message)
     const analysis = await this.callLLM([
       { role: 'user', content: analysisPrompt }
     ])
+    this.reportProgress('planning', 40, { type: 'analysis', title: 'Analyzed the implementation requirements', content: analysis })
 
     // Generate implementation response
     const responsePrompt = this.buildImplementationResponsePrompt(message, analysis)
-    const responseContent = await this.callLLM([
+    const { content: responseContent, toolCalls } = await this.callLLMStream([
       { role: 'user', content: responsePrompt }
-    ])
+    ], context, { tools: this.getToolDefinitions() })
+
+    // Actions arrive as native tool calls alongside the response
+    const { actions, errors } = this.mapToolCallsToActions(toolCalls)
+    this.reportPlannedActions(actions)
 
-    // Extract implementation actions from the response
-    const actions = await this.extractImplementationActions(responseContent, context)
+    // Execute extracted actions; implementing a feature attaches the change set awaiting approval
+    const executed = await this.executeActions(actions, context)
+    const allErrors = [...errors, ...executed.errors]
+    this.reportActionResults(executed.actions, allErrors)
 
-    // Build the response
-    const response: AgentResponse = {
+    return {
       messageId: message.id,
       agentType: AgentType.ENGINEER,
       content: responseContent,
-      actions,
+      actions: executed.actions,
+      errors: allErrors.length > 0 ? allErrors : undefined,
       statusUpdate: {
         status: this.status,
         message: 'Analyzing implementation requirements and planning development'
       }
     }
-
-    // Execute extracted actions
-    await this.executeActions(actions, context)
-
-    return response
   }
 
   // =============================================================================
@@ -354,28 +388,7 @@ Remember: Your role is to transform ideas and designs into working, maintainable
       `Pending tasks: ${this.pendingTasks.map(t => `${t.title} (${t.status})`).join(', ')}` :
       'No pending tasks'
 
-    return `
-Analyze this message from a software implementation perspective:
-
-CURRENT DEVELOPMENT CONTEXT:
-${currentImpl}
-${pendingTasks}
-
-MESSAGE TO ANALYZE:
-"${message.content}"
-
-From an Engineer's perspective, analyze:
-1. What specific functionality needs to be implemented?
-2. What programming languages, frameworks, or technologies are involved?
-3. Are there existing code patterns or components to build upon?
-4. What are the technical complexity and estimated effort?
-5. What tests need to be written alongside the implementation?
-6. Are there any potential technical challenges or edge cases?
-7. What dependencies or integrations are required?
-8. What documentation needs to be created or updated?
-
-Focus on practical implementation details and development considerations.
-    `.trim()
+    return this.renderPrompt('engineer.analysis', { currentImpl, pendingTasks, message: message.content })
   }
 
   private buildImplementationResponsePrompt(message: AgentMessage, analysis: string): string {
@@ -384,164 +397,202 @@ Focus on practical implementation details and development considerations.
       `Working on: ${this.currentImplementation.title} (${this.currentImplementation.status})` : 
       'No active implementation'
 
-    return `
-You are the Engineer responding to this implementation request. Provide detailed technical guidance and development plans.
-
-IMPLEMENTATION ANALYSIS:
-${analysis}
-
-RELEVANT CONTEXT:
-${recentImplementations}
-${developmentContext}
-
-MESSAGE:
-"${message.content}"
-
-Craft an engineering response that:
-1. Acknowledges the implementation requirements clearly
-2. Breaks down the work into specific, actionable development tasks
-3. Proposes concrete implementation approach with technology choices
-4. Identifies potential challenges and suggests solutions
-5. Provides realistic effort estimates and timeline
-6. Plans testing strategy alongside implementation
-7. Considers code quality, maintainability, and best practices
-8. Identifies dependencies and integration points
-
-Keep your response practical and actionable, with specific technical details.
-If code implementation should begin, mention that you'll start development.
-If architectural clarification is needed, suggest coordinating with the Architect.
-    `.trim()
+    return this.renderPrompt('engineer.response', { analysis, recentImplementations, developmentContext, message: message.content })
   }
 
-  private async extractImplementationActions(responseContent: string, _context: AgentContext): Promise<AgentAction[]> {
-    const actions: AgentAction[] = []
-
-    const actionPrompt = `
-Analyze this Engineer response and identify implementation actions that should be taken:
-
-RESPONSE:
-"${responseContent}"
-
-Identify if the response suggests:
-1. Implementing a feature (extract feature details, files, and approach)
-2. Creating tests (extract test types and coverage requirements)
-3. Refactoring code (extract refactoring scope and changes)
-4. Debugging an issue (extract issue details and debugging approach)
-5. Optimizing performance (extract optimization targets and methods)
-6. Reviewing code (extract review scope and criteria)
-7. Creating documentation (extract documentation type and content)
-8. Coordinating with other agents (identify which agents and what information needed)
-
-Return a JSON array of actions in this format:
-[
-  {
-    "type": "implement_feature",
-    "description": "Implement specific feature with tests",
-    "parameters": {
-      "title": "feature title",
-      "description": "detailed description",
-      "language": "programming language",
-      "framework": "framework if applicable",
-      "files": ["file1.js", "file2.js"],
-      "tests": ["test1.spec.js"],
-      "complexity": "simple|moderate|complex|expert"
+  private async executeActions(
+    actions: AgentAction[],
+    context: AgentContext
+  ): Promise<{ actions: AgentAction[]; errors: AgentError[] }> {
+    const executed: AgentAction[] = []
+    const errors: AgentError[] = []
+
+    for (const action of actions) {
+      try {
+        // Implementing only proposes a change set; writing it is what waits for approval
+        executed.push(action.type === 'implement_feature'
+          ? await this.executeAction(action, context)
+          : await this.executeOrQueue(action, context, approved => this.executeAction(approved, context)))
+      } catch (error) {
+        console.error(`Failed to execute implementation action ${action.type}:`, error)
+        errors.push({
+          code: 'ACTION_FAILED',
+          message: `${action.type} failed: ${(error as Error).message}`,
+          severity: 'error',
+          recoverable: true,
+          context: { action: action.type }
+        })
+        executed.push(action)
+      }
     }
+
+    return { actions: executed, errors }
   }
-]
-
-Only include actions that are clearly indicated in the response. Return empty array if no actions.
-    `.trim()
-
-    try {
-      const actionsText = await this.callLLM([
-        { role: 'user', content: actionPrompt }
-      ])
-
-      const extractedActions = JSON.parse(actionsText)
-      
-      for (const action of extractedActions) {
-        actions.push({
-          type: action.type,
-          description: action.description,
-          parameters: action.parameters,
-          confirmation: action.type === 'refactor_code' || action.type === 'optimize_performance' // Some actions need confirmation
+
+  private async executeAction(action: AgentAction, context: AgentContext): Promise<AgentAction> {
+    let result = action
+    switch (action.type) {
+      case 'implement_feature': {
+        const changeSet = await this.implementFeature(action.parameters, context)
+        this.reportArtifact({
+          type: 'code',
+          title: changeSet.title,
+          content: changeSet.files.map(file => file.diff).join('\n\n'),
+          tags: changeSet.files.map(file => file.path)
         })
+        const approval = this.queueChangeSet(changeSet, context)
+        result = { ...action, parameters: { ...action.parameters, changeSet, approvalId: approval?.id } }
+        break
       }
-    } catch (error) {
-      console.warn('Failed to extract implementation actions from response:', error)
+      case 'create_tests':
+        await this.createTests(action.parameters)
+        break
+      case 'refactor_code':
+        await this.refactorCode(action.parameters)
+        break
+      case 'debug_issue':
+        await this.debugIssue(action.parameters)
+        break
+      case 'optimize_performance':
+        await this.optimizePerformance(action.parameters)
+        break
+      case 'review_code':
+        await this.reviewCode(action.parameters)
+        break
+      case 'create_documentation':
+        await this.createDocumentation(action.parameters)
+        break
     }
-
-    return actions
+    return result
   }
 
-  private async executeActions(actions: AgentAction[], _context: AgentContext): Promise<void> {
-    for (const action of actions) {
-      try {
-        switch (action.type) {
-          case 'implement_feature':
-            await this.implementFeature(action.parameters)
-            break
-          case 'create_tests':
-            await this.createTests(action.parameters)
-            break
-          case 'refactor_code':
-            await this.refactorCode(action.parameters)
-            break
-          case 'debug_issue':
-            await this.debugIssue(action.parameters)
-            break
-          case 'optimize_performance':
-            await this.optimizePerformance(action.parameters)
-            break
-          case 'review_code':
-            await this.reviewCode(action.parameters)
-            break
-          case 'create_documentation':
-            await this.createDocumentation(action.parameters)
-            break
+  /**
+   * Hold writing a proposed change set for the user's approval
+   */
+  private queueChangeSet(changeSet: ChangeSet, context: AgentContext): ActionApproval | undefined {
+    const workspace = this.workspace!
+    const action: AgentAction = {
+      type: 'apply_change_set',
+      description: `Write ${changeSet.files.length} file(s) for ${changeSet.title}`,
+      parameters: { changeSetId: changeSet.id, files: changeSet.files.map(file => file.path) },
+      confirmation: true
+    }
+
+    return this.queueForApproval(action, context, {
+      execute: async () => {
+        const applied = await workspace.applyChangeSet(changeSet.id)
+        if (!applied.success) {
+          throw applied.error
+        }
+        return { changeSet: applied.data }
+      },
+      reject: async () => {
+        const rejected = workspace.rejectChangeSet(changeSet.id)
+        if (!rejected.success) {
+          throw rejected.error
         }
-      } catch (error) {
-        console.error(`Failed to execute implementation action ${action.type}:`, error)
       }
-    }
+    })
   }
 
-  private async implementFeature(parameters: any): Promise<void> {
+  /**
+   * Generate every file of the feature and propose them as one change set.
+   * Nothing is written until the user approves the change set.
+   */
+  private async implementFeature(parameters: any, context: AgentContext): Promise<ChangeSet> {
     const { title, description, language, framework, files, tests, complexity } = parameters
+    const workspace = this.workspace
+    if (!workspace) {
+      throw new BusinessRuleViolationError('agent', 'No project workspace is available to write files to')
+    }
 
-    const implementation: CodeImplementation = {
-      id: uuidv4(),
+    const sourcePaths: string[] = files || []
+    const testPaths: string[] = tests || []
+    if (sourcePaths.length + testPaths.length === 0) {
+      throw new ValidationError('agent', 'implement_feature needs at least one source or test file path')
+    }
+
+    const feature = {
       title: title || 'Feature Implementation',
       description: description || 'Feature to be implemented',
       language: language || 'typescript',
-      framework: framework,
-      files: (files || []).map((path: string) => ({
+      framework
+    }
+    const plannedFiles = [...sourcePaths, ...testPaths]
+    const generate = async (path: string, role: string): Promise<string> => {
+      // Reading first also refuses paths outside the project before any tokens are spent
+      const existing = await workspace.readFile(context.projectId, path)
+      if (!existing.success) {
+        throw existing.error
+      }
+      const prompt = this.renderPrompt('engineer.file', {
+        ...feature,
+        path,
+        role,
+        plannedFiles,
+        existingContent: existing.data
+      })
+      return stripCodeFence(await this.callLLM([{ role: 'user', content: prompt }]))
+    }
+
+    const codeFiles: CodeFile[] = []
+    for (const path of sourcePaths) {
+      const content = await generate(path, 'source')
+      codeFiles.push({
         id: uuidv4(),
         path,
         name: path.split('/').pop() || 'unknown',
-        type: 'source' as const,
-        language: language || 'typescript',
-        content: '// Implementation to be created',
-        size: 0,
+        type: 'source',
+        language: feature.language,
+        content,
+        size: Buffer.byteLength(content, 'utf-8'),
         dependencies: [],
         exports: [],
         imports: [],
         lastModified: new Date()
-      })),
-      dependencies: [],
-      testFiles: (tests || []).map((path: string) => ({
+      })
+    }
+
+    const testFiles: TestFile[] = []
+    for (const path of testPaths) {
+      const targetFile = sourcePaths[0] || 'unknown'
+      const content = await generate(path, `test of ${targetFile}`)
+      testFiles.push({
         id: uuidv4(),
         path,
         name: path.split('/').pop() || 'unknown',
-        type: 'unit' as const,
-        targetFile: files?.[0] || 'unknown',
-        content: '// Tests to be created',
+        type: 'unit',
+        targetFile,
+        content,
         coverage: { lines: 0, functions: 0, branches: 0, statements: 0 },
         framework: 'jest',
         lastModified: new Date()
-      })),
+      })
+    }
+
+    const proposal = await workspace.proposeChangeSet({
+      projectId: context.projectId,
+      agentType: this.type,
+      title: feature.title,
+      description: feature.description,
+      files: [...codeFiles, ...testFiles].map(file => ({ path: file.path, content: file.content }))
+    })
+    if (!proposal.success) {
+      throw proposal.error
+    }
+    const changeSet = proposal.data
+
+    const implementation: CodeImplementation = {
+      id: uuidv4(),
+      title: feature.title,
+      description: feature.description,
+      language: feature.language,
+      framework,
+      files: codeFiles,
+      dependencies: [],
+      testFiles,
       documentation: 'Documentation to be created',
-      status: 'in_progress',
+      status: 'needs_review',
       lastUpdated: new Date()
     }
 
@@ -551,8 +602,8 @@ Only include actions that are clearly indicated in the response. Return empty ar
     // Create implementation task
     const task: ImplementationTask = {
       id: uuidv4(),
-      title,
-      description,
+      title: feature.title,
+      description: feature.description,
       type: 'feature',
       priority: 'medium',
       complexity: complexity || 'moderate',
@@ -564,14 +615,14 @@ Only include actions that are clearly indicated in the response. Return empty ar
         'Code review completed',
         'Documentation updated'
       ],
-      status: 'in_progress'
+      status: 'code_review'
     }
 
     this.pendingTasks.push(task)
 
     // Store in memory
     await this.storeMemory(
-      `Feature implementation started: ${JSON.stringify(implementation)}`,
+      `Feature implementation proposed: ${feature.title} (${changeSet.files.map(file => file.path).join(', ')})`,
       'implementation'
     )
 
@@ -586,10 +637,13 @@ Only include actions that are clearly indicated in the response. Return empty ar
         agentId: this.id,
         agentType: this.type,
         implementation,
-        task
+        task,
+        changeSetId: changeSet.id
       }
     }
     this.eventBus.publishAsync(event)
+
+    return changeSet
   }
 
   private async createTests(parameters: any): Promise<void> {
@@ -793,9 +847,28 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return 'Recent implementation context to be implemented'
   }
 
-  private initializeEngineerTools(): void {
-    // Engineer-specific tools would be registered here
-    // For now, we rely on the action extraction system
+  // =============================================================================
+  // Persona State
+  // =============================================================================
+
+  exportState(): PersonaStateSnapshot {
+    return {
+      version: STATE_VERSION,
+      data: {
+        currentImplementation: this.currentImplementation,
+        implementationHistory: this.implementationHistory,
+        pendingTasks: this.pendingTasks,
+        codeReviews: this.codeReviews
+      }
+    }
+  }
+
+  importState(snapshot: PersonaStateSnapshot | undefined): void {
+    const data = snapshot?.version === STATE_VERSION ? snapshot.data : undefined
+    this.currentImplementation = data?.currentImplementation as CodeImplementation | undefined
+    this.implementationHistory = (data?.implementationHistory as CodeImplementation[] | undefined) ?? []
+    this.pendingTasks = (data?.pendingTasks as ImplementationTask[] | undefined) ?? []
+    this.codeReviews = (data?.codeReviews as CodeReview[] | undefined) ?? []
   }
 
   // =============================================================================
@@ -841,4 +914,14 @@ Only include actions that are clearly indicated in the response. Return empty ar
   }
 }
 
-export default EngineerAgent
\ No newline at end of file
+/**
+ * Models sometimes wrap a file in a Markdown fence despite being asked not to
+ */
+function stripCodeFence(text: string): string {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/^```[\w.+-]*\n([\s\S]*?)\n?```$/)
+  const content = fenced ? fenced[1] : trimmed
+  return content.endsWith('\n') ? content : `${content}\n`
+}
+
+export default EngineerAgent
@@ -7,17 +7,40 @@
  */
 
 import {
+  ActionApproval,
   AgentAction,
   Agent as AgentEntity,
+  AgentError,
   AgentMessage,
   AgentResponse,
   AgentType,
+  ClarificationQuestion,
+  ClarificationQuestionAnsweredEvent,
+  ClarificationQuestionAskedEvent,
   MessageType
 } from '@/shared/contracts/AgentDomain'
-import { AgentContext, BaseAgent, LLMProvider, MemoryManager } from '../base/Agent'
+import {
+  AgentActionDefinition,
+  AgentContext,
+  BaseAgent,
+  LLMProvider,
+  MemoryManager,
+  PersonaStateSnapshot,
+  TokenUsageTracker
+} from '../base/Agent'
 import { AgentStateMachine } from '../AgentStateMachine'
+import { PromptTemplateService } from '../prompts/PromptTemplateService'
+import { TaskHierarchyService } from '../../tasks/TaskHierarchyService'
 import { IEventBus } from '@/shared/contracts/EventBus'
-import { DomainEvent } from '@/shared/contracts/common'
+import {
+  DomainError,
+  DomainEvent,
+  EntityNotFoundError,
+  Err,
+  Ok,
+  Result,
+  ValidationError
+} from '@/shared/contracts/common'
 import { v4 as uuidv4 } from 'uuid'
 
 // =============================================================================
@@ -53,13 +76,7 @@ export interface ProjectTask {
   readonly estimatedEffort?: string
 }
 
-export interface ClarificationQuestion {
-  readonly id: string
-  readonly question: string
-  readonly context: string
-  readonly suggestedAnswers?: string[]
-  readonly priority: 'low' | 'medium' | 'high'
-}
+const STATE_VERSION = 1
 
 // =============================================================================
 // Producer Agent Implementation
@@ -75,10 +92,12 @@ export class ProducerAgent extends BaseAgent {
     stateMachine: AgentStateMachine,
     eventBus: IEventBus,
     llmProvider: LLMProvider,
-    memoryManager?: MemoryManager
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService,
+    private readonly taskHierarchy?: TaskHierarchyService
   ) {
-    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager)
-    this.initializeProducerTools()
+    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates)
   }
 
   // =============================================================================
@@ -86,78 +105,7 @@ export class ProducerAgent extends BaseAgent {
   // =============================================================================
 
   protected getSystemPrompt(): string {
-    return `
-You are the Producer, the user's primary partner in building software with Project Maestro.
-
-CORE IDENTITY:
-You are an experienced project manager and facilitator who specializes in transforming vague ideas into actionable software projects. You work with a team of AI specialists (Architect, Engineer, QA) to help users build software.
-
-CORE RESPONSIBILITIES:
-1. Guide users through the development process with encouragement and clarity
-2. Extract specific requirements from vague or incomplete ideas
-3. Maintain project momentum and celebrate progress
-4. Update and refine project plans based on ongoing conversations
-5. Coordinate with other AI agents when technical work is needed
-6. Ask clarifying questions to resolve ambiguity
-7. Break down complex ideas into manageable phases and tasks
-
-PERSONALITY TRAITS:
-- Encouraging and supportive, always celebrating progress
-- Naturally curious, asks thoughtful clarifying questions
-- Patient and understanding when users are uncertain
-- Enthusiastic about the user's vision and goals
-- Gently persistent when decisions are needed
-- Professional but approachable and friendly
-
-INTERACTION PATTERNS:
-
-When the user gives you a vague idea:
-1. Acknowledge their vision enthusiastically ("That sounds like an exciting project!")
-2. Ask 1-2 specific, focused questions to add clarity (not overwhelming)
-3. Summarize your understanding of what they want
-4. Suggest a logical next step
-5. Update the project plan if needed
-
-When the user provides clarification:
-1. Thank them for the details
-2. Confirm your updated understanding
-3. Identify what specific work needs to be done
-4. Suggest involving the appropriate specialist (Architect for design, Engineer for coding, QA for testing)
-5. Update the project plan with new information
-
-When technical work is needed:
-1. Summarize what needs to be done technically
-2. Recommend which specialist agent should handle it
-3. Prepare a clear briefing for that agent
-4. Stay engaged to coordinate and provide updates to the user
-
-COMMUNICATION STYLE:
-- Keep responses conversational and human-like
-- Use "we" language to emphasize collaboration ("We should...", "Let's...")
-- Ask ONE focused question at a time to avoid overwhelming
-- Always end with a suggested next action
-- Use project management terminology naturally but not excessively
-- Show genuine interest in the user's goals and constraints
-
-TOOLS YOU HAVE ACCESS TO:
-- update_project_plan: Update the current project plan with new information
-- coordinate_with_agent: Send a task briefing to another specialist agent
-- ask_clarifying_question: Formally track questions that need user input
-- celebrate_milestone: Acknowledge progress and completed work
-
-CONSTRAINTS:
-- Never make assumptions about technical implementation details
-- Always involve the appropriate specialist for technical work
-- Don't overwhelm users with too many questions at once
-- Keep the conversation focused on forward progress
-- Remember that users may not be technical, so avoid jargon
-- Always maintain an encouraging and positive tone
-
-CONTEXT AWARENESS:
-You have access to the full conversation history and project plan. Reference previous discussions naturally and build on them. If the user mentions something from earlier, acknowledge it and connect it to current work.
-
-Remember: Your role is to be the user's trusted partner in turning their software ideas into reality. You're the bridge between their vision and the technical execution by your specialist team.
-    `.trim()
+    return this.renderPrompt('producer.system', {})
   }
 
   protected getPersonalityTraits(): string[] {
@@ -186,6 +134,67 @@ Remember: Your role is to be the user's trusted partner in turning their softwar
     ]
   }
 
+  protected getActionDefinitions(): AgentActionDefinition[] {
+    return [
+      {
+        name: 'update_project_plan',
+        description: 'Create or update the project plan with new information',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Project title' },
+            description: { type: 'string', description: 'Project description' },
+            updates: { type: 'string', description: 'What changed in this update' }
+          },
+          required: ['title', 'description']
+        }
+      },
+      {
+        name: 'coordinate_with_agent',
+        description: 'Send a task briefing to another specialist agent',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetAgent: { type: 'string', enum: [AgentType.ARCHITECT, AgentType.ENGINEER, AgentType.QA] },
+            task: { type: 'string', description: 'Briefing for the specialist' },
+            context: { type: 'object', description: 'Additional context for the task' }
+          },
+          required: ['targetAgent', 'task']
+        }
+      },
+      {
+        name: 'ask_clarifying_question',
+        description: 'Track a question that needs input from the user',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            question: { type: 'string' },
+            context: { type: 'string', description: 'Why the answer matters' },
+            suggestedAnswers: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Likely answers the user can pick from instead of typing one'
+            },
+            priority: { type: 'string', enum: ['low', 'medium', 'high'] }
+          },
+          required: ['question']
+        }
+      },
+      {
+        name: 'celebrate_milestone',
+        description: 'Acknowledge progress and completed work',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            milestone: { type: 'string' },
+            achievement: { type: 'string' }
+          },
+          required: ['milestone']
+        }
+      }
+    ]
+  }
+
   protected async processAgentMessage(message: AgentMessage, context: AgentContext): Promise<AgentResponse> {
     // Add to conversation context
     this.addToConversationContext(message.content)
@@ -194,36 +203,39 @@ Remember: Your role is to be the user's trusted partner in turning their softwar
     await this.storeMemory(`User message: ${message.content}`, 'conversation')
 
     // Analyze the message and determine response strategy
+    this.reportProgress('analyzing', 10)
     const analysisPrompt = this.buildAnalysisPrompt(message)
     const analysis = await this.callLLM([
       { role: 'user', content: analysisPrompt }
     ])
+    this.reportProgress('planning', 40, { type: 'analysis', title: 'Analyzed the request', content: analysis })
 
     // Generate main response
     const responsePrompt = this.buildResponsePrompt(message, analysis)
-    const responseContent = await this.callLLM([
+    const { content: responseContent, toolCalls } = await this.callLLMStream([
       { role: 'user', content: responsePrompt }
-    ])
+    ], context, { tools: this.getToolDefinitions() })
+
+    // Actions arrive as native tool calls alongside the response
+    const { actions, errors } = this.mapToolCallsToActions(toolCalls)
+    this.reportPlannedActions(actions)
 
-    // Extract any actions from the response
-    const actions = await this.extractActions(responseContent, context)
+    // Execute extracted actions; ones that need confirmation are held for approval
+    const executed = await this.executeActions(actions, context)
+    const allErrors = [...errors, ...executed.errors]
+    this.reportActionResults(executed.actions, allErrors)
 
-    // Build the response
-    const response: AgentResponse = {
+    return {
       messageId: message.id,
       agentType: AgentType.PRODUCER,
       content: responseContent,
-      actions,
+      actions: executed.actions,
+      errors: allErrors.length > 0 ? allErrors : undefined,
       statusUpdate: {
         status: this.status,
         message: 'Processing user input and planning next steps'
       }
     }
-
-    // Execute any extracted actions
-    await this.executeActions(actions, context)
-
-    return response
   }
 
   // =============================================================================
@@ -236,27 +248,7 @@ Remember: Your role is to be the user's trusted partner in turning their softwar
       `Current project: ${this.currentProjectPlan.title} - ${this.currentProjectPlan.description}` : 
       'No active project'
 
-    return `
-Analyze this user message in the context of our ongoing conversation:
-
-CONVERSATION HISTORY:
-${conversationHistory}
-
-CURRENT PROJECT STATUS:
-${currentPlan}
-
-USER MESSAGE:
-"${message.content}"
-
-Analyze:
-1. What is the user trying to accomplish?
-2. Is this a new idea, clarification, or continuation of existing work?
-3. What information is clear vs. what needs clarification?
-4. What type of response would be most helpful?
-5. Should I involve other agents (Architect, Engineer, QA)?
-
-Provide a brief analysis focusing on the most important insights.
-    `.trim()
+    return this.renderPrompt('producer.analysis', { conversationHistory, currentPlan, message: message.content })
   }
 
   private buildResponsePrompt(message: AgentMessage, analysis: string): string {
@@ -265,109 +257,53 @@ Provide a brief analysis focusing on the most important insights.
       `Pending questions: ${this.pendingQuestions.map(q => q.question).join('; ')}` : 
       'No pending questions'
 
-    return `
-You are the Producer responding to the user. Use your personality and expertise to craft a helpful response.
-
-ANALYSIS OF USER MESSAGE:
-${analysis}
-
-RELEVANT CONTEXT:
-${recentMemories}
-${pendingQuestionsText}
-
-USER MESSAGE:
-"${message.content}"
-
-Craft a response that:
-1. Acknowledges what the user said with appropriate enthusiasm
-2. Shows understanding of their goals
-3. Asks 1-2 specific clarifying questions if needed (don't overwhelm)
-4. Suggests a clear next step
-5. Maintains an encouraging, collaborative tone
-
-If technical work is needed, suggest involving the appropriate specialist agent.
-If the project plan should be updated, mention that you'll update it.
-
-Keep the response conversational, supportive, and focused on moving forward.
-    `.trim()
+    return this.renderPrompt('producer.response', { analysis, recentMemories, pendingQuestionsText, message: message.content })
   }
 
-  private async extractActions(responseContent: string, _context: AgentContext): Promise<AgentAction[]> {
-    const actions: AgentAction[] = []
-
-    // Use LLM to extract actions from the response
-    const actionPrompt = `
-Analyze this Producer response and identify any actions that should be taken:
-
-RESPONSE:
-"${responseContent}"
-
-Identify if the response suggests:
-1. Updating the project plan (extract project details)
-2. Coordinating with another agent (which agent and what task)
-3. Asking clarifying questions (extract the questions)
-4. Celebrating a milestone (what milestone)
-
-Return a JSON array of actions in this format:
-[
-  {
-    "type": "update_project_plan",
-    "description": "Update project plan with new information",
-    "parameters": {
-      "title": "project title",
-      "description": "project description",
-      "updates": "what changed"
-    }
-  }
-]
-
-Only include actions that are clearly indicated in the response. Return empty array if no actions.
-    `.trim()
-
-    try {
-      const actionsText = await this.callLLM([
-        { role: 'user', content: actionPrompt }
-      ])
-
-      // Parse the JSON response
-      const extractedActions = JSON.parse(actionsText)
-      
-      for (const action of extractedActions) {
-        actions.push({
-          type: action.type,
-          description: action.description,
-          parameters: action.parameters,
-          confirmation: false // Producer actions don't need confirmation
+  private async executeActions(
+    actions: AgentAction[],
+    context: AgentContext
+  ): Promise<{ actions: AgentAction[]; errors: AgentError[] }> {
+    const executed: AgentAction[] = []
+    const errors: AgentError[] = []
+
+    for (const action of actions) {
+      try {
+        executed.push(await this.executeOrQueue(action, context, approved => this.executeAction(approved, context)))
+      } catch (error) {
+        console.error(`Failed to execute action ${action.type}:`, error)
+        errors.push({
+          code: 'ACTION_FAILED',
+          message: `${action.type} failed: ${(error as Error).message}`,
+          severity: 'error',
+          recoverable: true,
+          context: { action: action.type }
         })
+        executed.push(action)
       }
-    } catch (error) {
-      console.warn('Failed to extract actions from response:', error)
     }
 
-    return actions
+    return { actions: executed, errors }
   }
 
-  private async executeActions(actions: AgentAction[], _context: AgentContext): Promise<void> {
-    for (const action of actions) {
-      try {
-        switch (action.type) {
-          case 'update_project_plan':
-            await this.updateProjectPlan(action.parameters)
-            break
-          case 'coordinate_with_agent':
-            await this.coordinateWithAgent(action.parameters)
-            break
-          case 'ask_clarifying_question':
-            await this.askClarifyingQuestion(action.parameters)
-            break
-          case 'celebrate_milestone':
-            await this.celebrateMilestone(action.parameters)
-            break
-        }
-      } catch (error) {
-        console.error(`Failed to execute action ${action.type}:`, error)
+  private async executeAction(action: AgentAction, context: AgentContext): Promise<AgentAction> {
+    switch (action.type) {
+      case 'update_project_plan': {
+        await this.updateProjectPlan(action.parameters)
+        const approval = await this.syncPlanToHierarchy(context)
+        return approval ? { ...action, parameters: { ...action.parameters, approvalId: approval.id } } : action
       }
+      case 'coordinate_with_agent':
+        await this.coordinateWithAgent(action.parameters)
+        break
+      case 'ask_clarifying_question':
+        await this.askClarifyingQuestion(action.parameters, context)
+        break
+      case 'celebrate_milestone':
+        await this.celebrateMilestone(action.parameters)
+        break
     }
+    return action
   }
 
   private async updateProjectPlan(parameters: any): Promise<void> {
@@ -402,6 +338,13 @@ Only include actions that are clearly indicated in the response. Return empty ar
       }
     }
 
+    this.reportArtifact({
+      type: 'plan',
+      title: this.currentProjectPlan.title,
+      content: JSON.stringify(this.currentProjectPlan, null, 2),
+      tags: ['project-plan']
+    })
+
     // Store in memory
     await this.storeMemory(
       `Project plan updated: ${JSON.stringify(this.currentProjectPlan)}`,
@@ -425,6 +368,45 @@ Only include actions that are clearly indicated in the response. Return empty ar
     this.eventBus.publishAsync(event)
   }
 
+  /**
+   * Propose the plan's phases and tasks as epics and stories in the project's
+   * task tree. The changes are held for review when an approval queue is attached.
+   */
+  private async syncPlanToHierarchy(context: AgentContext): Promise<ActionApproval | undefined> {
+    const { projectId } = context
+    const taskHierarchy = this.taskHierarchy
+    const plan = this.currentProjectPlan
+    if (!taskHierarchy || !plan) {
+      return undefined
+    }
+
+    const preview = await taskHierarchy.previewPlanSync(projectId, plan)
+    if (preview.changes.length === 0) {
+      return undefined
+    }
+
+    const apply = async (changes: unknown) => {
+      const applied = await taskHierarchy.applyPlanSync(preview.projectId, changes)
+      if (!applied.success) {
+        throw applied.error
+      }
+      return { epics: applied.data.epics.length }
+    }
+    const action: AgentAction = {
+      type: 'sync_task_hierarchy',
+      description: `Update the task tree from ${plan.title} (${preview.changes.length} change(s))`,
+      parameters: { planId: preview.planId, changes: preview.changes },
+      confirmation: true
+    }
+    const approval = this.queueForApproval(action, context, {
+      execute: parameters => apply(parameters.changes)
+    })
+    if (!approval) {
+      await apply(preview.changes)
+    }
+    return approval
+  }
+
   private async coordinateWithAgent(parameters: any): Promise<void> {
     const { targetAgent, task, context: taskContext } = parameters
 
@@ -461,14 +443,19 @@ Only include actions that are clearly indicated in the response. Return empty ar
     this.eventBus.publishAsync(event)
   }
 
-  private async askClarifyingQuestion(parameters: any): Promise<void> {
-    const { question, context, priority } = parameters
+  private async askClarifyingQuestion(parameters: any, agentContext: AgentContext): Promise<void> {
+    const { question, context, priority, suggestedAnswers } = parameters
 
     const clarificationQuestion: ClarificationQuestion = {
       id: uuidv4(),
       question,
-      context,
-      priority: priority || 'medium'
+      context: context || '',
+      suggestedAnswers: Array.isArray(suggestedAnswers)
+        ? suggestedAnswers.filter((answer: unknown): answer is string => typeof answer === 'string' && answer.trim() !== '')
+        : undefined,
+      priority: priority || 'medium',
+      projectId: agentContext.projectId,
+      askedAt: new Date()
     }
 
     this.pendingQuestions.push(clarificationQuestion)
@@ -478,6 +465,18 @@ Only include actions that are clearly indicated in the response. Return empty ar
       `Clarification question: ${question}`,
       'clarification'
     )
+
+    const event: ClarificationQuestionAskedEvent = {
+      id: uuidv4(),
+      type: 'agent.question.asked',
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload: { question: clarificationQuestion }
+    }
+    this.eventBus.publishAsync(event)
   }
 
   private async celebrateMilestone(parameters: any): Promise<void> {
@@ -522,9 +521,24 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return this.conversationContext.slice(-3).join('\n')
   }
 
-  private initializeProducerTools(): void {
-    // Producer-specific tools would be registered here
-    // For now, we rely on the action extraction system
+  // =============================================================================
+  // Persona State
+  // =============================================================================
+
+  exportState(): PersonaStateSnapshot {
+    return {
+      version: STATE_VERSION,
+      data: {
+        currentProjectPlan: this.currentProjectPlan,
+        pendingQuestions: this.pendingQuestions
+      }
+    }
+  }
+
+  importState(snapshot: PersonaStateSnapshot | undefined): void {
+    const data = snapshot?.version === STATE_VERSION ? snapshot.data : undefined
+    this.currentProjectPlan = data?.currentProjectPlan as ProjectPlan | undefined
+    this.pendingQuestions = (data?.pendingQuestions as ClarificationQuestion[] | undefined) ?? []
   }
 
   // =============================================================================
@@ -539,9 +553,39 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return [...this.pendingQuestions]
   }
 
-  public answerQuestion(questionId: string, answer: string): void {
+  /**
+   * Close a pending question with the user's answer and keep the answer as a
+   * project memory, so the requirement it settles is not lost
+   */
+  public async answerQuestion(questionId: string, answer: string): Promise<Result<ClarificationQuestion, DomainError>> {
+    const question = this.pendingQuestions.find(q => q.id === questionId)
+    if (!question) {
+      return Err(new EntityNotFoundError('clarification question', questionId))
+    }
+    const trimmed = answer.trim()
+    if (!trimmed) {
+      return Err(new ValidationError('agent', 'An answer is required'))
+    }
+
     this.pendingQuestions = this.pendingQuestions.filter(q => q.id !== questionId)
-    this.addToConversationContext(`Question answered: ${answer}`)
+    this.addToConversationContext(`Question answered: ${question.question} → ${trimmed}`)
+    await this.withProject(question.projectId, () => this.storeMemory(
+      `Clarification answered: ${question.question}\nAnswer: ${trimmed}`,
+      'clarification'
+    ))
+
+    const event: ClarificationQuestionAnsweredEvent = {
+      id: uuidv4(),
+      type: 'agent.question.answered',
+      domain: 'agent',
+      agentId: this.id,
+      agentType: this.type,
+      timestamp: new Date(),
+      version: 1,
+      payload: { question, answer: trimmed }
+    }
+    this.eventBus.publishAsync(event)
+    return Ok(question)
   }
 
   public getConversationContext(): string[] {
@@ -9,14 +9,25 @@
 import {
   AgentAction,
   Agent as AgentEntity,
+  AgentError,
   AgentMessage,
   AgentResponse,
   AgentType
 } from '@/shared/contracts/AgentDomain'
-import { AgentContext, BaseAgent, LLMProvider, MemoryManager } from '../base/Agent'
+import {
+  AgentActionDefinition,
+  AgentContext,
+  BaseAgent,
+  LLMProvider,
+  MemoryManager,
+  PersonaStateSnapshot,
+  TokenUsageTracker
+} from '../base/Agent'
 import { AgentStateMachine } from '../AgentStateMachine'
+import { PromptTemplateService } from '../prompts/PromptTemplateService'
+import { TestRunResult, TestRunner } from '../testing/TestRunner'
 import { IEventBus } from '@/shared/contracts/EventBus'
-import { DomainEvent } from '@/shared/contracts/common'
+import { BusinessRuleViolationError, DomainEvent } from '@/shared/contracts/common'
 import { v4 as uuidv4 } from 'uuid'
 
 // =============================================================================
@@ -157,6 +168,23 @@ export interface BugReport {
   readonly resolvedAt?: Date
 }
 
+/**
+ * Outcome of running the project's test suite, attached to the execute_tests action
+ */
+export interface TestExecutionSummary {
+  readonly command: string
+  readonly exitCode: number | null
+  readonly durationMs: number
+  readonly total: number
+  readonly passed: number
+  readonly failed: number
+  readonly skipped: number
+  /**
+   * Bugs opened for tests that newly failed in this run
+   */
+  readonly newBugIds: string[]
+}
+
 export interface TestPlan {
   readonly id: string
   readonly title: string
@@ -219,6 +247,8 @@ export interface TestRisk {
   readonly contingency: string[]
 }
 
+const STATE_VERSION = 1
+
 // =============================================================================
 // QA Agent Implementation
 // =============================================================================
@@ -228,16 +258,22 @@ export class QAAgent extends BaseAgent {
   private testPlans: TestPlan[] = []
   private bugReports: BugReport[] = []
   private qualityHistory: QualityAssessment[] = []
+  private lastTestRun?: TestRunResult
+  // Bug opened for each failing test, by project and test id, so that a test
+  // that keeps failing is not reported again on every run
+  private readonly failureBugs = new Map<string, string>()
 
   constructor(
     agentEntity: AgentEntity,
     stateMachine: AgentStateMachine,
     eventBus: IEventBus,
     llmProvider: LLMProvider,
-    memoryManager?: MemoryManager
+    memoryManager?: MemoryManager,
+    tokenUsageTracker?: TokenUsageTracker,
+    promptTemplates?: PromptTemplateService,
+    private readonly testRunner?: TestRunner
   ) {
-    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager)
-    this.initializeQATools()
+    super(agentEntity, stateMachine, eventBus, llmProvider, memoryManager, tokenUsageTracker, promptTemplates)
   }
 
   // =============================================================================
@@ -245,108 +281,7 @@ export class QAAgent extends BaseAgent {
   // =============================================================================
 
   protected getSystemPrompt(): string {
-    return `
-You are the QA agent, a senior quality assurance engineer specializing in comprehensive testing, quality assessment, and continuous improvement.
-
-CORE IDENTITY:
-You are an experienced QA professional with expertise in testing methodologies, automation frameworks, quality metrics, and defect management. You ensure that all software meets high standards of quality, reliability, and user satisfaction.
-
-CORE RESPONSIBILITIES:
-1. Create comprehensive test plans and testing strategies
-2. Design and execute test cases across all testing levels
-3. Identify, document, and track quality issues and bugs
-4. Assess overall system quality and provide improvement recommendations
-5. Implement test automation and continuous testing practices
-6. Validate that implementations meet business requirements
-7. Ensure security, performance, and accessibility standards
-8. Guide quality practices across the development team
-
-PERSONALITY TRAITS:
-- Detail-oriented and methodical in testing approach
-- Curious and investigative mindset for finding edge cases
-- Systematic and thorough in documentation
-- Collaborative but independent in quality assessment
-- Proactive in identifying potential quality risks
-- Analytical and data-driven in decision making
-- Passionate about delivering high-quality software
-- Customer-focused and user experience oriented
-
-QUALITY PHILOSOPHY:
-- Quality is everyone's responsibility, but QA ensures it happens
-- Prevention is better than detection - build quality in from the start
-- Test early, test often, and test across the entire stack
-- Automate repetitive tests, but keep human insight for exploratory testing
-- Quality includes functionality, performance, security, and usability
-- Continuous improvement through metrics and feedback loops
-- Risk-based testing to focus effort where it matters most
-
-INTERACTION PATTERNS:
-
-When receiving testing requirements:
-1. Understand the scope, objectives, and acceptance criteria
-2. Identify testing types needed (functional, performance, security, etc.)
-3. Assess risks and prioritize testing efforts accordingly
-4. Create comprehensive test plan with clear strategy
-5. Design test cases that cover happy paths, edge cases, and error scenarios
-6. Plan for both manual exploratory testing and automation
-
-When testing implementations:
-1. Execute test cases systematically and document results
-2. Perform exploratory testing to discover unexpected issues
-3. Validate against requirements and user expectations
-4. Test across different environments, browsers, and configurations
-5. Document defects with clear reproduction steps and evidence
-6. Assess overall quality and provide actionable feedback
-
-When analyzing quality:
-1. Collect and analyze quality metrics (coverage, defect density, etc.)
-2. Identify trends and patterns in quality data
-3. Assess compliance with quality standards and best practices
-4. Provide recommendations for quality improvements
-5. Report on testing progress and quality status
-6. Suggest process improvements based on lessons learned
-
-COMMUNICATION STYLE:
-- Be specific and precise in defect reporting and test documentation
-- Use data and evidence to support quality assessments
-- Communicate risks and quality issues clearly without blame
-- Provide actionable recommendations for improvement
-- Ask clarifying questions to understand requirements fully
-- Balance thoroughness with practical delivery constraints
-- Use visual aids (screenshots, videos) when helpful for bug reports
-
-TOOLS YOU HAVE ACCESS TO:
-- create_test_plan: Develop comprehensive testing strategy and plans
-- design_test_cases: Create detailed test cases and test suites
-- execute_tests: Run tests and document results
-- report_bug: Document defects with complete information
-- assess_quality: Evaluate overall system quality with metrics
-- recommend_improvements: Suggest quality and process improvements
-- automate_tests: Create automated test scripts and frameworks
-
-CONSTRAINTS:
-- Always consider user experience and business impact in quality assessment
-- Balance thoroughness with delivery timelines and business priorities
-- Focus testing efforts on high-risk and high-impact areas
-- Ensure test documentation is clear and maintainable
-- Consider accessibility, security, and performance in all testing
-- Validate cross-browser and cross-platform compatibility when relevant
-- Maintain objectivity and independence in quality assessment
-
-TESTING STANDARDS:
-- All critical functionality must have test coverage
-- Performance requirements should be validated with load testing
-- Security vulnerabilities must be identified and addressed
-- Accessibility standards should be verified for public-facing features
-- User experience should be validated through usability testing
-- Regression testing must be performed for all changes
-- Test documentation should be comprehensive and up-to-date
-
-CONTEXT AWARENESS:
-You have access to project requirements, architectural designs, implementation details, and quality history. Use this context to prioritize testing efforts and identify the most important quality risks. Build on previous testing efforts and maintain consistency in quality standards.
-
-Remember: Your role is to ensure that the software meets the highest standards of quality while balancing practical constraints. You serve as the voice of quality and the advocate for end users throughout the development process.
-    `.trim()
+    return this.renderPrompt('qa.system', {})
   }
 
   protected getPersonalityTraits(): string[] {
@@ -377,41 +312,156 @@ Remember: Your role is to ensure that the software meets the highest standards o
     ]
   }
 
+  protected getActionDefinitions(): AgentActionDefinition[] {
+    return [
+      {
+        name: 'create_test_plan',
+        description: 'Create a test plan for a set of features',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            scope: { type: 'array', items: { type: 'string' } },
+            testTypes: { type: 'array', items: { type: 'string' } },
+            strategy: { type: 'string' },
+            timeline: { type: 'string' },
+            resources: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['title', 'scope']
+        }
+      },
+      {
+        name: 'design_test_cases',
+        description: 'Design test cases for a feature',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature: { type: 'string' },
+            scenarios: { type: 'array', items: { type: 'string' } },
+            requirements: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['feature']
+        }
+      },
+      {
+        name: 'execute_tests',
+        description: 'Run a test suite',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            testSuite: { type: 'string' },
+            environment: { type: 'string' },
+            scope: { type: 'string' }
+          },
+          required: ['testSuite']
+        }
+      },
+      {
+        name: 'report_bug',
+        description: 'Report a defect',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical', 'blocker'] },
+            category: { type: 'string', enum: ['functional', 'ui_ux', 'performance', 'security', 'data', 'integration'] },
+            component: { type: 'string' },
+            steps: { type: 'array', items: { type: 'string' }, description: 'Steps to reproduce' }
+          },
+          required: ['title', 'description', 'severity']
+        }
+      },
+      {
+        name: 'assess_quality',
+        description: 'Assess quality against metrics',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scope: { type: 'string' },
+            metrics: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  category: { type: 'string' },
+                  value: { type: 'number' },
+                  unit: { type: 'string' },
+                  target: { type: 'number' }
+                }
+              }
+            }
+          },
+          required: ['scope']
+        }
+      },
+      {
+        name: 'recommend_improvements',
+        description: 'Recommend quality improvements for an area',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            area: { type: 'string' },
+            recommendations: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['area', 'recommendations']
+        }
+      },
+      {
+        name: 'automate_tests',
+        description: 'Automate tests for a scope',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scope: { type: 'string' },
+            framework: { type: 'string' },
+            testTypes: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['scope']
+        }
+      }
+    ]
+  }
+
   protected async processAgentMessage(message: AgentMessage, context: AgentContext): Promise<AgentResponse> {
     // Store message in memory for testing context
     await this.storeMemory(`QA request: ${message.content}`, 'conversation')
 
     // Analyze the message for testing requirements
+    this.reportProgress('analyzing', 10)
     const analysisPrompt = this.buildQAAnalysisPrompt(message)
     const analysis = await this.callLLM([
       { role: 'user', content: analysisPrompt }
     ])
+    this.reportProgress('planning', 40, { type: 'analysis', title: 'Analyzed the quality requirements', content: analysis })
 
     // Generate QA response
     const responsePrompt = this.buildQAResponsePrompt(message, analysis)
-    const responseContent = await this.callLLM([
+    const { content: responseContent, toolCalls } = await this.callLLMStream([
       { role: 'user', content: responsePrompt }
-    ])
+    ], context, { tools: this.getToolDefinitions() })
+
+    // Actions arrive as native tool calls alongside the response
+    const { actions, errors } = this.mapToolCallsToActions(toolCalls)
+    this.reportPlannedActions(actions)
 
-    // Extract QA actions from the response
-    const actions = await this.extractQAActions(responseContent, context)
+    // Execute extracted actions; test runs attach their results
+    const executed = await this.executeActions(actions, context)
+    const allErrors = [...errors, ...executed.errors]
+    this.reportActionResults(executed.actions, allErrors)
 
-    // Build the response
-    const response: AgentResponse = {
+    return {
       messageId: message.id,
       agentType: AgentType.QA,
       content: responseContent,
-      actions,
+      actions: executed.actions,
+      errors: allErrors.length > 0 ? allErrors : undefined,
       statusUpdate: {
         status: this.status,
         message: 'Analyzing quality requirements and planning testing approach'
       }
     }
-
-    // Execute extracted actions
-    await this.executeActions(actions, context)
-
-    return response
   }
 
   // =============================================================================
@@ -428,28 +478,7 @@ Remember: Your role is to ensure that the software meets the highest standards o
       `Active bugs: ${activeBugs.map(bug => `${bug.title} (${bug.severity})`).join(', ')}` :
       'No active bugs'
 
-    return `
-Analyze this message from a quality assurance perspective:
-
-CURRENT QA CONTEXT:
-${currentAssessment}
-${activeBugsText}
-
-MESSAGE TO ANALYZE:
-"${message.content}"
-
-From a QA perspective, analyze:
-1. What functionality or system needs to be tested?
-2. What types of testing are required (functional, performance, security, etc.)?
-3. What are the quality risks and areas of concern?
-4. Are there specific requirements or acceptance criteria to validate?
-5. What testing environments and data are needed?
-6. Should this be manual testing, automated testing, or both?
-7. Are there any bugs or quality issues being reported?
-8. What quality metrics should be tracked?
-
-Focus on comprehensive quality coverage and risk-based testing approach.
-    `.trim()
+    return this.renderPrompt('qa.analysis', { currentAssessment, activeBugsText, message: message.content })
   }
 
   private buildQAResponsePrompt(message: AgentMessage, analysis: string): string {
@@ -458,125 +487,63 @@ Focus on comprehensive quality coverage and risk-based testing approach.
       `Current focus: ${this.currentAssessment.title} (${this.currentAssessment.status})` : 
       'No active quality assessment'
 
-    return `
-You are the QA agent responding to this quality/testing request. Provide comprehensive testing guidance and quality recommendations.
-
-QA ANALYSIS:
-${analysis}
-
-RELEVANT CONTEXT:
-${recentQualityMemories}
-${qaContext}
-
-MESSAGE:
-"${message.content}"
-
-Craft a QA response that:
-1. Acknowledges the testing requirements and quality objectives
-2. Proposes comprehensive testing strategy covering all relevant test types
-3. Identifies quality risks and prioritizes testing efforts accordingly
-4. Designs test approach for both manual exploratory and automated testing
-5. Plans for different testing environments and data requirements
-6. Considers user experience, performance, security, and accessibility
-7. Provides realistic timeline and resource estimates for testing
-8. Suggests quality metrics and success criteria
-
-Keep your response thorough but practical, balancing comprehensive coverage with delivery constraints.
-If test planning should begin, mention that you'll create detailed test plans.
-If bugs need to be reported, suggest documenting them systematically.
-    `.trim()
+    return this.renderPrompt('qa.response', { analysis, recentQualityMemories, qaContext, message: message.content })
   }
 
-  private async extractQAActions(responseContent: string, _context: AgentContext): Promise<AgentAction[]> {
-    const actions: AgentAction[] = []
-
-    const actionPrompt = `
-Analyze this QA response and identify testing actions that should be taken:
-
-RESPONSE:
-"${responseContent}"
-
-Identify if the response suggests:
-1. Creating test plans (extract testing scope, strategy, and types)
-2. Designing test cases (extract test scenarios and requirements)
-3. Executing tests (extract testing approach and environment needs)
-4. Reporting bugs (extract issue details and severity)
-5. Assessing quality (extract quality metrics and assessment criteria)
-6. Recommending improvements (extract improvement areas and suggestions)
-7. Automating tests (extract automation scope and framework needs)
-8. Coordinating with other agents (identify which agents and what information needed)
-
-Return a JSON array of actions in this format:
-[
-  {
-    "type": "create_test_plan",
-    "description": "Create comprehensive test plan",
-    "parameters": {
-      "title": "test plan title",
-      "scope": ["feature1", "feature2"],
-      "testTypes": ["functional", "performance"],
-      "strategy": "risk-based testing approach",
-      "timeline": "2 weeks",
-      "resources": ["QA engineer", "test environment"]
-    }
-  }
-]
-
-Only include actions that are clearly indicated in the response. Return empty array if no actions.
-    `.trim()
-
-    try {
-      const actionsText = await this.callLLM([
-        { role: 'user', content: actionPrompt }
-      ])
-
-      const extractedActions = JSON.parse(actionsText)
-      
-      for (const action of extractedActions) {
-        actions.push({
-          type: action.type,
-          description: action.description,
-          parameters: action.parameters,
-          confirmation: false // QA actions typically don't need confirmation
+  private async executeActions(
+    actions: AgentAction[],
+    context: AgentContext
+  ): Promise<{ actions: AgentAction[]; errors: AgentError[] }> {
+    const executed: AgentAction[] = []
+    const errors: AgentError[] = []
+
+    for (const action of actions) {
+      try {
+        executed.push(await this.executeOrQueue(action, context, approved => this.executeAction(approved, context)))
+      } catch (error) {
+        console.error(`Failed to execute QA action ${action.type}:`, error)
+        errors.push({
+          code: 'ACTION_FAILED',
+          message: `${action.type} failed: ${(error as Error).message}`,
+          severity: 'error',
+          recoverable: true,
+          context: { action: action.type }
         })
+        executed.push(action)
       }
-    } catch (error) {
-      console.warn('Failed to extract QA actions from response:', error)
     }
 
-    return actions
+    return { actions: executed, errors }
   }
 
-  private async executeActions(actions: AgentAction[], _context: AgentContext): Promise<void> {
-    for (const action of actions) {
-      try {
-        switch (action.type) {
-          case 'create_test_plan':
-            await this.createTestPlan(action.parameters)
-            break
-          case 'design_test_cases':
-            await this.designTestCases(action.parameters)
-            break
-          case 'execute_tests':
-            await this.executeTests(action.parameters)
-            break
-          case 'report_bug':
-            await this.reportBug(action.parameters)
-            break
-          case 'assess_quality':
-            await this.assessQuality(action.parameters)
-            break
-          case 'recommend_improvements':
-            await this.recommendImprovements(action.parameters)
-            break
-          case 'automate_tests':
-            await this.automateTests(action.parameters)
-            break
-        }
-      } catch (error) {
-        console.error(`Failed to execute QA action ${action.type}:`, error)
+  private async executeAction(action: AgentAction, context: AgentContext): Promise<AgentAction> {
+    let result = action
+    switch (action.type) {
+      case 'create_test_plan':
+        await this.createTestPlan(action.parameters)
+        break
+      case 'design_test_cases':
+        await this.designTestCases(action.parameters)
+        break
+      case 'execute_tests': {
+        const testRun = await this.executeTests(action.parameters, context)
+        result = { ...action, parameters: { ...action.parameters, testRun } }
+        break
       }
+      case 'report_bug':
+        await this.reportBug(action.parameters)
+        break
+      case 'assess_quality':
+        await this.assessQuality(action.parameters)
+        break
+      case 'recommend_improvements':
+        await this.recommendImprovements(action.parameters)
+        break
+      case 'automate_tests':
+        await this.automateTests(action.parameters)
+        break
     }
+    return result
   }
 
   private async createTestPlan(parameters: any): Promise<void> {
@@ -697,12 +664,66 @@ Only include actions that are clearly indicated in the response. Return empty ar
     this.eventBus.publishAsync(event)
   }
 
-  private async executeTests(parameters: any): Promise<void> {
+  /**
+   * Run the project's test suite and open a bug for every test that newly fails
+   */
+  private async executeTests(parameters: any, context: AgentContext): Promise<TestExecutionSummary> {
     const { testSuite, environment, scope } = parameters
+    if (!this.testRunner) {
+      throw new BusinessRuleViolationError('agent', 'No test runner is available to execute tests')
+    }
+
+    const run = await this.testRunner.run({ projectId: context.projectId, scope })
+    if (!run.success) {
+      throw run.error
+    }
+    this.lastTestRun = run.data
+
+    const newBugs: BugReport[] = []
+    for (const suite of run.data.suites) {
+      for (const testCase of suite.testCases.filter(testCase => testCase.status === 'failed')) {
+        const key = `${context.projectId ?? ''}::${testCase.id}`
+        const previous = this.bugReports.find(bug => bug.id === this.failureBugs.get(key))
+        // Failing again after a fix was resolved is a regression and gets a new bug
+        if (previous && !['resolved', 'verified', 'closed'].includes(previous.status)) {
+          continue
+        }
+
+        const bugReport = this.createBugReport({
+          title: `Failing test: ${testCase.name}`,
+          description: `${testCase.name} in ${suite.name} failed when running ${run.data.command}`,
+          severity: 'high',
+          category: 'functional',
+          component: suite.name,
+          stepsToReproduce: [`Run ${run.data.command}`],
+          expectedResult: testCase.expectedResult,
+          actualResult: testCase.actualResult ?? 'Test failed',
+          logs: testCase.actualResult ? [testCase.actualResult] : []
+        })
+        this.failureBugs.set(key, bugReport.id)
+        newBugs.push(bugReport)
+        await this.fileBugReport(bugReport)
+      }
+    }
+
+    const { summary } = run.data
+    const testRun: TestExecutionSummary = {
+      command: run.data.command,
+      exitCode: run.data.exitCode,
+      durationMs: run.data.durationMs,
+      ...summary,
+      newBugIds: newBugs.map(bug => bug.id)
+    }
+    this.reportArtifact({
+      type: 'test',
+      title: `Test run: ${run.data.command}`,
+      content: `${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped\n\n${run.data.output}`,
+      tags: [run.data.framework, summary.failed > 0 ? 'failing' : 'passing']
+    })
 
     // Store test execution in memory
     await this.storeMemory(
-      `Tests executed: ${testSuite} in ${environment}`,
+      `Tests executed: ${testSuite} (${run.data.command}): ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`,
       'test_execution'
     )
 
@@ -718,40 +739,54 @@ Only include actions that are clearly indicated in the response. Return empty ar
         agentType: this.type,
         testSuite,
         environment,
-        scope
+        scope,
+        ...testRun
       }
     }
     this.eventBus.publishAsync(event)
+
+    return testRun
   }
 
   private async reportBug(parameters: any): Promise<void> {
     const { title, description, severity, category, component, steps } = parameters
 
-    const bugReport: BugReport = {
-      id: uuidv4(),
+    await this.fileBugReport(this.createBugReport({
       title: title || 'Bug Report',
       description: description || 'Bug description',
       severity: severity || 'medium',
-      priority: this.mapSeverityToPriority(severity),
       category: category || 'functional',
       component: component || 'unknown',
-      version: '1.0.0',
-      environment: 'testing',
-      stepsToReproduce: steps || [],
+      stepsToReproduce: steps || []
+    }))
+  }
+
+  private createBugReport(
+    details: Pick<BugReport, 'title' | 'description' | 'severity' | 'category' | 'component' | 'stepsToReproduce'> &
+      Partial<Pick<BugReport, 'expectedResult' | 'actualResult' | 'logs'>>
+  ): BugReport {
+    return {
+      id: uuidv4(),
       expectedResult: 'Expected behavior',
       actualResult: 'Actual behavior',
       logs: [],
+      ...details,
+      priority: this.mapSeverityToPriority(details.severity),
+      version: '1.0.0',
+      environment: 'testing',
       screenshots: [],
       status: 'new',
       reporter: 'QA Agent',
       createdAt: new Date()
     }
+  }
 
+  private async fileBugReport(bugReport: BugReport): Promise<void> {
     this.bugReports.push(bugReport)
 
     // Store in memory
     await this.storeMemory(
-      `Bug reported: ${title} (${severity})`,
+      `Bug reported: ${bugReport.title} (${bugReport.severity})`,
       'bug_report'
     )
 
@@ -890,9 +925,33 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return 'Recent quality context to be implemented'
   }
 
-  private initializeQATools(): void {
-    // QA-specific tools would be registered here
-    // For now, we rely on the action extraction system
+  // =============================================================================
+  // Persona State
+  // =============================================================================
+
+  exportState(): PersonaStateSnapshot {
+    return {
+      version: STATE_VERSION,
+      data: {
+        currentAssessment: this.currentAssessment,
+        testPlans: this.testPlans,
+        bugReports: this.bugReports,
+        qualityHistory: this.qualityHistory,
+        failureBugs: Object.fromEntries(this.failureBugs)
+      }
+    }
+  }
+
+  importState(snapshot: PersonaStateSnapshot | undefined): void {
+    const data = snapshot?.version === STATE_VERSION ? snapshot.data : undefined
+    this.currentAssessment = data?.currentAssessment as QualityAssessment | undefined
+    this.testPlans = (data?.testPlans as TestPlan[] | undefined) ?? []
+    this.bugReports = (data?.bugReports as BugReport[] | undefined) ?? []
+    this.qualityHistory = (data?.qualityHistory as QualityAssessment[] | undefined) ?? []
+    this.lastTestRun = undefined
+    this.failureBugs.clear()
+    Object.entries((data?.failureBugs as Record<string, string> | undefined) ?? {})
+      .forEach(([key, bugId]) => this.failureBugs.set(key, bugId))
   }
 
   // =============================================================================
@@ -911,6 +970,10 @@ Only include actions that are clearly indicated in the response. Return empty ar
     return [...this.bugReports]
   }
 
+  public getLastTestRun(): TestRunResult | undefined {
+    return this.lastTestRun
+  }
+
   public getQualityHistory(): QualityAssessment[] {
     return [...this.qualityHistory]
   }
@@ -0,0 +1,87 @@
+/**
+ * Prompt Template IPC Handlers
+ *
+ * Lets the renderer list the persona prompt templates and set or remove
+ * global and per-project overrides, so agent behavior can be tuned
+ * without changing code.
+ */
+
+import { app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { PromptTemplateService, createPromptTemplateService } from './PromptTemplateService'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const SetOverrideSchema = z.object({
+  projectId: z.string().min(1).optional(),
+  override: z.object({
+    id: z.string().min(1),
+    version: z.string().min(1).max(50),
+    template: z.string().min(1).max(100000)
+  })
+})
+
+const RemoveOverrideSchema = z.object({
+  projectId: z.string().min(1).optional(),
+  templateId: z.string().min(1)
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class PromptTemplateIPCHandlers {
+  private readonly promptTemplateService: PromptTemplateService
+
+  constructor() {
+    this.promptTemplateService = createPromptTemplateService({
+      storagePath: path.join(app.getPath('userData'), 'app-data', 'prompt-templates.json')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.promptTemplateService.initialize()
+    this.registerHandlers()
+    console.log('Prompt template IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    const handlers = ['prompts:list', 'prompts:set-override', 'prompts:remove-override']
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+    await this.promptTemplateService.flush()
+  }
+
+  getPromptTemplateService(): PromptTemplateService {
+    return this.promptTemplateService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('prompts:list', async (_event, projectId?: unknown) => {
+      const validatedProjectId = z.string().optional().parse(projectId ?? undefined)
+      return this.promptTemplateService.listTemplates(validatedProjectId)
+    })
+
+    ipcMain.handle('prompts:set-override', async (_event, request: unknown) => {
+      const { override, projectId } = SetOverrideSchema.parse(request)
+      const result = this.promptTemplateService.setOverride(override, projectId)
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+
+    ipcMain.handle('prompts:remove-override', async (_event, request: unknown) => {
+      const { templateId, projectId } = RemoveOverrideSchema.parse(request)
+      return { success: this.promptTemplateService.removeOverride(templateId, projectId) }
+    })
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Prompt Template Service
+ *
+ * Named, versioned prompt templates for the agent personas. Templates use
+ * `{{variable}}` placeholders for declared, typed variables. Each built-in
+ * template can be overridden globally or per project; the most specific
+ * override wins, and every render reports which template version was used.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import {
+  PromptTemplateOverride,
+  PromptTemplateSource,
+  PromptTemplateSummary,
+  PromptTemplateUsage,
+  PromptVariableDefinition,
+  PromptVariableValue
+} from '@/shared/contracts/AgentDomain'
+import { DomainError, Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { BUILTIN_PROMPT_TEMPLATES, BuiltinPromptVariables } from './templates'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromptTemplateDefinition {
+  readonly id: string
+  readonly version: string
+  readonly description: string
+  readonly variables: PromptVariableDefinition[]
+  readonly template: string
+}
+
+export interface PromptTemplateServiceConfig {
+  /**
+   * JSON file overrides are persisted to; overrides are kept in memory only when omitted
+   */
+  readonly storagePath?: string
+}
+
+export type PromptVariables = Record<string, PromptVariableValue>
+
+/**
+ * Built-in templates take their declared variables; other templates take any variables
+ */
+export type PromptVariablesFor<K extends string> = K extends keyof BuiltinPromptVariables
+  ? BuiltinPromptVariables[K]
+  : PromptVariables
+
+export interface RenderedPrompt {
+  readonly text: string
+  readonly usage: PromptTemplateUsage
+}
+
+interface PromptOverrideStore {
+  readonly version: number
+  readonly global: PromptTemplateOverride[]
+  readonly projects: Record<string, PromptTemplateOverride[]>
+}
+
+interface ResolvedTemplate {
+  readonly definition: PromptTemplateDefinition
+  readonly template: string
+  readonly version: string
+  readonly source: PromptTemplateSource
+}
+
+const STORE_VERSION = 1
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+export class PromptTemplateNotFoundError extends DomainError {
+  readonly code = 'PROMPT_TEMPLATE_NOT_FOUND'
+  readonly domain = 'agent'
+
+  constructor(templateId: string, cause?: Error) {
+    super(`No prompt template registered under '${templateId}'`, cause)
+  }
+}
+
+export class PromptRenderError extends DomainError {
+  readonly code = 'PROMPT_RENDER_ERROR'
+  readonly domain = 'agent'
+
+  constructor(templateId: string, version: string, reason: string, cause?: Error) {
+    super(`Cannot render prompt template ${templateId}@${version}: ${reason}`, cause)
+  }
+}
+
+// =============================================================================
+// Prompt Template Service
+// =============================================================================
+
+export class PromptTemplateService {
+  private readonly config: PromptTemplateServiceConfig
+  private readonly definitions = new Map<string, PromptTemplateDefinition>()
+  private readonly globalOverrides = new Map<string, PromptTemplateOverride>()
+  private readonly projectOverrides = new Map<string, Map<string, PromptTemplateOverride>>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: PromptTemplateServiceConfig, definitions: PromptTemplateDefinition[] = BUILTIN_PROMPT_TEMPLATES) {
+    this.config = config
+    definitions.forEach(definition => this.register(definition))
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const store = JSON.parse(data) as PromptOverrideStore
+      if (store.version !== STORE_VERSION) {
+        console.warn(`Ignoring prompt template overrides with unsupported version ${store.version}`)
+        return
+      }
+
+      // Overrides that no longer match a template or its variables are skipped rather than failing startup
+      store.global.forEach(override => this.loadOverride(override))
+      Object.entries(store.projects).forEach(([projectId, overrides]) => {
+        overrides.forEach(override => this.loadOverride(override, projectId))
+      })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load prompt template overrides:', error)
+      }
+    }
+  }
+
+  /**
+   * Add or replace a template definition, e.g. for a custom persona
+   */
+  register(definition: PromptTemplateDefinition): void {
+    const undeclared = this.findUndeclaredPlaceholders(definition.template, definition.variables)
+    if (undeclared.length > 0) {
+      throw new PromptRenderError(definition.id, definition.version, `undeclared variables ${undeclared.join(', ')}`)
+    }
+    this.definitions.set(definition.id, definition)
+  }
+
+  has(templateId: string): boolean {
+    return this.definitions.has(templateId)
+  }
+
+  // =============================================================================
+  // Rendering
+  // =============================================================================
+
+  render<K extends string>(templateId: K, variables: PromptVariablesFor<K>, projectId?: string): RenderedPrompt {
+    const resolved = this.resolve(templateId, projectId)
+    const values = variables as PromptVariables
+
+    for (const variable of resolved.definition.variables) {
+      const value = values[variable.name]
+      if (value === undefined || value === null) {
+        if (!variable.optional) {
+          throw new PromptRenderError(templateId, resolved.version, `missing variable '${variable.name}'`)
+        }
+        continue
+      }
+      if (!this.matchesType(value, variable)) {
+        throw new PromptRenderError(templateId, resolved.version, `variable '${variable.name}' must be a ${variable.type}`)
+      }
+    }
+
+    const text = resolved.template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      return this.formatValue(values[name])
+    })
+
+    return {
+      text: text.trim(),
+      usage: { id: templateId, version: resolved.version, source: resolved.source }
+    }
+  }
+
+  // =============================================================================
+  // Overrides
+  // =============================================================================
+
+  listTemplates(projectId?: string): PromptTemplateSummary[] {
+    return [...this.definitions.keys()].map(templateId => this.summarize(templateId, projectId))
+  }
+
+  /**
+   * Override a template globally, or for one project when `projectId` is given
+   */
+  setOverride(override: PromptTemplateOverride, projectId?: string): Result<PromptTemplateSummary, ValidationError> {
+    const validation = this.validateOverride(override)
+    if (!validation.success) {
+      return validation
+    }
+
+    const stored: PromptTemplateOverride = {
+      id: override.id,
+      version: override.version.trim(),
+      template: override.template,
+      updatedAt: new Date()
+    }
+    this.ensureOverrideScope(projectId).set(stored.id, stored)
+    this.scheduleSave()
+
+    return Ok(this.summarize(stored.id, projectId))
+  }
+
+  removeOverride(templateId: string, projectId?: string): boolean {
+    const scope = this.getOverrideScope(projectId)
+    const removed = !!scope?.delete(templateId)
+    if (projectId && scope?.size === 0) {
+      this.projectOverrides.delete(projectId)
+    }
+    if (removed) {
+      this.scheduleSave()
+    }
+    return removed
+  }
+
+  /**
+   * Resolves once pending override writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private summarize(templateId: string, projectId?: string): PromptTemplateSummary {
+    const { definition, template, version, source } = this.resolve(templateId, projectId)
+    return {
+      id: definition.id,
+      version,
+      source,
+      description: definition.description,
+      variables: definition.variables,
+      template: template.trim(),
+      builtinVersion: definition.version
+    }
+  }
+
+  private resolve(templateId: string, projectId?: string): ResolvedTemplate {
+    const definition = this.definitions.get(templateId)
+    if (!definition) {
+      throw new PromptTemplateNotFoundError(templateId)
+    }
+
+    const projectOverride = projectId ? this.projectOverrides.get(projectId)?.get(templateId) : undefined
+    if (projectOverride) {
+      return { definition, template: projectOverride.template, version: projectOverride.version, source: 'project' }
+    }
+
+    const globalOverride = this.globalOverrides.get(templateId)
+    if (globalOverride) {
+      return { definition, template: globalOverride.template, version: globalOverride.version, source: 'global' }
+    }
+
+    return { definition, template: definition.template, version: definition.version, source: 'builtin' }
+  }
+
+  private validateOverride(override: PromptTemplateOverride): Result<void, ValidationError> {
+    const definition = this.definitions.get(override.id)
+    if (!definition) {
+      return Err(new ValidationError('agent', `Unknown prompt template '${override.id}'`))
+    }
+    if (!override.version || !override.version.trim()) {
+      return Err(new ValidationError('agent', `Override of '${override.id}' needs a version`))
+    }
+    if (!override.template.trim()) {
+      return Err(new ValidationError('agent', `Override of '${override.id}' has an empty template`))
+    }
+
+    const undeclared = this.findUndeclaredPlaceholders(override.template, definition.variables)
+    if (undeclared.length > 0) {
+      return Err(new ValidationError(
+        'agent',
+        `Override of '${override.id}' uses unknown variables ${undeclared.join(', ')}; ` +
+        `available: ${definition.variables.map(variable => variable.name).join(', ') || 'none'}`
+      ))
+    }
+
+    return Ok(undefined)
+  }
+
+  private loadOverride(override: PromptTemplateOverride, projectId?: string): void {
+    const validation = this.validateOverride(override)
+    if (!validation.success) {
+      console.warn(`Skipping prompt template override: ${validation.error.message}`)
+      return
+    }
+
+    const stored = { ...override, updatedAt: override.updatedAt ? new Date(override.updatedAt) : undefined }
+    this.ensureOverrideScope(projectId).set(override.id, stored)
+  }
+
+  private getOverrideScope(projectId: string | undefined): Map<string, PromptTemplateOverride> | undefined {
+    return projectId ? this.projectOverrides.get(projectId) : this.globalOverrides
+  }
+
+  private ensureOverrideScope(projectId: string | undefined): Map<string, PromptTemplateOverride> {
+    if (!projectId) {
+      return this.globalOverrides
+    }
+
+    let scope = this.projectOverrides.get(projectId)
+    if (!scope) {
+      scope = new Map()
+      this.projectOverrides.set(projectId, scope)
+    }
+    return scope
+  }
+
+  private findUndeclaredPlaceholders(template: string, variables: PromptVariableDefinition[]): string[] {
+    const declared = new Set(variables.map(variable => variable.name))
+    const used = [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1])
+    return [...new Set(used.filter(name => !declared.has(name)))]
+  }
+
+  private matchesType(value: PromptVariableValue, variable: PromptVariableDefinition): boolean {
+    switch (variable.type) {
+      case 'list':
+        return Array.isArray(value) && value.every(item => typeof item === 'string')
+      default:
+        return typeof value === variable.type
+    }
+  }
+
+  private formatValue(value: PromptVariableValue | undefined): string {
+    if (value === undefined || value === null) {
+      return ''
+    }
+    return Array.isArray(value) ? value.join('\n') : String(value)
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save prompt template overrides:', error))
+  }
+
+  private async save(): Promise<void> {
+    const { storagePath } = this.config
+    if (!storagePath) {
+      return
+    }
+
+    const store: PromptOverrideStore = {
+      version: STORE_VERSION,
+      global: [...this.globalOverrides.values()],
+      projects: Object.fromEntries(
+        [...this.projectOverrides.entries()].map(([projectId, overrides]) => [projectId, [...overrides.values()]])
+      )
+    }
+
+    await fs.mkdir(path.dirname(storagePath), { recursive: true })
+    await fs.writeFile(storagePath, JSON.stringify(store, null, 2))
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_PROMPT_TEMPLATE_CONFIG: PromptTemplateServiceConfig = {}
+
+export function createPromptTemplateService(
+  config?: Partial<PromptTemplateServiceConfig>,
+  definitions?: PromptTemplateDefinition[]
+): PromptTemplateService {
+  return new PromptTemplateService({ ...DEFAULT_PROMPT_TEMPLATE_CONFIG, ...config }, definitions)
+}
+
+export default PromptTemplateService
@@ -0,0 +1,56 @@
+/**
+ * Custom Persona Prompt Templates
+ *
+ * Prompts for personas declared in config. Each persona gets its own
+ * `<id>.system` and `<id>.response` templates, so projects can override them
+ * like the built-in ones. The system prompt is the one from the config,
+ * followed by the persona's traits and capabilities.
+ */
+
+import { CustomPersonaDefinition } from '@/shared/contracts/AgentDomain'
+import { PromptTemplateDefinition } from '../PromptTemplateService'
+
+const bulletList = (items: string[]): string => items.map(item => `- ${item}`).join('\n')
+
+export function createCustomPersonaPromptTemplates(persona: CustomPersonaDefinition): PromptTemplateDefinition[] {
+  return [
+    {
+      id: `${persona.id}.system`,
+      version: '1.0.0',
+      description: `${persona.name} identity from the persona config`,
+      variables: [],
+      template: `
+${persona.systemPrompt.trim()}
+
+PERSONALITY TRAITS:
+${bulletList(persona.personalityTraits)}
+
+CAPABILITIES:
+${bulletList(persona.capabilities)}
+
+You work alongside the Producer, Architect, Engineer and QA agents of Project Maestro.
+`
+    },
+    {
+      id: `${persona.id}.response`,
+      version: '1.0.0',
+      description: `Crafts the ${persona.name} reply`,
+      variables: [
+        { name: 'recentMemories', type: 'string', description: 'Relevant memories for this persona' },
+        { name: 'message', type: 'string', description: 'The user message, verbatim' }
+      ],
+      template: `
+You are the ${persona.name} responding to this message. ${persona.description}
+
+RELEVANT CONTEXT:
+{{recentMemories}}
+
+MESSAGE:
+"{{message}}"
+
+Answer from the perspective of your role and stay within your capabilities.
+When another member of the team is better placed to help with part of the request, say who and why.
+`
+    }
+  ]
+}
@@ -0,0 +1,53 @@
+/**
+ * Built-in Prompt Templates
+ *
+ * Collects the persona templates and declares the variables each one takes,
+ * so that rendering a built-in template is type-checked at the call site.
+ */
+
+import { PromptTemplateDefinition } from '../PromptTemplateService'
+import { ARCHITECT_PROMPT_TEMPLATES } from './architect'
+import { ENGINEER_PROMPT_TEMPLATES } from './engineer'
+import { PRODUCER_PROMPT_TEMPLATES } from './producer'
+import { QA_PROMPT_TEMPLATES } from './qa'
+
+type NoVariables = Record<string, never>
+
+export interface BuiltinPromptVariables {
+  'producer.system': NoVariables
+  'producer.analysis': { conversationHistory: string; currentPlan: string; message: string }
+  'producer.response': { analysis: string; recentMemories: string; pendingQuestionsText: string; message: string }
+  'architect.system': NoVariables
+  'architect.analysis': { currentDesign: string; pendingDecisions: string; message: string }
+  'architect.response': { analysis: string; recentMemories: string; designContext: string; message: string }
+  'engineer.system': NoVariables
+  'engineer.analysis': { currentImpl: string; pendingTasks: string; message: string }
+  'engineer.response': {
+    analysis: string
+    recentImplementations: string
+    developmentContext: string
+    message: string
+  }
+  'engineer.file': {
+    title: string
+    description: string
+    language: string
+    framework?: string
+    path: string
+    role: string
+    plannedFiles: string[]
+    existingContent?: string
+  }
+  'qa.system': NoVariables
+  'qa.analysis': { currentAssessment: string; activeBugsText: string; message: string }
+  'qa.response': { analysis: string; recentQualityMemories: string; qaContext: string; message: string }
+}
+
+export type BuiltinPromptTemplateId = keyof BuiltinPromptVariables
+
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  ...PRODUCER_PROMPT_TEMPLATES,
+  ...ARCHITECT_PROMPT_TEMPLATES,
+  ...ENGINEER_PROMPT_TEMPLATES,
+  ...QA_PROMPT_TEMPLATES
+]
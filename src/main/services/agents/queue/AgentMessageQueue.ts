@@ -0,0 +1,375 @@
+/**
+ * Agent Message Queue
+ *
+ * Holds the messages sent to each agent until the agent has room for them.
+ * Messages wait in priority order, first come first served within the same
+ * priority, and an agent works on at most its concurrent task limit at once.
+ * Once too many messages are waiting new ones are turned away rather than
+ * piling up. Waiting messages can be cancelled outright; running ones are
+ * aborted through the signal handed to the agent. Other work that needs the
+ * agent's state for a project, such as running an approved action, is queued
+ * as a task alongside the messages. Such internal tasks wait their turn like
+ * messages but are never turned away, and do not count against the depth.
+ *
+ * Follow-ups name the message they follow up on, and together they form a
+ * group, such as the turns of a round table. Cancelling the first message
+ * cancels the group, and the depth limit counts groups, so a group that was
+ * let in is not turned away partway through. A group is kept open for
+ * follow-ups that are still to come until whoever opened it closes it.
+ */
+
+import { EventEmitter } from 'events'
+import {
+  AgentMessage,
+  AgentQueueMetrics,
+  AgentResponse,
+  AgentRole,
+  MessageCancelledError,
+  MessagePriority,
+  MessageQueueFullError,
+  MessageQueueMetrics,
+  QueuedAgentMessage
+} from '@/shared/contracts/AgentDomain'
+import { DomainError, Err, GenericDomainError, Result } from '@/shared/contracts/common'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentMessageQueueConfig {
+  /**
+   * Messages that may wait per agent before new ones are rejected; follow-ups
+   * count along with the message they follow up on
+   */
+  readonly maxQueueDepth: number
+  readonly previewLength: number
+}
+
+/**
+ * Work for an agent that is not a message
+ */
+export interface AgentQueueTask {
+  readonly id: string
+  /**
+   * Work this task follows up on, which it shares a group with
+   */
+  readonly parentId?: string
+  readonly projectId?: string
+  /**
+   * Defaults to normal
+   */
+  readonly priority?: MessagePriority
+  readonly preview: string
+  /**
+   * Work the app does on the user's behalf, such as running an action they
+   * approved, which a full queue must not turn away
+   */
+  readonly internal?: boolean
+}
+
+/**
+ * How queued messages are run once their agent has room
+ */
+export interface AgentMessageRunner {
+  /**
+   * How many messages the agent may work on at once
+   */
+  getConcurrencyLimit(agent: AgentRole): number
+  /**
+   * Whether work for a project may start while the agent is working on `running`
+   */
+  canRunAlongside(work: Pick<AgentQueueTask, 'projectId'>, running: Array<Pick<AgentQueueTask, 'projectId'>>): boolean
+  run(message: AgentMessage, signal: AbortSignal): Promise<Result<AgentResponse, DomainError>>
+}
+
+type WorkResult = Result<unknown, DomainError>
+
+interface QueueEntry {
+  readonly id: string
+  readonly parentId?: string
+  readonly projectId?: string
+  readonly priority: MessagePriority
+  readonly preview: string
+  readonly internal: boolean
+  readonly enqueuedAt: Date
+  startedAt?: Date
+  readonly controller: AbortController
+  readonly run: (signal: AbortSignal) => Promise<WorkResult>
+  readonly resolve: (result: WorkResult) => void
+}
+
+interface AgentLane {
+  // Kept in the order messages will start
+  readonly waiting: QueueEntry[]
+  readonly running: QueueEntry[]
+  rejected: number
+  cancelled: number
+  started: number
+  totalWaitMs: number
+}
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  urgent: 0,
+  high: 1,
+  normal: 2,
+  low: 3
+}
+
+// =============================================================================
+// Agent Message Queue Implementation
+// =============================================================================
+
+/**
+ * Emits `queue-updated` whenever a message is queued, started, finished or cancelled
+ */
+export class AgentMessageQueue extends EventEmitter {
+  private readonly config: AgentMessageQueueConfig
+  private readonly lanes = new Map<AgentRole, AgentLane>()
+  // Groups kept open for follow-ups, by the id of their first message
+  private readonly openGroups = new Map<string, { cancelled: boolean }>()
+
+  constructor(private readonly runner: AgentMessageRunner, config: AgentMessageQueueConfig) {
+    super()
+    this.config = config
+  }
+
+  /**
+   * Resolves with the agent's response once the message has been worked on
+   */
+  enqueue(agent: AgentRole, message: AgentMessage): Promise<Result<AgentResponse, DomainError>> {
+    return this.enqueueTask(agent, {
+      id: message.id,
+      parentId: message.metadata?.parentMessageId,
+      projectId: message.projectId,
+      priority: message.metadata?.priority,
+      preview: message.content
+    }, signal => this.runner.run(message, signal))
+  }
+
+  /**
+   * Keeps the group started by `messageId` open for follow-ups that are still
+   * to be queued; returns a function that closes it
+   */
+  openGroup(messageId: string): () => void {
+    const group = { cancelled: false }
+    this.openGroups.set(messageId, group)
+    return () => {
+      if (this.openGroups.get(messageId) === group) {
+        this.openGroups.delete(messageId)
+      }
+    }
+  }
+
+  /**
+   * Resolves with the result of `run` once the agent has room for the task
+   */
+  enqueueTask<T>(
+    agent: AgentRole,
+    task: AgentQueueTask,
+    run: (signal: AbortSignal) => Promise<Result<T, DomainError>>
+  ): Promise<Result<T, DomainError>> {
+    const lane = this.getLane(agent)
+
+    return new Promise(resolve => {
+      if (task.parentId && this.openGroups.get(task.parentId)?.cancelled) {
+        lane.cancelled++
+        resolve(Err(new MessageCancelledError(task.id)))
+        return
+      }
+      // Follow-ups of a group that was let in are not turned away
+      const admitted = !!task.internal ||
+        (!!task.parentId && (this.openGroups.has(task.parentId) || this.hasGroup(task.parentId)))
+
+      const entry: QueueEntry = {
+        id: task.id,
+        parentId: task.parentId,
+        projectId: task.projectId,
+        priority: task.priority ?? 'normal',
+        preview: task.preview.slice(0, this.config.previewLength),
+        internal: !!task.internal,
+        enqueuedAt: new Date(),
+        controller: new AbortController(),
+        run,
+        resolve: resolve as (result: WorkResult) => void
+      }
+      const index = lane.waiting.findIndex(waiting => PRIORITY_RANK[waiting.priority] > PRIORITY_RANK[entry.priority])
+      lane.waiting.splice(index === -1 ? lane.waiting.length : index, 0, entry)
+      this.drain(agent)
+
+      // A message that starts right away never counts against the depth
+      if (!admitted && this.countWaitingGroups(lane) > this.config.maxQueueDepth && lane.waiting.includes(entry)) {
+        lane.waiting.splice(lane.waiting.indexOf(entry), 1)
+        lane.rejected++
+        resolve(Err(new MessageQueueFullError(agent, this.config.maxQueueDepth)))
+      }
+      this.emit('queue-updated')
+    })
+  }
+
+  /**
+   * Cancels a waiting or running message along with its follow-ups; returns
+   * false when there is nothing left to cancel
+   */
+  cancel(messageId: string): boolean {
+    const matches = (entry: QueueEntry) => entry.id === messageId || entry.parentId === messageId
+    const group = this.openGroups.get(messageId)
+    let cancelled = !!group && !group.cancelled
+    if (group) {
+      group.cancelled = true
+    }
+
+    for (const lane of this.lanes.values()) {
+      for (const waiting of lane.waiting.filter(matches)) {
+        lane.waiting.splice(lane.waiting.indexOf(waiting), 1)
+        lane.cancelled++
+        waiting.resolve(Err(new MessageCancelledError(waiting.id)))
+        cancelled = true
+      }
+
+      for (const running of lane.running.filter(entry => matches(entry) && !entry.controller.signal.aborted)) {
+        lane.cancelled++
+        running.controller.abort(new MessageCancelledError(running.id))
+        cancelled = true
+      }
+    }
+
+    if (cancelled) {
+      this.emit('queue-updated')
+    }
+    return cancelled
+  }
+
+  /**
+   * Cancels every waiting and running message, such as on shutdown
+   */
+  cancelAll(): void {
+    const messageIds = [...this.lanes.values()]
+      .flatMap(lane => [...lane.waiting, ...lane.running])
+      .map(entry => entry.id)
+    messageIds.forEach(messageId => this.cancel(messageId))
+  }
+
+  /**
+   * Running messages of each agent followed by the ones waiting, in start order
+   */
+  list(): QueuedAgentMessage[] {
+    return [...this.lanes.entries()].flatMap(([agent, lane]) => [
+      ...lane.running.map(entry => this.toQueuedMessage(agent, entry, 'running')),
+      ...lane.waiting.map(entry => this.toQueuedMessage(agent, entry, 'queued'))
+    ])
+  }
+
+  getMetrics(): MessageQueueMetrics {
+    const byAgent: Record<string, AgentQueueMetrics> = {}
+    for (const [agent, lane] of this.lanes) {
+      const queuedByPriority: Record<MessagePriority, number> = { urgent: 0, high: 0, normal: 0, low: 0 }
+      lane.waiting.forEach(entry => queuedByPriority[entry.priority]++)
+
+      byAgent[agent] = {
+        queued: lane.waiting.length,
+        running: lane.running.length,
+        maxConcurrentTasks: this.runner.getConcurrencyLimit(agent),
+        maxQueueDepth: this.config.maxQueueDepth,
+        queuedByPriority,
+        rejected: lane.rejected,
+        cancelled: lane.cancelled,
+        averageWaitMs: lane.started === 0 ? 0 : Math.round(lane.totalWaitMs / lane.started)
+      }
+    }
+
+    const agents = Object.values(byAgent)
+    return {
+      queued: agents.reduce((sum, metrics) => sum + metrics.queued, 0),
+      running: agents.reduce((sum, metrics) => sum + metrics.running, 0),
+      byAgent
+    }
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private getLane(agent: AgentRole): AgentLane {
+    let lane = this.lanes.get(agent)
+    if (!lane) {
+      lane = { waiting: [], running: [], rejected: 0, cancelled: 0, started: 0, totalWaitMs: 0 }
+      this.lanes.set(agent, lane)
+    }
+    return lane
+  }
+
+  private hasGroup(groupId: string): boolean {
+    return [...this.lanes.values()].some(lane => [...lane.waiting, ...lane.running]
+      .some(entry => entry.id === groupId || entry.parentId === groupId))
+  }
+
+  private countWaitingGroups(lane: AgentLane): number {
+    return new Set(lane.waiting.filter(entry => !entry.internal).map(entry => entry.parentId ?? entry.id)).size
+  }
+
+  private drain(agent: AgentRole): void {
+    const lane = this.getLane(agent)
+    const limit = this.runner.getConcurrencyLimit(agent)
+
+    while (lane.waiting.length > 0 && lane.running.length < limit) {
+      // The next message holds back the ones behind it so priority order is kept
+      const next = lane.waiting[0]
+      if (lane.running.length > 0 && !this.runner.canRunAlongside(next, lane.running)) {
+        break
+      }
+
+      lane.waiting.shift()
+      this.start(agent, lane, next)
+    }
+  }
+
+  private start(agent: AgentRole, lane: AgentLane, entry: QueueEntry): void {
+    entry.startedAt = new Date()
+    lane.running.push(entry)
+    lane.started++
+    lane.totalWaitMs += entry.startedAt.getTime() - entry.enqueuedAt.getTime()
+
+    entry.run(entry.controller.signal)
+      .catch(error => Err(new GenericDomainError('MESSAGE_SEND_FAILED', 'agent', 'Failed to send message', error as Error)))
+      .then(result => {
+        lane.running.splice(lane.running.indexOf(entry), 1)
+        // A reply that made it in before the abort took effect is still worth keeping
+        entry.resolve(!result.success && entry.controller.signal.aborted
+          ? Err(new MessageCancelledError(entry.id, result.error))
+          : result)
+        this.drain(agent)
+        this.emit('queue-updated')
+      })
+  }
+
+  private toQueuedMessage(agent: AgentRole, entry: QueueEntry, status: QueuedAgentMessage['status']): QueuedAgentMessage {
+    return {
+      messageId: entry.id,
+      agentType: agent,
+      projectId: entry.projectId,
+      priority: entry.priority,
+      status,
+      preview: entry.preview,
+      enqueuedAt: entry.enqueuedAt,
+      startedAt: entry.startedAt
+    }
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_AGENT_MESSAGE_QUEUE_CONFIG: AgentMessageQueueConfig = {
+  maxQueueDepth: 20,
+  previewLength: 120
+}
+
+export function createAgentMessageQueue(
+  runner: AgentMessageRunner,
+  config?: Partial<AgentMessageQueueConfig>
+): AgentMessageQueue {
+  return new AgentMessageQueue(runner, { ...DEFAULT_AGENT_MESSAGE_QUEUE_CONFIG, ...config })
+}
+
+export default AgentMessageQueue
@@ -0,0 +1,72 @@
+/**
+ * Message Queue IPC Handlers
+ *
+ * Lets the renderer see which messages each agent is working on or still
+ * has waiting, with the queue depth metrics, and cancel a message. A notice
+ * is pushed whenever the queue changes.
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import { z } from 'zod'
+import type { AgentOrchestrator } from '../AgentOrchestrator'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const CancelMessageSchema = z.object({
+  messageId: z.string().min(1)
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class MessageQueueIPCHandlers {
+  private readonly onQueueUpdated = () => {
+    this.sendToRenderer('agent:queue-updated', this.orchestrator.getQueueMetrics())
+  }
+
+  constructor(private readonly orchestrator: AgentOrchestrator) {}
+
+  async initialize(): Promise<void> {
+    this.orchestrator.on('queue:updated', this.onQueueUpdated)
+    this.registerHandlers()
+    console.log('Message queue IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    const handlers = ['agent:queue:list', 'agent:queue:metrics', 'agent:queue:cancel']
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+    this.orchestrator.off('queue:updated', this.onQueueUpdated)
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('agent:queue:list', async () => {
+      return this.orchestrator.getMessageQueue()
+    })
+
+    ipcMain.handle('agent:queue:metrics', async () => {
+      return this.orchestrator.getQueueMetrics()
+    })
+
+    ipcMain.handle('agent:queue:cancel', async (_event, request: unknown) => {
+      const { messageId } = CancelMessageSchema.parse(request)
+      return { success: this.orchestrator.cancelMessage(messageId) }
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Embedding Intent Classifier
+ *
+ * Second stage of the message router's intent classification. Embeds the
+ * message and picks the intent of the most similar labeled example
+ * utterance, so messages like "can you make the login faster" are not left
+ * to whichever keywords they happen to contain. The built-in examples cover
+ * every intent; users can add their own examples per project, which are
+ * persisted and compared alongside them. Example embeddings are cached per
+ * embedding model, since vectors of different models cannot be compared.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { IntentExampleRecord } from '@/shared/contracts/AgentDomain'
+import { Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { LLMProvider } from '../base/Agent'
+import { UserIntent } from '../MessageRouter'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EmbeddingIntentClassifierConfig {
+  /**
+   * JSON file user examples are persisted to; they are kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * Lowest similarity to a labeled example that still counts as a match
+   */
+  readonly minSimilarity: number
+  readonly maxExamplesPerProject: number
+}
+
+export interface EmbeddingIntentMatch {
+  readonly intent: UserIntent
+  /**
+   * Cosine similarity to the closest example of the intent
+   */
+  readonly similarity: number
+  readonly example: string
+}
+
+interface IntentExampleStore {
+  readonly version: number
+  readonly projects: Record<string, IntentExampleRecord[]>
+}
+
+const STORE_VERSION = 1
+const MAX_EXAMPLE_LENGTH = 500
+const USER_INTENTS = new Set<string>(Object.values(UserIntent))
+
+type EmbeddingSource = Pick<LLMProvider, 'generateEmbedding' | 'getEmbeddingModel'>
+
+export const BUILTIN_INTENT_EXAMPLES: Record<UserIntent, string[]> = {
+  [UserIntent.PROJECT_PLANNING]: [
+    'Help me plan the first release of this app',
+    'What should we build first?',
+    'Break this idea down into milestones',
+    'I have an idea for an app that lets friends share recipes'
+  ],
+  [UserIntent.TECHNICAL_DESIGN]: [
+    'How should we structure the backend?',
+    'Which database fits this data best?',
+    'Design the API for user accounts',
+    'Should this be a separate service?'
+  ],
+  [UserIntent.CODE_IMPLEMENTATION]: [
+    'Add a search box to the recipes page',
+    'Write the endpoint that saves a new recipe',
+    'Can you make the login faster?',
+    'Hook the settings form up to the API'
+  ],
+  [UserIntent.TESTING_QA]: [
+    'Write tests for the checkout flow',
+    'Make sure signing up still works after the change',
+    'What cases are we not covering?',
+    'Run the test suite and tell me what fails'
+  ],
+  [UserIntent.GENERAL_QUESTION]: [
+    'What do you think about this?',
+    'Any advice before we start?',
+    'Can you help me with something?',
+    'What would you recommend?'
+  ],
+  [UserIntent.CLARIFICATION]: [
+    'What do you mean by that?',
+    'Can you explain how that works?',
+    'Why did you pick that approach?',
+    'I do not understand the last answer'
+  ],
+  [UserIntent.DEBUGGING]: [
+    'The app crashes when I open the profile page',
+    'Login stopped working after the last change',
+    'I get a blank screen instead of the list',
+    'Why is this request returning a 500?'
+  ],
+  [UserIntent.ARCHITECTURE_REVIEW]: [
+    'Review how the modules depend on each other',
+    'Is our current design going to hold up as we grow?',
+    'Look over the data model and point out problems',
+    'What would you change about the architecture?'
+  ],
+  [UserIntent.PROJECT_STATUS]: [
+    'Where are we with the project?',
+    'What is left before the release?',
+    'Give me an update on the open tasks',
+    'How far along is the search feature?'
+  ]
+}
+
+// =============================================================================
+// Embedding Intent Classifier Implementation
+// =============================================================================
+
+export class EmbeddingIntentClassifier {
+  private readonly config: EmbeddingIntentClassifierConfig
+  private readonly projectExamples = new Map<string, IntentExampleRecord[]>()
+  // Keyed by embedding model, then by example text
+  private readonly exampleEmbeddings = new Map<string, Map<string, Promise<number[]>>>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly embeddings: EmbeddingSource,
+    config: EmbeddingIntentClassifierConfig
+  ) {
+    this.config = config
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const store = JSON.parse(data) as IntentExampleStore
+      if (store.version !== STORE_VERSION) {
+        console.warn(`Ignoring intent examples with unsupported version ${store.version}`)
+        return
+      }
+
+      // Examples for intents the router no longer has are dropped rather than failing startup
+      Object.entries(store.projects).forEach(([projectId, examples]) => {
+        this.projectExamples.set(projectId, examples
+          .filter(example => USER_INTENTS.has(example.intent))
+          .map(example => ({ ...example, createdAt: new Date(example.createdAt) })))
+      })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load intent examples:', error)
+      }
+    }
+  }
+
+  /**
+   * The intent of the closest labeled example, or undefined when nothing is
+   * similar enough or the message cannot be embedded
+   */
+  async classify(content: string, projectId?: string): Promise<EmbeddingIntentMatch | undefined> {
+    const examples = this.getExamples(projectId)
+
+    try {
+      const query = await this.embeddings.generateEmbedding(content)
+      if (query.length === 0) {
+        return undefined
+      }
+
+      // Read after embedding the query, so a provider that just switched models is caught
+      const model = this.embeddings.getEmbeddingModel?.() ?? ''
+      const embedded = await Promise.allSettled(examples.map(example => this.embedExample(model, example.text)))
+
+      let best: EmbeddingIntentMatch | undefined
+      for (const [index, example] of examples.entries()) {
+        const result = embedded[index]
+        // Examples that could not be embedded are left out until the next message
+        if (result.status === 'rejected') {
+          continue
+        }
+        const similarity = cosineSimilarity(query, result.value)
+        if (!best || similarity > best.similarity) {
+          best = { intent: example.intent, similarity, example: example.text }
+        }
+      }
+
+      return best && best.similarity >= this.config.minSimilarity ? best : undefined
+    } catch (error) {
+      console.warn('Embedding intent classification failed:', error)
+      return undefined
+    }
+  }
+
+  listExamples(projectId: string): IntentExampleRecord[] {
+    return [...(this.projectExamples.get(projectId) ?? [])]
+  }
+
+  addExample(projectId: string, intent: string, text: string): Result<IntentExampleRecord, ValidationError> {
+    const trimmed = text.trim()
+    if (!USER_INTENTS.has(intent)) {
+      return Err(new ValidationError('agent', `Unknown intent ${intent}`))
+    }
+    if (!trimmed || trimmed.length > MAX_EXAMPLE_LENGTH) {
+      return Err(new ValidationError('agent', `Examples must be between 1 and ${MAX_EXAMPLE_LENGTH} characters`))
+    }
+
+    // Relabeling an utterance replaces its previous example
+    const examples = (this.projectExamples.get(projectId) ?? [])
+      .filter(existing => existing.text.toLowerCase() !== trimmed.toLowerCase())
+    if (examples.length >= this.config.maxExamplesPerProject) {
+      return Err(new ValidationError('agent', `Projects can have at most ${this.config.maxExamplesPerProject} intent examples`))
+    }
+
+    const example: IntentExampleRecord = { id: uuidv4(), projectId, intent, text: trimmed, createdAt: new Date() }
+    this.projectExamples.set(projectId, [...examples, example])
+    this.scheduleSave()
+    return Ok(example)
+  }
+
+  removeExample(projectId: string, exampleId: string): boolean {
+    const examples = this.projectExamples.get(projectId) ?? []
+    const remaining = examples.filter(example => example.id !== exampleId)
+    if (remaining.length === examples.length) {
+      return false
+    }
+
+    this.projectExamples.set(projectId, remaining)
+    this.scheduleSave()
+    return true
+  }
+
+  /**
+   * Forget the cached example embeddings, such as when the provider settings change
+   */
+  clearExampleEmbeddings(): void {
+    this.exampleEmbeddings.clear()
+  }
+
+  /**
+   * Resolves once pending example writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private getExamples(projectId?: string): Array<{ intent: UserIntent, text: string }> {
+    const builtIn = Object.entries(BUILTIN_INTENT_EXAMPLES).flatMap(([intent, texts]) =>
+      texts.map(text => ({ intent: intent as UserIntent, text }))
+    )
+    const project = (projectId ? this.projectExamples.get(projectId) ?? [] : [])
+      .map(example => ({ intent: example.intent as UserIntent, text: example.text }))
+    return [...builtIn, ...project]
+  }
+
+  private embedExample(model: string, text: string): Promise<number[]> {
+    const cache = this.exampleEmbeddings.get(model) ?? new Map<string, Promise<number[]>>()
+    this.exampleEmbeddings.set(model, cache)
+
+    let embedding = cache.get(text)
+    if (!embedding) {
+      embedding = this.embeddings.generateEmbedding(text)
+      // A failed embedding is retried on the next message instead of being cached
+      embedding.catch(() => cache.delete(text))
+      cache.set(text, embedding)
+    }
+    return embedding
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save intent examples:', error))
+  }
+
+  private async save(): Promise<void> {
+    const store: IntentExampleStore = {
+      version: STORE_VERSION,
+      projects: Object.fromEntries(this.projectExamples.entries())
+    }
+
+    await fs.mkdir(path.dirname(this.config.storagePath!), { recursive: true })
+    await fs.writeFile(this.config.storagePath!, JSON.stringify(store, null, 2))
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Vectors of different lengths, e.g. from a provider that changed, never match
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0
+  }
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_EMBEDDING_INTENT_CLASSIFIER_CONFIG: EmbeddingIntentClassifierConfig = {
+  minSimilarity: 0.5,
+  maxExamplesPerProject: 200
+}
+
+export function createEmbeddingIntentClassifier(
+  embeddings: EmbeddingSource,
+  config?: Partial<EmbeddingIntentClassifierConfig>
+): EmbeddingIntentClassifier {
+  return new EmbeddingIntentClassifier(embeddings, { ...DEFAULT_EMBEDDING_INTENT_CLASSIFIER_CONFIG, ...config })
+}
+
+export default EmbeddingIntentClassifier
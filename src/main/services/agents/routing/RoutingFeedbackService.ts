@@ -0,0 +1,316 @@
+/**
+ * Routing Feedback Service
+ *
+ * Learns routing preferences from the user. Every chat routing decision is
+ * recorded; when the user sends another agent the message the router just
+ * picked an agent for, either by rerouting it or by asking the other agent
+ * much the same thing right away, the pair is stored as a correction for the
+ * project. Follow-ups to another agent that ask something else are not.
+ * Corrections nudge the router's agent scores for the same intent towards
+ * the agent the user chose, and the counts feed the routing accuracy report.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AgentRole,
+  RoutingAccuracyReport,
+  RoutingAgentAccuracy,
+  RoutingCorrectionRecord
+} from '@/shared/contracts/AgentDomain'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RoutingFeedbackServiceConfig {
+  /**
+   * JSON file feedback is persisted to; it is kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * How soon after an auto-routed message an explicit re-ask counts as a correction
+   */
+  readonly correctionWindowMs: number
+  /**
+   * How much of its wording a re-ask must share with the auto-routed message,
+   * from 0 to 1, to count as a correction
+   */
+  readonly minCorrectionSimilarity: number
+  /**
+   * Score change per correction for the agents involved
+   */
+  readonly weightPerCorrection: number
+  readonly maxWeightAdjustment: number
+  /**
+   * Most recent corrections kept per project; older ones stop affecting routing
+   */
+  readonly maxCorrectionsPerProject: number
+  readonly defaultProjectId: string
+}
+
+export interface RoutingDecision {
+  readonly messageId: string
+  readonly projectId?: string
+  readonly threadId?: string
+  readonly content: string
+  readonly agent: AgentRole
+  readonly intent: string
+  /**
+   * Whether the user picked the agent instead of the router
+   */
+  readonly explicit: boolean
+  /**
+   * Id of the message the user rerouted to this agent, which corrects it whatever the wording
+   */
+  readonly rerouteOf?: string
+  readonly timestamp?: Date
+}
+
+interface ProjectFeedback {
+  readonly autoRouted: Record<string, number>
+  readonly overridden: Record<string, number>
+  readonly corrections: RoutingCorrectionRecord[]
+}
+
+interface RoutingFeedbackStore {
+  readonly version: number
+  readonly projects: Record<string, ProjectFeedback>
+}
+
+interface PendingDecision extends RoutingDecision {
+  readonly projectId: string
+  readonly timestamp: Date
+}
+
+const STORE_VERSION = 1
+const RECENT_CORRECTIONS_IN_REPORT = 10
+
+// =============================================================================
+// Routing Feedback Service Implementation
+// =============================================================================
+
+/**
+ * Emits `feedback-updated` with the project id whenever a decision is recorded
+ */
+export class RoutingFeedbackService extends EventEmitter {
+  private readonly config: RoutingFeedbackServiceConfig
+  private readonly projects = new Map<string, ProjectFeedback>()
+  // The last auto-routed message of each conversation, until it is corrected or followed up
+  private readonly lastAutoRouted = new Map<string, PendingDecision>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: RoutingFeedbackServiceConfig) {
+    super()
+    this.config = config
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const store = JSON.parse(data) as RoutingFeedbackStore
+      if (store.version !== STORE_VERSION) {
+        console.warn(`Ignoring routing feedback with unsupported version ${store.version}`)
+        return
+      }
+
+      Object.entries(store.projects).forEach(([projectId, feedback]) => {
+        this.projects.set(projectId, {
+          ...feedback,
+          corrections: feedback.corrections.map(correction => ({
+            ...correction,
+            createdAt: new Date(correction.createdAt)
+          }))
+        })
+      })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load routing feedback:', error)
+      }
+    }
+  }
+
+  /**
+   * Records a routing decision and returns the correction it makes, if any
+   */
+  recordDecision(decision: RoutingDecision): RoutingCorrectionRecord | undefined {
+    const projectId = decision.projectId ?? this.config.defaultProjectId
+    const timestamp = decision.timestamp ?? new Date()
+    const conversation = `${projectId}:${decision.threadId ?? ''}`
+    const previous = this.lastAutoRouted.get(conversation)
+    const feedback = this.getProjectFeedback(projectId)
+    this.lastAutoRouted.delete(conversation)
+
+    let correction: RoutingCorrectionRecord | undefined
+    if (decision.explicit) {
+      if (previous && previous.agent !== decision.agent && this.isCorrection(decision, timestamp, previous)) {
+        correction = {
+          id: uuidv4(),
+          projectId,
+          messageId: previous.messageId,
+          correctionMessageId: decision.messageId,
+          content: previous.content,
+          intent: previous.intent,
+          routedTo: previous.agent,
+          correctedTo: decision.agent,
+          createdAt: timestamp
+        }
+        feedback.overridden[previous.agent] = (feedback.overridden[previous.agent] ?? 0) + 1
+        feedback.corrections.push(correction)
+        feedback.corrections.splice(0, Math.max(0, feedback.corrections.length - this.config.maxCorrectionsPerProject))
+      }
+    } else {
+      feedback.autoRouted[decision.agent] = (feedback.autoRouted[decision.agent] ?? 0) + 1
+      this.lastAutoRouted.set(conversation, { ...decision, projectId, timestamp })
+    }
+
+    this.scheduleSave()
+    this.emit('feedback-updated', projectId)
+    return correction
+  }
+
+  /**
+   * Score changes per agent learned from the project's corrections of messages with this intent
+   */
+  getWeightAdjustments(projectId: string | undefined, intent: string): Record<string, number> {
+    const adjustments: Record<string, number> = {}
+    const corrections = this.projects.get(projectId ?? this.config.defaultProjectId)?.corrections ?? []
+
+    for (const correction of corrections.filter(correction => correction.intent === intent)) {
+      adjustments[correction.correctedTo] = (adjustments[correction.correctedTo] ?? 0) + this.config.weightPerCorrection
+      adjustments[correction.routedTo] = (adjustments[correction.routedTo] ?? 0) - this.config.weightPerCorrection
+    }
+
+    const limit = this.config.maxWeightAdjustment
+    return Object.fromEntries(
+      Object.entries(adjustments).map(([agent, adjustment]) => [agent, Math.max(-limit, Math.min(limit, adjustment))])
+    )
+  }
+
+  /**
+   * How often auto-routing was overridden, for one project or across all of them
+   */
+  getAccuracyReport(projectId?: string): RoutingAccuracyReport {
+    const scopes = [...this.projects.entries()]
+      .filter(([id]) => !projectId || id === projectId)
+      .map(([, feedback]) => feedback)
+    const byAgent: Record<string, RoutingAgentAccuracy> = {}
+    const add = (agent: AgentRole, change: Partial<RoutingAgentAccuracy>) => {
+      const current = byAgent[agent] ?? { autoRouted: 0, overridden: 0 }
+      byAgent[agent] = {
+        autoRouted: current.autoRouted + (change.autoRouted ?? 0),
+        overridden: current.overridden + (change.overridden ?? 0)
+      }
+    }
+
+    for (const feedback of scopes) {
+      Object.entries(feedback.autoRouted).forEach(([agent, count]) => add(agent, { autoRouted: count }))
+      Object.entries(feedback.overridden).forEach(([agent, count]) => add(agent, { overridden: count }))
+    }
+
+    const totals = Object.values(byAgent)
+    const autoRouted = totals.reduce((sum, agent) => sum + agent.autoRouted, 0)
+    const overridden = totals.reduce((sum, agent) => sum + agent.overridden, 0)
+    const recentCorrections = scopes
+      .flatMap(feedback => feedback.corrections)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, RECENT_CORRECTIONS_IN_REPORT)
+
+    return {
+      projectId,
+      autoRouted,
+      overridden,
+      accuracy: autoRouted === 0 ? 1 : (autoRouted - overridden) / autoRouted,
+      byAgent,
+      recentCorrections
+    }
+  }
+
+  /**
+   * Resolves once pending feedback writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private isCorrection(decision: RoutingDecision, timestamp: Date, previous: PendingDecision): boolean {
+    if (decision.rerouteOf) {
+      return decision.rerouteOf === previous.messageId
+    }
+    return timestamp.getTime() - previous.timestamp.getTime() <= this.config.correctionWindowMs &&
+      wordSimilarity(decision.content, previous.content) >= this.config.minCorrectionSimilarity
+  }
+
+  private getProjectFeedback(projectId: string): ProjectFeedback {
+    let feedback = this.projects.get(projectId)
+    if (!feedback) {
+      feedback = { autoRouted: {}, overridden: {}, corrections: [] }
+      this.projects.set(projectId, feedback)
+    }
+    return feedback
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save routing feedback:', error))
+  }
+
+  private async save(): Promise<void> {
+    const store: RoutingFeedbackStore = {
+      version: STORE_VERSION,
+      projects: Object.fromEntries(this.projects.entries())
+    }
+
+    await fs.mkdir(path.dirname(this.config.storagePath!), { recursive: true })
+    await fs.writeFile(this.config.storagePath!, JSON.stringify(store, null, 2))
+  }
+}
+
+/**
+ * Share of words two messages have in common (Dice coefficient), leaving out
+ * the @mentions that pick the agent
+ */
+function wordSimilarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().replace(/@[\w-]+/g, ' ').match(/[\p{L}\p{N}']+/gu) ?? [])
+  const first = words(a)
+  const second = words(b)
+  if (first.size === 0 || second.size === 0) {
+    return 0
+  }
+  const shared = [...first].filter(word => second.has(word)).length
+  return (2 * shared) / (first.size + second.size)
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_ROUTING_FEEDBACK_CONFIG: RoutingFeedbackServiceConfig = {
+  correctionWindowMs: 5 * 60 * 1000,
+  minCorrectionSimilarity: 0.6,
+  weightPerCorrection: 0.1,
+  maxWeightAdjustment: 0.3,
+  maxCorrectionsPerProject: 200,
+  defaultProjectId: 'default'
+}
+
+export function createRoutingFeedbackService(config?: Partial<RoutingFeedbackServiceConfig>): RoutingFeedbackService {
+  return new RoutingFeedbackService({ ...DEFAULT_ROUTING_FEEDBACK_CONFIG, ...config })
+}
+
+export default RoutingFeedbackService
@@ -0,0 +1,121 @@
+/**
+ * Routing IPC Handlers
+ *
+ * Owns the embedding intent classifier the message router falls back to,
+ * whose cached example embeddings are dropped whenever the AI settings
+ * change, and the feedback it learns from. Lets the renderer list, add and
+ * remove the labeled example messages of a project, and serves the routing
+ * accuracy report, pushing a notice whenever it changes.
+ */
+
+import { BrowserWindow, app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import type { AIConfigService } from '../../ai/AIConfigService'
+import { UserIntent } from '../MessageRouter'
+import { EmbeddingIntentClassifier, createEmbeddingIntentClassifier } from './EmbeddingIntentClassifier'
+import { RoutingFeedbackService, createRoutingFeedbackService } from './RoutingFeedbackService'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const AddExampleSchema = z.object({
+  projectId: z.string().min(1),
+  intent: z.nativeEnum(UserIntent),
+  text: z.string().min(1).max(500)
+})
+
+const RemoveExampleSchema = z.object({
+  projectId: z.string().min(1),
+  exampleId: z.string().min(1)
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class RoutingIPCHandlers {
+  private readonly intentClassifier: EmbeddingIntentClassifier
+  private readonly routingFeedback: RoutingFeedbackService
+  private readonly onFeedbackUpdated = (projectId: string) => {
+    this.sendToRenderer('routing:accuracy-updated', { projectId })
+  }
+  private readonly onAIConfigChanged = () => {
+    this.intentClassifier.clearExampleEmbeddings()
+  }
+
+  constructor(private readonly aiConfig: AIConfigService) {
+    const dataPath = path.join(app.getPath('userData'), 'app-data')
+    this.intentClassifier = createEmbeddingIntentClassifier(aiConfig.getProviderRegistry(), {
+      storagePath: path.join(dataPath, 'intent-examples.json')
+    })
+    this.routingFeedback = createRoutingFeedbackService({
+      storagePath: path.join(dataPath, 'routing-feedback.json')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.intentClassifier.initialize()
+    await this.routingFeedback.initialize()
+    this.routingFeedback.on('feedback-updated', this.onFeedbackUpdated)
+    this.aiConfig.on('config-changed', this.onAIConfigChanged)
+    this.registerHandlers()
+    console.log('Routing IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    const handlers = ['routing:examples:list', 'routing:examples:add', 'routing:examples:remove', 'routing:accuracy']
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+    this.routingFeedback.off('feedback-updated', this.onFeedbackUpdated)
+    this.aiConfig.off('config-changed', this.onAIConfigChanged)
+    await this.intentClassifier.flush()
+    await this.routingFeedback.flush()
+  }
+
+  getIntentClassifier(): EmbeddingIntentClassifier {
+    return this.intentClassifier
+  }
+
+  getRoutingFeedback(): RoutingFeedbackService {
+    return this.routingFeedback
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('routing:examples:list', async (_event, projectId: unknown) => {
+      return this.intentClassifier.listExamples(z.string().min(1).parse(projectId))
+    })
+
+    ipcMain.handle('routing:examples:add', async (_event, request: unknown) => {
+      const { projectId, intent, text } = AddExampleSchema.parse(request)
+      const result = this.intentClassifier.addExample(projectId, intent, text)
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+
+    ipcMain.handle('routing:examples:remove', async (_event, request: unknown) => {
+      const { projectId, exampleId } = RemoveExampleSchema.parse(request)
+      return { success: this.intentClassifier.removeExample(projectId, exampleId) }
+    })
+
+    ipcMain.handle('routing:accuracy', async (_event, projectId?: unknown) => {
+      return this.routingFeedback.getAccuracyReport(z.string().min(1).optional().parse(projectId ?? undefined))
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
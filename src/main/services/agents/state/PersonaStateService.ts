@@ -0,0 +1,188 @@
+/**
+ * Persona State Service
+ *
+ * Keeps each persona's working state, such as the Producer's plan or QA's
+ * bug reports, per project on disk so that it survives restarts. Every
+ * project gets its own versioned JSON file holding one snapshot per persona,
+ * loaded the first time a persona needs that project's state.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { AgentRole } from '@/shared/contracts/AgentDomain'
+import { PersonaStateSnapshot } from '../base/Agent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PersonaStateServiceConfig {
+  /**
+   * Directory holding one file per project under `projects/`;
+   * state is kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * Project that messages without one are attributed to
+   */
+  readonly defaultProjectId: string
+}
+
+interface ProjectPersonaStateFile {
+  readonly version: number
+  readonly projectId: string
+  readonly savedAt: Date
+  readonly personas: Partial<Record<AgentRole, PersonaStateSnapshot>>
+}
+
+const STATE_FILE_VERSION = 1
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// =============================================================================
+// Persona State Service Implementation
+// =============================================================================
+
+export class PersonaStateService {
+  private readonly config: PersonaStateServiceConfig
+  private readonly projects = new Map<string, Partial<Record<AgentRole, PersonaStateSnapshot>>>()
+  private readonly loading = new Map<string, Promise<void>>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: PersonaStateServiceConfig) {
+    this.config = config
+  }
+
+  async load(agentType: AgentRole, projectId?: string): Promise<PersonaStateSnapshot | undefined> {
+    const id = projectId ?? this.config.defaultProjectId
+    await this.ensureLoaded(id)
+    return this.projects.get(id)?.[agentType]
+  }
+
+  /**
+   * Remember a persona's state for a project and write it in the background
+   */
+  save(agentType: AgentRole, snapshot: PersonaStateSnapshot | undefined, projectId?: string): void {
+    const id = projectId ?? this.config.defaultProjectId
+    if (!PROJECT_ID_PATTERN.test(id)) {
+      console.warn(`Not saving persona state for invalid project id ${id}`)
+      return
+    }
+
+    const personas = { ...this.projects.get(id) }
+    if (snapshot) {
+      personas[agentType] = snapshot
+    } else {
+      delete personas[agentType]
+    }
+
+    const file: ProjectPersonaStateFile = {
+      version: STATE_FILE_VERSION,
+      projectId: id,
+      savedAt: new Date(),
+      personas
+    }
+    // Kept as a copy, so the persona's later changes do not leak into this project's state
+    const content = JSON.stringify(file, null, 2)
+    this.projects.set(id, parseStateJson<ProjectPersonaStateFile>(content).personas)
+    this.scheduleSave(id, content)
+  }
+
+  /**
+   * Resolves once pending writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private ensureLoaded(projectId: string): Promise<void> {
+    if (this.projects.has(projectId)) {
+      return Promise.resolve()
+    }
+
+    let loading = this.loading.get(projectId)
+    if (!loading) {
+      loading = this.readProject(projectId).then(personas => {
+        if (!this.projects.has(projectId)) {
+          this.projects.set(projectId, personas)
+        }
+        this.loading.delete(projectId)
+      })
+      this.loading.set(projectId, loading)
+    }
+    return loading
+  }
+
+  private async readProject(projectId: string): Promise<Partial<Record<AgentRole, PersonaStateSnapshot>>> {
+    if (!this.config.storagePath || !PROJECT_ID_PATTERN.test(projectId)) {
+      return {}
+    }
+
+    // Pending writes go first so that the file is not read half written
+    await this.saveQueue
+    const file = await this.readJson<ProjectPersonaStateFile>(this.projectFile(projectId))
+    if (!file) {
+      return {}
+    }
+    if (file.version !== STATE_FILE_VERSION) {
+      console.warn(`Ignoring persona state for ${projectId} with unsupported version ${file.version}`)
+      return {}
+    }
+    return file.personas ?? {}
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | undefined> {
+    try {
+      return parseStateJson<T>(await fs.readFile(filePath, 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load persona state from ${filePath}:`, error)
+      }
+      return undefined
+    }
+  }
+
+  private projectFile(projectId: string): string {
+    return path.join(this.config.storagePath!, 'projects', `${projectId}.json`)
+  }
+
+  private scheduleSave(projectId: string, content: string): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.projectFile(projectId)), { recursive: true })
+        await fs.writeFile(this.projectFile(projectId), content)
+      })
+      .catch(error => console.error('Failed to save persona state:', error))
+  }
+}
+
+/**
+ * JSON.parse that turns the ISO strings dates were written as back into dates
+ */
+function parseStateJson<T>(content: string): T {
+  return JSON.parse(content, (_key, value) =>
+    typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+  ) as T
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_PERSONA_STATE_CONFIG: PersonaStateServiceConfig = {
+  defaultProjectId: 'default'
+}
+
+export function createPersonaStateService(config?: Partial<PersonaStateServiceConfig>): PersonaStateService {
+  return new PersonaStateService({ ...DEFAULT_PERSONA_STATE_CONFIG, ...config })
+}
+
+export default PersonaStateService
@@ -0,0 +1,271 @@
+/**
+ * Test Runner
+ *
+ * Runs a project's own test suite for the QA agent. The command follows the
+ * project's configured test framework, runs in a child process inside the
+ * project workspace with a timeout, and writes a machine-readable report that
+ * is parsed into test suites.
+ */
+
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { DomainError, Err, GenericDomainError, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { ProjectSettings } from '@/shared/contracts/ProjectDomain'
+import type { TestSuite } from '../personas/QA'
+import { WorkspaceService } from '../../workspace/WorkspaceService'
+import { spawnProjectProcess } from '../tools/projectProcess'
+import { TestReportFormat, TestRunSummary, parseTestReport, summarizeTestSuites } from './testReports'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TestCommand {
+  readonly command: string
+  /**
+   * Arguments that run the suite, optionally narrowed to `scope`, and write
+   * the report to `reportPath`
+   */
+  readonly args: (reportPath: string, scope?: string) => string[]
+  readonly report: TestReportFormat
+}
+
+export interface TestRunRequest {
+  readonly projectId?: string
+  /**
+   * Project-relative file or directory to limit the run to
+   */
+  readonly scope?: string
+}
+
+export interface TestRunResult {
+  readonly projectId?: string
+  readonly framework: string
+  readonly command: string
+  readonly exitCode: number | null
+  readonly startedAt: Date
+  readonly durationMs: number
+  readonly suites: TestSuite[]
+  readonly summary: TestRunSummary
+  /**
+   * The end of the combined stdout and stderr
+   */
+  readonly output: string
+}
+
+/**
+ * Looks up the stored settings of a project
+ */
+export type ProjectSettingsProvider = (projectId: string) => Promise<Partial<ProjectSettings> | undefined>
+
+export interface TestRunnerConfig {
+  readonly timeoutMs: number
+  /**
+   * How long a timed out run gets to exit after SIGTERM before it is killed
+   */
+  readonly killGraceMs: number
+  readonly maxOutputBytes: number
+  /**
+   * Commands by lower-cased test framework name
+   */
+  readonly commands: Record<string, TestCommand>
+}
+
+interface ProcessOutcome {
+  readonly exitCode: number | null
+  readonly timedOut: boolean
+  readonly output: string
+}
+
+// =============================================================================
+// Test Runner
+// =============================================================================
+
+export class TestRunner {
+  constructor(
+    private readonly workspace: WorkspaceService,
+    private readonly getProjectSettings: ProjectSettingsProvider,
+    private readonly config: TestRunnerConfig
+  ) {}
+
+  async run(request: TestRunRequest = {}): Promise<Result<TestRunResult, DomainError>> {
+    const settings = request.projectId ? await this.getProjectSettings(request.projectId) : undefined
+    const framework = settings?.testFramework?.trim()
+    if (!framework) {
+      return Err(new ValidationError('quality', `Project ${request.projectId ?? '(none)'} has no test framework configured`))
+    }
+    const testCommand = this.config.commands[framework.toLowerCase()]
+    if (!testCommand) {
+      return Err(new ValidationError('quality', `Running ${framework} tests is not supported`))
+    }
+
+    const root = this.workspace.getProjectRoot(request.projectId)
+    if (!root.success) {
+      return root
+    }
+    const scope = this.validateScope(request)
+    if (!scope.success) {
+      return scope
+    }
+    try {
+      if (!(await fs.stat(root.data)).isDirectory()) {
+        throw new Error('not a directory')
+      }
+    } catch {
+      return Err(new ValidationError('quality', `Project ${request.projectId ?? '(none)'} has no workspace to test`))
+    }
+
+    const reportDir = await fs.mkdtemp(path.join(os.tmpdir(), 'maestro-test-report-'))
+    const reportPath = path.join(reportDir, testCommand.report === 'json' ? 'report.json' : 'report.xml')
+    const args = testCommand.args(reportPath, scope.data)
+    const command = [testCommand.command, ...args].join(' ')
+    const startedAt = new Date()
+
+    try {
+      const outcome = await this.spawnTests(testCommand.command, args, root.data)
+      if (outcome.timedOut) {
+        return Err(new GenericDomainError(
+          'TEST_RUN_TIMEOUT',
+          'quality',
+          `${command} did not finish within ${this.config.timeoutMs}ms\n${outcome.output}`
+        ))
+      }
+
+      let report: string
+      try {
+        report = await fs.readFile(reportPath, 'utf-8')
+      } catch {
+        return Err(new GenericDomainError(
+          'TEST_REPORT_MISSING',
+          'quality',
+          `${command} exited with code ${outcome.exitCode} without writing a report\n${outcome.output}`
+        ))
+      }
+
+      const suites = parseTestReport(testCommand.report, report, { framework, rootDir: root.data, runAt: startedAt })
+      if (!suites.success) {
+        return suites
+      }
+
+      return Ok({
+        projectId: request.projectId,
+        framework,
+        command,
+        exitCode: outcome.exitCode,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        suites: suites.data,
+        summary: summarizeTestSuites(suites.data),
+        output: outcome.output
+      })
+    } catch (error) {
+      return Err(new GenericDomainError('TEST_RUN_FAILED', 'quality', `Failed to run ${command}`, error as Error))
+    } finally {
+      await fs.rm(reportDir, { recursive: true, force: true })
+    }
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private validateScope(request: TestRunRequest): Result<string | undefined, DomainError> {
+    const scope = request.scope?.trim()
+    if (!scope) {
+      return Ok(undefined)
+    }
+    // A leading dash would be read as an option by the test command
+    if (scope.startsWith('-')) {
+      return Err(new ValidationError('quality', `Invalid test scope ${scope}`))
+    }
+    const resolved = this.workspace.resolvePath(request.projectId, scope)
+    if (!resolved.success) {
+      return resolved
+    }
+    return Ok(scope)
+  }
+
+  private spawnTests(command: string, args: string[], cwd: string): Promise<ProcessOutcome> {
+    return new Promise((resolve, reject) => {
+      const { child, stop } = spawnProjectProcess(command, args, cwd)
+
+      let output = ''
+      const capture = (chunk: Buffer) => {
+        output += chunk.toString('utf-8')
+        if (output.length > this.config.maxOutputBytes) {
+          output = output.slice(-this.config.maxOutputBytes)
+        }
+      }
+      child.stdout?.on('data', capture)
+      child.stderr?.on('data', capture)
+
+      let timedOut = false
+      let killTimer: NodeJS.Timeout | undefined
+      const timeout = setTimeout(() => {
+        timedOut = true
+        stop('SIGTERM')
+        killTimer = setTimeout(() => stop('SIGKILL'), this.config.killGraceMs)
+      }, this.config.timeoutMs)
+
+      child.on('error', error => {
+        clearTimeout(timeout)
+        clearTimeout(killTimer)
+        reject(error)
+      })
+      child.on('close', exitCode => {
+        clearTimeout(timeout)
+        clearTimeout(killTimer)
+        resolve({ exitCode, timedOut, output })
+      })
+    })
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_TEST_COMMANDS: Record<string, TestCommand> = {
+  vitest: {
+    command: 'npx',
+    args: (reportPath, scope) => ['vitest', 'run', ...(scope ? [scope] : []), '--reporter=json', `--outputFile=${reportPath}`],
+    report: 'json'
+  },
+  jest: {
+    command: 'npx',
+    args: (reportPath, scope) => ['jest', '--ci', '--json', `--outputFile=${reportPath}`, ...(scope ? [scope] : [])],
+    report: 'json'
+  },
+  mocha: {
+    command: 'npx',
+    args: (reportPath, scope) => ['mocha', '--reporter', 'xunit', '--reporter-option', `output=${reportPath}`, ...(scope ? [scope] : [])],
+    report: 'junit'
+  },
+  pytest: {
+    command: 'python',
+    args: (reportPath, scope) => ['-m', 'pytest', `--junitxml=${reportPath}`, ...(scope ? [scope] : [])],
+    report: 'junit'
+  }
+}
+
+export const DEFAULT_TEST_RUNNER_CONFIG: TestRunnerConfig = {
+  timeoutMs: 5 * 60 * 1000,
+  killGraceMs: 5000,
+  maxOutputBytes: 64 * 1024,
+  commands: DEFAULT_TEST_COMMANDS
+}
+
+export function createTestRunner(
+  workspace: WorkspaceService,
+  getProjectSettings: ProjectSettingsProvider,
+  config?: Partial<TestRunnerConfig>
+): TestRunner {
+  return new TestRunner(workspace, getProjectSettings, {
+    ...DEFAULT_TEST_RUNNER_CONFIG,
+    ...config,
+    commands: { ...DEFAULT_TEST_COMMANDS, ...config?.commands }
+  })
+}
+
+export default TestRunner
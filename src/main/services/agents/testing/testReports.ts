@@ -0,0 +1,326 @@
+/**
+ * Test Reports
+ *
+ * Parses the machine-readable reports test frameworks write into the QA
+ * agent's test suites: the JSON report shared by Jest and Vitest, and JUnit
+ * XML, which most other frameworks (pytest, mocha's xunit reporter, JUnit
+ * itself) can produce.
+ */
+
+import * as path from 'path'
+import { z } from 'zod'
+import { Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import type { TestCase, TestSuite } from '../personas/QA'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TestReportFormat = 'json' | 'junit'
+
+export interface TestReportOptions {
+  readonly framework: string
+  /**
+   * Test file paths in the report are shown relative to this directory
+   */
+  readonly rootDir?: string
+  readonly runAt?: Date
+}
+
+export interface TestRunSummary {
+  readonly total: number
+  readonly passed: number
+  readonly failed: number
+  readonly skipped: number
+}
+
+type TestStatus = TestCase['status']
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+// Jest leaves out or nulls what it did not measure, so only the shape is checked
+const JsonAssertionSchema = z.object({
+  title: z.string().default(''),
+  fullName: z.string().nullish(),
+  ancestorTitles: z.array(z.string()).nullish(),
+  status: z.string().nullish(),
+  duration: z.number().nullish(),
+  failureMessages: z.array(z.string()).nullish()
+})
+
+const JsonTestFileSchema = z.object({
+  name: z.string().nullish(),
+  status: z.string().nullish(),
+  message: z.string().nullish(),
+  startTime: z.number().nullish(),
+  endTime: z.number().nullish(),
+  assertionResults: z.array(JsonAssertionSchema).nullish()
+})
+
+const JsonReportSchema = z.object({
+  testResults: z.array(JsonTestFileSchema)
+})
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+export function parseTestReport(
+  format: TestReportFormat,
+  content: string,
+  options: TestReportOptions
+): Result<TestSuite[], ValidationError> {
+  return format === 'json' ? parseJsonReport(content, options) : parseJUnitReport(content, options)
+}
+
+/**
+ * Jest `--json` and Vitest `--reporter=json` reports
+ */
+export function parseJsonReport(content: string, options: TestReportOptions): Result<TestSuite[], ValidationError> {
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch (error) {
+    return Err(new ValidationError('quality', `The test report is not valid JSON: ${(error as Error).message}`))
+  }
+  const report = JsonReportSchema.safeParse(json)
+  if (!report.success) {
+    const issues = report.error.errors.map(issue => `${issue.path.join('.') || 'report'}: ${issue.message}`)
+    return Err(new ValidationError('quality', `The test report is not a Jest or Vitest JSON report: ${issues.join('; ')}`))
+  }
+
+  const runAt = options.runAt ?? new Date()
+  const suites = report.data.testResults.map((file): TestSuite => {
+    const name = displayPath(file.name ?? 'unknown', options.rootDir)
+    const testCases = (file.assertionResults ?? []).map(assertion => createTestCase(name, {
+      name: assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title].join(' '),
+      status: mapJsonStatus(assertion.status),
+      message: (assertion.failureMessages ?? []).join('\n'),
+      duration: assertion.duration ?? undefined
+    }, runAt))
+
+    // A file that fails to load has no assertions, only a message
+    if (testCases.length === 0 && file.status === 'failed') {
+      testCases.push(createTestCase(name, {
+        name: 'Test file failed to run',
+        status: 'failed',
+        message: file.message ?? ''
+      }, runAt))
+    }
+
+    const executionTime = typeof file.startTime === 'number' && typeof file.endTime === 'number'
+      ? Math.max(0, file.endTime - file.startTime)
+      : sumDurations(testCases)
+    return createTestSuite(name, testCases, executionTime, options.framework, runAt)
+  })
+
+  return Ok(suites)
+}
+
+/**
+ * JUnit XML reports, with either a `<testsuites>` root or a single `<testsuite>`
+ */
+export function parseJUnitReport(content: string, options: TestReportOptions): Result<TestSuite[], ValidationError> {
+  const runAt = options.runAt ?? new Date()
+  const suites: TestSuite[] = []
+
+  for (const suite of findElements(content, 'testsuite')) {
+    const suiteName = displayPath(suite.attributes.name || suite.attributes.file || 'unknown', options.rootDir)
+    const testCases = findElements(suite.body, 'testcase').map(testCase => {
+      const failure = findElements(testCase.body, 'failure')[0] ?? findElements(testCase.body, 'error')[0]
+      const skipped = findElements(testCase.body, 'skipped').length > 0
+      const name = [testCase.attributes.classname, testCase.attributes.name].filter(Boolean).join(' ')
+      const message = failure
+        ? [failure.attributes.message, readText(failure.body)].filter(Boolean).join('\n')
+        : ''
+      const seconds = parseFloat(testCase.attributes.time)
+
+      return createTestCase(suiteName, {
+        name: name || 'unnamed test',
+        status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+        message,
+        duration: Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined
+      }, runAt)
+    })
+
+    const seconds = parseFloat(suite.attributes.time)
+    const executionTime = Number.isFinite(seconds) ? Math.round(seconds * 1000) : sumDurations(testCases)
+    suites.push(createTestSuite(suiteName, testCases, executionTime, options.framework, runAt))
+  }
+
+  if (suites.length === 0) {
+    return Err(new ValidationError('quality', 'The test report has no <testsuite> elements'))
+  }
+  return Ok(suites)
+}
+
+export function summarizeTestSuites(suites: TestSuite[]): TestRunSummary {
+  const testCases = suites.flatMap(suite => suite.testCases)
+  return {
+    total: testCases.length,
+    passed: testCases.filter(testCase => testCase.status === 'passed').length,
+    failed: testCases.filter(testCase => testCase.status === 'failed').length,
+    skipped: testCases.filter(testCase => testCase.status === 'skipped').length
+  }
+}
+
+// =============================================================================
+// Test Suite Construction
+// =============================================================================
+
+interface ParsedTestCase {
+  readonly name: string
+  readonly status: TestStatus
+  readonly message: string
+  readonly duration?: number
+}
+
+function createTestCase(suiteName: string, parsed: ParsedTestCase, runAt: Date): TestCase {
+  return {
+    // Stable across runs, so the same failure can be recognised again
+    id: `${suiteName}::${parsed.name}`,
+    name: parsed.name,
+    description: `${parsed.name} in ${suiteName}`,
+    steps: [],
+    expectedResult: 'Test passes',
+    actualResult: parsed.status === 'failed' ? parsed.message || 'Test failed' : undefined,
+    status: parsed.status,
+    priority: 'medium',
+    tags: [],
+    requirements: [],
+    lastRun: runAt,
+    duration: parsed.duration
+  }
+}
+
+function createTestSuite(
+  name: string,
+  testCases: TestCase[],
+  executionTime: number,
+  framework: string,
+  runAt: Date
+): TestSuite {
+  return {
+    id: name,
+    name,
+    type: inferSuiteType(name),
+    framework,
+    testCases,
+    coverage: { lines: 0, functions: 0, branches: 0, statements: 0, files: 0, uncoveredLines: [] },
+    environment: { name: 'local', type: 'local', configuration: {}, dependencies: [], dataSetup: [] },
+    automationLevel: 'fully_automated',
+    executionTime,
+    lastRun: runAt
+  }
+}
+
+function mapJsonStatus(status: string | null | undefined): TestStatus {
+  switch (status) {
+    case 'passed':
+      return 'passed'
+    case 'failed':
+      return 'failed'
+    case 'pending':
+    case 'skipped':
+    case 'todo':
+    case 'disabled':
+      return 'skipped'
+    default:
+      return 'not_run'
+  }
+}
+
+function inferSuiteType(name: string): TestSuite['type'] {
+  if (/(^|[/\\._-])e2e([/\\._-]|$)/i.test(name)) {
+    return 'e2e'
+  }
+  if (/integration/i.test(name)) {
+    return 'integration'
+  }
+  return 'unit'
+}
+
+function displayPath(filePath: string, rootDir?: string): string {
+  if (!rootDir || !path.isAbsolute(filePath)) {
+    return filePath
+  }
+  const relative = path.relative(rootDir, filePath)
+  return relative.startsWith('..') ? filePath : relative.split(path.sep).join('/')
+}
+
+function sumDurations(testCases: TestCase[]): number {
+  return testCases.reduce((total, testCase) => total + (testCase.duration ?? 0), 0)
+}
+
+// =============================================================================
+// XML Helpers
+// =============================================================================
+
+interface XmlElement {
+  readonly attributes: Record<string, string>
+  readonly body: string
+}
+
+// Attribute values may legally contain '>', so they are matched whole
+const ATTRIBUTES = String.raw`((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(/?)>`
+
+/**
+ * Elements named `tag` in `xml`, outermost first. Elements of the same name
+ * are not expected to nest in test reports.
+ */
+function findElements(xml: string, tag: string): XmlElement[] {
+  const elements: XmlElement[] = []
+  const opening = new RegExp(`<${tag}${ATTRIBUTES}`, 'g')
+  const closing = `</${tag}>`
+
+  let match: RegExpExecArray | null
+  while ((match = opening.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[1])
+    if (match[2] === '/') {
+      elements.push({ attributes, body: '' })
+      continue
+    }
+    const end = xml.indexOf(closing, opening.lastIndex)
+    const bodyEnd = end === -1 ? xml.length : end
+    elements.push({ attributes, body: xml.slice(opening.lastIndex, bodyEnd) })
+    opening.lastIndex = end === -1 ? xml.length : end + closing.length
+  }
+  return elements
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '')
+  }
+  return attributes
+}
+
+function readText(body: string): string {
+  return body
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part.replace(/<[^>]*>/g, ''))))
+    .join('')
+    .trim()
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'amp':
+        return '&'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return '\''
+    }
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+  })
+}
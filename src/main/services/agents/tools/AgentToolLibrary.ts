@@ -0,0 +1,562 @@
+/**
+ * Agent Tool Library
+ *
+ * The standard tools agents can call while answering a message: reading,
+ * listing and searching project files, proposing a file write for the user's
+ * approval, querying the
+ * task tree, searching memories and running an allowlisted command. Each tool
+ * names the permission it needs and the agent types that may use it; the
+ * checks themselves happen in BaseAgent.executeTool.
+ */
+
+import * as fs from 'fs/promises'
+import { z } from 'zod'
+import { ActionApproval, AgentAction, AgentRole, AgentType, ChangeSet, CustomPersonaDefinition } from '@/shared/contracts/AgentDomain'
+import { BusinessRuleViolationError, EntityNotFoundError, Result, ValidationError } from '@/shared/contracts/common'
+import { IMemoryDomainService } from '@/shared/contracts/MemoryDomain'
+import { HierarchyItem } from '@/shared/types/tasks'
+import { AgentContext, AgentTool } from '../base/Agent'
+import { ActionApprovalQueue } from '../approvals/ActionApprovalQueue'
+import { TaskHierarchyService } from '../../tasks/TaskHierarchyService'
+import { WorkspaceService } from '../../workspace/WorkspaceService'
+import { spawnProjectProcess } from './projectProcess'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const TOOL_PERMISSIONS = {
+  READ_FILES: 'files:read',
+  WRITE_FILES: 'files:write',
+  READ_TASKS: 'tasks:read',
+  READ_MEMORY: 'memory:read',
+  RUN_COMMANDS: 'commands:run'
+} as const
+
+/**
+ * Services the tools work against; tools whose service is missing are left out
+ */
+export interface AgentToolServices {
+  readonly workspace?: WorkspaceService
+  readonly taskHierarchy?: TaskHierarchyService
+  readonly memoryService?: IMemoryDomainService
+  /**
+   * Where proposed file writes wait for the user's approval
+   */
+  readonly approvals?: ActionApprovalQueue
+}
+
+export interface AgentToolLibraryConfig {
+  /**
+   * Commands run_command accepts, e.g. `npm test`. Extra arguments are allowed
+   * as long as they are project paths rather than options.
+   */
+  readonly allowedCommands: string[]
+  readonly commandTimeoutMs: number
+  readonly maxOutputBytes: number
+  /**
+   * Files larger than this are cut off when read and skipped when searched
+   */
+  readonly maxFileBytes: number
+  readonly maxSearchResults: number
+  readonly maxSearchedFiles: number
+  /**
+   * Directory names search does not descend into
+   */
+  readonly ignoredDirectories: string[]
+  /**
+   * Personas declared in config; each may use the tools it lists as allowed
+   */
+  readonly customPersonas: CustomPersonaDefinition[]
+}
+
+interface StandardTool<Input extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly name: string
+  readonly description: string
+  readonly parameters: Record<string, unknown>
+  readonly requiredPermission: string
+  readonly allowedAgents: AgentRole[]
+  readonly timeoutMs: number
+  readonly input: Input
+  readonly needs?: Array<keyof AgentToolServices>
+  run(input: z.infer<Input>, context: AgentContext, signal?: AbortSignal): Promise<unknown>
+}
+
+/**
+ * Types `run` by the tool's input schema
+ */
+function defineTool<Input extends z.ZodTypeAny>(tool: StandardTool<Input>): StandardTool {
+  return tool
+}
+
+const ALL_AGENTS: AgentRole[] = [AgentType.PRODUCER, AgentType.ARCHITECT, AgentType.ENGINEER, AgentType.QA]
+
+// =============================================================================
+// Agent Tool Library Implementation
+// =============================================================================
+
+export class AgentToolLibrary {
+  private readonly tools: AgentTool[]
+
+  constructor(
+    private readonly services: AgentToolServices,
+    private readonly config: AgentToolLibraryConfig
+  ) {
+    this.tools = this.defineTools()
+      .filter(tool => (tool.needs ?? []).every(service => this.services[service]))
+      .map(tool => this.toAgentTool(tool))
+  }
+
+  getTools(): AgentTool[] {
+    return [...this.tools]
+  }
+
+  /**
+   * Tools an agent type may use, by name
+   */
+  getToolNamesFor(agentType: AgentRole): string[] {
+    return this.tools.filter(tool => tool.allowedAgents.includes(agentType)).map(tool => tool.name)
+  }
+
+  /**
+   * Tools to register on an agent: those it is allowed and that its configuration lists
+   */
+  getToolsFor(agentType: AgentRole, configuredTools: string[]): AgentTool[] {
+    return this.tools.filter(tool => tool.allowedAgents.includes(agentType) && configuredTools.includes(tool.name))
+  }
+
+  // =============================================================================
+  // Tool Definitions
+  // =============================================================================
+
+  private defineTools(): StandardTool[] {
+    return [
+      defineTool({
+        name: 'read_file',
+        description: 'Read a text file from the project',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path relative to the project root' }
+          },
+          required: ['path']
+        },
+        requiredPermission: TOOL_PERMISSIONS.READ_FILES,
+        allowedAgents: ALL_AGENTS,
+        timeoutMs: 10000,
+        input: z.object({ path: z.string().min(1) }),
+        needs: ['workspace'],
+        run: ({ path }, context) => this.readFile(context, path)
+      }),
+      defineTool({
+        name: 'list_directory',
+        description: 'List the files and directories in a project directory',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Directory relative to the project root; the root when omitted' }
+          }
+        },
+        requiredPermission: TOOL_PERMISSIONS.READ_FILES,
+        allowedAgents: ALL_AGENTS,
+        timeoutMs: 10000,
+        input: z.object({ path: z.string().optional() }),
+        needs: ['workspace'],
+        run: async ({ path }, context) => this.unwrap(await this.require('workspace').listDirectory(context.projectId, path))
+      }),
+      defineTool({
+        name: 'search_project',
+        description: 'Search the text of the project files for a phrase, case-insensitively',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Text to look for' },
+            path: { type: 'string', description: 'Directory to limit the search to' }
+          },
+          required: ['query']
+        },
+        requiredPermission: TOOL_PERMISSIONS.READ_FILES,
+        allowedAgents: ALL_AGENTS,
+        timeoutMs: 30000,
+        input: z.object({ query: z.string().trim().min(2).max(200), path: z.string().optional() }),
+        needs: ['workspace'],
+        run: ({ query, path }, context, signal) => this.searchProject(context, query, path, signal)
+      }),
+      defineTool({
+        name: 'write_file',
+        description: 'Write a project file. The write is proposed as a change set and happens once the user approves it.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path relative to the project root' },
+            content: { type: 'string', description: 'Complete new file content' },
+            description: { type: 'string', description: 'Why the file is written' }
+          },
+          required: ['path', 'content']
+        },
+        requiredPermission: TOOL_PERMISSIONS.WRITE_FILES,
+        allowedAgents: [AgentType.ARCHITECT, AgentType.ENGINEER],
+        timeoutMs: 10000,
+        input: z.object({ path: z.string().min(1), content: z.string(), description: z.string().optional() }),
+        needs: ['workspace', 'approvals'],
+        run: ({ path, content, description }, context) => this.writeFile(context, path, content, description)
+      }),
+      defineTool({
+        name: 'query_tasks',
+        description: 'Look up epics, stories, tasks and subtasks in the project task tree',
+        parameters: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['epic', 'story', 'task', 'subtask'] },
+            status: { type: 'string', enum: ['not-started', 'in-progress', 'review', 'completed', 'blocked'] },
+            query: { type: 'string', description: 'Text the title or description contains' }
+          }
+        },
+        requiredPermission: TOOL_PERMISSIONS.READ_TASKS,
+        allowedAgents: ALL_AGENTS,
+        timeoutMs: 10000,
+        input: z.object({
+          type: z.enum(['epic', 'story', 'task', 'subtask']).optional(),
+          status: z.enum(['not-started', 'in-progress', 'review', 'completed', 'blocked']).optional(),
+          query: z.string().optional()
+        }),
+        needs: ['taskHierarchy'],
+        run: (filter, context) => this.queryTasks(context, filter)
+      }),
+      defineTool({
+        name: 'search_memories',
+        description: 'Search the team\'s memories of earlier conversations and decisions for this project',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to look for' },
+            limit: { type: 'number', description: 'Most results to return, up to 20' }
+          },
+          required: ['query']
+        },
+        requiredPermission: TOOL_PERMISSIONS.READ_MEMORY,
+        allowedAgents: ALL_AGENTS,
+        timeoutMs: 15000,
+        input: z.object({ query: z.string().trim().min(1), limit: z.number().int().min(1).max(20).optional() }),
+        needs: ['memoryService'],
+        run: ({ query, limit }, context) => this.searchMemories(context, query, limit)
+      }),
+      defineTool({
+        name: 'run_command',
+        description: `Run an allowlisted command in the project directory: ${this.config.allowedCommands.join(', ')}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            command: { type: 'string', description: 'The command line, optionally followed by project paths' }
+          },
+          required: ['command']
+        },
+        requiredPermission: TOOL_PERMISSIONS.RUN_COMMANDS,
+        allowedAgents: [AgentType.ENGINEER, AgentType.QA],
+        timeoutMs: this.config.commandTimeoutMs,
+        input: z.object({ command: z.string().trim().min(1) }),
+        needs: ['workspace'],
+        run: ({ command }, context, signal) => this.runCommand(context, command, signal)
+      })
+    ]
+  }
+
+  private toAgentTool(tool: StandardTool): AgentTool {
+    const personas = this.config.customPersonas
+      .filter(persona => persona.allowedTools.includes(tool.name))
+      .map(persona => persona.id)
+
+    return {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      requiredPermission: tool.requiredPermission,
+      allowedAgents: [...tool.allowedAgents, ...personas],
+      timeoutMs: tool.timeoutMs,
+      execute: async (params, context, signal) => {
+        const input = tool.input.safeParse(params ?? {})
+        if (!input.success) {
+          throw new ValidationError('agent', `Invalid input for ${tool.name}`, input.error)
+        }
+        return tool.run(input.data, context, signal)
+      }
+    }
+  }
+
+  // =============================================================================
+  // Tool Implementations
+  // =============================================================================
+
+  private async readFile(context: AgentContext, filePath: string) {
+    const content = this.unwrap(await this.require('workspace').readFile(context.projectId, filePath))
+    if (content === undefined) {
+      throw new EntityNotFoundError('workspace', filePath)
+    }
+    const truncated = content.length > this.config.maxFileBytes
+    return { path: filePath, content: truncated ? content.slice(0, this.config.maxFileBytes) : content, truncated }
+  }
+
+  private async searchProject(context: AgentContext, query: string, dirPath?: string, signal?: AbortSignal) {
+    const workspace = this.require('workspace')
+    const needle = query.toLowerCase()
+    const matches: { path: string; line: number; text: string }[] = []
+    const pending = [dirPath ?? '']
+    let searchedFiles = 0
+
+    while (pending.length > 0 && matches.length < this.config.maxSearchResults && searchedFiles < this.config.maxSearchedFiles) {
+      if (signal?.aborted) {
+        break
+      }
+      const entries = this.unwrap(await workspace.listDirectory(context.projectId, pending.shift()))
+      for (const entry of entries) {
+        if (entry.type === 'directory') {
+          if (!this.config.ignoredDirectories.includes(entry.name)) {
+            pending.push(entry.path)
+          }
+          continue
+        }
+        if (matches.length >= this.config.maxSearchResults || searchedFiles >= this.config.maxSearchedFiles) {
+          break
+        }
+
+        const resolved = this.unwrap(workspace.resolvePath(context.projectId, entry.path))
+        if ((await fs.stat(resolved)).size > this.config.maxFileBytes) {
+          continue
+        }
+        const content = this.unwrap(await workspace.readFile(context.projectId, entry.path))
+        searchedFiles++
+        // Binary files are not searched
+        if (!content || content.includes('\0')) {
+          continue
+        }
+
+        content.split('\n').forEach((text, index) => {
+          if (matches.length < this.config.maxSearchResults && text.toLowerCase().includes(needle)) {
+            matches.push({ path: entry.path, line: index + 1, text: text.trim().slice(0, 200) })
+          }
+        })
+      }
+    }
+
+    return { query, matches, searchedFiles, complete: pending.length === 0 && matches.length < this.config.maxSearchResults }
+  }
+
+  private async writeFile(context: AgentContext, filePath: string, content: string, description?: string) {
+    const changeSet = this.unwrap(await this.require('workspace').proposeChangeSet({
+      projectId: context.projectId,
+      agentType: context.agentType,
+      title: `Write ${filePath}`,
+      description: description ?? `Requested by the ${context.agentType} agent`,
+      files: [{ path: filePath, content }]
+    }))
+    const approval = this.queueChangeSet(changeSet, context)
+    return {
+      changeSetId: changeSet.id,
+      approvalId: approval.id,
+      status: changeSet.status,
+      message: 'The file is written once the user approves the change set'
+    }
+  }
+
+  /**
+   * Hold writing a proposed change set for the user's approval, as the Engineer does
+   */
+  private queueChangeSet(changeSet: ChangeSet, context: AgentContext): ActionApproval {
+    const workspace = this.require('workspace')
+    const action: AgentAction = {
+      type: 'apply_change_set',
+      description: `Write ${changeSet.files.length} file(s) for ${changeSet.title}`,
+      parameters: { changeSetId: changeSet.id, files: changeSet.files.map(file => file.path) },
+      confirmation: true
+    }
+
+    return this.require('approvals').enqueue({
+      agentType: context.agentType,
+      projectId: context.projectId,
+      action,
+      handlers: {
+        execute: async () => {
+          const applied = await workspace.applyChangeSet(changeSet.id)
+          if (!applied.success) {
+            throw applied.error
+          }
+          return { changeSet: applied.data }
+        },
+        reject: async () => {
+          const rejected = workspace.rejectChangeSet(changeSet.id)
+          if (!rejected.success) {
+            throw rejected.error
+          }
+        }
+      }
+    })
+  }
+
+  private async queryTasks(
+    context: AgentContext,
+    filter: { type?: HierarchyItem['type']; status?: HierarchyItem['status']; query?: string }
+  ) {
+    if (!context.projectId) {
+      throw new ValidationError('agent', 'Tasks can only be queried for a project')
+    }
+
+    const items: HierarchyItem[] = []
+    for (const epic of await this.require('taskHierarchy').getEpics(context.projectId)) {
+      items.push(epic)
+      for (const story of epic.stories) {
+        items.push(story)
+        for (const task of story.tasks) {
+          items.push(task, ...task.subtasks)
+        }
+      }
+    }
+
+    const query = filter.query?.trim().toLowerCase()
+    return items
+      .filter(item => !filter.type || item.type === filter.type)
+      .filter(item => !filter.status || item.status === filter.status)
+      .filter(item => !query || `${item.title}\n${item.description}`.toLowerCase().includes(query))
+      .slice(0, this.config.maxSearchResults)
+      .map(item => ({
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        status: item.status,
+        priority: item.priority,
+        assignedAgent: item.assignedAgent
+      }))
+  }
+
+  private async searchMemories(context: AgentContext, query: string, limit = 5) {
+    const results = this.unwrap(await this.require('memoryService').searchMemories({
+      query,
+      projectId: context.projectId,
+      limit
+    }))
+    return results.map(result => ({
+      content: result.memory.content,
+      type: result.memory.type,
+      similarity: result.similarity
+    }))
+  }
+
+  private async runCommand(context: AgentContext, commandLine: string, signal?: AbortSignal) {
+    const [command, ...args] = commandLine.split(/\s+/)
+    const allowed = this.config.allowedCommands.find(entry => {
+      const allowedTokens = entry.split(/\s+/)
+      return allowedTokens.every((token, index) => [command, ...args][index] === token)
+    })
+    if (!allowed) {
+      throw new ValidationError('agent', `${commandLine} is not an allowed command`)
+    }
+
+    // Anything past the allowlisted prefix must be a path inside the project
+    const workspace = this.require('workspace')
+    for (const extra of args.slice(allowed.split(/\s+/).length - 1)) {
+      const resolved = workspace.resolvePath(context.projectId, extra)
+      if (extra.startsWith('-') || !resolved.success) {
+        throw new ValidationError('agent', `Argument ${extra} is not allowed for ${allowed}`)
+      }
+    }
+
+    const cwd = this.unwrap(workspace.getProjectRoot(context.projectId))
+    const outcome = await this.spawnCommand(command, args, cwd, signal)
+    return { command: commandLine, exitCode: outcome.exitCode, output: outcome.output }
+  }
+
+  private spawnCommand(
+    command: string,
+    args: string[],
+    cwd: string,
+    signal?: AbortSignal
+  ): Promise<{ exitCode: number | null; output: string }> {
+    return new Promise((resolve, reject) => {
+      const { child, stop } = spawnProjectProcess(command, args, cwd)
+
+      let output = ''
+      const capture = (chunk: Buffer) => {
+        output += chunk.toString('utf-8')
+        if (output.length > this.config.maxOutputBytes) {
+          output = output.slice(-this.config.maxOutputBytes)
+        }
+      }
+      child.stdout?.on('data', capture)
+      child.stderr?.on('data', capture)
+
+      // The tool timeout aborts the call; the process must not outlive it
+      const kill = () => stop('SIGKILL')
+      signal?.addEventListener('abort', kill, { once: true })
+
+      child.on('error', error => {
+        signal?.removeEventListener('abort', kill)
+        reject(error)
+      })
+      child.on('close', exitCode => {
+        signal?.removeEventListener('abort', kill)
+        resolve({ exitCode, output })
+      })
+    })
+  }
+
+  /**
+   * Tools are only offered when the services they need are there, so a missing one is a wiring error
+   */
+  private require<K extends keyof AgentToolServices>(service: K): NonNullable<AgentToolServices[K]> {
+    const instance = this.services[service]
+    if (!instance) {
+      throw new BusinessRuleViolationError('agent', `The ${service} service is not available to the tools`)
+    }
+    return instance as NonNullable<AgentToolServices[K]>
+  }
+
+  private unwrap<T>(result: Result<T, Error>): T {
+    if (!result.success) {
+      throw result.error
+    }
+    return result.data
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_AGENT_TOOL_LIBRARY_CONFIG: AgentToolLibraryConfig = {
+  allowedCommands: ['npm test', 'npm run lint', 'npm run build', 'npx tsc --noEmit', 'git status', 'git diff', 'git log --oneline'],
+  commandTimeoutMs: 2 * 60 * 1000,
+  maxOutputBytes: 32 * 1024,
+  maxFileBytes: 256 * 1024,
+  maxSearchResults: 50,
+  maxSearchedFiles: 2000,
+  ignoredDirectories: ['node_modules', '.git', 'dist', 'build', 'coverage'],
+  customPersonas: []
+}
+
+/**
+ * Permissions each built-in agent holds by default
+ */
+export const DEFAULT_AGENT_PERMISSIONS: Record<AgentType, string[]> = {
+  [AgentType.PRODUCER]: [TOOL_PERMISSIONS.READ_FILES, TOOL_PERMISSIONS.READ_TASKS, TOOL_PERMISSIONS.READ_MEMORY],
+  [AgentType.ARCHITECT]: [
+    TOOL_PERMISSIONS.READ_FILES,
+    TOOL_PERMISSIONS.WRITE_FILES,
+    TOOL_PERMISSIONS.READ_TASKS,
+    TOOL_PERMISSIONS.READ_MEMORY
+  ],
+  [AgentType.ENGINEER]: Object.values(TOOL_PERMISSIONS),
+  [AgentType.QA]: [
+    TOOL_PERMISSIONS.READ_FILES,
+    TOOL_PERMISSIONS.READ_TASKS,
+    TOOL_PERMISSIONS.READ_MEMORY,
+    TOOL_PERMISSIONS.RUN_COMMANDS
+  ]
+}
+
+export function createAgentToolLibrary(
+  services: AgentToolServices,
+  config?: Partial<AgentToolLibraryConfig>
+): AgentToolLibrary {
+  return new AgentToolLibrary(services, { ...DEFAULT_AGENT_TOOL_LIBRARY_CONFIG, ...config })
+}
+
+export default AgentToolLibrary
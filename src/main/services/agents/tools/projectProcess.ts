@@ -0,0 +1,66 @@
+/**
+ * Project Processes
+ *
+ * Starts the commands agents run inside a project workspace, such as its test
+ * suite or an allowlisted tool command, so that stopping one also stops every
+ * process it started. On POSIX a command runs in its own process group. On
+ * Windows it starts through a shell, since npm and npx are .cmd shims there,
+ * and its process tree is ended with taskkill.
+ */
+
+import { ChildProcess, spawn } from 'child_process'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ProjectProcess {
+  readonly child: ChildProcess
+  /**
+   * Stops the process and the ones it started, including those still running after it exited
+   */
+  stop(signal: NodeJS.Signals): void
+}
+
+// =============================================================================
+// Spawning
+// =============================================================================
+
+export function spawnProjectProcess(command: string, args: string[], cwd: string): ProjectProcess {
+  const windows = process.platform === 'win32'
+  const child = spawn(command, windows ? args.map(quoteWindowsArg) : args, {
+    cwd,
+    detached: !windows,
+    shell: windows,
+    env: { ...process.env, CI: 'true', FORCE_COLOR: '0' },
+    stdio: ['ignore', 'pipe', 'pipe']
+  })
+
+  return {
+    child,
+    stop: signal => stopProcessTree(child, signal)
+  }
+}
+
+function stopProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return
+  }
+  try {
+    if (process.platform === 'win32') {
+      // The child is the shell, so its whole tree has to go
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' }).on('error', () => undefined)
+    } else {
+      process.kill(-child.pid, signal)
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Quotes an argument for cmd.exe, which the shell on Windows joins the arguments with
+ */
+function quoteWindowsArg(arg: string): string {
+  return /^[\w@+=:,./\\-]+$/.test(arg) ? arg : `"${arg.replace(/"/g, '""')}"`
+}
@@ -0,0 +1,71 @@
+/**
+ * Work Session IPC Handlers
+ *
+ * Pushes each agent work session to the renderer as it moves through its
+ * phases, and lets the renderer list the recent sessions when it opens.
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import { z } from 'zod'
+import { AgentRoleSchema, AgentWorkSessionRecord } from '@/shared/contracts/AgentDomain'
+import { IEventBus } from '@/shared/contracts/EventBus'
+import { WorkSessionTracker, createWorkSessionTracker } from './WorkSessionTracker'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const WorkSessionFilterSchema = z.object({
+  agentType: AgentRoleSchema.optional(),
+  projectId: z.string().optional(),
+  status: z.enum(['active', 'completed', 'failed']).optional()
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class WorkSessionIPCHandlers {
+  private readonly tracker: WorkSessionTracker
+  private readonly onSessionUpdated = (session: AgentWorkSessionRecord) => {
+    this.sendToRenderer('agent:work-session-updated', session)
+  }
+
+  constructor(eventBus: IEventBus) {
+    this.tracker = createWorkSessionTracker(eventBus)
+  }
+
+  async initialize(): Promise<void> {
+    this.tracker.initialize()
+    this.tracker.on('session-updated', this.onSessionUpdated)
+    this.registerHandlers()
+    console.log('Work session IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.tracker.shutdown()
+    ipcMain.removeHandler('agent:work-sessions')
+  }
+
+  getWorkSessionTracker(): WorkSessionTracker {
+    return this.tracker
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('agent:work-sessions', async (_event, filter: unknown) => {
+      return this.tracker.list(WorkSessionFilterSchema.parse(filter ?? {}))
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
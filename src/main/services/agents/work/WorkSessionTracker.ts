@@ -0,0 +1,194 @@
+/**
+ * Work Session Tracker
+ *
+ * Folds the agent.work.* events agents publish while they process a message
+ * into work sessions with a phase, a progress percentage, thinking steps and
+ * the artifacts produced, and keeps the most recent sessions of each agent
+ * so the UI can show them after it opens.
+ */
+
+import { EventEmitter } from 'events'
+import {
+  AgentRole,
+  AgentWorkArtifactEvent,
+  AgentWorkEndedEvent,
+  AgentWorkProgressEvent,
+  AgentWorkSessionRecord,
+  AgentWorkSessionStatus,
+  AgentWorkStartedEvent
+} from '@/shared/contracts/AgentDomain'
+import { IEventBus } from '@/shared/contracts/EventBus'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WorkSessionTrackerConfig {
+  /**
+   * Sessions kept per agent type; the oldest finished ones are dropped first
+   */
+  readonly maxSessionsPerAgent: number
+}
+
+export interface WorkSessionFilter {
+  readonly agentType?: AgentRole
+  readonly projectId?: string
+  readonly status?: AgentWorkSessionStatus
+}
+
+type AgentWorkEvent = AgentWorkStartedEvent | AgentWorkProgressEvent | AgentWorkArtifactEvent | AgentWorkEndedEvent
+
+const WORK_EVENT_TYPES: AgentWorkEvent['type'][] = [
+  'agent.work.started',
+  'agent.work.progress',
+  'agent.work.artifact',
+  'agent.work.ended'
+]
+
+// =============================================================================
+// Work Session Tracker Implementation
+// =============================================================================
+
+/**
+ * Emits `session-updated` with the whole session every time one changes
+ */
+export class WorkSessionTracker extends EventEmitter {
+  private readonly sessions = new Map<string, AgentWorkSessionRecord>()
+  private subscriptionId?: string
+
+  constructor(
+    private readonly eventBus: IEventBus,
+    private readonly config: WorkSessionTrackerConfig
+  ) {
+    super()
+  }
+
+  initialize(): void {
+    if (this.subscriptionId) {
+      return
+    }
+    this.subscriptionId = this.eventBus.subscribeToMany<AgentWorkEvent>(WORK_EVENT_TYPES, {
+      handle: async (event) => {
+        this.apply(event)
+      }
+    })
+  }
+
+  shutdown(): void {
+    if (this.subscriptionId) {
+      this.eventBus.unsubscribe(this.subscriptionId)
+      this.subscriptionId = undefined
+    }
+    this.removeAllListeners()
+  }
+
+  /**
+   * Sessions matching the filter, most recently started first
+   */
+  list(filter: WorkSessionFilter = {}): AgentWorkSessionRecord[] {
+    return Array.from(this.sessions.values())
+      .filter(session => !filter.agentType || session.agentType === filter.agentType)
+      .filter(session => !filter.projectId || session.projectId === filter.projectId)
+      .filter(session => !filter.status || session.status === filter.status)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+  }
+
+  get(id: string): AgentWorkSessionRecord | undefined {
+    return this.sessions.get(id)
+  }
+
+  // =============================================================================
+  // Event Folding
+  // =============================================================================
+
+  private apply(event: AgentWorkEvent): void {
+    switch (event.type) {
+      case 'agent.work.started':
+        this.store({
+          id: event.payload.sessionId,
+          agentId: event.agentId,
+          agentType: event.agentType,
+          messageId: event.payload.messageId,
+          projectId: event.payload.projectId,
+          taskId: event.payload.taskId,
+          objective: event.payload.objective,
+          status: 'active',
+          phase: 'initializing',
+          progressPercentage: 0,
+          startedAt: new Date(event.timestamp),
+          thinkingSteps: [],
+          artifacts: []
+        })
+        this.prune(event.agentType)
+        break
+      case 'agent.work.progress': {
+        const { phase, progressPercentage, thinkingStep } = event.payload
+        this.update(event.payload.sessionId, session => ({
+          ...session,
+          phase,
+          // Progress never moves backwards within a session
+          progressPercentage: Math.max(session.progressPercentage, progressPercentage),
+          thinkingSteps: thinkingStep ? [...session.thinkingSteps, thinkingStep] : session.thinkingSteps
+        }))
+        break
+      }
+      case 'agent.work.artifact':
+        this.update(event.payload.sessionId, session => ({
+          ...session,
+          artifacts: [...session.artifacts, event.payload.artifact]
+        }))
+        break
+      case 'agent.work.ended':
+        this.update(event.payload.sessionId, session => ({
+          ...session,
+          status: event.payload.status,
+          phase: event.payload.status === 'completed' ? 'completed' : session.phase,
+          progressPercentage: event.payload.status === 'completed' ? 100 : session.progressPercentage,
+          endedAt: new Date(event.timestamp),
+          error: event.payload.error
+        }))
+        break
+    }
+  }
+
+  private update(id: string, change: (session: AgentWorkSessionRecord) => AgentWorkSessionRecord): void {
+    const session = this.sessions.get(id)
+    if (session) {
+      this.store(change(session))
+    }
+  }
+
+  private store(session: AgentWorkSessionRecord): void {
+    this.sessions.set(session.id, session)
+    this.emit('session-updated', session)
+  }
+
+  private prune(agentType: AgentRole): void {
+    const sessions = this.list({ agentType })
+    let excess = sessions.length - this.config.maxSessionsPerAgent
+    for (const session of sessions.filter(session => session.status !== 'active').reverse()) {
+      if (excess <= 0) {
+        break
+      }
+      this.sessions.delete(session.id)
+      excess--
+    }
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_WORK_SESSION_TRACKER_CONFIG: WorkSessionTrackerConfig = {
+  maxSessionsPerAgent: 20
+}
+
+export function createWorkSessionTracker(
+  eventBus: IEventBus,
+  config?: Partial<WorkSessionTrackerConfig>
+): WorkSessionTracker {
+  return new WorkSessionTracker(eventBus, { ...DEFAULT_WORK_SESSION_TRACKER_CONFIG, ...config })
+}
+
+export default WorkSessionTracker
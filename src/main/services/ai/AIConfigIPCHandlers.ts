@@ -0,0 +1,98 @@
+/**
+ * AI Configuration IPC Handlers
+ *
+ * Lets the renderer read and update the LLM provider settings and
+ * credentials, and test a provider connection. Credentials are encrypted
+ * with the OS keychain through Electron's `safeStorage`.
+ */
+
+import { BrowserWindow, app, ipcMain, safeStorage } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { AIConfigUpdateSchema, AIConfigView, AIProviderNameSchema } from '@/shared/contracts/AgentDomain'
+import { AIConfigService, CredentialCipher, createAIConfigService } from './AIConfigService'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const ConnectionTestSchema = z.object({
+  provider: AIProviderNameSchema.optional(),
+  config: AIConfigUpdateSchema.optional()
+})
+
+const safeStorageCipher: CredentialCipher = {
+  isEncryptionAvailable: () => safeStorage.isEncryptionAvailable(),
+  encrypt: plainText => safeStorage.encryptString(plainText).toString('base64'),
+  decrypt: cipherText => safeStorage.decryptString(Buffer.from(cipherText, 'base64'))
+}
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class AIConfigIPCHandlers {
+  private readonly aiConfigService: AIConfigService
+  private readonly onConfigChanged = (view: AIConfigView) => {
+    this.sendToRenderer('config:ai:changed', view)
+  }
+
+  constructor() {
+    this.aiConfigService = createAIConfigService({
+      storagePath: path.join(app.getPath('userData'), 'app-data', 'ai-config.json'),
+      cipher: safeStorageCipher
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.aiConfigService.initialize()
+    this.registerHandlers()
+    this.aiConfigService.on('config-changed', this.onConfigChanged)
+    console.log('AI configuration IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.aiConfigService.off('config-changed', this.onConfigChanged)
+
+    const handlers = ['config:ai:get', 'config:ai:update', 'config:ai:test']
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+    await this.aiConfigService.flush()
+  }
+
+  getAIConfigService(): AIConfigService {
+    return this.aiConfigService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('config:ai:get', async () => {
+      return this.aiConfigService.getConfig()
+    })
+
+    ipcMain.handle('config:ai:update', async (_event, update: unknown) => {
+      const result = this.aiConfigService.updateConfig(AIConfigUpdateSchema.parse(update))
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+
+    ipcMain.handle('config:ai:test', async (_event, request: unknown) => {
+      const { provider, config } = ConnectionTestSchema.parse(request ?? {})
+      return this.aiConfigService.testConnection(provider, config)
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * AI Configuration Service
+ *
+ * Owns the LLM provider settings and credentials. Credentials are encrypted
+ * with the injected cipher before they are written to disk, and are never
+ * returned to the renderer. Every accepted change rebuilds the providers in
+ * the shared registry, so agents holding the registry pick it up without a
+ * restart.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import {
+  AIConfig,
+  AIConfigUpdate,
+  AIConfigUpdateSchema,
+  AIConfigView,
+  AIConnectionTestResult,
+  AICredentialProvider,
+  AICredentialStatus,
+  AICredentials,
+  AIProviderName
+} from '@/shared/contracts/AgentDomain'
+import { Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { LLMProvider } from '../agents/base/Agent'
+import { EmbeddingServiceConfig } from './EmbeddingService'
+import { DEFAULT_BEDROCK_CONFIG, createBedrockProvider } from './providers/bedrock'
+import {
+  DEFAULT_OLLAMA_CONFIG,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  createOllamaProvider,
+  createOpenAICompatibleProvider
+} from './providers/openaiCompatible'
+import { LLMProviderRegistry } from './providers/registry'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Encrypts credentials at rest, e.g. with Electron's `safeStorage`
+ */
+export interface CredentialCipher {
+  isEncryptionAvailable(): boolean
+  encrypt(plainText: string): string
+  decrypt(cipherText: string): string
+}
+
+export type ProviderFactory = (
+  name: AIProviderName,
+  config: AIConfig,
+  credentials: AICredentials
+) => LLMProvider
+
+export interface AIConfigServiceConfig {
+  /**
+   * JSON file the configuration is persisted to; it is kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * Without a cipher, or when it reports encryption as unavailable, credentials are never written to disk
+   */
+  readonly cipher?: CredentialCipher
+  readonly providerFactory: ProviderFactory
+  readonly defaults: AIConfig
+  readonly connectionTestTimeoutMs: number
+}
+
+interface AIConfigStore {
+  readonly version: number
+  readonly config: AIConfig
+  readonly encryptedCredentials?: string
+}
+
+const STORE_VERSION = 1
+const PROVIDER_NAMES: AIProviderName[] = ['bedrock', 'openai-compatible', 'ollama']
+const CREDENTIAL_PROVIDERS: AICredentialProvider[] = ['bedrock', 'openai-compatible']
+const CONNECTION_TEST_PROMPT = 'Reply with the single word: ok'
+
+// =============================================================================
+// AI Configuration Service
+// =============================================================================
+
+export class AIConfigService extends EventEmitter {
+  private readonly config: AIConfigServiceConfig
+  private readonly registry: LLMProviderRegistry
+  private current: AIConfig
+  private credentials: AICredentials = {}
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: AIConfigServiceConfig) {
+    super()
+    this.config = config
+    this.current = config.defaults
+    this.registry = new LLMProviderRegistry(config.defaults.defaultProvider)
+    this.applyProviders()
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const store = JSON.parse(data) as AIConfigStore
+      if (store.version !== STORE_VERSION) {
+        console.warn(`Ignoring AI configuration with unsupported version ${store.version}`)
+        return
+      }
+
+      this.current = this.mergeConfig(this.config.defaults, store.config)
+      if (store.encryptedCredentials) {
+        this.credentials = this.decryptCredentials(store.encryptedCredentials)
+      }
+      this.applyProviders()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load AI configuration:', error)
+      }
+    }
+  }
+
+  /**
+   * Registry the agents call; its providers are replaced in place on every change
+   */
+  getProviderRegistry(): LLMProviderRegistry {
+    return this.registry
+  }
+
+  /**
+   * Bedrock settings for embedding services built outside the registry, such as the memory store's
+   */
+  getEmbeddingConfig(): Pick<EmbeddingServiceConfig, 'region' | 'credentials'> {
+    return { region: this.current.providers.bedrock.region, credentials: this.credentials.bedrock }
+  }
+
+  getConfig(): AIConfigView {
+    const credentials = Object.fromEntries(
+      CREDENTIAL_PROVIDERS.map(provider => [provider, this.getCredentialStatus(provider)])
+    ) as Record<AICredentialProvider, AICredentialStatus>
+
+    return {
+      ...this.current,
+      credentials,
+      encryptionAvailable: this.isEncryptionAvailable()
+    }
+  }
+
+  /**
+   * Validate and apply a partial update, then rebuild the providers
+   */
+  updateConfig(update: AIConfigUpdate): Result<AIConfigView, ValidationError> {
+    const validation = AIConfigUpdateSchema.safeParse(update)
+    if (!validation.success) {
+      const details = validation.error.issues
+        .map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+        .join('; ')
+      return Err(new ValidationError('ai', details, validation.error))
+    }
+
+    const { credentials, ...settings } = validation.data
+    this.current = this.mergeConfig(this.current, settings)
+    this.credentials = this.mergeCredentials(this.credentials, credentials)
+
+    this.applyProviders()
+    this.scheduleSave()
+
+    const view = this.getConfig()
+    this.emit('config-changed', view)
+    return Ok(view)
+  }
+
+  /**
+   * Send a one-line prompt to a provider and report whether it answered. An
+   * unsaved update may be passed to try settings before applying them.
+   */
+  async testConnection(provider?: AIProviderName, update?: AIConfigUpdate): Promise<AIConnectionTestResult> {
+    const startTime = Date.now()
+    let config = this.current
+    let credentials = this.credentials
+
+    if (update) {
+      const validation = AIConfigUpdateSchema.safeParse(update)
+      if (!validation.success) {
+        return {
+          success: false,
+          provider: provider ?? config.defaultProvider,
+          model: '',
+          latencyMs: 0,
+          error: validation.error.issues.map(issue => issue.message).join('; ')
+        }
+      }
+      const { credentials: credentialUpdate, ...settings } = validation.data
+      config = this.mergeConfig(config, settings)
+      credentials = this.mergeCredentials(credentials, credentialUpdate)
+    }
+
+    const name = provider ?? config.defaultProvider
+    const model = config.providers[name].modelId
+
+    try {
+      const llm = this.config.providerFactory(name, config, credentials)
+      const result = await this.withTimeout(
+        llm.chat([{ role: 'user', content: CONNECTION_TEST_PROMPT }], { model, maxTokens: 16, temperature: 0 })
+      )
+      return {
+        success: typeof result.content === 'string',
+        provider: name,
+        model,
+        latencyMs: Date.now() - startTime
+      }
+    } catch (error) {
+      return {
+        success: false,
+        provider: name,
+        model,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  /**
+   * Resolves once pending writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private applyProviders(): void {
+    for (const name of PROVIDER_NAMES) {
+      try {
+        this.registry.register(name, this.config.providerFactory(name, this.current, this.credentials))
+      } catch (error) {
+        // A provider that cannot be built is dropped so calls fail with a clear "not registered" error
+        this.registry.unregister(name)
+        console.error(`Failed to configure ${name} provider:`, error)
+      }
+    }
+
+    if (this.registry.has(this.current.defaultProvider)) {
+      this.registry.setDefaultProvider(this.current.defaultProvider)
+    }
+  }
+
+  private mergeConfig(base: AIConfig, update: Omit<AIConfigUpdate, 'credentials'>): AIConfig {
+    return {
+      defaultProvider: update.defaultProvider ?? base.defaultProvider,
+      providers: {
+        bedrock: { ...base.providers.bedrock, ...update.providers?.bedrock },
+        'openai-compatible': { ...base.providers['openai-compatible'], ...update.providers?.['openai-compatible'] },
+        ollama: { ...base.providers.ollama, ...update.providers?.ollama }
+      }
+    }
+  }
+
+  private mergeCredentials(base: AICredentials, update: AIConfigUpdate['credentials']): AICredentials {
+    if (!update) {
+      return base
+    }
+
+    // `null` clears a provider's credentials, `undefined` keeps them
+    return {
+      bedrock: update.bedrock === undefined ? base.bedrock : update.bedrock ?? undefined,
+      'openai-compatible': update['openai-compatible'] === undefined
+        ? base['openai-compatible']
+        : update['openai-compatible'] ?? undefined
+    }
+  }
+
+  private getCredentialStatus(provider: AICredentialProvider): AICredentialStatus {
+    const key = provider === 'bedrock'
+      ? this.credentials.bedrock?.accessKeyId
+      : this.credentials['openai-compatible']?.apiKey
+
+    return key ? { configured: true, hint: key.slice(-4) } : { configured: false }
+  }
+
+  private isEncryptionAvailable(): boolean {
+    return !!this.availableCipher()
+  }
+
+  /**
+   * The configured cipher, as long as it can encrypt on this machine
+   */
+  private availableCipher(): CredentialCipher | undefined {
+    const { cipher } = this.config
+    return cipher?.isEncryptionAvailable() ? cipher : undefined
+  }
+
+  private decryptCredentials(encrypted: string): AICredentials {
+    const cipher = this.availableCipher()
+    if (!cipher) {
+      console.warn('Stored AI credentials cannot be decrypted because encryption is unavailable')
+      return {}
+    }
+
+    try {
+      return JSON.parse(cipher.decrypt(encrypted)) as AICredentials
+    } catch (error) {
+      console.error('Failed to decrypt stored AI credentials:', error)
+      return {}
+    }
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`No response within ${this.config.connectionTestTimeoutMs}ms`)),
+        this.config.connectionTestTimeoutMs
+      )
+    })
+
+    try {
+      return await Promise.race([promise, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save AI configuration:', error))
+  }
+
+  private async save(): Promise<void> {
+    const { storagePath } = this.config
+    if (!storagePath) {
+      return
+    }
+
+    const hasCredentials = CREDENTIAL_PROVIDERS.some(provider => !!this.credentials[provider])
+    const cipher = this.availableCipher()
+    if (hasCredentials && !cipher) {
+      console.warn('Encryption is unavailable; AI credentials are kept for this session only')
+    }
+
+    const store: AIConfigStore = {
+      version: STORE_VERSION,
+      config: this.current,
+      encryptedCredentials: hasCredentials && cipher
+        ? cipher.encrypt(JSON.stringify(this.credentials))
+        : undefined
+    }
+
+    await fs.mkdir(path.dirname(storagePath), { recursive: true })
+    await fs.writeFile(storagePath, JSON.stringify(store, null, 2))
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+/**
+ * Builds the built-in providers from the settings and decrypted credentials
+ */
+export const createConfiguredProvider: ProviderFactory = (name, config, credentials) => {
+  switch (name) {
+    case 'bedrock':
+      return createBedrockProvider({
+        ...DEFAULT_BEDROCK_CONFIG,
+        ...config.providers.bedrock,
+        accessKeyId: credentials.bedrock?.accessKeyId,
+        secretAccessKey: credentials.bedrock?.secretAccessKey
+      })
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        ...DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+        ...config.providers['openai-compatible'],
+        apiKey: credentials['openai-compatible']?.apiKey ?? DEFAULT_OPENAI_COMPATIBLE_CONFIG.apiKey
+      })
+    case 'ollama':
+      return createOllamaProvider(config.providers.ollama)
+  }
+}
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  defaultProvider: 'bedrock',
+  providers: {
+    bedrock: { region: DEFAULT_BEDROCK_CONFIG.region, modelId: DEFAULT_BEDROCK_CONFIG.modelId },
+    'openai-compatible': {
+      baseUrl: DEFAULT_OPENAI_COMPATIBLE_CONFIG.baseUrl,
+      modelId: DEFAULT_OPENAI_COMPATIBLE_CONFIG.modelId
+    },
+    ollama: { baseUrl: DEFAULT_OLLAMA_CONFIG.baseUrl, modelId: DEFAULT_OLLAMA_CONFIG.modelId }
+  }
+}
+
+export const DEFAULT_AI_CONFIG_SERVICE_CONFIG: AIConfigServiceConfig = {
+  providerFactory: createConfiguredProvider,
+  defaults: DEFAULT_AI_CONFIG,
+  connectionTestTimeoutMs: 15000
+}
+
+export function createAIConfigService(config?: Partial<AIConfigServiceConfig>): AIConfigService {
+  return new AIConfigService({ ...DEFAULT_AI_CONFIG_SERVICE_CONFIG, ...config })
+}
+
+export default AIConfigService
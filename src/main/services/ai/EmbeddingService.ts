@@ -2,7 +2,10 @@
  * Embedding Service
  * 
  * Provides text embedding generation using AWS Bedrock Titan Embedding model.
- * Handles caching, rate limiting, and error recovery.
+ * Handles caching, rate limiting, and error recovery. Falls back to a
+ * deterministic local embedder while Bedrock is unavailable; every response
+ * names the model that made it, since local and Titan vectors must not be
+ * compared with each other.
  */
 
 import { 
@@ -13,6 +16,7 @@ import {
 import { fromIni } from '@aws-sdk/credential-provider-ini'
 import { NodeHttpHandler } from '@aws-sdk/node-http-handler'
 import { DomainError, Err, GenericDomainError, Ok, Result } from '../../../shared/contracts/common'
+import { LOCAL_EMBEDDING_MODEL, LocalEmbedder, createLocalEmbedder } from './LocalEmbedder'
 
 // =============================================================================
 // Types and Interfaces
@@ -41,6 +45,22 @@ export interface EmbeddingServiceConfig {
   readonly rateLimitPerSecond: number
   readonly enableCache: boolean
   readonly enableRateLimit: boolean
+  /**
+   * Vector length every response must have, unless a request asks for another size
+   */
+  readonly dimensions: number
+  readonly fallbackToLocal: boolean
+  /**
+   * How long to keep using the local embedder after Bedrock fails before retrying it
+   */
+  readonly unavailableRetryMs: number
+  /**
+   * Explicit AWS credentials; the shared AWS config files are used when omitted
+   */
+  readonly credentials?: {
+    readonly accessKeyId: string
+    readonly secretAccessKey: string
+  }
 }
 
 export interface EmbeddingCache {
@@ -59,6 +79,7 @@ export interface EmbeddingMetrics {
   readonly averageLatency: number
   readonly errorCount: number
   readonly rateLimitHits: number
+  readonly localFallbacks: number
 }
 
 // =============================================================================
@@ -95,6 +116,16 @@ export class EmbeddingValidationError extends EmbeddingError {
   }
 }
 
+export class EmbeddingDimensionMismatchError extends EmbeddingError {
+  constructor(
+    public readonly expected: number,
+    public readonly actual: number,
+    model: string
+  ) {
+    super('EMBEDDING_DIMENSION_MISMATCH', `Model ${model} returned ${actual}-dimension embedding, expected ${expected}`)
+  }
+}
+
 // =============================================================================
 // Embedding Service Implementation
 // =============================================================================
@@ -110,14 +141,19 @@ export class EmbeddingService {
     totalTokens: 0,
     averageLatency: 0,
     errorCount: 0,
-    rateLimitHits: 0
+    rateLimitHits: 0,
+    localFallbacks: 0
   }
+  private readonly localEmbedder: LocalEmbedder
+  private bedrockUnavailableUntil = 0
 
   constructor(private readonly config: EmbeddingServiceConfig) {
+    this.localEmbedder = createLocalEmbedder({ dimensions: config.dimensions })
+
     // Initialize Bedrock client with proper configuration
     this.client = new BedrockRuntimeClient({
       region: this.config.region,
-      credentials: fromIni(),
+      credentials: this.config.credentials ?? fromIni(),
       requestHandler: new NodeHttpHandler({
         requestTimeout: this.config.timeoutMs,
         connectionTimeout: 5000,
@@ -164,13 +200,13 @@ export class EmbeddingService {
         }
       }
 
-      // Generate embedding using Bedrock
-      const result = await this.callBedrockEmbedding(request)
+      // Generate embedding using Bedrock, or locally while Bedrock is unavailable
+      const result = await this.callEmbeddingModel(request)
       
       if (result.success) {
         // Cache the result
         if (this.config.enableCache) {
-          this.cacheEmbedding(request.text, request.model || this.config.model, result.data)
+          this.cacheEmbedding(request.text, result.data.model, result.data)
         }
 
         // Update metrics
@@ -259,6 +295,20 @@ export class EmbeddingService {
     return Ok(results)
   }
 
+  /**
+   * Whether requests are currently being served by the local embedder
+   */
+  isUsingLocalFallback(): boolean {
+    return this.config.fallbackToLocal && Date.now() < this.bedrockUnavailableUntil
+  }
+
+  /**
+   * Model new embeddings are currently made with
+   */
+  getActiveModel(): string {
+    return this.isUsingLocalFallback() ? LOCAL_EMBEDDING_MODEL : this.config.model
+  }
+
   /**
    * Get service metrics
    */
@@ -316,6 +366,47 @@ export class EmbeddingService {
     return Ok(undefined)
   }
 
+  private async callEmbeddingModel(
+    request: EmbeddingRequest
+  ): Promise<Result<EmbeddingResponse, DomainError>> {
+    const expectedDimensions = request.dimensions || this.config.dimensions
+
+    if (request.model === LOCAL_EMBEDDING_MODEL || this.isUsingLocalFallback()) {
+      return Ok(this.generateLocalEmbedding(request.text, expectedDimensions))
+    }
+
+    const result = await this.callBedrockEmbedding(request)
+
+    if (result.success) {
+      if (result.data.dimensions !== expectedDimensions) {
+        // Never hand back a vector of the wrong size; the vector table would reject or corrupt it
+        if (!this.config.fallbackToLocal) {
+          return Err(new EmbeddingDimensionMismatchError(expectedDimensions, result.data.dimensions, result.data.model))
+        }
+        return Ok(this.generateLocalEmbedding(request.text, expectedDimensions))
+      }
+      return result
+    }
+
+    // Rate limiting is transient and handled by the caller; anything else means Bedrock is unreachable
+    if (this.config.fallbackToLocal && !(result.error instanceof EmbeddingRateLimitError)) {
+      this.bedrockUnavailableUntil = Date.now() + this.config.unavailableRetryMs
+      return Ok(this.generateLocalEmbedding(request.text, expectedDimensions))
+    }
+
+    return result
+  }
+
+  private generateLocalEmbedding(text: string, dimensions: number): EmbeddingResponse {
+    this.updateMetrics({ localFallbacks: 1 })
+    return {
+      embedding: this.localEmbedder.embed(text, dimensions),
+      model: LOCAL_EMBEDDING_MODEL,
+      dimensions,
+      tokenCount: this.estimateTokenCount(text)
+    }
+  }
+
   private async callBedrockEmbedding(
     request: EmbeddingRequest
   ): Promise<Result<EmbeddingResponse, DomainError>> {
@@ -325,7 +416,7 @@ export class EmbeddingService {
       // Prepare the request body for Titan Embedding model
       const requestBody = {
         inputText: request.text,
-        dimensions: request.dimensions || 1536,
+        dimensions: request.dimensions || this.config.dimensions,
         normalize: request.normalize ?? true
       }
 
@@ -468,6 +559,7 @@ export class EmbeddingService {
       totalTokens: this.metrics.totalTokens + (updates.totalTokens || 0),
       errorCount: this.metrics.errorCount + (updates.errorCount || 0),
       rateLimitHits: this.metrics.rateLimitHits + (updates.rateLimitHits || 0),
+      localFallbacks: this.metrics.localFallbacks + (updates.localFallbacks || 0),
       averageLatency: updates.averageLatency 
         ? (this.metrics.averageLatency + updates.averageLatency) / 2 
         : this.metrics.averageLatency
@@ -492,7 +584,10 @@ export const DEFAULT_EMBEDDING_CONFIG: EmbeddingServiceConfig = {
   cacheSize: 1000,
   rateLimitPerSecond: 20,
   enableCache: true,
-  enableRateLimit: true
+  enableRateLimit: true,
+  dimensions: 1536,
+  fallbackToLocal: true,
+  unavailableRetryMs: 5 * 60 * 1000
 }
 
 export function createEmbeddingService(
@@ -0,0 +1,125 @@
+/**
+ * Local Embedder
+ *
+ * Deterministic, offline text embedder based on feature hashing of word
+ * unigrams and character n-grams. Used when Bedrock is unavailable so that
+ * memory storage and retrieval keep working without network access.
+ * Quality is lower than a learned model, but similar texts still land close
+ * together and the same text always produces the same vector.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LocalEmbedderConfig {
+  readonly dimensions: number
+  readonly ngramSizes: number[]
+  readonly includeWords: boolean
+}
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-ngram-v1'
+
+// =============================================================================
+// Local Embedder Implementation
+// =============================================================================
+
+export class LocalEmbedder {
+  readonly model = LOCAL_EMBEDDING_MODEL
+
+  constructor(private readonly config: LocalEmbedderConfig) {
+    if (!Number.isInteger(config.dimensions) || config.dimensions < 1) {
+      throw new Error(`Invalid embedding dimensions: ${config.dimensions}`)
+    }
+  }
+
+  get dimensions(): number {
+    return this.config.dimensions
+  }
+
+  /**
+   * Embed text into an L2-normalized vector of `dimensions` length
+   */
+  embed(text: string, dimensions: number = this.config.dimensions): number[] {
+    const vector = new Array<number>(dimensions).fill(0)
+    const counts = this.extractFeatures(text)
+
+    for (const [feature, count] of counts) {
+      const hash = this.hash(feature)
+      const index = hash % dimensions
+      // A second hash bit decides the sign, which keeps collisions from only ever adding up
+      const sign = (this.hash(`#${feature}`) & 1) === 0 ? 1 : -1
+      // Sublinear term frequency so repeated words do not dominate
+      vector[index] += sign * (1 + Math.log(count))
+    }
+
+    return this.normalize(vector)
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private extractFeatures(text: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1)
+
+    const words = text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 0)
+
+    for (const word of words) {
+      if (this.config.includeWords) {
+        add(`w:${word}`)
+      }
+
+      const padded = ` ${word} `
+      for (const size of this.config.ngramSizes) {
+        for (let i = 0; i + size <= padded.length; i++) {
+          add(`c${size}:${padded.slice(i, i + size)}`)
+        }
+      }
+    }
+
+    return counts
+  }
+
+  /**
+   * 32-bit FNV-1a; stable across platforms and Node versions
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    if (norm === 0) {
+      return vector
+    }
+    return vector.map(value => value / norm)
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_LOCAL_EMBEDDER_CONFIG: LocalEmbedderConfig = {
+  dimensions: 1536,
+  ngramSizes: [3, 4],
+  includeWords: true
+}
+
+export function createLocalEmbedder(config?: Partial<LocalEmbedderConfig>): LocalEmbedder {
+  return new LocalEmbedder({ ...DEFAULT_LOCAL_EMBEDDER_CONFIG, ...config })
+}
+
+export default LocalEmbedder
@@ -0,0 +1,100 @@
+/**
+ * Token Usage IPC Handlers
+ *
+ * Exposes token usage summaries, budget status and per-project budget
+ * settings to the renderer, and pushes each recorded usage entry so the
+ * Team panel budget meter stays current.
+ */
+
+import { BrowserWindow, app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { AgentRoleSchema, TokenUsageRecord } from '@/shared/contracts/AgentDomain'
+import { TokenUsageService, createTokenUsageService } from './TokenUsageService'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const TokenUsageQuerySchema = z.object({
+  projectId: z.string().optional(),
+  agentType: AgentRoleSchema.optional(),
+  days: z.number().int().positive().max(366).optional()
+})
+
+const ProjectTokenBudgetSchema = z.object({
+  projectId: z.string().min(1),
+  dailyLimit: z.number().int().nonnegative().optional(),
+  totalLimit: z.number().int().nonnegative().optional()
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class TokenUsageIPCHandlers {
+  private readonly tokenUsageService: TokenUsageService
+  private readonly onUsageRecorded = (record: TokenUsageRecord) => {
+    this.sendToRenderer('usage:recorded', record)
+  }
+
+  constructor() {
+    this.tokenUsageService = createTokenUsageService({
+      storagePath: path.join(app.getPath('userData'), 'app-data', 'token-usage.json')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    await this.tokenUsageService.initialize()
+    this.registerHandlers()
+    this.tokenUsageService.on('usage-recorded', this.onUsageRecorded)
+    console.log('Token usage IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.tokenUsageService.off('usage-recorded', this.onUsageRecorded)
+
+    const handlers = ['usage:summary', 'usage:budget-status', 'usage:set-project-budget']
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+    await this.tokenUsageService.flush()
+  }
+
+  getTokenUsageService(): TokenUsageService {
+    return this.tokenUsageService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('usage:summary', async (_event, query: unknown) => {
+      const validatedQuery = TokenUsageQuerySchema.parse(query ?? {})
+      return this.tokenUsageService.getSummary(validatedQuery)
+    })
+
+    ipcMain.handle('usage:budget-status', async (_event, projectId?: unknown) => {
+      const validatedProjectId = z.string().optional().parse(projectId ?? undefined)
+      return this.tokenUsageService.getBudgetStatus(validatedProjectId)
+    })
+
+    ipcMain.handle('usage:set-project-budget', async (_event, budget: unknown) => {
+      const validatedBudget = ProjectTokenBudgetSchema.parse(budget)
+      const result = this.tokenUsageService.setProjectBudget(validatedBudget)
+      if (!result.success) {
+        throw new Error(result.error.message)
+      }
+      return result.data
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
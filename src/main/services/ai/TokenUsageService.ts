@@ -0,0 +1,366 @@
+/**
+ * Token Usage Service
+ *
+ * Ledger of LLM token usage reported by the providers. Usage is accumulated
+ * per agent, per project and per UTC day, and checked against each agent's
+ * `tokensPerHour` limit and the optional per-project budgets before every call.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import {
+  AgentRole,
+  AgentTokenBudgetStatus,
+  ProjectTokenBudget,
+  RateLimitExceededError,
+  TokenBudgetStatus,
+  TokenUsageQuery,
+  TokenUsageRecord,
+  TokenUsageSummary,
+  TokenUsageTotals
+} from '@/shared/contracts/AgentDomain'
+import { Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { TokenBudgetCheck, TokenUsageTracker } from '../agents/base/Agent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TokenUsageServiceConfig {
+  /**
+   * JSON file the ledger is persisted to; usage is kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * Number of days of per-day buckets to keep. Project totals are never pruned.
+   */
+  readonly retentionDays: number
+}
+
+interface DailyUsageBucket {
+  readonly day: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  inputTokens: number
+  outputTokens: number
+  calls: number
+}
+
+interface TokenUsageLedger {
+  readonly version: number
+  readonly recent: TokenUsageRecord[]
+  readonly daily: DailyUsageBucket[]
+  readonly projectTotals: Record<string, number>
+  readonly budgets: ProjectTokenBudget[]
+}
+
+const LEDGER_VERSION = 1
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const UNASSIGNED_PROJECT = 'unassigned'
+
+// =============================================================================
+// Token Usage Service Implementation
+// =============================================================================
+
+export class TokenUsageService extends EventEmitter implements TokenUsageTracker {
+  private readonly config: TokenUsageServiceConfig
+  private recent: TokenUsageRecord[] = []
+  private readonly daily = new Map<string, DailyUsageBucket>()
+  private readonly projectTotals = new Map<string, number>()
+  private readonly budgets = new Map<string, ProjectTokenBudget>()
+  // Last tokensPerHour limit each agent type was checked against, for the budget meter
+  private readonly agentLimits = new Map<AgentRole, number>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: TokenUsageServiceConfig) {
+    super()
+    this.config = config
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storagePath, 'utf-8')
+      const ledger = JSON.parse(data) as TokenUsageLedger
+      if (ledger.version !== LEDGER_VERSION) {
+        console.warn(`Ignoring token usage ledger with unsupported version ${ledger.version}`)
+        return
+      }
+
+      this.recent = ledger.recent.map(record => ({ ...record, timestamp: new Date(record.timestamp) }))
+      ledger.daily.forEach(bucket => this.daily.set(this.bucketKey(bucket.day, bucket.agentType, bucket.projectId), bucket))
+      Object.entries(ledger.projectTotals).forEach(([projectId, total]) => this.projectTotals.set(projectId, total))
+      ledger.budgets.forEach(budget => this.budgets.set(budget.projectId, budget))
+      this.prune(Date.now())
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load token usage ledger:', error)
+      }
+    }
+  }
+
+  // =============================================================================
+  // Recording and Enforcement
+  // =============================================================================
+
+  recordUsage(record: TokenUsageRecord): void {
+    const tokens = record.inputTokens + record.outputTokens
+    this.prune(record.timestamp.getTime())
+    this.recent.push(record)
+
+    const day = this.dayKey(record.timestamp)
+    const key = this.bucketKey(day, record.agentType, record.projectId)
+    const bucket = this.daily.get(key) || {
+      day,
+      agentType: record.agentType,
+      projectId: record.projectId,
+      inputTokens: 0,
+      outputTokens: 0,
+      calls: 0
+    }
+    bucket.inputTokens += record.inputTokens
+    bucket.outputTokens += record.outputTokens
+    bucket.calls += 1
+    this.daily.set(key, bucket)
+
+    if (record.projectId) {
+      this.projectTotals.set(record.projectId, (this.projectTotals.get(record.projectId) || 0) + tokens)
+    }
+
+    this.emit('usage-recorded', record)
+    this.scheduleSave()
+  }
+
+  checkBudget(check: TokenBudgetCheck): Result<void, RateLimitExceededError> {
+    const now = Date.now()
+    this.agentLimits.set(check.agentType, check.tokensPerHour)
+
+    const agentRecords = this.recent.filter(record =>
+      record.agentId === check.agentId && now - record.timestamp.getTime() < HOUR_MS
+    )
+    const usedLastHour = this.sumTokens(agentRecords)
+    if (usedLastHour >= check.tokensPerHour) {
+      // Capacity frees up once the oldest call in the window ages out
+      const oldest = Math.min(...agentRecords.map(record => record.timestamp.getTime()))
+      return Err(new RateLimitExceededError(check.agentId, 'tokensPerHour', undefined, {
+        limit: check.tokensPerHour,
+        used: usedLastHour,
+        retryAfterMs: Math.max(0, oldest + HOUR_MS - now)
+      }))
+    }
+
+    const budget = check.projectId ? this.budgets.get(check.projectId) : undefined
+    if (!budget) {
+      return Ok(undefined)
+    }
+
+    if (budget.dailyLimit !== undefined) {
+      const usedToday = this.getProjectUsageForDay(budget.projectId, this.dayKey(new Date(now)))
+      if (usedToday >= budget.dailyLimit) {
+        return Err(new RateLimitExceededError(check.agentId, `projectDailyTokens for project ${budget.projectId}`, undefined, {
+          limit: budget.dailyLimit,
+          used: usedToday,
+          retryAfterMs: DAY_MS - (now % DAY_MS)
+        }))
+      }
+    }
+
+    if (budget.totalLimit !== undefined) {
+      const usedTotal = this.projectTotals.get(budget.projectId) || 0
+      if (usedTotal >= budget.totalLimit) {
+        return Err(new RateLimitExceededError(check.agentId, `projectTotalTokens for project ${budget.projectId}`, undefined, {
+          limit: budget.totalLimit,
+          used: usedTotal
+        }))
+      }
+    }
+
+    return Ok(undefined)
+  }
+
+  // =============================================================================
+  // Budgets
+  // =============================================================================
+
+  setProjectBudget(budget: ProjectTokenBudget): Result<ProjectTokenBudget, ValidationError> {
+    const limits = [budget.dailyLimit, budget.totalLimit].filter((limit): limit is number => limit !== undefined)
+    if (limits.some(limit => !Number.isInteger(limit) || limit < 0)) {
+      return Err(new ValidationError('ai', 'Token budget limits must be non-negative integers'))
+    }
+
+    if (limits.length === 0) {
+      this.budgets.delete(budget.projectId)
+    } else {
+      this.budgets.set(budget.projectId, budget)
+    }
+
+    this.scheduleSave()
+    return Ok(budget)
+  }
+
+  getProjectBudget(projectId: string): ProjectTokenBudget | undefined {
+    return this.budgets.get(projectId)
+  }
+
+  getBudgetStatus(projectId?: string): TokenBudgetStatus {
+    const now = Date.now()
+    const usedByType = new Map<AgentRole, number>()
+    for (const record of this.recent) {
+      if (now - record.timestamp.getTime() < HOUR_MS) {
+        usedByType.set(record.agentType, (usedByType.get(record.agentType) || 0) + record.inputTokens + record.outputTokens)
+      }
+    }
+
+    const agentTypes = new Set<AgentRole>([...usedByType.keys(), ...this.agentLimits.keys()])
+    const agents: AgentTokenBudgetStatus[] = [...agentTypes].map(agentType => ({
+      agentType,
+      usedLastHour: usedByType.get(agentType) || 0,
+      tokensPerHour: this.agentLimits.get(agentType)
+    }))
+
+    if (!projectId) {
+      return { agents }
+    }
+
+    return {
+      agents,
+      project: {
+        projectId,
+        budget: this.budgets.get(projectId),
+        usedToday: this.getProjectUsageForDay(projectId, this.dayKey(new Date(now))),
+        usedTotal: this.projectTotals.get(projectId) || 0
+      }
+    }
+  }
+
+  // =============================================================================
+  // Reporting
+  // =============================================================================
+
+  getSummary(query: TokenUsageQuery = {}): TokenUsageSummary {
+    const firstDay = query.days
+      ? this.dayKey(new Date(Date.now() - (query.days - 1) * DAY_MS))
+      : undefined
+
+    const summary = {
+      totals: this.emptyTotals(),
+      byAgent: {} as Record<string, TokenUsageTotals>,
+      byProject: {} as Record<string, TokenUsageTotals>,
+      byDay: {} as Record<string, TokenUsageTotals>
+    }
+
+    for (const bucket of this.daily.values()) {
+      if (query.projectId && bucket.projectId !== query.projectId) continue
+      if (query.agentType && bucket.agentType !== query.agentType) continue
+      if (firstDay && bucket.day < firstDay) continue
+
+      summary.totals = this.addBucket(summary.totals, bucket)
+      summary.byAgent[bucket.agentType] = this.addBucket(summary.byAgent[bucket.agentType], bucket)
+      const projectKey = bucket.projectId || UNASSIGNED_PROJECT
+      summary.byProject[projectKey] = this.addBucket(summary.byProject[projectKey], bucket)
+      summary.byDay[bucket.day] = this.addBucket(summary.byDay[bucket.day], bucket)
+    }
+
+    return summary
+  }
+
+  /**
+   * Resolves once pending ledger writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private getProjectUsageForDay(projectId: string, day: string): number {
+    let used = 0
+    for (const bucket of this.daily.values()) {
+      if (bucket.projectId === projectId && bucket.day === day) {
+        used += bucket.inputTokens + bucket.outputTokens
+      }
+    }
+    return used
+  }
+
+  private prune(now: number): void {
+    this.recent = this.recent.filter(record => now - record.timestamp.getTime() < HOUR_MS)
+
+    const firstDay = this.dayKey(new Date(now - this.config.retentionDays * DAY_MS))
+    for (const [key, bucket] of this.daily) {
+      if (bucket.day < firstDay) {
+        this.daily.delete(key)
+      }
+    }
+  }
+
+  private sumTokens(records: TokenUsageRecord[]): number {
+    return records.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0)
+  }
+
+  private addBucket(totals: TokenUsageTotals | undefined, bucket: DailyUsageBucket): TokenUsageTotals {
+    const base = totals || this.emptyTotals()
+    return {
+      inputTokens: base.inputTokens + bucket.inputTokens,
+      outputTokens: base.outputTokens + bucket.outputTokens,
+      totalTokens: base.totalTokens + bucket.inputTokens + bucket.outputTokens,
+      calls: base.calls + bucket.calls
+    }
+  }
+
+  private emptyTotals(): TokenUsageTotals {
+    return { inputTokens: 0, outputTokens: 0, totalTokens: 0, calls: 0 }
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10)
+  }
+
+  private bucketKey(day: string, agentType: AgentRole, projectId?: string): string {
+    return `${day}|${agentType}|${projectId || UNASSIGNED_PROJECT}`
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.save())
+      .catch(error => console.error('Failed to save token usage ledger:', error))
+  }
+
+  private async save(): Promise<void> {
+    const ledger: TokenUsageLedger = {
+      version: LEDGER_VERSION,
+      recent: this.recent,
+      daily: [...this.daily.values()],
+      projectTotals: Object.fromEntries(this.projectTotals),
+      budgets: [...this.budgets.values()]
+    }
+
+    await fs.mkdir(path.dirname(this.config.storagePath!), { recursive: true })
+    await fs.writeFile(this.config.storagePath!, JSON.stringify(ledger, null, 2))
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_TOKEN_USAGE_CONFIG: TokenUsageServiceConfig = {
+  retentionDays: 90
+}
+
+export function createTokenUsageService(config?: Partial<TokenUsageServiceConfig>): TokenUsageService {
+  return new TokenUsageService({ ...DEFAULT_TOKEN_USAGE_CONFIG, ...config })
+}
+
+export default TokenUsageService
@@ -5,8 +5,21 @@
  * Supports Claude models for agent conversations and embeddings.
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime'
-import { LLMProvider } from '../../agents/base/Agent'
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand
+} from '@aws-sdk/client-bedrock-runtime'
+import {
+  LLMChatOptions,
+  LLMChatResult,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition
+} from '../../agents/base/Agent'
+import { EmbeddingService, createEmbeddingService } from '../EmbeddingService'
+import { ContextMessage, DEFAULT_CONTEXT_WINDOW_CONFIG, trimToContextWindow } from './contextWindow'
 
 export interface BedrockConfig {
   readonly region: string
@@ -15,6 +28,10 @@ export interface BedrockConfig {
   readonly modelId: string
   readonly maxTokens: number
   readonly temperature: number
+  /**
+   * Context window of the model in tokens; conversations are trimmed to fit
+   */
+  readonly contextWindowTokens?: number
 }
 
 export interface BedrockMessage {
@@ -22,71 +39,206 @@ export interface BedrockMessage {
   readonly content: string
 }
 
-export interface BedrockResponse {
-  readonly content: string
+export interface ClaudeRequestMessages {
+  readonly system?: string
+  readonly messages: ContextMessage[]
+}
+
+export interface BedrockResponse extends LLMChatResult {
   readonly usage: {
     readonly inputTokens: number
     readonly outputTokens: number
   }
 }
 
+// Content blocks and tools of the Claude Messages API as Bedrock passes them through
+interface ClaudeTextBlock {
+  // Older responses leave the type out of text blocks
+  readonly type?: 'text'
+  readonly text: string
+}
+
+interface ClaudeToolUseBlock {
+  readonly type: 'tool_use'
+  readonly id: string
+  readonly name: string
+  readonly input?: Record<string, unknown>
+}
+
+interface ClaudeToolResultBlock {
+  readonly type: 'tool_result'
+  readonly tool_use_id: string
+  readonly content: string
+  readonly is_error?: boolean
+}
+
+type ClaudeContentBlock = ClaudeTextBlock | ClaudeToolUseBlock | ClaudeToolResultBlock
+
+interface ClaudeTool {
+  readonly name: string
+  readonly description: string
+  readonly input_schema: Record<string, unknown>
+}
+
+interface ClaudeUsage {
+  readonly input_tokens?: number
+  readonly output_tokens?: number
+}
+
+interface ClaudeMessagesResponse {
+  readonly content?: ClaudeContentBlock[]
+  readonly usage?: ClaudeUsage
+}
+
+interface ClaudeStreamEvent {
+  readonly type: string
+  readonly index?: number
+  readonly message?: { readonly usage?: ClaudeUsage }
+  readonly content_block?: ClaudeContentBlock
+  readonly delta?: { readonly type?: string; readonly text?: string; readonly partial_json?: string }
+  readonly usage?: ClaudeUsage
+}
+
+/**
+ * Stands in for the opening user turn when a history starts with the assistant
+ */
+const CONVERSATION_CONTINUES_PLACEHOLDER = '(Continuing the conversation.)'
+
 export class BedrockProvider implements LLMProvider {
   private readonly client: BedrockRuntimeClient
   private readonly config: BedrockConfig
+  private readonly embeddingService: EmbeddingService
 
-  constructor(config: BedrockConfig) {
+  constructor(config: BedrockConfig, embeddingService?: EmbeddingService) {
     this.config = config
+    const credentials = config.accessKeyId && config.secretAccessKey ? {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey
+    } : undefined
+    this.embeddingService = embeddingService || createEmbeddingService({ region: config.region, credentials })
     this.client = new BedrockRuntimeClient({
       region: config.region,
-      credentials: config.accessKeyId && config.secretAccessKey ? {
-        accessKeyId: config.accessKeyId,
-        secretAccessKey: config.secretAccessKey
-      } : undefined
+      credentials
     })
   }
 
-  async chat(messages: BedrockMessage[], options?: Partial<BedrockConfig>): Promise<string> {
+  async chat(messages: BedrockMessage[], options?: LLMChatOptions): Promise<BedrockResponse> {
     try {
-      const modelId = options?.modelId || this.config.modelId
-      const maxTokens = options?.maxTokens || this.config.maxTokens
-      const temperature = options?.temperature || this.config.temperature
-
-      // Convert messages to Claude format
-      const claudeMessages = this.formatMessagesForClaude(messages)
-      
-      const body = JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        temperature,
-        messages: claudeMessages
-      })
-
       const command = new InvokeModelCommand({
-        modelId,
-        body,
+        modelId: options?.model || this.config.modelId,
+        body: this.buildRequestBody(messages, options),
         contentType: 'application/json',
         accept: 'application/json'
       })
 
-      const response = await this.client.send(command)
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body))
+      const response = await this.client.send(command, { abortSignal: options?.signal })
+      const responseBody: ClaudeMessagesResponse = JSON.parse(new TextDecoder().decode(response.body))
 
-      if (!responseBody.content || !responseBody.content[0]) {
+      if (!Array.isArray(responseBody.content) || responseBody.content.length === 0) {
         throw new Error('Invalid response from Bedrock')
       }
 
-      return responseBody.content[0].text
+      // Claude answers with a list of content blocks; tool calls come back as tool_use blocks
+      const blocks = responseBody.content
+      const toolCalls: LLMToolCall[] = blocks
+        .filter((block): block is ClaudeToolUseBlock => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, input: block.input ?? {} }))
+
+      return {
+        content: blocks
+          .filter((block): block is ClaudeTextBlock => (block.type === 'text' || block.type === undefined) && typeof block.text === 'string')
+          .map(block => block.text)
+          .join(''),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          inputTokens: responseBody.usage?.input_tokens ?? 0,
+          outputTokens: responseBody.usage?.output_tokens ?? 0
+        }
+      }
     } catch (error) {
       console.error('Bedrock chat error:', error)
       throw new Error(`Bedrock provider error: ${(error as Error).message}`)
     }
   }
 
-  async generateEmbedding(_text: string): Promise<number[]> {
-    // For now, return a mock embedding
-    // In real implementation, this would use Bedrock's embedding models
-    console.warn('generateEmbedding not implemented for Bedrock provider')
-    return new Array(1536).fill(0).map(() => Math.random())
+  async *chatStream(messages: BedrockMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk> {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: options?.model || this.config.modelId,
+      body: this.buildRequestBody(messages, options),
+      contentType: 'application/json',
+      accept: 'application/json'
+    })
+
+    let inputTokens = 0
+    let outputTokens = 0
+    // Tool input arrives as partial JSON spread over deltas, keyed by content block index
+    const pendingToolCalls = new Map<number, { id: string; name: string; json: string }>()
+
+    try {
+      const response = await this.client.send(command, { abortSignal: options?.signal })
+      if (!response.body) {
+        throw new Error('Empty response stream from Bedrock')
+      }
+
+      const decoder = new TextDecoder()
+      for await (const streamEvent of response.body) {
+        if (!streamEvent.chunk?.bytes) {
+          continue
+        }
+
+        const payload: ClaudeStreamEvent = JSON.parse(decoder.decode(streamEvent.chunk.bytes))
+        switch (payload.type) {
+          case 'message_start':
+            inputTokens = payload.message?.usage?.input_tokens ?? inputTokens
+            break
+          case 'content_block_start':
+            if (payload.content_block?.type === 'tool_use' && payload.index !== undefined) {
+              pendingToolCalls.set(payload.index, {
+                id: payload.content_block.id,
+                name: payload.content_block.name,
+                json: ''
+              })
+            }
+            break
+          case 'content_block_delta':
+            if (payload.delta?.type === 'input_json_delta') {
+              const pending = payload.index === undefined ? undefined : pendingToolCalls.get(payload.index)
+              if (pending) {
+                pending.json += payload.delta.partial_json ?? ''
+              }
+            } else if (payload.delta?.text) {
+              yield { delta: payload.delta.text, done: false }
+            }
+            break
+          case 'message_delta':
+            outputTokens = payload.usage?.output_tokens ?? outputTokens
+            break
+        }
+      }
+    } catch (error) {
+      console.error('Bedrock stream error:', error)
+      throw new Error(`Bedrock provider error: ${(error as Error).message}`)
+    }
+
+    const toolCalls = this.parseStreamedToolCalls(pendingToolCalls)
+    yield {
+      delta: '',
+      done: true,
+      usage: { inputTokens, outputTokens },
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const result = await this.embeddingService.generateEmbedding({ text })
+    if (!result.success) {
+      throw new Error(`Bedrock provider error: ${result.error.message}`)
+    }
+    return result.data.embedding
+  }
+
+  getEmbeddingModel(): string {
+    return this.embeddingService.getActiveModel()
   }
 
   isAvailable(): boolean {
@@ -97,42 +249,105 @@ export class BedrockProvider implements LLMProvider {
     }
   }
 
-  private formatMessagesForClaude(messages: BedrockMessage[]): any[] {
-    const claudeMessages: any[] = []
-    let systemMessage = ''
+  private formatToolsForClaude(tools?: LLMToolDefinition[]): { tools?: ClaudeTool[] } {
+    if (!tools || tools.length === 0) {
+      return {}
+    }
+
+    return {
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema
+      }))
+    }
+  }
+
+  private parseStreamedToolCalls(
+    pendingToolCalls: Map<number, { id: string; name: string; json: string }>
+  ): LLMToolCall[] {
+    return Array.from(pendingToolCalls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, pending]) => {
+        try {
+          return { id: pending.id, name: pending.name, input: pending.json ? JSON.parse(pending.json) : {} }
+        } catch (error) {
+          throw new Error(`Bedrock provider error: malformed input for tool ${pending.name}: ${(error as Error).message}`)
+        }
+      })
+  }
+
+  private buildRequestBody(messages: BedrockMessage[], options?: LLMChatOptions): string {
+    const maxTokens = options?.maxTokens || this.config.maxTokens
+    const { system, messages: claudeMessages } = this.formatMessagesForClaude(messages)
+
+    const trimmed = trimToContextWindow(system, claudeMessages, {
+      ...DEFAULT_CONTEXT_WINDOW_CONFIG,
+      contextWindowTokens: this.config.contextWindowTokens ?? DEFAULT_CONTEXT_WINDOW_CONFIG.contextWindowTokens,
+      reservedOutputTokens: maxTokens
+    })
+    if (trimmed.droppedMessages > 0) {
+      console.warn(`Bedrock: trimmed ${trimmed.droppedMessages} oldest messages to fit the context window`)
+    }
+
+    return JSON.stringify({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: maxTokens,
+      temperature: options?.temperature ?? this.config.temperature,
+      ...(system ? { system } : {}),
+      messages: trimmed.messages,
+      ...this.formatToolsForClaude(options?.tools)
+    })
+  }
+
+  /**
+   * Claude takes the system prompt as a separate field and requires messages
+   * to alternate between user and assistant, starting with the user
+   */
+  private formatMessagesForClaude(messages: BedrockMessage[]): ClaudeRequestMessages {
+    const systemParts: string[] = []
+    const claudeMessages: ContextMessage[] = []
 
     for (const message of messages) {
       if (message.role === 'system') {
-        systemMessage = message.content
+        systemParts.push(message.content)
+        continue
+      }
+      if (!message.content.trim()) {
+        continue
+      }
+
+      const previous = claudeMessages[claudeMessages.length - 1]
+      if (previous && previous.role === message.role) {
+        // Consecutive turns from the same role are merged into one
+        claudeMessages[claudeMessages.length - 1] = {
+          role: previous.role,
+          content: `${previous.content}\n\n${message.content}`
+        }
       } else {
-        claudeMessages.push({
-          role: message.role,
-          content: message.content
-        })
+        claudeMessages.push({ role: message.role, content: message.content })
       }
     }
 
-    // Add system message as the first user message if present
-    if (systemMessage && claudeMessages.length > 0) {
-      claudeMessages[0] = {
-        role: 'user',
-        content: `${systemMessage}\n\n${claudeMessages[0].content}`
-      }
+    if (claudeMessages[0]?.role === 'assistant') {
+      claudeMessages.unshift({ role: 'user', content: CONVERSATION_CONTINUES_PLACEHOLDER })
     }
 
-    return claudeMessages
+    const system = systemParts.filter(part => part.trim()).join('\n\n')
+    return { system: system || undefined, messages: claudeMessages }
   }
 }
 
-export const createBedrockProvider = (config: BedrockConfig): BedrockProvider => {
-  return new BedrockProvider(config)
+export const createBedrockProvider = (config: BedrockConfig, embeddingService?: EmbeddingService): BedrockProvider => {
+  return new BedrockProvider(config, embeddingService)
 }
 
 export const DEFAULT_BEDROCK_CONFIG: BedrockConfig = {
   region: 'us-east-1',
   modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
   maxTokens: 4096,
-  temperature: 0.7
+  temperature: 0.7,
+  contextWindowTokens: 200000
 }
 
 export default BedrockProvider
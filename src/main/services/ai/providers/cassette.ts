@@ -0,0 +1,216 @@
+/**
+ * Cassette Provider
+ *
+ * Record/replay LLM provider for deterministic, offline tests.
+ * In record mode every call is forwarded to an inner provider and the
+ * prompt/response pair is written to a JSON cassette keyed by prompt hash.
+ * In replay mode responses are served from the cassette only.
+ */
+
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { DomainError } from '@/shared/contracts/common'
+import { TokenUsage } from '@/shared/contracts/AgentDomain'
+import {
+  LLMChatOptions,
+  LLMChatResult,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition
+} from '../../agents/base/Agent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CassetteMode = 'record' | 'replay'
+
+export interface CassetteConfig {
+  readonly cassettePath: string
+  readonly mode: CassetteMode
+  /**
+   * Provider that serves real responses while recording
+   */
+  readonly inner?: LLMProvider
+}
+
+export interface CassetteChatEntry {
+  readonly model?: string
+  readonly messages: LLMMessage[]
+  readonly response: string
+  readonly usage?: TokenUsage
+  readonly toolCalls?: LLMToolCall[]
+}
+
+export interface CassetteEmbeddingEntry {
+  readonly text: string
+  readonly embedding: number[]
+}
+
+export interface Cassette {
+  readonly version: number
+  readonly chat: Record<string, CassetteChatEntry>
+  readonly embeddings: Record<string, CassetteEmbeddingEntry>
+}
+
+const CASSETTE_VERSION = 1
+
+export class CassetteFixtureMissingError extends DomainError {
+  readonly code = 'CASSETTE_FIXTURE_MISSING'
+  readonly domain = 'ai'
+
+  constructor(
+    public readonly cassettePath: string,
+    public readonly promptHash: string,
+    promptPreview: string
+  ) {
+    super(
+      `No recorded response for prompt ${promptHash} in cassette ${cassettePath}. ` +
+      `Re-record it with LLM_CASSETTE_MODE=record. Prompt starts with: "${promptPreview}"`
+    )
+  }
+}
+
+export class CassetteConfigurationError extends DomainError {
+  readonly code = 'CASSETTE_CONFIGURATION_ERROR'
+  readonly domain = 'ai'
+}
+
+// =============================================================================
+// Cassette Provider
+// =============================================================================
+
+export class CassetteProvider implements LLMProvider {
+  private readonly config: CassetteConfig
+  private cassette?: Cassette
+
+  constructor(config: CassetteConfig) {
+    if (config.mode === 'record' && !config.inner) {
+      throw new CassetteConfigurationError('Record mode requires an inner provider')
+    }
+    this.config = config
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult> {
+    const cassette = await this.load()
+    const hash = CassetteProvider.hashPrompt(messages, options?.model, options?.tools)
+
+    if (this.config.mode === 'replay') {
+      const entry = cassette.chat[hash]
+      if (!entry) {
+        throw new CassetteFixtureMissingError(this.config.cassettePath, hash, this.previewPrompt(messages))
+      }
+      return { content: entry.response, usage: entry.usage, toolCalls: entry.toolCalls }
+    }
+
+    const result = await this.config.inner!.chat(messages, options)
+    cassette.chat[hash] = {
+      model: options?.model,
+      messages,
+      response: result.content,
+      usage: result.usage,
+      toolCalls: result.toolCalls
+    }
+    await this.save()
+    return result
+  }
+
+  /**
+   * Cassettes store whole responses, so replayed streams arrive as a single chunk
+   */
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk> {
+    const { content, usage, toolCalls } = await this.chat(messages, options)
+    yield { delta: content, done: false }
+    yield { delta: '', done: true, usage, toolCalls }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const cassette = await this.load()
+    const hash = createHash('sha256').update(text).digest('hex')
+
+    if (this.config.mode === 'replay') {
+      const entry = cassette.embeddings[hash]
+      if (!entry) {
+        throw new CassetteFixtureMissingError(this.config.cassettePath, hash, text.slice(0, 80))
+      }
+      return entry.embedding
+    }
+
+    const embedding = await this.config.inner!.generateEmbedding(text)
+    cassette.embeddings[hash] = { text, embedding }
+    await this.save()
+    return embedding
+  }
+
+  isAvailable(): boolean {
+    return this.config.mode === 'replay' || !!this.config.inner?.isAvailable()
+  }
+
+  /**
+   * Stable hash of the prompt; sampling options are deliberately excluded so that
+   * tuning temperature or token limits does not invalidate recordings. Tool
+   * definitions are part of the prompt, but only hashed when present so that
+   * recordings made without tools stay valid
+   */
+  static hashPrompt(messages: LLMMessage[], model?: string, tools?: LLMToolDefinition[]): string {
+    const normalized = JSON.stringify({
+      model: model || null,
+      messages: messages.map(message => ({ role: message.role, content: message.content })),
+      ...(tools && tools.length > 0 ? { tools } : {})
+    })
+    return createHash('sha256').update(normalized).digest('hex')
+  }
+
+  private previewPrompt(messages: LLMMessage[]): string {
+    const lastMessage = messages[messages.length - 1]
+    return (lastMessage?.content || '').replace(/\s+/g, ' ').slice(0, 80)
+  }
+
+  private async load(): Promise<Cassette> {
+    if (this.cassette) {
+      return this.cassette
+    }
+
+    try {
+      const data = await fs.readFile(this.config.cassettePath, 'utf-8')
+      const parsed = JSON.parse(data) as Cassette
+      if (parsed.version !== CASSETTE_VERSION) {
+        throw new CassetteConfigurationError(
+          `Unsupported cassette version ${parsed.version} in ${this.config.cassettePath}`
+        )
+      }
+      this.cassette = parsed
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+      if (this.config.mode === 'replay') {
+        throw new CassetteConfigurationError(`Cassette not found: ${this.config.cassettePath}`)
+      }
+      this.cassette = { version: CASSETTE_VERSION, chat: {}, embeddings: {} }
+    }
+
+    return this.cassette
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.config.cassettePath), { recursive: true })
+    await fs.writeFile(this.config.cassettePath, JSON.stringify(this.cassette, null, 2) + '\n')
+  }
+}
+
+export const createCassetteProvider = (config: CassetteConfig): CassetteProvider => {
+  return new CassetteProvider(config)
+}
+
+/**
+ * Resolve the cassette mode from `LLM_CASSETTE_MODE`, defaulting to replay
+ */
+export const getCassetteModeFromEnv = (): CassetteMode => {
+  return process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay'
+}
+
+export default CassetteProvider
@@ -0,0 +1,155 @@
+/**
+ * Context Window Trimming
+ *
+ * Keeps a conversation inside a model's context window. Token counts are
+ * estimated from character length, so the budget keeps a safety margin.
+ * When a conversation is too long the oldest turns are dropped and replaced
+ * by a short extractive summary, and the newest message is always kept.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ContextMessage {
+  readonly role: 'user' | 'assistant'
+  readonly content: string
+}
+
+export interface ContextWindowConfig {
+  /**
+   * Total tokens the model accepts, prompt and completion together
+   */
+  readonly contextWindowTokens: number
+  /**
+   * Tokens kept free for the completion
+   */
+  readonly reservedOutputTokens: number
+  /**
+   * Fraction of the window left unused to absorb estimation error
+   */
+  readonly safetyMargin: number
+  /**
+   * Upper bound for the summary that replaces dropped turns
+   */
+  readonly maxSummaryTokens: number
+}
+
+export interface TrimResult {
+  readonly messages: ContextMessage[]
+  readonly droppedMessages: number
+  readonly estimatedTokens: number
+}
+
+const CHARS_PER_TOKEN = 4
+const SUMMARY_EXCERPT_CHARS = 160
+const TRUNCATION_MARKER = '[... earlier part of this message trimmed to fit the context window ...]\n'
+
+// =============================================================================
+// Token Estimation
+// =============================================================================
+
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export const estimateConversationTokens = (system: string | undefined, messages: ContextMessage[]): number => {
+  return estimateTokens(system || '') + messages.reduce((sum, message) => sum + estimateTokens(message.content), 0)
+}
+
+// =============================================================================
+// Trimming
+// =============================================================================
+
+/**
+ * Drop the oldest turns until the conversation fits. Dropped turns are
+ * summarized into a note at the start of the first kept user turn, or into a
+ * user turn of its own when only assistant turns are kept, so the window
+ * always starts on a user turn and role alternation is preserved. If the newest message alone is too long, its
+ * beginning is cut, since prompts put their instructions last.
+ */
+export const trimToContextWindow = (
+  system: string | undefined,
+  messages: ContextMessage[],
+  config: ContextWindowConfig
+): TrimResult => {
+  const budget = Math.floor(
+    (config.contextWindowTokens - config.reservedOutputTokens) * (1 - config.safetyMargin)
+  )
+  const total = estimateConversationTokens(system, messages)
+  if (total <= budget || messages.length === 0) {
+    return { messages, droppedMessages: 0, estimatedTokens: total }
+  }
+
+  const available = budget - estimateTokens(system || '')
+  const summaryBudget = Math.min(config.maxSummaryTokens, Math.floor(available / 4))
+
+  // Keep the newest turns that fit, always starting the kept window on a user turn
+  let start = messages.length - 1
+  let used = estimateTokens(messages[start].content)
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content)
+    if (used + cost > available - summaryBudget) {
+      break
+    }
+    used += cost
+    start--
+  }
+  while (start < messages.length - 1 && messages[start].role !== 'user') {
+    start++
+  }
+
+  const dropped = messages.slice(0, start)
+  const kept = messages.slice(start).map(message => ({ ...message }))
+
+  if (dropped.length > 0) {
+    const summary = summarizeDroppedTurns(dropped, summaryBudget)
+    if (kept[0].role === 'user') {
+      kept[0] = { ...kept[0], content: `${summary}\n\n${kept[0].content}` }
+    } else {
+      // No user turn was left to carry the summary, so it becomes one
+      kept.unshift({ role: 'user', content: summary })
+    }
+  }
+
+  // A single oversized message still has to fit
+  const overflow = estimateConversationTokens(system, kept) - budget
+  if (overflow > 0) {
+    const last = kept[kept.length - 1]
+    const keepChars = Math.max(0, last.content.length - overflow * CHARS_PER_TOKEN - TRUNCATION_MARKER.length)
+    kept[kept.length - 1] = { ...last, content: TRUNCATION_MARKER + last.content.slice(last.content.length - keepChars) }
+  }
+
+  return {
+    messages: kept,
+    droppedMessages: dropped.length,
+    estimatedTokens: estimateConversationTokens(system, kept)
+  }
+}
+
+const summarizeDroppedTurns = (dropped: ContextMessage[], summaryBudget: number): string => {
+  const header = `[Summary of ${dropped.length} earlier message${dropped.length === 1 ? '' : 's'} trimmed to fit the context window]`
+  const lines: string[] = []
+  let used = estimateTokens(header)
+
+  // Most recent dropped turns are the most relevant, so they are summarized first
+  for (let i = dropped.length - 1; i >= 0; i--) {
+    const excerpt = dropped[i].content.replace(/\s+/g, ' ').trim()
+    const line = `- ${dropped[i].role}: ${excerpt.length > SUMMARY_EXCERPT_CHARS ? `${excerpt.slice(0, SUMMARY_EXCERPT_CHARS)}...` : excerpt}`
+    const cost = estimateTokens(line) + 1
+    if (used + cost > summaryBudget) {
+      break
+    }
+    lines.unshift(line)
+    used += cost
+  }
+
+  return [header, ...lines].join('\n')
+}
+
+export const DEFAULT_CONTEXT_WINDOW_CONFIG: ContextWindowConfig = {
+  contextWindowTokens: 200000,
+  reservedOutputTokens: 4096,
+  safetyMargin: 0.1,
+  maxSummaryTokens: 1024
+}
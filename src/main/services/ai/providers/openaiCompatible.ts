@@ -0,0 +1,311 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * LLM provider implementation for any server exposing the OpenAI
+ * `/chat/completions` and `/embeddings` HTTP API (vLLM, LM Studio, Ollama,
+ * llama.cpp server, hosted OpenAI, etc.).
+ */
+
+import {
+  LLMChatOptions,
+  LLMChatResult,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition
+} from '../../agents/base/Agent'
+
+export interface OpenAICompatibleConfig {
+  readonly baseUrl: string
+  readonly apiKey?: string
+  readonly modelId: string
+  readonly embeddingModelId?: string
+  readonly maxTokens: number
+  readonly temperature: number
+  readonly timeoutMs: number
+}
+
+// Response bodies of the OpenAI API; servers differ in what they fill in, so everything is optional
+interface OpenAIUsage {
+  readonly prompt_tokens?: number
+  readonly completion_tokens?: number
+}
+
+interface OpenAIToolCall {
+  readonly id?: string
+  readonly function?: { readonly name?: string; readonly arguments?: string }
+}
+
+interface ChatCompletionResponse {
+  readonly choices?: Array<{
+    readonly message?: { readonly content?: string | null; readonly tool_calls?: OpenAIToolCall[] }
+  }>
+  readonly usage?: OpenAIUsage
+}
+
+interface ChatCompletionChunk {
+  readonly choices?: Array<{
+    readonly delta?: {
+      readonly content?: string | null
+      readonly tool_calls?: Array<OpenAIToolCall & { readonly index?: number }>
+    }
+  }>
+  readonly usage?: OpenAIUsage | null
+}
+
+interface EmbeddingResponse {
+  readonly data?: Array<{ readonly embedding?: number[] }>
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  private readonly config: OpenAICompatibleConfig
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    }
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult> {
+    try {
+      const responseBody = await this.post<ChatCompletionResponse>('/chat/completions', {
+        model: options?.model || this.config.modelId,
+        messages: messages.map(message => ({
+          role: message.role,
+          content: message.content
+        })),
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens || this.config.maxTokens,
+        stream: false,
+        ...this.formatTools(options?.tools)
+      }, options?.signal)
+
+      const message = responseBody.choices?.[0]?.message
+      // Content is null when the model only answers with tool calls
+      const content = message?.content ?? (message?.tool_calls ? '' : undefined)
+      if (typeof content !== 'string') {
+        throw new Error('Invalid response from OpenAI-compatible server')
+      }
+
+      const toolCalls = (message?.tool_calls ?? []).map(toolCall => this.parseToolCall(
+        toolCall.id ?? '',
+        toolCall.function?.name,
+        toolCall.function?.arguments
+      ))
+
+      const usage = responseBody.usage
+      return {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: usage ? {
+          inputTokens: usage.prompt_tokens ?? 0,
+          outputTokens: usage.completion_tokens ?? 0
+        } : undefined
+      }
+    } catch (error) {
+      console.error('OpenAI-compatible chat error:', error)
+      throw new Error(`OpenAI-compatible provider error: ${(error as Error).message}`)
+    }
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk> {
+    let inputTokens = 0
+    let outputTokens = 0
+    // Tool call arguments are streamed as string fragments, keyed by tool call index
+    const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>()
+
+    try {
+      const response = await this.request('/chat/completions', {
+        model: options?.model || this.config.modelId,
+        messages: messages.map(message => ({
+          role: message.role,
+          content: message.content
+        })),
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens || this.config.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...this.formatTools(options?.tools)
+      }, options?.signal)
+
+      if (!response.body) {
+        throw new Error('Empty response stream from OpenAI-compatible server')
+      }
+
+      // Server-sent events: one `data: <json>` line per chunk, terminated by `data: [DONE]`
+      const decoder = new TextDecoder()
+      const reader = response.body.getReader()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          const data = line.trim()
+          if (!data.startsWith('data:')) continue
+
+          const payload = data.slice('data:'.length).trim()
+          if (payload === '[DONE]') continue
+
+          const chunk = JSON.parse(payload) as ChatCompletionChunk
+          if (chunk.usage) {
+            inputTokens = chunk.usage.prompt_tokens ?? inputTokens
+            outputTokens = chunk.usage.completion_tokens ?? outputTokens
+          }
+
+          for (const toolCallDelta of chunk.choices?.[0]?.delta?.tool_calls ?? []) {
+            const index = toolCallDelta.index ?? 0
+            const pending = pendingToolCalls.get(index) ?? { id: '', name: '', arguments: '' }
+            pending.id = toolCallDelta.id ?? pending.id
+            pending.name = toolCallDelta.function?.name ?? pending.name
+            pending.arguments += toolCallDelta.function?.arguments ?? ''
+            pendingToolCalls.set(index, pending)
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content
+          if (delta) {
+            yield { delta, done: false }
+          }
+        }
+      }
+    } catch (error) {
+      console.error('OpenAI-compatible stream error:', error)
+      throw new Error(`OpenAI-compatible provider error: ${(error as Error).message}`)
+    }
+
+    const toolCalls = Array.from(pendingToolCalls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, pending]) => this.parseToolCall(pending.id, pending.name, pending.arguments))
+    yield {
+      delta: '',
+      done: true,
+      usage: { inputTokens, outputTokens },
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      const responseBody = await this.post<EmbeddingResponse>('/embeddings', {
+        model: this.getEmbeddingModel(),
+        input: text
+      })
+
+      const embedding = responseBody.data?.[0]?.embedding
+      if (!Array.isArray(embedding)) {
+        throw new Error('Invalid embedding response from OpenAI-compatible server')
+      }
+
+      return embedding
+    } catch (error) {
+      console.error('OpenAI-compatible embedding error:', error)
+      throw new Error(`OpenAI-compatible provider error: ${(error as Error).message}`)
+    }
+  }
+
+  getEmbeddingModel(): string {
+    return this.config.embeddingModelId || this.config.modelId
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.baseUrl && !!this.config.modelId
+  }
+
+  private formatTools(tools?: LLMToolDefinition[]): { tools?: unknown[] } {
+    if (!tools || tools.length === 0) {
+      return {}
+    }
+
+    return {
+      tools: tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema
+        }
+      }))
+    }
+  }
+
+  private parseToolCall(id: string, name: string | undefined, args?: string): LLMToolCall {
+    if (!name) {
+      throw new Error('Tool call without a function name from OpenAI-compatible server')
+    }
+
+    try {
+      return { id, name, input: args ? JSON.parse(args) : {} }
+    } catch (error) {
+      throw new Error(`Malformed arguments for tool ${name}: ${(error as Error).message}`)
+    }
+  }
+
+  private async post<T>(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const response = await this.request(path, body, signal)
+    return response.json() as Promise<T>
+  }
+
+  private async request(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    }
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`
+    }
+
+    const response = await fetch(`${this.config.baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(this.config.timeoutMs)])
+        : AbortSignal.timeout(this.config.timeoutMs)
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ''}`)
+    }
+
+    return response
+  }
+}
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): OpenAICompatibleProvider => {
+  return new OpenAICompatibleProvider(config)
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8000/v1',
+  apiKey: process.env.OPENAI_API_KEY,
+  modelId: process.env.OPENAI_COMPATIBLE_MODEL || 'default',
+  maxTokens: 4096,
+  temperature: 0.7,
+  timeoutMs: 120000
+}
+
+/**
+ * Ollama serves an OpenAI-compatible API under `/v1`, so it reuses the same provider
+ */
+export const DEFAULT_OLLAMA_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1',
+  modelId: 'llama3',
+  embeddingModelId: 'nomic-embed-text',
+  maxTokens: 4096,
+  temperature: 0.7,
+  timeoutMs: 300000
+}
+
+export const createOllamaProvider = (config?: Partial<OpenAICompatibleConfig>): OpenAICompatibleProvider => {
+  return new OpenAICompatibleProvider({ ...DEFAULT_OLLAMA_CONFIG, ...config })
+}
+
+export default OpenAICompatibleProvider
@@ -0,0 +1,153 @@
+/**
+ * LLM Provider Registry
+ * 
+ * Resolves the LLM provider for a model string by its prefix
+ * (e.g. `bedrock:`, `openai-compatible:`, `ollama:`) and delegates calls to it.
+ * Unprefixed model strings are routed to the default provider, and the
+ * `default` model string to the default provider's configured model.
+ */
+
+import { DomainError } from '@/shared/contracts/common'
+import { LLMChatOptions, LLMChatResult, LLMMessage, LLMProvider, LLMStreamChunk } from '../../agents/base/Agent'
+import { DEFAULT_BEDROCK_CONFIG, createBedrockProvider } from './bedrock'
+import {
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  createOllamaProvider,
+  createOpenAICompatibleProvider
+} from './openaiCompatible'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ResolvedProvider {
+  readonly provider: LLMProvider
+  readonly providerName: string
+  readonly modelId?: string
+}
+
+/**
+ * Model string that selects the default provider with its configured model
+ */
+export const DEFAULT_MODEL = 'default'
+
+export class LLMProviderNotFoundError extends DomainError {
+  readonly code = 'LLM_PROVIDER_NOT_FOUND'
+  readonly domain = 'ai'
+
+  constructor(providerName: string, cause?: Error) {
+    super(`No LLM provider registered under '${providerName}'`, cause)
+  }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export class LLMProviderRegistry implements LLMProvider {
+  private readonly providers = new Map<string, LLMProvider>()
+  private defaultProviderName: string
+
+  constructor(defaultProviderName: string) {
+    this.defaultProviderName = defaultProviderName
+  }
+
+  register(name: string, provider: LLMProvider): void {
+    this.providers.set(name, provider)
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name)
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name)
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys())
+  }
+
+  setDefaultProvider(name: string): void {
+    if (!this.providers.has(name)) {
+      throw new LLMProviderNotFoundError(name)
+    }
+    this.defaultProviderName = name
+  }
+
+  /**
+   * Split a model string into provider and model id. Only the first segment is
+   * treated as a prefix, and only when it names a registered provider, since
+   * model ids themselves may contain colons (e.g. Bedrock `...-v1:0`).
+   */
+  resolve(model?: string): ResolvedProvider {
+    if (model === DEFAULT_MODEL) {
+      model = undefined
+    }
+
+    if (model) {
+      const separatorIndex = model.indexOf(':')
+      if (separatorIndex > 0) {
+        const prefix = model.slice(0, separatorIndex)
+        const provider = this.providers.get(prefix)
+        if (provider) {
+          const modelId = model.slice(separatorIndex + 1)
+          return { provider, providerName: prefix, modelId: modelId || undefined }
+        }
+      }
+    }
+
+    const provider = this.providers.get(this.defaultProviderName)
+    if (!provider) {
+      throw new LLMProviderNotFoundError(this.defaultProviderName)
+    }
+
+    return { provider, providerName: this.defaultProviderName, modelId: model }
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult> {
+    const { provider, modelId } = this.resolve(options?.model)
+    return provider.chat(messages, { ...options, model: modelId })
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk> {
+    const { provider, modelId } = this.resolve(options?.model)
+    const resolvedOptions = { ...options, model: modelId }
+
+    if (!provider.chatStream) {
+      const { content, usage, toolCalls } = await provider.chat(messages, resolvedOptions)
+      yield { delta: content, done: false }
+      yield { delta: '', done: true, usage, toolCalls }
+      return
+    }
+
+    yield* provider.chatStream(messages, resolvedOptions)
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    return this.resolve().provider.generateEmbedding(text)
+  }
+
+  getEmbeddingModel(): string {
+    const { provider, providerName } = this.resolve()
+    return `${providerName}:${provider.getEmbeddingModel?.() ?? DEFAULT_MODEL}`
+  }
+
+  isAvailable(): boolean {
+    const provider = this.providers.get(this.defaultProviderName)
+    return !!provider && provider.isAvailable()
+  }
+}
+
+/**
+ * Registry pre-populated with the built-in providers; Bedrock is the default
+ */
+export const createDefaultProviderRegistry = (): LLMProviderRegistry => {
+  const registry = new LLMProviderRegistry('bedrock')
+  registry.register('bedrock', createBedrockProvider(DEFAULT_BEDROCK_CONFIG))
+  registry.register('openai-compatible', createOpenAICompatibleProvider(DEFAULT_OPENAI_COMPATIBLE_CONFIG))
+  registry.register('ollama', createOllamaProvider())
+  return registry
+}
+
+export default LLMProviderRegistry
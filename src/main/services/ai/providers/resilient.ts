@@ -0,0 +1,336 @@
+/**
+ * Resilient Provider
+ *
+ * Wraps any LLMProvider with per-attempt timeouts, exponential backoff on
+ * throttling and transient errors, and a fallback chain of models that is
+ * walked once retries on the current model are exhausted. Every attempt is
+ * reported through `LLMChatOptions.onAttempt` so agents can keep statistics.
+ * Each attempt gets its own abort signal, aborted when the attempt times out,
+ * so the provider stops the request instead of leaving it running. A call
+ * whose `LLMChatOptions.signal` aborts stops at once, without retries.
+ */
+
+import { DomainError } from '@/shared/contracts/common'
+import { LLMAttemptOutcome, LLMCallAttempt } from '@/shared/contracts/AgentDomain'
+import { LLMChatOptions, LLMChatResult, LLMMessage, LLMProvider, LLMStreamChunk } from '../../agents/base/Agent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ResilienceConfig {
+  /**
+   * Retries per model after the first attempt
+   */
+  readonly maxRetries: number
+  readonly baseDelayMs: number
+  readonly maxDelayMs: number
+  /**
+   * Randomize each delay between half and all of its value so that agents do not retry in lockstep
+   */
+  readonly jitter: boolean
+  /**
+   * Used when a call does not set its own timeout
+   */
+  readonly defaultTimeoutMs: number
+  /**
+   * Used when a call does not set its own fallback models
+   */
+  readonly fallbackModels: string[]
+}
+
+export class LLMTimeoutError extends DomainError {
+  readonly code = 'LLM_TIMEOUT'
+  readonly domain = 'ai'
+
+  constructor(model: string | undefined, timeoutMs: number) {
+    super(`LLM call to ${model || 'default model'} timed out after ${timeoutMs}ms`)
+  }
+}
+
+export class LLMCallFailedError extends DomainError {
+  readonly code = 'LLM_CALL_FAILED'
+  readonly domain = 'ai'
+
+  constructor(public readonly attempts: LLMCallAttempt[], cause?: Error) {
+    super(
+      `LLM call failed after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}` +
+      `${cause ? `: ${cause.message}` : ''}`,
+      cause
+    )
+  }
+}
+
+const TRANSIENT_ERROR_PATTERN = new RegExp([
+  'throttl',
+  'too many requests',
+  'rate exceeded',
+  'HTTP 429',
+  'HTTP 5\\d\\d',
+  'ServiceUnavailable',
+  'InternalServerException',
+  'ModelNotReady',
+  'overloaded',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'socket hang up',
+  'fetch failed',
+  'network'
+].join('|'), 'i')
+
+/**
+ * Throttling, server-side and network errors are worth retrying on the same
+ * model; anything else (bad request, access denied, unknown model) is not
+ */
+export const isTransientLLMError = (error: unknown): boolean => {
+  if (error instanceof LLMTimeoutError) {
+    return true
+  }
+  if (!(error instanceof Error)) {
+    return false
+  }
+  return TRANSIENT_ERROR_PATTERN.test(`${error.name} ${error.message}`)
+}
+
+// =============================================================================
+// Resilient Provider
+// =============================================================================
+
+export class ResilientProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly config: ResilienceConfig
+  ) {}
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult> {
+    return this.withResilience(options, (model, timeoutMs) => {
+      const attempt = new AbortController()
+      return this.withTimeout(
+        this.inner.chat(messages, this.attemptOptions(options, model, attempt)),
+        model,
+        timeoutMs,
+        options?.signal,
+        attempt
+      )
+    })
+  }
+
+  /**
+   * Attempts are only retried while nothing has been yielded yet; once the
+   * first chunk is out, a failure ends the stream rather than replaying it
+   */
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamChunk> {
+    if (!this.inner.chatStream) {
+      const { content, usage, toolCalls } = await this.chat(messages, options)
+      yield { delta: content, done: false }
+      yield { delta: '', done: true, usage, toolCalls }
+      return
+    }
+
+    const openStream = this.inner.chatStream.bind(this.inner)
+    const stream = await this.withResilience(options, async (model, timeoutMs) => {
+      const attempt = new AbortController()
+      const iterator = openStream(messages, this.attemptOptions(options, model, attempt))[Symbol.asyncIterator]()
+      try {
+        const first = await this.withTimeout(iterator.next(), model, timeoutMs, options?.signal, attempt)
+        return { first, iterator, model, timeoutMs, attempt }
+      } catch (error) {
+        // Release the abandoned stream; errors while closing it do not matter any more
+        void iterator.return?.().catch(() => undefined)
+        throw error
+      }
+    })
+
+    let result = stream.first
+    try {
+      while (!result.done) {
+        yield result.value
+        // Each gap between chunks gets the full timeout, so long answers are not cut off
+        result = await this.withTimeout(stream.iterator.next(), stream.model, stream.timeoutMs, options?.signal, stream.attempt)
+      }
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        void stream.iterator.return?.().catch(() => undefined)
+      }
+      throw error
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    return this.withResilience(undefined, (model, timeoutMs) => this.withTimeout(
+      this.inner.generateEmbedding(text),
+      model,
+      timeoutMs
+    ), false)
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable()
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private async withResilience<T>(
+    options: LLMChatOptions | undefined,
+    call: (model: string | undefined, timeoutMs: number) => Promise<T>,
+    useFallbacks: boolean = true
+  ): Promise<T> {
+    const models = useFallbacks
+      ? [options?.model, ...(options?.fallbackModels ?? this.config.fallbackModels)]
+      : [options?.model]
+    const timeoutMs = options?.timeoutMs ?? this.config.defaultTimeoutMs
+    const attempts: LLMCallAttempt[] = []
+    let lastError: Error | undefined
+
+    for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+      const model = models[modelIndex]
+      const hasFallback = modelIndex < models.length - 1
+
+      for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+        options?.signal?.throwIfAborted()
+        const startedAt = Date.now()
+        try {
+          const result = await call(model, timeoutMs)
+          this.reportAttempt(options, attempts, {
+            model,
+            attempt: attempts.length + 1,
+            outcome: 'success',
+            durationMs: Date.now() - startedAt
+          })
+          return result
+        } catch (error) {
+          // A cancelled call is neither retried nor handed to a fallback model
+          if (options?.signal?.aborted) {
+            throw error
+          }
+          lastError = error as Error
+          const retryable = isTransientLLMError(error) && attempt < this.config.maxRetries
+          const outcome: LLMAttemptOutcome = retryable ? 'retry' : hasFallback ? 'fallback' : 'failed'
+
+          this.reportAttempt(options, attempts, {
+            model,
+            attempt: attempts.length + 1,
+            outcome,
+            durationMs: Date.now() - startedAt,
+            error: lastError.message,
+            timedOut: error instanceof LLMTimeoutError
+          })
+
+          if (!retryable) {
+            break
+          }
+          await this.sleep(this.backoffDelay(attempt), options?.signal)
+        }
+      }
+    }
+
+    throw new LLMCallFailedError(attempts, lastError)
+  }
+
+  private reportAttempt(options: LLMChatOptions | undefined, attempts: LLMCallAttempt[], attempt: LLMCallAttempt): void {
+    attempts.push(attempt)
+    try {
+      options?.onAttempt?.(attempt)
+    } catch (error) {
+      console.error('LLM attempt listener failed:', error)
+    }
+  }
+
+  /**
+   * Options for a single attempt; the provider watches the attempt's signal,
+   * which also aborts along with the caller's
+   */
+  private attemptOptions(options: LLMChatOptions | undefined, model: string | undefined, attempt: AbortController): LLMChatOptions {
+    const { onAttempt: _onAttempt, fallbackModels: _fallbackModels, timeoutMs: _timeoutMs, signal, ...rest } = options ?? {}
+    return { ...rest, model, signal: signal ? AbortSignal.any([signal, attempt.signal]) : attempt.signal }
+  }
+
+  /**
+   * Aborts `attempt` once it runs past the timeout. Also gives up as soon as
+   * `signal` aborts, for providers that do not watch it themselves.
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    model: string | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    attempt?: AbortController
+  ): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let onAbort: (() => void) | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new LLMTimeoutError(model, timeoutMs)
+        // Settle first so the timeout, not the provider's abort error, is what the caller sees
+        reject(error)
+        attempt?.abort(error)
+      }, timeoutMs)
+      if (signal) {
+        onAbort = () => reject(signal.reason)
+        signal.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+
+    try {
+      signal?.throwIfAborted()
+      return await Promise.race([promise, timeout])
+    } finally {
+      clearTimeout(timer)
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort)
+      }
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt)
+    return this.config.jitter ? delay / 2 + Math.random() * (delay / 2) : delay
+  }
+
+  /**
+   * Waits out the backoff, or rejects with the abort reason as soon as `signal` aborts
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(signal?.reason)
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  defaultTimeoutMs: 120000,
+  fallbackModels: []
+}
+
+export const createResilientProvider = (
+  inner: LLMProvider,
+  config?: Partial<ResilienceConfig>
+): ResilientProvider => {
+  return new ResilientProvider(inner, { ...DEFAULT_RESILIENCE_CONFIG, ...config })
+}
+
+export default ResilientProvider
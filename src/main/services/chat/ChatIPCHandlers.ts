@@ -5,10 +5,126 @@
  * including message persistence, thread management, and conversation history.
  */
 
-import { ipcMain } from 'electron'
+import { BrowserWindow, IpcMainInvokeEvent, ipcMain } from 'electron'
 import { z } from 'zod'
+import {
+  AgentAction,
+  AgentMessage,
+  AgentResponseChunkEvent,
+  AgentResponseCompletedEvent,
+  AgentRole,
+  AgentRoleSchema,
+  AgentType,
+  ClarificationAnswer,
+  ClarificationQuestion,
+  ClarificationQuestionAnsweredEvent,
+  ClarificationQuestionAskedEvent,
+  IAgentDomainService,
+  IntentClassifierKind,
+  MessageCancelledError,
+  MessageType
+} from '@/shared/contracts/AgentDomain'
+import { DomainError, Ok, Result } from '@/shared/contracts/common'
+import { IEventBus } from '@/shared/contracts/EventBus'
+import { MessageContext, MessageRouter, RoutingResult } from '../agents/MessageRouter'
+import { RoutingFeedbackService } from '../agents/routing/RoutingFeedbackService'
 import { ChatHistoryService, type IChatHistoryService } from './ChatHistoryService'
 
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The agent system chat messages are routed to, attached once it is running
+ */
+export interface ChatAgentSystem {
+  readonly router: MessageRouter
+  readonly orchestrator: Pick<IAgentDomainService, 'sendMessage'>
+  /**
+   * Where the Producer's clarification questions are listed and answered
+   */
+  readonly questions?: ClarificationQuestionSource
+  /**
+   * Records routing decisions so corrections can be learned from
+   */
+  readonly routingFeedback?: Pick<RoutingFeedbackService, 'recordDecision'>
+  /**
+   * Keeps the turns of a round table together in the agents' message queue
+   */
+  readonly messageGroups?: MessageGroupSource
+}
+
+export interface MessageGroupSource {
+  openMessageGroup(messageId: string): () => void
+}
+
+export interface ClarificationQuestionSource {
+  listClarificationQuestions(projectId?: string): Promise<ClarificationQuestion[]>
+  answerClarificationQuestion(answer: ClarificationAnswer): Promise<Result<ClarificationQuestion, DomainError>>
+}
+
+/**
+ * Why an agent answered, stored on the reply so the UI can show it
+ */
+export interface ChatRoutingMetadata {
+  readonly agent: AgentRole
+  readonly confidence: number
+  readonly reasoning: string
+  readonly explicit: boolean
+  readonly secondaryAgents: AgentRole[]
+  readonly intent: string
+  readonly intentClassifier: IntentClassifierKind
+}
+
+/**
+ * Where a reply sits in a round-table exchange, where the routed agent answers,
+ * the router's secondary agents comment in turn and the Producer sums up
+ */
+export interface ChatRoundTableTurn {
+  /**
+   * The user message the round table answers
+   */
+  readonly id: string
+  readonly kind: 'answer' | 'comment' | 'summary'
+  readonly participants: AgentRole[]
+}
+
+/**
+ * An agent reply as returned to the renderer; `streamId` matches its streamed chunks
+ */
+export interface ChatAgentReply {
+  readonly id: string
+  readonly agentId: AgentRole
+  readonly content: string
+  readonly contextId: string
+  readonly streamId: string
+  readonly routing?: ChatRoutingMetadata
+  readonly roundTable?: ChatRoundTableTurn
+  readonly actions?: AgentAction[]
+}
+
+interface ChatTurnRequest {
+  readonly orchestrator: ChatAgentSystem['orchestrator']
+  readonly userMessageId: string
+  readonly content: string
+  readonly projectId?: string
+  readonly threadId?: string
+  readonly conversationHistory: string[]
+}
+
+interface ChatTurn {
+  readonly id: string
+  readonly agent: AgentRole
+  readonly content: string
+  readonly routing?: ChatRoutingMetadata
+  readonly roundTable?: ChatRoundTableTurn
+  readonly actionsDisabled?: boolean
+}
+
+type AnswerQuestionResponse =
+  | { readonly success: true; readonly question: ClarificationQuestion }
+  | { readonly success: false; readonly error: string }
+
 // =============================================================================
 // Validation Schemas
 // =============================================================================
@@ -25,13 +141,27 @@ const ChatMessageSchema = z.object({
 })
 
 const SendChatMessageSchema = z.object({
+  messageId: z.string().uuid().optional(),
   content: z.string().min(1),
-  targetAgent: z.string().optional(),
+  targetAgent: AgentRoleSchema.optional(),
+  rerouteOf: z.string().uuid().optional(),
+  projectId: z.string().min(1).optional(),
   threadId: z.string().optional(),
   context: z.array(z.string()).optional(),
+  roundTable: z.boolean().optional(),
   metadata: z.record(z.unknown()).optional()
 })
 
+const ListQuestionsSchema = z.object({
+  projectId: z.string().min(1).optional()
+})
+
+const AnswerQuestionSchema = z.object({
+  questionId: z.string(),
+  answer: z.string().trim().min(1).max(5000),
+  projectId: z.string().min(1).optional()
+})
+
 const ChatThreadSchema = z.object({
   id: z.string(),
   name: z.string().min(1),
@@ -64,16 +194,37 @@ const SearchQuerySchema = z.object({
   options: ChatHistoryQuerySchema.optional()
 })
 
+// =============================================================================
+// Round Table Prompts
+// =============================================================================
+
+const buildRoundTablePrompt = (
+  question: string,
+  replies: ChatAgentReply[],
+  kind: 'comment' | 'summary'
+): string => {
+  const discussion = replies.map(reply => `${reply.agentId}: ${reply.content}`).join('\n\n')
+  const instruction = kind === 'comment'
+    ? 'Add your comments or objections from your own role. Do not repeat what was already said; if you agree, say so briefly.'
+    : 'Summarize the discussion for the user: where the team agrees, which objections are still open, and the recommended next step.'
+
+  return `Round table on the user's message: "${question}"\n\nWhat the team has said so far:\n\n${discussion}\n\n${instruction}`
+}
+
 // =============================================================================
 // IPC Handler Implementation
 // =============================================================================
 
 export class ChatIPCHandlers {
   private chatHistoryService: IChatHistoryService
+  private eventBus?: IEventBus
+  private agentSystem?: ChatAgentSystem
+  private streamSubscriptions: string[] = []
   private isInitialized = false
 
-  constructor() {
-    this.chatHistoryService = new ChatHistoryService()
+  constructor(eventBus?: IEventBus, chatHistoryService: IChatHistoryService = new ChatHistoryService()) {
+    this.chatHistoryService = chatHistoryService
+    this.eventBus = eventBus
   }
 
   // =============================================================================
@@ -96,6 +247,7 @@ export class ChatIPCHandlers {
 
       // Register IPC handlers
       this.registerHandlers()
+      this.subscribeToResponseStreams()
       
       this.isInitialized = true
       console.log('Chat IPC handlers initialized successfully')
@@ -113,6 +265,7 @@ export class ChatIPCHandlers {
     try {
       // Unregister IPC handlers
       this.unregisterHandlers()
+      this.unsubscribeFromResponseStreams()
       
       this.isInitialized = false
       console.log('Chat IPC handlers cleanup completed')
@@ -122,6 +275,13 @@ export class ChatIPCHandlers {
     }
   }
 
+  /**
+   * Route chat:message through the given router and orchestrator
+   */
+  attachAgentSystem(agentSystem: ChatAgentSystem): void {
+    this.agentSystem = agentSystem
+  }
+
   // =============================================================================
   // IPC Handler Registration
   // =============================================================================
@@ -151,6 +311,10 @@ export class ChatIPCHandlers {
     
     // Legacy support for existing chat store
     ipcMain.handle('chat:message', this.handleChatMessage.bind(this))
+
+    // Clarification questions
+    ipcMain.handle('chat:questions:list', this.handleListQuestions.bind(this))
+    ipcMain.handle('chat:questions:answer', this.handleAnswerQuestion.bind(this))
   }
 
   private unregisterHandlers(): void {
@@ -167,7 +331,9 @@ export class ChatIPCHandlers {
       'chat:save-context',
       'chat:load-context',
       'chat:cleanup',
-      'chat:message'
+      'chat:message',
+      'chat:questions:list',
+      'chat:questions:answer'
     ]
 
     handlers.forEach(handler => {
@@ -175,6 +341,71 @@ export class ChatIPCHandlers {
     })
   }
 
+  // =============================================================================
+  // Response Streaming
+  // =============================================================================
+
+  private subscribeToResponseStreams(): void {
+    if (!this.eventBus) {
+      return
+    }
+
+    this.streamSubscriptions.push(
+      this.eventBus.subscribe<AgentResponseChunkEvent>('agent.response.chunk', {
+        handle: async (event) => {
+          this.sendToRenderer('chat:stream-chunk', {
+            messageId: event.payload.messageId,
+            contextId: event.payload.parentMessageId ?? event.payload.messageId,
+            agentId: event.agentType,
+            delta: event.payload.delta,
+            content: event.payload.content,
+            threadId: event.payload.threadId
+          })
+        }
+      }),
+      this.eventBus.subscribe<AgentResponseCompletedEvent>('agent.response.completed', {
+        handle: async (event) => {
+          this.sendToRenderer('chat:stream-complete', {
+            messageId: event.payload.messageId,
+            contextId: event.payload.parentMessageId ?? event.payload.messageId,
+            agentId: event.agentType,
+            content: event.payload.content,
+            threadId: event.payload.threadId,
+            usage: event.payload.usage
+          })
+        }
+      }),
+      this.eventBus.subscribe<ClarificationQuestionAskedEvent>('agent.question.asked', {
+        handle: async (event) => {
+          this.sendToRenderer('chat:question-asked', event.payload.question)
+        }
+      }),
+      this.eventBus.subscribe<ClarificationQuestionAnsweredEvent>('agent.question.answered', {
+        handle: async (event) => {
+          this.sendToRenderer('chat:question-answered', {
+            question: event.payload.question,
+            answer: event.payload.answer
+          })
+        }
+      })
+    )
+  }
+
+  private unsubscribeFromResponseStreams(): void {
+    this.streamSubscriptions.forEach(subscriptionId => {
+      this.eventBus?.unsubscribe(subscriptionId)
+    })
+    this.streamSubscriptions = []
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+
   // =============================================================================
   // Chat History Handlers
   // =============================================================================
@@ -411,6 +642,41 @@ export class ChatIPCHandlers {
     }
   }
 
+  // =============================================================================
+  // Clarification Question Handlers
+  // =============================================================================
+
+  private async handleListQuestions(_event: IpcMainInvokeEvent, filter: unknown): Promise<ClarificationQuestion[]> {
+    try {
+      const { projectId } = ListQuestionsSchema.parse(filter ?? {})
+      return await this.agentSystem?.questions?.listClarificationQuestions(projectId) ?? []
+    } catch (error) {
+      console.error('Error listing clarification questions:', error)
+      return []
+    }
+  }
+
+  private async handleAnswerQuestion(_event: IpcMainInvokeEvent, data: unknown): Promise<AnswerQuestionResponse> {
+    try {
+      const answer = AnswerQuestionSchema.parse(data)
+      if (!this.agentSystem?.questions) {
+        return { success: false, error: 'Agent system is not available' }
+      }
+
+      const result = await this.agentSystem.questions.answerClarificationQuestion(answer)
+      if (!result.success) {
+        return { success: false, error: result.error.message }
+      }
+      return { success: true, question: result.data }
+    } catch (error) {
+      console.error('Error answering clarification question:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
   // =============================================================================
   // Legacy Chat Message Handler
   // =============================================================================
@@ -429,7 +695,7 @@ export class ChatIPCHandlers {
       
       // Create user message for history
       const userMessage = {
-        id: crypto.randomUUID(),
+        id: validatedInput.messageId || crypto.randomUUID(),
         content: validatedInput.content,
         sender: 'user' as const,
         timestamp: new Date(),
@@ -445,40 +711,76 @@ export class ChatIPCHandlers {
       // Save user message to history
       await this.chatHistoryService.saveMessages([userMessage])
       
-      // Agent targeting logic will be implemented when agent system is ready
-      // For now, return acknowledgment with targeting information
-      const response = {
-        success: true,
+      if (!this.agentSystem) {
+        return { success: false, messageId: userMessage.id, error: 'Agent system is not available' }
+      }
+
+      // Pick the agent: @mentions are honored, anything else is routed by content
+      const { router, orchestrator } = this.agentSystem
+      const routingContext: MessageContext = {
+        content: validatedInput.content,
+        projectId: validatedInput.projectId,
+        conversationHistory: validatedInput.context ?? []
+      }
+      const routingOptions = { roundTable: validatedInput.roundTable }
+      const routingResult = validatedInput.targetAgent
+        ? await router.routeWithExplicitTarget(validatedInput.targetAgent, routingContext, routingOptions)
+        : await router.routeMessage(routingContext, routingOptions)
+      
+      if (!routingResult.success) {
+        return { success: false, messageId: userMessage.id, error: routingResult.error.message }
+      }
+      
+      const routing = this.toRoutingMetadata(routingResult.data, !!validatedInput.targetAgent)
+      this.agentSystem.routingFeedback?.recordDecision({
         messageId: userMessage.id,
-        agentResponse: validatedInput.targetAgent ? {
-          agentId: validatedInput.targetAgent,
-          content: `Message received for ${validatedInput.targetAgent}. Agent system integration coming soon.`,
-          contextId: crypto.randomUUID()
-        } : null
+        projectId: validatedInput.projectId,
+        threadId: validatedInput.threadId,
+        content: validatedInput.content,
+        agent: routing.agent,
+        intent: routing.intent,
+        explicit: routing.explicit,
+        rerouteOf: validatedInput.rerouteOf,
+        timestamp: userMessage.timestamp
+      })
+      
+      const request: ChatTurnRequest = {
+        orchestrator,
+        userMessageId: userMessage.id,
+        content: validatedInput.content,
+        projectId: validatedInput.projectId,
+        threadId: validatedInput.threadId,
+        conversationHistory: validatedInput.context ?? []
       }
+      const roundTable: ChatRoundTableTurn | undefined = validatedInput.roundTable && routing.secondaryAgents.length > 0
+        ? { id: userMessage.id, kind: 'answer', participants: [routing.agent, ...routing.secondaryAgents] }
+        : undefined
       
-      // Save agent response if generated
-      if (response.agentResponse) {
-        const agentMessage = {
-          id: crypto.randomUUID(),
-          content: response.agentResponse.content,
-          sender: 'agent' as const,
-          agentId: response.agentResponse.agentId,
-          timestamp: new Date(),
-          threadId: validatedInput.threadId,
-          status: 'delivered' as const,
-          metadata: {
-            agentResponse: true,
-            contextId: response.agentResponse.contextId,
-            targetedResponse: true
-          }
+      // The later turns of a round table are cancelled and admitted to the queue along with the answer
+      const closeGroup = roundTable ? this.agentSystem.messageGroups?.openMessageGroup(userMessage.id) : undefined
+      try {
+        // The agent message shares the chat message id so streamed chunks can be matched to it
+        const result = await this.askAgent(request, {
+          id: userMessage.id,
+          agent: routing.agent,
+          content: validatedInput.content,
+          routing,
+          roundTable
+        })
+        if (!result.success) {
+          return { success: false, messageId: userMessage.id, error: result.error.message, routing }
+        }
+
+        return {
+          success: true,
+          messageId: userMessage.id,
+          agentResponse: result.data,
+          roundTableReplies: roundTable ? await this.runRoundTable(request, roundTable, result.data) : undefined
         }
-        
-        await this.chatHistoryService.saveMessages([agentMessage])
+      } finally {
+        closeGroup?.()
       }
       
-      return response
-      
     } catch (error) {
       console.error('Error processing chat message:', error)
       return {
@@ -488,6 +790,118 @@ export class ChatIPCHandlers {
     }
   }
 
+  private toRoutingMetadata(routing: RoutingResult, explicit: boolean): ChatRoutingMetadata {
+    return {
+      agent: routing.primaryAgent,
+      confidence: routing.confidence,
+      reasoning: routing.reasoning,
+      explicit,
+      secondaryAgents: routing.secondaryAgents,
+      intent: routing.intent,
+      intentClassifier: routing.intentClassifier
+    }
+  }
+
+  /**
+   * Secondary agents comment on the replies so far in turn, then the Producer
+   * sums up without taking actions. The turns follow up on the user's message,
+   * so cancelling it ends the exchange; a turn that fails otherwise is left out.
+   */
+  private async runRoundTable(
+    request: ChatTurnRequest,
+    roundTable: ChatRoundTableTurn,
+    answer: ChatAgentReply
+  ): Promise<ChatAgentReply[]> {
+    const replies = [answer]
+    const turns = [
+      ...roundTable.participants.slice(1).map(agent => ({ agent, kind: 'comment' as const })),
+      { agent: AgentType.PRODUCER, kind: 'summary' as const }
+    ]
+
+    for (const turn of turns) {
+      const result = await this.askAgent(request, {
+        id: crypto.randomUUID(),
+        agent: turn.agent,
+        content: buildRoundTablePrompt(request.content, replies, turn.kind),
+        roundTable: { ...roundTable, kind: turn.kind },
+        actionsDisabled: turn.kind === 'summary'
+      })
+
+      if (result.success) {
+        replies.push(result.data)
+      } else if (result.error instanceof MessageCancelledError) {
+        break
+      } else {
+        console.warn(`Round table ${turn.kind} from ${turn.agent} failed:`, result.error.message)
+      }
+    }
+
+    return replies.slice(1)
+  }
+
+  /**
+   * Sends one turn to an agent and saves its reply to the chat history
+   */
+  private async askAgent(
+    request: ChatTurnRequest,
+    turn: ChatTurn
+  ): Promise<Result<ChatAgentReply, DomainError>> {
+    const agentMessage: AgentMessage = {
+      id: turn.id,
+      timestamp: new Date(),
+      from: 'user',
+      to: turn.agent,
+      content: turn.content,
+      messageType: MessageType.CHAT,
+      projectId: request.projectId,
+      metadata: {
+        priority: 'normal',
+        requiresResponse: true,
+        threadId: z.string().uuid().safeParse(request.threadId).success ? request.threadId : undefined,
+        parentMessageId: turn.id === request.userMessageId ? undefined : request.userMessageId,
+        actionsDisabled: turn.actionsDisabled,
+        context: { conversationHistory: request.conversationHistory, routing: turn.routing, roundTable: turn.roundTable }
+      }
+    }
+    
+    const result = await request.orchestrator.sendMessage(agentMessage)
+    if (!result.success) {
+      return result
+    }
+    
+    // Save the agent's reply with the reason it was chosen
+    const reply = {
+      id: crypto.randomUUID(),
+      content: result.data.content,
+      sender: 'agent' as const,
+      agentId: turn.agent,
+      timestamp: new Date(),
+      threadId: request.threadId,
+      status: 'delivered' as const,
+      metadata: {
+        agentResponse: true,
+        contextId: request.userMessageId,
+        streamId: turn.id,
+        routing: turn.routing,
+        roundTable: turn.roundTable,
+        actions: result.data.actions.length > 0 ? result.data.actions : undefined
+      }
+    }
+    
+    await this.chatHistoryService.saveMessages([reply])
+    
+    return Ok({
+      id: reply.id,
+      agentId: turn.agent,
+      content: reply.content,
+      contextId: request.userMessageId,
+      streamId: turn.id,
+      routing: turn.routing,
+      roundTable: turn.roundTable,
+      actions: reply.metadata.actions
+    })
+  }
+
   // =============================================================================
   // Service Access
   // =============================================================================
@@ -9,6 +9,7 @@ import { z } from 'zod'
 import * as path from 'path'
 import * as fs from 'fs/promises'
 import { app } from 'electron'
+import { ProjectSettings, ProjectSettingsSchema } from '@/shared/contracts/ProjectDomain'
 
 // =============================================================================
 // Schemas for Input Validation
@@ -17,14 +18,16 @@ import { app } from 'electron'
 const ProjectCreateSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
-  type: z.string().default('web-app')
+  type: z.string().default('web-app'),
+  settings: ProjectSettingsSchema.partial().optional()
 })
 
 const ProjectUpdateSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
   description: z.string().optional(),
-  status: z.string().optional()
+  status: z.string().optional(),
+  settings: ProjectSettingsSchema.partial().optional()
 })
 
 // const AgentStateSchema = z.object({
@@ -165,6 +168,8 @@ export class CoreIPCHandlers {
         projects[projectIndex] = {
           ...projects[projectIndex],
           ...validatedData,
+          // Settings are merged so that updating one does not drop the others
+          settings: { ...projects[projectIndex].settings, ...validatedData.settings },
           updatedAt: new Date().toISOString()
         }
 
@@ -347,6 +352,14 @@ export class CoreIPCHandlers {
     })
   }
 
+  /**
+   * Settings of a stored project, such as its test framework
+   */
+  async getProjectSettings(projectId: string): Promise<Partial<ProjectSettings> | undefined> {
+    const projects = await this.loadProjects()
+    return projects.find(p => p.id === projectId)?.settings
+  }
+
   // =============================================================================
   // File Operations
   // =============================================================================
@@ -9,6 +9,7 @@ import { v4 as uuidv4 } from 'uuid'
 import { LanceDBVectorStore } from './VectorStore'
 import { MemoryRepository } from './MemoryRepository'
 import { EventBus } from '../core/EventBus'
+import { EmbeddingServiceConfig } from '../ai/EmbeddingService'
 import {
   CreateMemoryInput,
   CreateMemorySchema,
@@ -50,6 +51,13 @@ export class MemoryDomainService implements IMemoryDomainService {
     this.eventBus = EventBus.getInstance()
   }
 
+  /**
+   * Settings for the embeddings memories are stored and searched with
+   */
+  configureEmbeddings(config: Partial<EmbeddingServiceConfig>): void {
+    this.vectorStore.configureEmbeddings(config)
+  }
+
   /**
    * Initialize the memory system
    */
@@ -109,7 +117,7 @@ export class MemoryDomainService implements IMemoryDomainService {
         type: validatedInput.type,
         scope: validatedInput.scope || 'personal',
         status: 'active',
-        embedding,
+        embedding: embedding.vector,
         metadata: {
           tags: validatedInput.metadata.tags || [],
           source: validatedInput.metadata.source || 'user',
@@ -337,7 +345,7 @@ export class MemoryDomainService implements IMemoryDomainService {
         // Create new memory object with updated embedding since embedding is readonly
         const memoryWithNewEmbedding: Memory = {
           ...updatedMemory,
-          embedding: newEmbedding
+          embedding: newEmbedding.vector
         }
         
         // Update vector store
@@ -2,10 +2,12 @@
  * Memory IPC Handlers
  * 
  * Provides IPC communication between renderer and main process
- * for memory operations.
+ * for memory operations. Memories are embedded with the Bedrock
+ * credentials of the AI settings, picking up every change to them.
  */
 
 import { ipcMain } from 'electron'
+import type { AIConfigService } from '../ai/AIConfigService'
 import { MemoryDomainService } from './MemoryDomainService'
 import { 
   CreateMemorySchema,
@@ -17,8 +19,13 @@ import { Result } from '../../../shared/contracts/common'
 
 export class MemoryIPCHandlers {
   private memoryService: MemoryDomainService
+  private readonly onAIConfigChanged = () => {
+    if (this.aiConfig) {
+      this.memoryService.configureEmbeddings(this.aiConfig.getEmbeddingConfig())
+    }
+  }
 
-  constructor() {
+  constructor(private readonly aiConfig?: AIConfigService) {
     this.memoryService = new MemoryDomainService()
   }
 
@@ -39,6 +46,11 @@ export class MemoryIPCHandlers {
   async initialize(): Promise<void> {
     console.log('Initializing Memory IPC Handlers...')
     
+    if (this.aiConfig) {
+      this.onAIConfigChanged()
+      this.aiConfig.on('config-changed', this.onAIConfigChanged)
+    }
+
     // Initialize memory service
     const initResult = await this.memoryService.initialize()
     if (!initResult.success) {
@@ -387,6 +399,7 @@ export class MemoryIPCHandlers {
     ipcMain.removeHandler('memory:statistics')
     ipcMain.removeHandler('memory:cleanup')
     ipcMain.removeHandler('memory:health')
+    this.aiConfig?.off('config-changed', this.onAIConfigChanged)
     
     // Cleanup memory service
     await this.memoryService.cleanup()
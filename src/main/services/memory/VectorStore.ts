@@ -8,10 +8,17 @@
 import { Connection, Table, connect } from '@lancedb/lancedb'
 import { join } from 'path'
 import { app } from 'electron'
-import { EmbeddingService, createEmbeddingService } from '../ai/EmbeddingService'
+import {
+  DEFAULT_EMBEDDING_CONFIG,
+  EmbeddingService,
+  EmbeddingServiceConfig,
+  createEmbeddingService
+} from '../ai/EmbeddingService'
 import { 
   EmbeddingGenerationError, 
   IVectorStore, 
+  TextEmbedding,
+  VectorDimensionMismatchError,
   VectorResult,
   VectorSearchResult,
   VectorStoreError 
@@ -21,6 +28,8 @@ import { Err, Ok, Result } from '../../../shared/contracts/common'
 interface VectorRecord extends Record<string, unknown> {
   id: string
   vector: number[]
+  // Searches only compare vectors made by the same model
+  embeddingModel: string
   content: string
   type: string
   scope: string
@@ -34,16 +43,28 @@ interface VectorRecord extends Record<string, unknown> {
   updatedAt: string
 }
 
+const DEFAULT_VECTOR_DIMENSIONS = 1536 // Titan text embedding dimension
+
 export class LanceDBVectorStore implements IVectorStore {
   private connection: Connection | null = null
   private table: Table | null = null
   private embeddingService: EmbeddingService
   private readonly dbPath: string
   private readonly tableName = 'memories'
+  private vectorDimensions = DEFAULT_VECTOR_DIMENSIONS
 
-  constructor() {
+  constructor(embeddingConfig?: Partial<EmbeddingServiceConfig>) {
     this.dbPath = join(app.getPath('userData'), 'lancedb')
-    this.embeddingService = createEmbeddingService()
+    this.embeddingService = createEmbeddingService(embeddingConfig)
+  }
+
+  /**
+   * Rebuild the embedding service, such as when the AI credentials change
+   */
+  configureEmbeddings(config: Partial<EmbeddingServiceConfig>): void {
+    const previous = this.embeddingService
+    this.embeddingService = createEmbeddingService(config)
+    void previous.cleanup()
   }
 
   /**
@@ -64,7 +85,8 @@ export class LanceDBVectorStore implements IVectorStore {
         // Create table with sample record to define schema
         const sampleRecord: VectorRecord = {
           id: 'sample',
-          vector: new Array(1536).fill(0), // Claude/OpenAI embedding dimension
+          vector: new Array(this.vectorDimensions).fill(0),
+          embeddingModel: DEFAULT_EMBEDDING_CONFIG.model,
           content: 'Sample content for schema creation',
           type: 'global',
           scope: 'system',
@@ -81,9 +103,11 @@ export class LanceDBVectorStore implements IVectorStore {
         await this.table.delete('id = "sample"')
       } else {
         this.table = await this.connection.openTable(this.tableName)
+        this.vectorDimensions = await this.detectVectorDimensions(this.table)
+        await this.addEmbeddingModelColumn(this.table)
       }
       
-      console.log('LanceDB vector store initialized successfully')
+      console.log(`LanceDB vector store initialized successfully (${this.vectorDimensions} dimensions)`)
       return Ok(undefined)
       
     } catch (error) {
@@ -95,13 +119,17 @@ export class LanceDBVectorStore implements IVectorStore {
   /**
    * Generate embedding for text content using Bedrock
    */
-  async generateEmbedding(content: string): Promise<number[]> {
+  async generateEmbedding(content: string): Promise<TextEmbedding> {
     try {
-      // Use EmbeddingService to generate embeddings
-      const result = await this.embeddingService.generateEmbedding({ text: content })
+      // Use EmbeddingService to generate embeddings sized for the table
+      const result = await this.embeddingService.generateEmbedding({ 
+        text: content,
+        dimensions: this.vectorDimensions
+      })
       
       if (result.success) {
-        return result.data.embedding
+        this.assertVectorDimensions(result.data.embedding)
+        return { vector: result.data.embedding, model: result.data.model }
       } else {
         throw new Error(result.error.message)
       }
@@ -115,15 +143,18 @@ export class LanceDBVectorStore implements IVectorStore {
   /**
    * Store vector with metadata in LanceDB
    */
-  async storeVector(id: string, vector: number[], metadata: Record<string, any>): Promise<void> {
+  async storeVector(id: string, embedding: TextEmbedding, metadata: Record<string, any>): Promise<void> {
     if (!this.table) {
       throw new VectorStoreError('store', new Error('Vector store not initialized'))
     }
 
+    this.assertVectorDimensions(embedding.vector)
+
     try {
       const record: VectorRecord = {
         id,
-        vector,
+        vector: embedding.vector,
+        embeddingModel: embedding.model,
         content: metadata.content || '',
         type: metadata.type || 'global',
         scope: metadata.scope || 'personal',
@@ -147,10 +178,11 @@ export class LanceDBVectorStore implements IVectorStore {
   }
 
   /**
-   * Search for similar vectors using cosine similarity
+   * Search for similar vectors using cosine similarity, among the ones made
+   * by the same model as the query
    */
   async searchSimilar(
-    queryVector: number[], 
+    query: TextEmbedding, 
     limit: number = 10, 
     threshold: number = 0.7
   ): Promise<VectorSearchResult[]> {
@@ -158,10 +190,13 @@ export class LanceDBVectorStore implements IVectorStore {
       throw new VectorStoreError('search', new Error('Vector store not initialized'))
     }
 
+    this.assertVectorDimensions(query.vector)
+
     try {
       // LanceDB vector search with cosine similarity
       const results = await this.table
-        .vectorSearch(queryVector)
+        .vectorSearch(query.vector)
+        .where(`\`embeddingModel\` = '${query.model.replace(/'/g, "''")}'`)
         .limit(limit)
         .toArray()
 
@@ -195,17 +230,20 @@ export class LanceDBVectorStore implements IVectorStore {
   /**
    * Update existing vector and metadata
    */
-  async updateVector(id: string, vector: number[], metadata: Record<string, any>): Promise<void> {
+  async updateVector(id: string, embedding: TextEmbedding, metadata: Record<string, any>): Promise<void> {
     if (!this.table) {
       throw new VectorStoreError('update', new Error('Vector store not initialized'))
     }
 
+    // Check before deleting so a bad vector cannot drop the existing record
+    this.assertVectorDimensions(embedding.vector)
+
     try {
       // Delete existing record
       await this.table.delete(`id = "${id}"`)
       
       // Store updated record
-      await this.storeVector(id, vector, {
+      await this.storeVector(id, embedding, {
         ...metadata,
         updatedAt: new Date().toISOString()
       })
@@ -258,6 +296,7 @@ export class LanceDBVectorStore implements IVectorStore {
       return {
         id: result.id,
         vector: result.vector,
+        model: result.embeddingModel,
         metadata: {
           content: result.content,
           type: result.type,
@@ -340,6 +379,46 @@ export class LanceDBVectorStore implements IVectorStore {
     }
   }
 
+  /**
+   * Vector length expected by the memories table
+   */
+  getVectorDimensions(): number {
+    return this.vectorDimensions
+  }
+
+  private assertVectorDimensions(vector: number[]): void {
+    if (vector.length !== this.vectorDimensions) {
+      throw new VectorDimensionMismatchError(this.vectorDimensions, vector.length)
+    }
+  }
+
+  /**
+   * Read the vector column size from an existing table's schema
+   */
+  private async detectVectorDimensions(table: Table): Promise<number> {
+    try {
+      const schema = await table.schema()
+      const vectorField = schema.fields.find(field => field.name === 'vector')
+      const listSize = (vectorField?.type as { listSize?: number } | undefined)?.listSize
+      if (listSize && listSize > 0) {
+        return listSize
+      }
+    } catch (error) {
+      console.warn('Could not read vector dimensions from table schema:', error)
+    }
+    return DEFAULT_VECTOR_DIMENSIONS
+  }
+
+  /**
+   * Vectors stored before their model was recorded are taken to be Titan's
+   */
+  private async addEmbeddingModelColumn(table: Table): Promise<void> {
+    const schema = await table.schema()
+    if (!schema.fields.some(field => field.name === 'embeddingModel')) {
+      await table.addColumns([{ name: 'embeddingModel', valueSql: `'${DEFAULT_EMBEDDING_CONFIG.model}'` }])
+    }
+  }
+
   /**
    * Cleanup and close connections
    */
@@ -0,0 +1,62 @@
+/**
+ * Task Hierarchy IPC Handlers
+ *
+ * Serves each project's Epic → Story → Task tree to the renderer's tree view
+ * and pushes it again whenever approved plan changes are applied.
+ */
+
+import { BrowserWindow, app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { TaskHierarchyService, TaskHierarchyUpdate, createTaskHierarchyService } from './TaskHierarchyService'
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class TaskHierarchyIPCHandlers {
+  private readonly taskHierarchyService: TaskHierarchyService
+  private readonly onHierarchyUpdated = (update: TaskHierarchyUpdate) => {
+    this.sendToRenderer('tasks:hierarchy-updated', update)
+  }
+
+  constructor() {
+    this.taskHierarchyService = createTaskHierarchyService({
+      storagePath: path.join(app.getPath('userData'), 'app-data', 'task-hierarchy')
+    })
+  }
+
+  async initialize(): Promise<void> {
+    this.registerHandlers()
+    this.taskHierarchyService.on('hierarchy-updated', this.onHierarchyUpdated)
+    console.log('Task hierarchy IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.taskHierarchyService.off('hierarchy-updated', this.onHierarchyUpdated)
+    await this.taskHierarchyService.flush()
+    ipcMain.removeHandler('tasks:hierarchy')
+  }
+
+  getTaskHierarchyService(): TaskHierarchyService {
+    return this.taskHierarchyService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('tasks:hierarchy', async (_event, projectId: unknown) => {
+      return this.taskHierarchyService.getHierarchy(z.string().min(1).parse(projectId))
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Task Hierarchy Service
+ *
+ * Stores each project's Epic → Story → Task tree on disk and keeps the part
+ * created from the Producer's project plan in step with it. A plan revision
+ * is first turned into a preview of changes for the user to review; only the
+ * changes that are approved are applied.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { z } from 'zod'
+import type { ProjectPlan } from '../agents/personas/Producer'
+import { DomainError, Err, Ok, Result, ValidationError } from '@/shared/contracts/common'
+import { Epic, PlanSyncChange, PlanSyncPreview, TaskHierarchy } from '@/shared/types/tasks'
+import { applyPlanSyncChanges, diffPlanAgainstHierarchy } from './planSync'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TaskHierarchyServiceConfig {
+  /**
+   * Directory holding one file per project; kept in memory only when omitted
+   */
+  readonly storagePath?: string
+  /**
+   * Project that plans of messages without one are synced into
+   */
+  readonly defaultProjectId: string
+}
+
+export interface TaskHierarchyUpdate {
+  readonly projectId: string
+  readonly hierarchy: TaskHierarchy
+}
+
+interface TaskHierarchyFile {
+  readonly version: number
+  readonly projectId: string
+  readonly epics: Epic[]
+}
+
+const HIERARCHY_FILE_VERSION = 1
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'completedAt']
+const CHILD_FIELDS = ['stories', 'tasks', 'subtasks']
+
+// Changes may have been edited by the user before they are applied
+const PlanSyncChangeSchema = z.object({
+  kind: z.enum(['create', 'update', 'remove']),
+  itemType: z.enum(['epic', 'story']),
+  itemId: z.string().min(1),
+  parentId: z.string().optional(),
+  previousParentId: z.string().optional(),
+  title: z.string(),
+  source: z.object({
+    planId: z.string(),
+    kind: z.enum(['phase', 'task']),
+    sourceId: z.string()
+  }),
+  fields: z.array(z.object({
+    field: z.enum(['title', 'description', 'status', 'priority', 'assignedAgent']),
+    before: z.string().optional(),
+    after: z.string().optional()
+  }))
+}).refine(change => change.itemType === 'epic' || change.parentId !== undefined, {
+  message: 'Story changes need the id of their epic'
+})
+
+// =============================================================================
+// Task Hierarchy Service Implementation
+// =============================================================================
+
+export class TaskHierarchyService extends EventEmitter {
+  private readonly config: TaskHierarchyServiceConfig
+  private readonly projects = new Map<string, Epic[]>()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(config: TaskHierarchyServiceConfig) {
+    super()
+    this.config = config
+  }
+
+  async getEpics(projectId: string): Promise<Epic[]> {
+    let epics = this.projects.get(projectId)
+    if (!epics) {
+      epics = await this.readProject(projectId)
+      // Another caller may have loaded or changed the project meanwhile
+      epics = this.projects.get(projectId) ?? epics
+      this.projects.set(projectId, epics)
+    }
+    return epics
+  }
+
+  async getHierarchy(projectId: string): Promise<TaskHierarchy> {
+    return summarizeHierarchy(await this.getEpics(projectId))
+  }
+
+  /**
+   * Changes that would bring the project's tree in line with the plan, without applying them
+   */
+  async previewPlanSync(projectId: string | undefined, plan: ProjectPlan): Promise<PlanSyncPreview> {
+    const id = projectId ?? this.config.defaultProjectId
+    return {
+      projectId: id,
+      planId: plan.id,
+      planTitle: plan.title,
+      changes: diffPlanAgainstHierarchy(plan, await this.getEpics(id))
+    }
+  }
+
+  async applyPlanSync(projectId: string | undefined, changes: unknown): Promise<Result<TaskHierarchy, DomainError>> {
+    const id = projectId ?? this.config.defaultProjectId
+    if (!PROJECT_ID_PATTERN.test(id)) {
+      return Err(new ValidationError('task', `Invalid project id ${id}`))
+    }
+    const parsed = z.array(PlanSyncChangeSchema).safeParse(changes)
+    if (!parsed.success) {
+      return Err(new ValidationError('task', 'Invalid plan changes', parsed.error))
+    }
+
+    const epics = applyPlanSyncChanges(await this.getEpics(id), parsed.data as PlanSyncChange[], id)
+    this.projects.set(id, epics)
+    this.scheduleSave(id, epics)
+
+    const hierarchy = summarizeHierarchy(epics)
+    const update: TaskHierarchyUpdate = { projectId: id, hierarchy }
+    this.emit('hierarchy-updated', update)
+    return Ok(hierarchy)
+  }
+
+  /**
+   * Resolves once pending writes have been flushed to disk
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private async readProject(projectId: string): Promise<Epic[]> {
+    if (!this.config.storagePath || !PROJECT_ID_PATTERN.test(projectId)) {
+      return []
+    }
+
+    try {
+      const file = JSON.parse(await fs.readFile(this.projectFile(projectId), 'utf-8')) as TaskHierarchyFile
+      if (file.version !== HIERARCHY_FILE_VERSION) {
+        console.warn(`Ignoring task hierarchy for ${projectId} with unsupported version ${file.version}`)
+        return []
+      }
+      return file.epics.map(epic => reviveDates(epic) as Epic)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load task hierarchy for ${projectId}:`, error)
+      }
+      return []
+    }
+  }
+
+  private projectFile(projectId: string): string {
+    return path.join(this.config.storagePath!, `${projectId}.json`)
+  }
+
+  private scheduleSave(projectId: string, epics: Epic[]): void {
+    if (!this.config.storagePath) {
+      return
+    }
+
+    const file: TaskHierarchyFile = { version: HIERARCHY_FILE_VERSION, projectId, epics }
+    const content = JSON.stringify(file, null, 2)
+    this.saveQueue = this.saveQueue
+      .then(async () => {
+        await fs.mkdir(this.config.storagePath!, { recursive: true })
+        await fs.writeFile(this.projectFile(projectId), content)
+      })
+      .catch(error => console.error('Failed to save task hierarchy:', error))
+  }
+}
+
+function reviveDates(item: unknown): unknown {
+  if (typeof item !== 'object' || item === null) {
+    return item
+  }
+
+  const revived: Record<string, unknown> = { ...item }
+  for (const field of DATE_FIELDS) {
+    const value = revived[field]
+    if (typeof value === 'string') {
+      revived[field] = new Date(value)
+    }
+  }
+  for (const field of CHILD_FIELDS) {
+    const children = revived[field]
+    if (Array.isArray(children)) {
+      revived[field] = children.map(reviveDates)
+    }
+  }
+  return revived
+}
+
+function summarizeHierarchy(epics: Epic[]): TaskHierarchy {
+  const stories = epics.flatMap(epic => epic.stories)
+  const totalStoryPoints = stories.reduce((sum, story) => sum + (story.storyPoints ?? 0), 0)
+  const completedStoryPoints = stories
+    .filter(story => story.status === 'completed')
+    .reduce((sum, story) => sum + (story.storyPoints ?? 0), 0)
+
+  return {
+    epics,
+    totalStoryPoints,
+    completedStoryPoints,
+    progressPercentage: totalStoryPoints > 0 ? Math.round((completedStoryPoints / totalStoryPoints) * 100) : 0
+  }
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_TASK_HIERARCHY_CONFIG: TaskHierarchyServiceConfig = {
+  defaultProjectId: 'default'
+}
+
+export function createTaskHierarchyService(config?: Partial<TaskHierarchyServiceConfig>): TaskHierarchyService {
+  return new TaskHierarchyService({ ...DEFAULT_TASK_HIERARCHY_CONFIG, ...config })
+}
+
+export default TaskHierarchyService
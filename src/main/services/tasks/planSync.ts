@@ -0,0 +1,319 @@
+/**
+ * Plan Synchronization
+ *
+ * Maps the Producer's project plan onto the Epic → Story hierarchy: every
+ * phase becomes an epic and every task in it a story. Items remember the plan
+ * phase or task they came from, so a revised plan updates them in place rather
+ * than adding duplicates, and a task that moved to another phase moves its
+ * story along with the tasks under it. Only fields the plan owns are compared,
+ * and only while the user has not changed them since they were last synced;
+ * anything the user added to an item, such as acceptance criteria, is left alone.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import type { ProjectPhase, ProjectPlan, ProjectTask } from '../agents/personas/Producer'
+import {
+  Epic,
+  PlanItemSource,
+  PlanSyncChange,
+  PlanSyncField,
+  PlanSyncFieldChange,
+  PlanSyncedFields,
+  Story,
+  TaskPriority,
+  TaskStatus
+} from '@/shared/types/tasks'
+
+// =============================================================================
+// Field Mapping
+// =============================================================================
+
+const SYNCED_FIELDS: PlanSyncField[] = ['title', 'description', 'status', 'priority', 'assignedAgent']
+
+const PHASE_STATUS: Record<ProjectPhase['status'], TaskStatus> = {
+  planned: 'not-started',
+  active: 'in-progress',
+  completed: 'completed',
+  blocked: 'blocked'
+}
+
+const TASK_STATUS: Record<ProjectTask['status'], TaskStatus> = {
+  pending: 'not-started',
+  in_progress: 'in-progress',
+  completed: 'completed',
+  blocked: 'blocked'
+}
+
+const TASK_PRIORITY: Record<ProjectTask['priority'], TaskPriority> = {
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  urgent: 'critical'
+}
+
+function phaseFields(phase: ProjectPhase): PlanSyncedFields {
+  return {
+    title: phase.name,
+    description: phase.description,
+    status: PHASE_STATUS[phase.status] ?? 'not-started'
+  }
+}
+
+function taskFields(task: ProjectTask): PlanSyncedFields {
+  return {
+    title: task.title,
+    description: task.description,
+    status: TASK_STATUS[task.status] ?? 'not-started',
+    priority: TASK_PRIORITY[task.priority] ?? 'medium',
+    assignedAgent: task.assignedAgent
+  }
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+/**
+ * Changes that bring the plan-created items of a project in line with `plan`.
+ * Items the user created by hand are never touched.
+ */
+export function diffPlanAgainstHierarchy(plan: ProjectPlan, epics: Epic[]): PlanSyncChange[] {
+  const changes: PlanSyncChange[] = []
+  const planEpics = epics.filter(epic => epic.planSource)
+  // Stories are matched across epics so that one whose task moved phase is found
+  const storyEpics = new Map(planEpics.flatMap(epic =>
+    epic.stories.filter(story => story.planSource).map(story => [story.id, epic.id] as const)))
+  const planStories = planEpics.flatMap(epic => epic.stories.filter(story => story.planSource))
+  const matched = new Set<string>()
+
+  for (const phase of plan.phases) {
+    const source: PlanItemSource = { planId: plan.id, kind: 'phase', sourceId: phase.id }
+    const epic = findSyncedItem(planEpics, source, phase.name, matched)
+    const epicId = epic?.id ?? uuidv4()
+    addChange(changes, { itemType: 'epic', itemId: epicId, source }, epic, phaseFields(phase))
+
+    // A story of this phase's epic wins a match by title over one elsewhere
+    const candidates = [
+      ...planStories.filter(story => storyEpics.get(story.id) === epicId),
+      ...planStories.filter(story => storyEpics.get(story.id) !== epicId)
+    ]
+    for (const task of phase.tasks) {
+      const taskSource: PlanItemSource = { planId: plan.id, kind: 'task', sourceId: task.id }
+      const story = findSyncedItem(candidates, taskSource, task.title, matched)
+      const previousParentId = story && storyEpics.get(story.id) !== epicId ? storyEpics.get(story.id) : undefined
+      addChange(
+        changes,
+        { itemType: 'story', itemId: story?.id ?? uuidv4(), parentId: epicId, previousParentId, source: taskSource },
+        story,
+        taskFields(task)
+      )
+    }
+  }
+
+  for (const story of planStories.filter(story => !matched.has(story.id))) {
+    changes.push(removal('story', story, storyEpics.get(story.id)))
+  }
+  for (const epic of planEpics.filter(epic => !matched.has(epic.id))) {
+    changes.push(removal('epic', epic))
+  }
+
+  return changes
+}
+
+/**
+ * The item created from `source`, or failing that one with the same title,
+ * which is how a plan that was recreated with new ids is recognised
+ */
+function findSyncedItem<T extends Epic | Story>(
+  items: T[],
+  source: PlanItemSource,
+  title: string,
+  matched: Set<string>
+): T | undefined {
+  const available = items.filter(item => !matched.has(item.id))
+  const item = available.find(candidate =>
+    candidate.planSource?.planId === source.planId && candidate.planSource.sourceId === source.sourceId
+  ) ?? available.find(candidate => candidate.title.trim().toLowerCase() === title.trim().toLowerCase())
+
+  if (item) {
+    matched.add(item.id)
+  }
+  return item
+}
+
+function addChange(
+  changes: PlanSyncChange[],
+  target: Pick<PlanSyncChange, 'itemType' | 'itemId' | 'parentId' | 'previousParentId' | 'source'>,
+  existing: Epic | Story | undefined,
+  fields: PlanSyncedFields
+): void {
+  const fieldChanges: PlanSyncFieldChange[] = SYNCED_FIELDS
+    .filter(field => fields[field] !== undefined && fields[field] !== existing?.[field])
+    .filter(field => !existing || !isEditedByUser(existing, field))
+    .map(field => ({ field, before: existing?.[field], after: fields[field] }))
+
+  const sourceChanged = existing && (
+    existing.planSource?.planId !== target.source.planId || existing.planSource.sourceId !== target.source.sourceId
+  )
+  if (existing && fieldChanges.length === 0 && !sourceChanged && !target.previousParentId) {
+    return
+  }
+
+  changes.push({
+    ...target,
+    kind: existing ? 'update' : 'create',
+    title: fields.title ?? existing?.title ?? '',
+    fields: fieldChanges
+  })
+}
+
+/**
+ * Whether the user changed a field since it was last synced. Items synced
+ * before the synced values were recorded leave every field to the plan.
+ */
+function isEditedByUser(item: Epic | Story, field: PlanSyncField): boolean {
+  return item.planFields !== undefined && item.planFields[field] !== item[field]
+}
+
+function removal(itemType: PlanSyncChange['itemType'], item: Epic | Story, parentId?: string): PlanSyncChange {
+  return {
+    kind: 'remove',
+    itemType,
+    itemId: item.id,
+    parentId,
+    title: item.title,
+    source: item.planSource!,
+    fields: []
+  }
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/**
+ * Apply changes from diffPlanAgainstHierarchy. Changes whose item or parent
+ * no longer exists are skipped, so a preview that has gone stale is safe to apply.
+ */
+export function applyPlanSyncChanges(
+  epics: Epic[],
+  changes: PlanSyncChange[],
+  projectId: string,
+  now: Date = new Date()
+): Epic[] {
+  let result = [...epics]
+
+  for (const change of changes) {
+    if (change.itemType === 'epic') {
+      result = applyEpicChange(result, change, projectId, now)
+      continue
+    }
+    if (change.kind === 'update' && change.previousParentId && change.previousParentId !== change.parentId) {
+      result = moveStory(result, change, now)
+      continue
+    }
+
+    result = result.map(epic => epic.id === change.parentId
+      ? { ...epic, stories: applyStoryChange(epic.stories, change, epic, now), updatedAt: now }
+      : epic)
+  }
+
+  return result
+}
+
+function applyEpicChange(epics: Epic[], change: PlanSyncChange, projectId: string, now: Date): Epic[] {
+  switch (change.kind) {
+    case 'create':
+      if (epics.some(epic => epic.id === change.itemId)) {
+        return epics
+      }
+      return [...epics, withFields<Epic>({
+        id: change.itemId,
+        title: change.title,
+        description: '',
+        type: 'epic',
+        status: 'not-started',
+        priority: 'medium',
+        createdAt: now,
+        updatedAt: now,
+        projectId,
+        planSource: change.source,
+        stories: [],
+        businessValue: '',
+        acceptanceCriteria: []
+      }, change, now)]
+    case 'update':
+      return epics.map(epic => epic.id === change.itemId
+        ? withFields({ ...epic, planSource: change.source, updatedAt: now }, change, now)
+        : epic)
+    case 'remove':
+      return epics.filter(epic => epic.id !== change.itemId)
+  }
+}
+
+function applyStoryChange(stories: Story[], change: PlanSyncChange, epic: Epic, now: Date): Story[] {
+  switch (change.kind) {
+    case 'create':
+      if (stories.some(story => story.id === change.itemId)) {
+        return stories
+      }
+      return [...stories, withFields<Story>({
+        id: change.itemId,
+        title: change.title,
+        description: '',
+        type: 'story',
+        status: 'not-started',
+        priority: 'medium',
+        createdAt: now,
+        updatedAt: now,
+        projectId: epic.projectId,
+        planSource: change.source,
+        tasks: [],
+        epicId: epic.id,
+        acceptanceCriteria: [],
+        userStory: ''
+      }, change, now)]
+    case 'update':
+      return stories.map(story => story.id === change.itemId
+        ? withFields({ ...story, planSource: change.source, updatedAt: now }, change, now)
+        : story)
+    case 'remove':
+      return stories.filter(story => story.id !== change.itemId)
+  }
+}
+
+/**
+ * Moves a story, with the tasks under it, to the epic of its new phase
+ */
+function moveStory(epics: Epic[], change: PlanSyncChange, now: Date): Epic[] {
+  const story = epics.find(epic => epic.id === change.previousParentId)?.stories.find(item => item.id === change.itemId)
+  const target = epics.find(epic => epic.id === change.parentId)
+  if (!story || !target) {
+    return epics
+  }
+
+  const moved = withFields({ ...story, epicId: target.id, planSource: change.source, updatedAt: now }, change, now)
+  return epics.map(epic => {
+    if (epic.id === change.previousParentId) {
+      return { ...epic, stories: epic.stories.filter(item => item.id !== story.id), updatedAt: now }
+    }
+    return epic.id === target.id ? { ...epic, stories: [...epic.stories, moved], updatedAt: now } : epic
+  })
+}
+
+function withFields<T extends Epic | Story>(item: T, change: PlanSyncChange, now: Date): T {
+  // What the plan last set, so that fields the user changes later can be told apart
+  const planFields: PlanSyncedFields = {
+    ...(item.planFields ?? Object.fromEntries(SYNCED_FIELDS.map(field => [field, item[field]])))
+  }
+  const updated: Record<string, unknown> = { ...item }
+  for (const { field, after } of change.fields) {
+    updated[field] = after
+    planFields[field] = after
+  }
+  updated.planFields = planFields
+  if (updated.status === 'completed' && item.status !== 'completed') {
+    updated.completedAt = now
+  }
+  return updated as T
+}
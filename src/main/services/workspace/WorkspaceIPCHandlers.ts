@@ -0,0 +1,81 @@
+/**
+ * Workspace IPC Handlers
+ *
+ * Lets the renderer review the change sets agents propose. They are applied
+ * or rejected only through the action approval queue, which records the
+ * decision, and approving is the only way agent-written files reach disk.
+ */
+
+import { BrowserWindow, app, ipcMain } from 'electron'
+import * as path from 'path'
+import { z } from 'zod'
+import { ChangeSet } from '@/shared/contracts/AgentDomain'
+import { WorkspaceService, createWorkspaceService } from './WorkspaceService'
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const ChangeSetFilterSchema = z.object({
+  projectId: z.string().optional(),
+  status: z.enum(['pending', 'applied', 'rejected']).optional()
+})
+
+// =============================================================================
+// IPC Handler Implementation
+// =============================================================================
+
+export class WorkspaceIPCHandlers {
+  private readonly workspaceService: WorkspaceService
+  private readonly onChangeSetUpdated = (changeSet: ChangeSet) => {
+    this.sendToRenderer('workspace:change-set-updated', changeSet)
+  }
+
+  constructor() {
+    this.workspaceService = createWorkspaceService(path.join(app.getPath('userData'), 'workspaces'))
+  }
+
+  async initialize(): Promise<void> {
+    this.registerHandlers()
+    this.workspaceService.on('change-set-updated', this.onChangeSetUpdated)
+    console.log('Workspace IPC handlers initialized successfully')
+  }
+
+  async cleanup(): Promise<void> {
+    this.workspaceService.off('change-set-updated', this.onChangeSetUpdated)
+
+    const handlers = [
+      'workspace:change-set:get',
+      'workspace:change-set:list'
+    ]
+    handlers.forEach(handler => {
+      ipcMain.removeHandler(handler)
+    })
+  }
+
+  getWorkspaceService(): WorkspaceService {
+    return this.workspaceService
+  }
+
+  // =============================================================================
+  // IPC Handler Registration
+  // =============================================================================
+
+  private registerHandlers(): void {
+    ipcMain.handle('workspace:change-set:get', async (_event, id: unknown) => {
+      return this.workspaceService.getChangeSet(z.string().parse(id)) ?? null
+    })
+
+    ipcMain.handle('workspace:change-set:list', async (_event, filter: unknown) => {
+      return this.workspaceService.listChangeSets(ChangeSetFilterSchema.parse(filter ?? {}))
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: unknown): void {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, payload)
+      }
+    })
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * Workspace Service
+ *
+ * Owns the files agents write for a project. Agents never write directly:
+ * they propose a change set with a diff preview per file, and the files are
+ * written only once the user approves it. Every path is resolved against the
+ * project root, including through symbolic links, and anything that would
+ * land outside it is refused.
+ */
+
+import { EventEmitter } from 'events'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentRole, ChangeSet, ChangeSetFile, ChangeSetStatus, PathOutsideProjectError } from '@/shared/contracts/AgentDomain'
+import {
+  BusinessRuleViolationError,
+  DomainError,
+  EntityNotFoundError,
+  Err,
+  GenericDomainError,
+  Ok,
+  Result,
+  ValidationError
+} from '@/shared/contracts/common'
+import { createUnifiedDiff } from './unifiedDiff'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ProposedFile {
+  /**
+   * Relative to the project root
+   */
+  readonly path: string
+  readonly content: string
+}
+
+export interface ChangeSetProposal {
+  readonly projectId?: string
+  readonly agentType: AgentRole
+  readonly title: string
+  readonly description: string
+  readonly files: ProposedFile[]
+}
+
+export interface WorkspaceEntry {
+  readonly name: string
+  /**
+   * Relative to the project root
+   */
+  readonly path: string
+  readonly type: 'file' | 'directory'
+}
+
+export interface ChangeSetFilter {
+  readonly projectId?: string
+  readonly status?: ChangeSetStatus
+}
+
+export interface WorkspaceServiceConfig {
+  /**
+   * Directory holding one workspace per project, at `<workspacesPath>/<projectId>`
+   */
+  readonly workspacesPath: string
+  /**
+   * Workspace used for messages that are not tied to a project
+   */
+  readonly defaultProjectId: string
+  readonly maxFileBytes: number
+  readonly maxFilesPerChangeSet: number
+}
+
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+// =============================================================================
+// Workspace Service
+// =============================================================================
+
+export class WorkspaceService extends EventEmitter {
+  private readonly changeSets = new Map<string, ChangeSet>()
+  // File contents when each change set was proposed, undefined for new files,
+  // so that applying can detect edits made in the meantime
+  private readonly baselines = new Map<string, Map<string, string | undefined>>()
+
+  constructor(private readonly config: WorkspaceServiceConfig) {
+    super()
+  }
+
+  getProjectRoot(projectId?: string): Result<string, ValidationError> {
+    const id = projectId ?? this.config.defaultProjectId
+    if (!PROJECT_ID_PATTERN.test(id)) {
+      return Err(new ValidationError('workspace', `Invalid project id ${id}`))
+    }
+    return Ok(path.join(path.resolve(this.config.workspacesPath), id))
+  }
+
+  /**
+   * Resolve a project-relative path, refusing absolute paths and anything that escapes the root
+   */
+  resolvePath(projectId: string | undefined, filePath: string): Result<string, DomainError> {
+    const root = this.getProjectRoot(projectId)
+    if (!root.success) {
+      return root
+    }
+    if (!filePath.trim() || path.isAbsolute(filePath) || path.win32.isAbsolute(filePath)) {
+      return Err(new PathOutsideProjectError(filePath))
+    }
+
+    const resolved = path.resolve(root.data, filePath)
+    if (!isInside(root.data, resolved)) {
+      return Err(new PathOutsideProjectError(filePath))
+    }
+    return Ok(resolved)
+  }
+
+  /**
+   * Current content of a project file, or undefined when it does not exist
+   */
+  async readFile(projectId: string | undefined, filePath: string): Promise<Result<string | undefined, DomainError>> {
+    const resolved = this.resolvePath(projectId, filePath)
+    if (!resolved.success) {
+      return resolved
+    }
+
+    try {
+      await this.assertNoSymlinkEscape(projectId, filePath, resolved.data)
+      return Ok(await fs.readFile(resolved.data, 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Ok(undefined)
+      }
+      if (error instanceof DomainError) {
+        return Err(error)
+      }
+      return Err(new GenericDomainError('READ_FAILED', 'workspace', `Failed to read ${filePath}`, error as Error))
+    }
+  }
+
+  /**
+   * Files and directories in a project directory, the root when `dirPath` is
+   * empty. Symbolic links are left out so that walking the tree stays inside the project.
+   */
+  async listDirectory(projectId: string | undefined, dirPath = ''): Promise<Result<WorkspaceEntry[], DomainError>> {
+    const relativeDir = normalizePath(dirPath.trim() || '.').replace(/\/+$/, '').replace(/^\.$/, '')
+    const resolved = relativeDir ? this.resolvePath(projectId, relativeDir) : this.getProjectRoot(projectId)
+    if (!resolved.success) {
+      return resolved
+    }
+
+    try {
+      if (relativeDir) {
+        await this.assertNoSymlinkEscape(projectId, relativeDir, resolved.data)
+      }
+      const entries = await fs.readdir(resolved.data, { withFileTypes: true })
+      return Ok(entries
+        .filter(entry => entry.isFile() || entry.isDirectory())
+        .map((entry): WorkspaceEntry => ({
+          name: entry.name,
+          path: relativeDir ? `${relativeDir}/${entry.name}` : entry.name,
+          type: entry.isDirectory() ? 'directory' : 'file'
+        }))
+        .sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Err(new EntityNotFoundError('workspace', relativeDir || '.'))
+      }
+      if (error instanceof DomainError) {
+        return Err(error)
+      }
+      return Err(new GenericDomainError('LIST_FAILED', 'workspace', `Failed to list ${relativeDir || 'the project root'}`, error as Error))
+    }
+  }
+
+  // =============================================================================
+  // Change Sets
+  // =============================================================================
+
+  async proposeChangeSet(proposal: ChangeSetProposal): Promise<Result<ChangeSet, DomainError>> {
+    const validation = this.validateProposal(proposal)
+    if (!validation.success) {
+      return validation
+    }
+
+    const files: ChangeSetFile[] = []
+    const baseline = new Map<string, string | undefined>()
+
+    for (const file of proposal.files) {
+      const current = await this.readFile(proposal.projectId, file.path)
+      if (!current.success) {
+        return current
+      }
+      if (current.data === file.content) {
+        continue
+      }
+
+      const relativePath = normalizePath(file.path)
+      const diff = createUnifiedDiff(relativePath, current.data, file.content)
+      files.push({
+        path: relativePath,
+        operation: current.data === undefined ? 'create' : 'modify',
+        content: file.content,
+        diff: diff.text,
+        additions: diff.additions,
+        deletions: diff.deletions
+      })
+      baseline.set(relativePath, current.data)
+    }
+
+    if (files.length === 0) {
+      return Err(new ValidationError('workspace', 'The proposed files match what is already on disk'))
+    }
+
+    const changeSet: ChangeSet = {
+      id: uuidv4(),
+      projectId: proposal.projectId,
+      agentType: proposal.agentType,
+      title: proposal.title,
+      description: proposal.description,
+      files,
+      status: 'pending',
+      createdAt: new Date()
+    }
+
+    this.changeSets.set(changeSet.id, changeSet)
+    this.baselines.set(changeSet.id, baseline)
+    this.emit('change-set-updated', changeSet)
+    return Ok(changeSet)
+  }
+
+  getChangeSet(id: string): ChangeSet | undefined {
+    return this.changeSets.get(id)
+  }
+
+  listChangeSets(filter: ChangeSetFilter = {}): ChangeSet[] {
+    return Array.from(this.changeSets.values())
+      .filter(changeSet => filter.projectId === undefined || changeSet.projectId === filter.projectId)
+      .filter(changeSet => filter.status === undefined || changeSet.status === filter.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  /**
+   * Write an approved change set. Nothing is written when any file was
+   * edited on disk after the change set was proposed.
+   */
+  async applyChangeSet(id: string): Promise<Result<ChangeSet, DomainError>> {
+    const changeSet = this.changeSets.get(id)
+    if (!changeSet) {
+      return Err(new EntityNotFoundError('change set', id))
+    }
+    if (changeSet.status !== 'pending') {
+      return Err(new BusinessRuleViolationError('workspace', `Change set ${id} is already ${changeSet.status}`))
+    }
+
+    const baseline = this.baselines.get(id) ?? new Map<string, string | undefined>()
+    const conflicts: string[] = []
+    for (const file of changeSet.files) {
+      const current = await this.readFile(changeSet.projectId, file.path)
+      if (!current.success) {
+        return this.failApply(changeSet, current.error)
+      }
+      if (current.data !== baseline.get(file.path)) {
+        conflicts.push(file.path)
+      }
+    }
+    if (conflicts.length > 0) {
+      return this.failApply(changeSet, new BusinessRuleViolationError(
+        'workspace',
+        `Files changed on disk since the change set was proposed: ${conflicts.join(', ')}`
+      ))
+    }
+
+    try {
+      for (const file of changeSet.files) {
+        const resolved = this.resolvePath(changeSet.projectId, file.path)
+        if (!resolved.success) {
+          return this.failApply(changeSet, resolved.error)
+        }
+        await this.assertNoSymlinkEscape(changeSet.projectId, file.path, resolved.data)
+        await fs.mkdir(path.dirname(resolved.data), { recursive: true })
+        await fs.writeFile(resolved.data, file.content, 'utf-8')
+      }
+    } catch (error) {
+      return this.failApply(changeSet, error instanceof DomainError
+        ? error
+        : new GenericDomainError('APPLY_FAILED', 'workspace', `Failed to apply change set ${id}`, error as Error))
+    }
+
+    return Ok(this.resolve(changeSet, 'applied'))
+  }
+
+  rejectChangeSet(id: string): Result<ChangeSet, DomainError> {
+    const changeSet = this.changeSets.get(id)
+    if (!changeSet) {
+      return Err(new EntityNotFoundError('change set', id))
+    }
+    if (changeSet.status !== 'pending') {
+      return Err(new BusinessRuleViolationError('workspace', `Change set ${id} is already ${changeSet.status}`))
+    }
+    return Ok(this.resolve(changeSet, 'rejected'))
+  }
+
+  // =============================================================================
+  // Private Implementation
+  // =============================================================================
+
+  private validateProposal(proposal: ChangeSetProposal): Result<void, DomainError> {
+    if (proposal.files.length === 0) {
+      return Err(new ValidationError('workspace', 'A change set needs at least one file'))
+    }
+    if (proposal.files.length > this.config.maxFilesPerChangeSet) {
+      return Err(new ValidationError('workspace', `A change set may contain at most ${this.config.maxFilesPerChangeSet} files`))
+    }
+
+    const seen = new Set<string>()
+    for (const file of proposal.files) {
+      const resolved = this.resolvePath(proposal.projectId, file.path)
+      if (!resolved.success) {
+        return resolved
+      }
+      if (seen.has(resolved.data)) {
+        return Err(new ValidationError('workspace', `${file.path} appears more than once`))
+      }
+      if (Buffer.byteLength(file.content, 'utf-8') > this.config.maxFileBytes) {
+        return Err(new ValidationError('workspace', `${file.path} exceeds ${this.config.maxFileBytes} bytes`))
+      }
+      seen.add(resolved.data)
+    }
+    return Ok(undefined)
+  }
+
+  /**
+   * Refuse paths whose nearest existing ancestor is a symbolic link out of the project root
+   */
+  private async assertNoSymlinkEscape(projectId: string | undefined, filePath: string, resolved: string): Promise<void> {
+    const root = this.getProjectRoot(projectId)
+    if (!root.success) {
+      throw root.error
+    }
+
+    let realRoot: string
+    try {
+      realRoot = await fs.realpath(root.data)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return
+      }
+      throw error
+    }
+
+    let existing = resolved
+    for (;;) {
+      try {
+        const real = await fs.realpath(existing)
+        if (!isInside(realRoot, real) && real !== realRoot) {
+          throw new PathOutsideProjectError(filePath)
+        }
+        return
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || existing === root.data) {
+          throw error
+        }
+        existing = path.dirname(existing)
+      }
+    }
+  }
+
+  private failApply(changeSet: ChangeSet, error: DomainError): Result<ChangeSet, DomainError> {
+    const failed: ChangeSet = { ...changeSet, error: error.message }
+    this.changeSets.set(changeSet.id, failed)
+    this.emit('change-set-updated', failed)
+    return Err(error)
+  }
+
+  private resolve(changeSet: ChangeSet, status: ChangeSetStatus): ChangeSet {
+    const { error: _error, ...rest } = changeSet
+    const resolved: ChangeSet = { ...rest, status, resolvedAt: new Date() }
+    this.changeSets.set(changeSet.id, resolved)
+    this.baselines.delete(changeSet.id)
+    this.emit('change-set-updated', resolved)
+    return resolved
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '')
+}
+
+// =============================================================================
+// Configuration and Factory
+// =============================================================================
+
+export const DEFAULT_WORKSPACE_SERVICE_CONFIG: Omit<WorkspaceServiceConfig, 'workspacesPath'> = {
+  defaultProjectId: 'default',
+  maxFileBytes: 1024 * 1024,
+  maxFilesPerChangeSet: 50
+}
+
+export function createWorkspaceService(
+  workspacesPath: string,
+  config?: Partial<Omit<WorkspaceServiceConfig, 'workspacesPath'>>
+): WorkspaceService {
+  return new WorkspaceService({ ...DEFAULT_WORKSPACE_SERVICE_CONFIG, ...config, workspacesPath })
+}
+
+export default WorkspaceService
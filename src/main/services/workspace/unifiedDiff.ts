@@ -0,0 +1,169 @@
+/**
+ * Unified Diff
+ *
+ * Line-based unified diffs for previewing file changes before they are
+ * written. Lines are matched with a longest common subsequence once the
+ * common prefix and suffix are trimmed; very large changes fall back to
+ * replacing the changed region wholesale.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UnifiedDiff {
+  readonly text: string
+  readonly additions: number
+  readonly deletions: number
+}
+
+interface DiffLine {
+  readonly type: ' ' | '-' | '+'
+  readonly line: string
+}
+
+const DEFAULT_CONTEXT_LINES = 3
+// Keeps the LCS table within a few megabytes
+const MAX_LCS_CELLS = 4_000_000
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Diff `before` against `after`; an undefined `before` is a new file
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | undefined,
+  after: string,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): UnifiedDiff {
+  const lines = diffLines(splitLines(before ?? ''), splitLines(after))
+  const additions = lines.filter(line => line.type === '+').length
+  const deletions = lines.filter(line => line.type === '-').length
+
+  const header = [
+    before === undefined ? '--- /dev/null' : `--- a/${filePath}`,
+    `+++ b/${filePath}`
+  ]
+  const hunks = buildHunks(lines, contextLines)
+
+  return {
+    text: hunks.length > 0 ? [...header, ...hunks].join('\n') : '',
+    additions,
+    deletions
+  }
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return []
+  }
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n')
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++
+  }
+
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const removed = before.slice(start, endBefore)
+  const added = after.slice(start, endAfter)
+  const middle = removed.length * added.length > MAX_LCS_CELLS
+    ? [...removed.map(line => ({ type: '-' as const, line })), ...added.map(line => ({ type: '+' as const, line }))]
+    : diffByLCS(removed, added)
+
+  return [
+    ...before.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...before.slice(endBefore).map(line => ({ type: ' ' as const, line }))
+  ]
+}
+
+function diffByLCS(before: string[], after: string[]): DiffLine[] {
+  const width = after.length + 1
+  const lengths = new Uint32Array((before.length + 1) * width)
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ type: ' ', line: before[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: '-', line: before[i++] })
+    } else {
+      result.push({ type: '+', line: after[j++] })
+    }
+  }
+  while (i < before.length) {
+    result.push({ type: '-', line: before[i++] })
+  }
+  while (j < after.length) {
+    result.push({ type: '+', line: after[j++] })
+  }
+  return result
+}
+
+// =============================================================================
+// Hunks
+// =============================================================================
+
+function buildHunks(lines: DiffLine[], contextLines: number): string[] {
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter(index => index >= 0)
+  if (changed.length === 0) {
+    return []
+  }
+
+  // Changes closer together than twice the context share a hunk
+  const groups: Array<[number, number]> = []
+  for (const index of changed) {
+    const last = groups[groups.length - 1]
+    if (last && index - last[1] <= contextLines * 2) {
+      last[1] = index
+    } else {
+      groups.push([index, index])
+    }
+  }
+
+  return groups.flatMap(([first, last]) => {
+    const start = Math.max(0, first - contextLines)
+    const end = Math.min(lines.length, last + contextLines + 1)
+    const preceding = lines.slice(0, start)
+    const body = lines.slice(start, end)
+
+    const oldBefore = preceding.filter(line => line.type !== '+').length
+    const newBefore = preceding.filter(line => line.type !== '-').length
+    const oldCount = body.filter(line => line.type !== '+').length
+    const newCount = body.filter(line => line.type !== '-').length
+    // An empty side is numbered after the line it follows, as in GNU diff
+    const oldStart = oldCount > 0 ? oldBefore + 1 : oldBefore
+    const newStart = newCount > 0 ? newBefore + 1 : newBefore
+
+    return [
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+      ...body.map(line => `${line.type}${line.line}`)
+    ]
+  })
+}
@@ -21,7 +21,35 @@ import type {
   UpdateMemoryInput
 } from '../shared/contracts/MemoryDomain'
 import type { PagedResult } from '../shared/contracts/common'
+import type {
+  AIConfigUpdate,
+  AIConfigView,
+  AIConnectionTestResult,
+  AIProviderName,
+  ActionApproval,
+  ActionApprovalFilter,
+  ActionApprovalRecord,
+  AgentRole,
+  AgentWorkSessionRecord,
+  AgentWorkSessionStatus,
+  ChangeSet,
+  ChangeSetStatus,
+  ClarificationAnswer,
+  ClarificationQuestion,
+  CustomPersonaDefinition,
+  IntentExampleRecord,
+  MessageQueueMetrics,
+  ProjectTokenBudget,
+  PromptTemplateOverride,
+  PromptTemplateSummary,
+  QueuedAgentMessage,
+  RoutingAccuracyReport,
+  TokenBudgetStatus,
+  TokenUsageQuery,
+  TokenUsageSummary
+} from '../shared/contracts/AgentDomain'
 import type { AgentStatus, AgentType } from '../shared/types/agents'
+import type { TaskHierarchy } from '../shared/types/tasks'
 
 // =============================================================================
 // Type Definitions
@@ -50,6 +78,11 @@ export interface ElectronAPI {
   addAgent: (agent: any) => Promise<void>
   saveAgentState: (state: any) => Promise<void>
   loadAgentState: () => Promise<any>
+  listCustomPersonas: () => Promise<CustomPersonaDefinition[]>
+  listWorkSessions: (filter?: { agentType?: AgentRole; projectId?: string; status?: AgentWorkSessionStatus }) => Promise<AgentWorkSessionRecord[]>
+  getMessageQueue: () => Promise<QueuedAgentMessage[]>
+  getMessageQueueMetrics: () => Promise<MessageQueueMetrics>
+  cancelAgentMessage: (request: { messageId: string }) => Promise<{ success: boolean }>
   
   // Chat management
   saveChatHistory: (history: any) => Promise<void>
@@ -67,6 +100,20 @@ export interface ElectronAPI {
   loadConversationContext: () => Promise<string[]>
   cleanupChatHistory: (olderThan: Date) => Promise<{ deletedCount: number; error?: string }>
   
+  // Clarification questions
+  listClarificationQuestions: (filter?: { projectId?: string }) => Promise<ClarificationQuestion[]>
+  answerClarificationQuestion: (answer: ClarificationAnswer) => Promise<{
+    success: boolean
+    question?: ClarificationQuestion
+    error?: string
+  }>
+  
+  // Message routing
+  listIntentExamples: (projectId: string) => Promise<IntentExampleRecord[]>
+  addIntentExample: (request: { projectId: string; intent: string; text: string }) => Promise<IntentExampleRecord>
+  removeIntentExample: (request: { projectId: string; exampleId: string }) => Promise<{ success: boolean }>
+  getRoutingAccuracy: (projectId?: string) => Promise<RoutingAccuracyReport>
+  
   // UI state management
   saveUIState: (state: any) => Promise<void>
   loadUIState: () => Promise<any>
@@ -94,14 +141,42 @@ export interface ElectronAPI {
   cleanupMemories: (criteria: MemoryCleanupCriteria) => Promise<{ cleanedCount: number }>
   checkMemoryHealth: () => Promise<{ healthy: boolean; timestamp: string }>    
   
+  // Token usage and budgets
+  getTokenUsageSummary: (query?: TokenUsageQuery) => Promise<TokenUsageSummary>
+  getTokenBudgetStatus: (projectId?: string) => Promise<TokenBudgetStatus>
+  setProjectTokenBudget: (budget: ProjectTokenBudget) => Promise<ProjectTokenBudget>
+  
+  // Prompt templates
+  listPromptTemplates: (projectId?: string) => Promise<PromptTemplateSummary[]>
+  setPromptTemplateOverride: (request: {
+    override: Omit<PromptTemplateOverride, 'updatedAt'>
+    projectId?: string
+  }) => Promise<PromptTemplateSummary>
+  removePromptTemplateOverride: (request: { templateId: string; projectId?: string }) => Promise<{ success: boolean }>
+  
+  // Workspace change sets
+  getChangeSet: (id: string) => Promise<ChangeSet | null>
+  listChangeSets: (filter?: { projectId?: string; status?: ChangeSetStatus }) => Promise<ChangeSet[]>
+  
+  // Action approvals
+  listApprovals: (filter?: ActionApprovalFilter) => Promise<ActionApproval[]>
+  getApproval: (id: string) => Promise<ActionApproval | null>
+  approveAction: (request: { id: string; parameters?: Record<string, unknown>; reason?: string }) => Promise<ActionApproval>
+  rejectAction: (request: { id: string; reason?: string }) => Promise<ActionApproval>
+  getApprovalDecisions: (filter?: { projectId?: string }) => Promise<ActionApprovalRecord[]>
+  
+  // Task hierarchy
+  getTaskHierarchy: (projectId: string) => Promise<TaskHierarchy>
+  
   // Git operations
   createCheckpoint: (projectId: string, message: string) => Promise<Checkpoint>
   getCheckpoints: (projectId: string) => Promise<Checkpoint[]>
   restoreCheckpoint: (projectId: string, checkpointId: string) => Promise<void>
   
   // Configuration
-  updateAIConfig: (config: AIConfig) => Promise<void>
-  getAIConfig: () => Promise<AIConfig>
+  updateAIConfig: (config: AIConfigUpdate) => Promise<AIConfigView>
+  getAIConfig: () => Promise<AIConfigView>
+  testAIConnection: (request?: { provider?: AIProviderName; config?: AIConfigUpdate }) => Promise<AIConnectionTestResult>
   
   // Event subscriptions
   on: (channel: string, callback: (...args: any[]) => void) => void
@@ -196,6 +271,11 @@ const electronAPI: ElectronAPI = {
   addAgent: createSafeInvoke('agent:add'),
   saveAgentState: createSafeInvoke('agent:save-state'),
   loadAgentState: createSafeInvoke('agent:load-state'),
+  listCustomPersonas: createSafeInvoke('agent:personas'),
+  listWorkSessions: createSafeInvoke('agent:work-sessions'),
+  getMessageQueue: createSafeInvoke('agent:queue:list'),
+  getMessageQueueMetrics: createSafeInvoke('agent:queue:metrics'),
+  cancelAgentMessage: createSafeInvoke('agent:queue:cancel'),
   
   // Chat management
   saveChatHistory: createSafeInvoke('chat:save-history'),
@@ -213,6 +293,16 @@ const electronAPI: ElectronAPI = {
   loadConversationContext: createSafeInvoke('chat:load-context'),
   cleanupChatHistory: createSafeInvoke('chat:cleanup'),
   
+  // Clarification questions
+  listClarificationQuestions: createSafeInvoke('chat:questions:list'),
+  answerClarificationQuestion: createSafeInvoke('chat:questions:answer'),
+  
+  // Message routing
+  listIntentExamples: createSafeInvoke('routing:examples:list'),
+  addIntentExample: createSafeInvoke('routing:examples:add'),
+  removeIntentExample: createSafeInvoke('routing:examples:remove'),
+  getRoutingAccuracy: createSafeInvoke('routing:accuracy'),
+  
   // UI state management
   saveUIState: createSafeInvoke('ui:save-state'),
   loadUIState: createSafeInvoke('ui:load-state'),
@@ -240,6 +330,30 @@ const electronAPI: ElectronAPI = {
   cleanupMemories: createSafeInvoke('memory:cleanup'),
   checkMemoryHealth: createSafeInvoke('memory:health'),
   
+  // Token usage and budgets
+  getTokenUsageSummary: createSafeInvoke('usage:summary'),
+  getTokenBudgetStatus: createSafeInvoke('usage:budget-status'),
+  setProjectTokenBudget: createSafeInvoke('usage:set-project-budget'),
+  
+  // Prompt templates
+  listPromptTemplates: createSafeInvoke('prompts:list'),
+  setPromptTemplateOverride: createSafeInvoke('prompts:set-override'),
+  removePromptTemplateOverride: createSafeInvoke('prompts:remove-override'),
+  
+  // Workspace change sets
+  getChangeSet: createSafeInvoke('workspace:change-set:get'),
+  listChangeSets: createSafeInvoke('workspace:change-set:list'),
+  
+  // Action approvals
+  listApprovals: createSafeInvoke('approvals:list'),
+  getApproval: createSafeInvoke('approvals:get'),
+  approveAction: createSafeInvoke('approvals:approve'),
+  rejectAction: createSafeInvoke('approvals:reject'),
+  getApprovalDecisions: createSafeInvoke('approvals:decisions'),
+  
+  // Task hierarchy
+  getTaskHierarchy: createSafeInvoke('tasks:hierarchy'),
+  
   // Git operations
   createCheckpoint: createSafeInvoke('git:checkpoint:create'),
   getCheckpoints: createSafeInvoke('git:checkpoint:list'),
@@ -248,6 +362,7 @@ const electronAPI: ElectronAPI = {
   // Configuration
   updateAIConfig: createSafeInvoke('config:ai:update'),
   getAIConfig: createSafeInvoke('config:ai:get'),
+  testAIConnection: createSafeInvoke('config:ai:test'),
   
   // Event subscriptions
   on,
@@ -329,8 +444,3 @@ interface Checkpoint {
   timestamp: Date
   files: string[]
 }
-
-interface AIConfig {
-  provider: string
-  [key: string]: any
-}
\ No newline at end of file
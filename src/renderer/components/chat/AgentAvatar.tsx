@@ -6,7 +6,7 @@
 
 import React from 'react'
 import { cn } from '@/renderer/utils/cn'
-import { AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import { AgentRole, AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
 
 // =============================================================================
 // Agent Avatar Configuration
@@ -49,6 +49,19 @@ export const AGENT_AVATAR_CONFIG: Record<AgentType, {
   }
 } as const
 
+/**
+ * Avatar settings for a built-in agent, or neutral ones for a custom persona
+ */
+const getAgentAvatarConfig = (type: AgentRole, avatar?: string) => {
+  return AGENT_AVATAR_CONFIG[type as AgentType] ?? {
+    emoji: avatar ?? '🤖',
+    name: type,
+    bgColor: 'bg-gray-100',
+    textColor: 'text-gray-800',
+    description: 'Custom persona'
+  }
+}
+
 const AGENT_STATUS_CONFIG: Record<AgentStatus, {
   label: string
   icon: string
@@ -98,7 +111,11 @@ const AGENT_STATUS_CONFIG: Record<AgentStatus, {
 // =============================================================================
 
 export interface AgentAvatarProps {
-  type: AgentType
+  type: AgentRole
+  /**
+   * Emoji of a custom persona; built-in agents have their own
+   */
+  avatar?: string
   status?: AgentStatus
   size?: 'sm' | 'md' | 'lg'
   showStatus?: boolean
@@ -114,6 +131,7 @@ export interface AgentAvatarProps {
 
 export const AgentAvatar: React.FC<AgentAvatarProps> = ({
   type,
+  avatar,
   status = AgentStatus.IDLE,
   size = 'md',
   showStatus = true,
@@ -122,7 +140,7 @@ export const AgentAvatar: React.FC<AgentAvatarProps> = ({
   className,
   onClick
 }) => {
-  const avatarConfig = AGENT_AVATAR_CONFIG[type]
+  const avatarConfig = getAgentAvatarConfig(type, avatar)
   const statusConfig = AGENT_STATUS_CONFIG[status]
 
   const sizeClasses = {
@@ -243,7 +261,7 @@ export const AgentStatusIndicator: React.FC<AgentStatusIndicatorProps> = ({
 // =============================================================================
 
 export interface TypingIndicatorProps {
-  agentType: AgentType
+  agentType: AgentRole
   className?: string
 }
 
@@ -251,7 +269,7 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({
   agentType,
   className
 }) => {
-  const avatarConfig = AGENT_AVATAR_CONFIG[agentType]
+  const avatarConfig = getAgentAvatarConfig(agentType)
 
   return (
     <div className={cn('flex items-center gap-2', className)}>
@@ -0,0 +1,182 @@
+/**
+ * Change Set Preview Component
+ *
+ * Shows the files an agent proposes to write, with a diff per file, and lets
+ * the user apply or reject them. Change sets are only ever resolved through
+ * the approval queue, so the decision is recorded.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { cn } from '@/renderer/utils/cn'
+import { ChangeSet, ChangeSetFile } from '@/shared/contracts/AgentDomain'
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface ChangeSetPreviewProps {
+  changeSet: ChangeSet
+  /**
+   * Approval that writing the change set waits on; looked up when not given
+   */
+  approvalId?: string
+  className?: string
+}
+
+export interface FileDiffProps {
+  file: ChangeSetFile
+}
+
+// =============================================================================
+// File Diff Component
+// =============================================================================
+
+export const FileDiff: React.FC<FileDiffProps> = ({ file }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className="border border-gray-200 rounded">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-2 py-1 text-xs hover:bg-gray-50"
+      >
+        <span className="font-mono truncate">
+          {file.operation === 'create' ? 'new ' : ''}{file.path}
+        </span>
+        <span className="ml-2 shrink-0">
+          <span className="text-green-600">+{file.additions}</span>{' '}
+          <span className="text-red-600">-{file.deletions}</span>
+        </span>
+      </button>
+      {isExpanded && (
+        <pre className="text-xs font-mono overflow-x-auto max-h-64 border-t border-gray-200 bg-white">
+          {file.diff.split('\n').map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                'px-2',
+                line.startsWith('+') && !line.startsWith('+++') && 'bg-green-50 text-green-800',
+                line.startsWith('-') && !line.startsWith('---') && 'bg-red-50 text-red-800',
+                line.startsWith('@@') && 'text-blue-600'
+              )}
+            >
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Change Set Preview Component
+// =============================================================================
+
+export const ChangeSetPreview: React.FC<ChangeSetPreviewProps> = ({ changeSet, approvalId, className }) => {
+  // The copy stored with the message goes stale once the change set is resolved
+  const [current, setCurrent] = useState<ChangeSet | null>(changeSet)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | undefined>(changeSet.error)
+  const [pendingApprovalId, setPendingApprovalId] = useState<string | undefined>(approvalId)
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.getChangeSet(changeSet.id)
+      .then(latest => {
+        if (!cancelled) setCurrent(latest)
+      })
+      .catch(() => undefined)
+
+    const onUpdated = (updated: ChangeSet) => {
+      if (updated.id === changeSet.id) {
+        setCurrent(updated)
+      }
+    }
+    window.api.on('workspace:change-set-updated', onUpdated)
+    return () => {
+      cancelled = true
+      window.api.off('workspace:change-set-updated', onUpdated)
+    }
+  }, [changeSet.id])
+
+  useEffect(() => {
+    setPendingApprovalId(approvalId)
+    if (approvalId) return
+
+    let cancelled = false
+    window.api.listApprovals({ status: 'pending' })
+      .then(approvals => {
+        const approval = approvals.find(candidate => candidate.action.parameters.changeSetId === changeSet.id)
+        if (!cancelled) setPendingApprovalId(approval?.id)
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [changeSet.id, approvalId])
+
+  const resolve = useCallback(async (id: string, decision: 'apply' | 'reject') => {
+    setIsWorking(true)
+    setError(undefined)
+    try {
+      await (decision === 'apply'
+        ? window.api.approveAction({ id })
+        : window.api.rejectAction({ id }))
+      setCurrent(await window.api.getChangeSet(changeSet.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the change set')
+    } finally {
+      setIsWorking(false)
+    }
+  }, [changeSet.id])
+
+  const files = current?.files ?? changeSet.files
+
+  return (
+    <div className={cn('mt-2 p-2 rounded border border-gray-300 bg-gray-50 space-y-1', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">{changeSet.title}</span>
+        <span className="text-gray-500">{files.length} file{files.length === 1 ? '' : 's'}</span>
+      </div>
+
+      {files.map(file => (
+        <FileDiff key={file.path} file={file} />
+      ))}
+
+      {current?.status === 'pending' && pendingApprovalId && (
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={() => resolve(pendingApprovalId, 'apply')}
+            disabled={isWorking}
+            className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Apply changes
+          </button>
+          <button
+            onClick={() => resolve(pendingApprovalId, 'reject')}
+            disabled={isWorking}
+            className="px-2 py-1 text-xs rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+      {current?.status === 'pending' && !pendingApprovalId && (
+        <div className="text-xs text-gray-500">No approval is waiting for this change set</div>
+      )}
+      {current?.status === 'applied' && (
+        <div className="text-xs text-green-700">Applied to the project</div>
+      )}
+      {current?.status === 'rejected' && (
+        <div className="text-xs text-gray-500">Rejected</div>
+      )}
+      {!current && (
+        <div className="text-xs text-gray-500">This change set is no longer available</div>
+      )}
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -9,11 +9,13 @@ import React, { useCallback, useEffect, useState } from 'react'
 import { cn } from '@/renderer/utils/cn'
 import { useChatStore } from '@/renderer/stores/chatStore'
 import { useAgentStore } from '@/renderer/stores/agentStore'
+import { useCurrentProject } from '@/renderer/stores/projectStore'
 import { AgentType } from '@/shared/contracts/AgentDomain'
 import { MessageInput } from './MessageInput'
 import { MessageList } from './MessageList'
 import { AgentRecommendationPanel } from './AgentPersonality'
 import { ThreadManager } from './ThreadManager'
+import { ClarificationQuestions } from './ClarificationQuestions'
 
 // =============================================================================
 // Chat Panel Component
@@ -24,11 +26,13 @@ export const ChatPanel: React.FC = () => {
     messages,
     activeThread,
     typingIndicators,
+    lastUserMessage,
     sendMessage,
     clearHistory
   } = useChatStore()
 
   const { agents, statuses } = useAgentStore()
+  const currentProject = useCurrentProject()
   const [selectedAgent, setSelectedAgent] = useState<AgentType | null>(null)
   const [showAgentSelector, setShowAgentSelector] = useState(false)
   const [agentRecommendations, setAgentRecommendations] = useState<Array<{
@@ -37,8 +41,8 @@ export const ChatPanel: React.FC = () => {
     reasoning: string
     isRecommended: boolean
   }>>([])
-  const [lastUserMessage, setLastUserMessage] = useState<string>('')
   const [showThreadManager, setShowThreadManager] = useState(false)
+  const [isRoundTable, setIsRoundTable] = useState(false)
 
   // Auto-save chat periodically
   const saveChatHistory = useChatStore(state => state.saveChatHistory)
@@ -72,11 +76,8 @@ export const ChatPanel: React.FC = () => {
     }
   }, [messages])
 
-  const handleSendMessage = useCallback(async (content: string, targetAgent?: AgentType) => {
+  const handleSendMessage = useCallback(async (content: string, targetAgent?: AgentType, rerouteOf?: string) => {
     try {
-      // Store the user message for routing analysis
-      setLastUserMessage(content)
-      
       // If no specific agent selected, get routing recommendations
       if (!targetAgent) {
         await getAgentRecommendations(content)
@@ -88,6 +89,9 @@ export const ChatPanel: React.FC = () => {
       await sendMessage({
         content,
         targetAgent,
+        rerouteOf,
+        projectId: currentProject?.id,
+        roundTable: isRoundTable,
         metadata: {
           timestamp: new Date(),
           userInitiated: true
@@ -97,7 +101,7 @@ export const ChatPanel: React.FC = () => {
       console.error('Failed to send message:', error)
       throw error // Let MessageInput handle the error
     }
-  }, [sendMessage, getAgentRecommendations])
+  }, [sendMessage, getAgentRecommendations, isRoundTable, currentProject?.id])
 
   const handleAgentSelect = useCallback((agent: AgentType | null) => {
     setSelectedAgent(agent)
@@ -120,7 +124,7 @@ export const ChatPanel: React.FC = () => {
     
     // If there's a recent message, resend it to the selected agent
     if (lastUserMessage) {
-      handleSendMessage(lastUserMessage, agentType)
+      handleSendMessage(lastUserMessage.content, agentType, lastUserMessage.id)
     }
   }, [lastUserMessage, handleSendMessage])
 
@@ -232,6 +236,22 @@ export const ChatPanel: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsRoundTable(!isRoundTable)}
+                className={cn(
+                  'p-1.5 rounded-lg transition-colors',
+                  isRoundTable
+                    ? 'bg-purple-100 text-purple-600'
+                    : 'hover:bg-gray-200 text-gray-600'
+                )}
+                title={isRoundTable
+                  ? 'Round table on: other agents comment and the Producer sums up'
+                  : 'Round table off: one agent answers'}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z" />
+                </svg>
+              </button>
               <button
                 onClick={() => setShowThreadManager(!showThreadManager)}
                 className={cn(
@@ -276,6 +296,9 @@ export const ChatPanel: React.FC = () => {
             onMessageAction={handleMessageAction}
           />
 
+          {/* Questions Waiting on the User */}
+          <ClarificationQuestions projectId={currentProject?.id} />
+
           {/* Agent Recommendations */}
           {agentRecommendations.length > 0 && (
             <div className="border-t border-gray-200 p-4 bg-gray-50">
@@ -0,0 +1,169 @@
+/**
+ * Clarification Questions Component
+ *
+ * Shows the questions the Producer is waiting on as cards in the chat, so
+ * requirement gaps are answered explicitly instead of getting lost in the
+ * scrollback. A question can be answered by picking one of its suggested
+ * answers or by typing one.
+ */
+
+import React, { useEffect, useState } from 'react'
+import { cn } from '@/renderer/utils/cn'
+import { ClarificationQuestion } from '@/shared/contracts/AgentDomain'
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface ClarificationQuestionsProps {
+  projectId?: string
+  className?: string
+}
+
+export interface ClarificationQuestionCardProps {
+  question: ClarificationQuestion
+  onAnswered: (questionId: string) => void
+}
+
+// =============================================================================
+// Clarification Question Card Component
+// =============================================================================
+
+export const ClarificationQuestionCard: React.FC<ClarificationQuestionCardProps> = ({ question, onAnswered }) => {
+  const [answer, setAnswer] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | undefined>()
+
+  const submit = async (value: string) => {
+    if (!value.trim()) return
+
+    setIsWorking(true)
+    setError(undefined)
+    try {
+      const result = await window.api.answerClarificationQuestion({
+        questionId: question.id,
+        answer: value,
+        projectId: question.projectId
+      })
+      if (!result.success) {
+        setError(result.error ?? 'Failed to send the answer')
+        return
+      }
+      onAnswered(question.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the answer')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg border bg-white space-y-2',
+        question.priority === 'high' ? 'border-orange-300' : 'border-blue-200'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-sm font-medium text-gray-900">{question.question}</div>
+        <span className="shrink-0 text-xs text-gray-500">{question.priority} priority</span>
+      </div>
+      {question.context && (
+        <div className="text-xs text-gray-600">{question.context}</div>
+      )}
+
+      {question.suggestedAnswers && question.suggestedAnswers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {question.suggestedAnswers.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => submit(suggestion)}
+              disabled={isWorking}
+              className="px-2 py-1 text-xs rounded-full border border-blue-300 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={event => {
+          event.preventDefault()
+          submit(answer)
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={answer}
+          onChange={event => setAnswer(event.target.value)}
+          placeholder="Type an answer…"
+          aria-label={`Answer to ${question.question}`}
+          className="flex-1 text-xs p-1.5 border border-gray-300 rounded"
+        />
+        <button
+          type="submit"
+          disabled={isWorking || !answer.trim()}
+          className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Answer
+        </button>
+      </form>
+
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Clarification Questions Component
+// =============================================================================
+
+export const ClarificationQuestions: React.FC<ClarificationQuestionsProps> = ({ projectId, className }) => {
+  const [questions, setQuestions] = useState<ClarificationQuestion[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.listClarificationQuestions({ projectId })
+      .then(pending => {
+        if (!cancelled) setQuestions(pending)
+      })
+      .catch(error => console.error('Failed to load clarification questions:', error))
+
+    const onAsked = (asked: ClarificationQuestion) => {
+      if (asked.projectId !== projectId) return
+      setQuestions(current => [...current.filter(question => question.id !== asked.id), asked])
+    }
+    const onAnswered = ({ question: answered }: { question: ClarificationQuestion }) => {
+      setQuestions(current => current.filter(question => question.id !== answered.id))
+    }
+    window.api.on('chat:question-asked', onAsked)
+    window.api.on('chat:question-answered', onAnswered)
+    return () => {
+      cancelled = true
+      window.api.off('chat:question-asked', onAsked)
+      window.api.off('chat:question-answered', onAnswered)
+    }
+  }, [projectId])
+
+  if (questions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn('border-t border-gray-200 p-4 bg-blue-50 space-y-2 max-h-80 overflow-y-auto', className)}>
+      <h3 className="text-xs font-medium text-gray-700">
+        The Producer needs your input ({questions.length})
+      </h3>
+      {questions.map(question => (
+        <ClarificationQuestionCard
+          key={question.id}
+          question={question}
+          onAnswered={id => setQuestions(current => current.filter(pending => pending.id !== id))}
+        />
+      ))}
+    </div>
+  )
+}
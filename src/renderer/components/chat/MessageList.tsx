@@ -6,9 +6,11 @@
 
 import React, { useCallback, useEffect, useRef, useState } from 'react'
 import { cn } from '@/renderer/utils/cn'
-import { ChatMessage, TypingIndicator as TypingIndicatorType, useChatStore, useHasMoreHistory, useIsLoadingHistory, useTotalMessageCount } from '@/renderer/stores/chatStore'
-import { AgentType } from '@/shared/contracts/AgentDomain'
+import { ChatMessage, ChatRoundTableTurn, TypingIndicator as TypingIndicatorType, useChatStore, useHasMoreHistory, useIsLoadingHistory, useTotalMessageCount } from '@/renderer/stores/chatStore'
+import { useAgentStore } from '@/renderer/stores/agentStore'
+import { AgentAction, AgentType, ChangeSet } from '@/shared/contracts/AgentDomain'
 import { AgentAvatar, TypingIndicator } from './AgentAvatar'
+import { ChangeSetPreview } from './ChangeSetPreview'
 
 // =============================================================================
 // Component Props
@@ -28,6 +30,18 @@ export interface MessageItemProps {
   onAction?: (action: 'edit' | 'delete' | 'reply') => void
 }
 
+export interface RoundTableExchangeProps {
+  roundTable: ChatRoundTableTurn
+  messages: ChatMessage[]
+  onMessageAction?: (messageId: string, action: 'edit' | 'delete' | 'reply') => void
+}
+
+const ROUND_TABLE_TURN_LABELS: Record<ChatRoundTableTurn['kind'], string> = {
+  answer: 'Answer',
+  comment: 'Comment',
+  summary: 'Summary'
+}
+
 // =============================================================================
 // Message Item Component
 // =============================================================================
@@ -40,8 +54,20 @@ export const MessageItem: React.FC<MessageItemProps> = ({
 }) => {
   const isUser = message.sender === 'user'
   const agentType = message.agentId as AgentType
+  const agents = useAgentStore(state => state.agents)
+  const cancelMessage = useChatStore(state => state.cancelMessage)
   const targetAgent = message.metadata?.targetAgent as AgentType
   const isTargetedMessage = !!(targetAgent && isUser)
+  const isStreaming = !isUser && message.status === 'sending'
+  const usage = message.metadata?.usage as { inputTokens: number, outputTokens: number } | undefined
+  const routing = message.metadata?.routing as { reasoning: string, confidence: number, explicit: boolean } | undefined
+  const roundTableTurn = message.metadata?.roundTable as ChatRoundTableTurn | undefined
+  const changeSets = ((message.metadata?.actions as AgentAction[] | undefined) ?? [])
+    .filter(action => action.confirmation && action.parameters.changeSet)
+    .map(action => ({
+      changeSet: action.parameters.changeSet as ChangeSet,
+      approvalId: action.parameters.approvalId as string | undefined
+    }))
 
   const formatTimestamp = useCallback((date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -60,8 +86,9 @@ export const MessageItem: React.FC<MessageItemProps> = ({
       [AgentType.ENGINEER]: 'Engineer',
       [AgentType.QA]: 'QA Specialist'
     }
-    return agentMap[agentType] || 'AI Assistant'
-  }, [])
+    // Custom personas are named in the Team panel
+    return agentMap[agentType] || agents.find(agent => agent.type === agentId)?.name || 'AI Assistant'
+  }, [agents])
 
   return (
     <div
@@ -80,6 +107,7 @@ export const MessageItem: React.FC<MessageItemProps> = ({
           ) : (
             <AgentAvatar 
               type={agentType}
+              avatar={agents.find(agent => agent.type === agentType)?.avatar}
               size="md"
               showStatus={false}
             />
@@ -100,6 +128,14 @@ export const MessageItem: React.FC<MessageItemProps> = ({
           <span className="text-sm font-medium text-gray-900">
             {isUser ? 'You' : getAgentName(message.agentId)}
           </span>
+          {!isUser && roundTableTurn && (
+            <span className={cn(
+              'px-2 py-0.5 text-xs rounded-full',
+              roundTableTurn.kind === 'summary' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'
+            )}>
+              {ROUND_TABLE_TURN_LABELS[roundTableTurn.kind]}
+            </span>
+          )}
           {isTargetedMessage && (
             <span className="flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-700 text-xs rounded-full">
               <span>→</span>
@@ -128,6 +164,9 @@ export const MessageItem: React.FC<MessageItemProps> = ({
         >
           <p className="text-sm whitespace-pre-wrap leading-relaxed">
             {message.content}
+            {isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+            )}
           </p>
           
           {/* Message Status */}
@@ -139,7 +178,16 @@ export const MessageItem: React.FC<MessageItemProps> = ({
               {message.status === 'sending' && (
                 <>
                   <div className="w-3 h-3 border border-current border-t-transparent rounded-full animate-spin" />
-                  Sending...
+                  {isStreaming ? 'Responding...' : 'Sending...'}
+                  {isUser && (
+                    <button
+                      onClick={() => cancelMessage(message.id).catch(error => console.error('Failed to cancel message:', error))}
+                      className="ml-1 underline hover:text-white"
+                      title="Stop the agent working on this message"
+                    >
+                      Cancel
+                    </button>
+                  )}
                 </>
               )}
               {message.status === 'error' && (
@@ -148,8 +196,31 @@ export const MessageItem: React.FC<MessageItemProps> = ({
                   Failed to send
                 </>
               )}
+              {message.status === 'cancelled' && 'Cancelled'}
+            </div>
+          )}
+
+          {/* Token Usage */}
+          {!isUser && usage && message.status === 'delivered' && (
+            <div className="text-xs mt-1 text-gray-400">
+              {usage.inputTokens + usage.outputTokens} tokens ({usage.inputTokens} in / {usage.outputTokens} out)
+            </div>
+          )}
+
+          {/* Routing Reason */}
+          {!isUser && routing && message.status === 'delivered' && (
+            <div
+              className="text-xs mt-1 text-gray-400"
+              title={`${Math.round(routing.confidence * 100)}% routing confidence`}
+            >
+              {routing.explicit ? `You asked ${getAgentName(message.agentId)} directly` : routing.reasoning}
             </div>
           )}
+
+          {/* Proposed File Changes */}
+          {!isUser && message.status === 'delivered' && changeSets.map(({ changeSet, approvalId }) => (
+            <ChangeSetPreview key={changeSet.id} changeSet={changeSet} approvalId={approvalId} />
+          ))}
         </div>
 
         {/* Message Actions */}
@@ -196,6 +267,37 @@ export const MessageItem: React.FC<MessageItemProps> = ({
   )
 }
 
+// =============================================================================
+// Round Table Exchange Component
+// =============================================================================
+
+export const RoundTableExchange: React.FC<RoundTableExchangeProps> = ({
+  roundTable,
+  messages,
+  onMessageAction
+}) => {
+  const agents = useAgentStore(state => state.agents)
+  const participantNames = roundTable.participants
+    .map(agentId => agents.find(agent => agent.type === agentId)?.name ?? agentId)
+    .join(', ')
+
+  return (
+    <div className="border border-purple-200 rounded-lg p-3 space-y-3 bg-purple-50/30">
+      <div className="text-xs font-medium text-purple-700">
+        Round table · {participantNames}
+      </div>
+      {messages.map(message => (
+        <MessageItem
+          key={message.id}
+          message={message}
+          showTimestamp={false}
+          onAction={(action) => onMessageAction?.(message.id, action)}
+        />
+      ))}
+    </div>
+  )
+}
+
 // =============================================================================
 // Empty State Component
 // =============================================================================
@@ -344,6 +446,24 @@ export const MessageList: React.FC<MessageListProps> = ({
         {/* Messages */}
         {messages.map((message, index) => {
           const previousMessage = messages[index - 1]
+
+          // Round-table replies to the same message are shown together as one exchange
+          const roundTable = message.metadata?.roundTable as ChatRoundTableTurn | undefined
+          if (roundTable) {
+            const previousRoundTable = previousMessage?.metadata?.roundTable as ChatRoundTableTurn | undefined
+            if (previousRoundTable?.id === roundTable.id) {
+              return null
+            }
+            return (
+              <RoundTableExchange
+                key={message.id}
+                roundTable={roundTable}
+                messages={messages.filter(m => (m.metadata?.roundTable as ChatRoundTableTurn | undefined)?.id === roundTable.id)}
+                onMessageAction={handleMessageAction}
+              />
+            )
+          }
+
           const showAvatar = !previousMessage || 
             previousMessage.sender !== message.sender ||
             previousMessage.agentId !== message.agentId ||
@@ -1,2 +1,3 @@
 // Chat components export 
 export { ChatPanel } from './ChatPanel'
+export { ClarificationQuestionCard, ClarificationQuestions } from './ClarificationQuestions'
\ No newline at end of file
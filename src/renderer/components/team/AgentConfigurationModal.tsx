@@ -7,7 +7,7 @@
 
 import React, { useState, useEffect } from 'react'
 import { useAgentStore, Agent, AgentConfiguration } from '@/renderer/stores/agentStore'
-import { AgentType } from '@/shared/contracts/AgentDomain'
+import { AgentRole, AgentType } from '@/shared/contracts/AgentDomain'
 import { cn } from '@/renderer/utils/cn'
 import { getPresetsForAgentType, applyPresetToConfiguration, ConfigurationPreset } from '@/renderer/utils/agentConfigurationPresets'
 
@@ -110,7 +110,7 @@ export const AgentConfigurationModal: React.FC<AgentConfigurationModalProps> = (
     }
   }
 
-  const getAgentTypeConfig = (type: AgentType) => {
+  const getAgentTypeConfig = (type: AgentRole) => {
     const configs = {
       [AgentType.PRODUCER]: {
         emoji: '👔',
@@ -133,7 +133,12 @@ export const AgentConfigurationModal: React.FC<AgentConfigurationModalProps> = (
         defaultPrompt: 'You are a quality assurance engineer focused on testing and ensuring code quality.'
       }
     }
-    return configs[type]
+    // Custom personas keep their own prompt as the default
+    return configs[type as AgentType] ?? {
+      emoji: agent.avatar ?? '🤖',
+      color: 'gray',
+      defaultPrompt: agent.systemPrompt ?? ''
+    }
   }
 
   const agentConfig = getAgentTypeConfig(agent.type)
@@ -328,7 +333,7 @@ export const AgentConfigurationModal: React.FC<AgentConfigurationModalProps> = (
 // =============================================================================
 
 interface PresetsTabProps {
-  agentType: AgentType
+  agentType: AgentRole
   onApplyPreset: (preset: ConfigurationPreset) => void
   currentConfig: AgentConfiguration
 }
@@ -697,7 +702,7 @@ const BehaviorTab: React.FC<TabProps> = ({ config, onChange }) => {
 // =============================================================================
 
 interface AdvancedTabProps extends TabProps {
-  agentType: AgentType
+  agentType: AgentRole
   defaultPrompt: string
 }
 
@@ -7,7 +7,7 @@
 
 import React, { useState, useMemo } from 'react'
 import { useAgentStore, Agent, AgentActivityLog, AgentWorkSession, AgentArtifact, AgentThinkingStep } from '@/renderer/stores/agentStore'
-import { AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import { AgentRole, AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
 import { cn } from '@/renderer/utils/cn'
 
 // =============================================================================
@@ -41,10 +41,10 @@ export const AgentDetailModal: React.FC<AgentDetailModalProps> = ({
   const activeWorkSession = getActiveWorkSession(agent.id)
   const workSessionHistory = getWorkSessionHistory(agent.id, 5)
   
-  // Use real session or create mock for demonstration
-  const currentSession = activeWorkSession || (workSessionHistory.length > 0 ? workSessionHistory[0] : createMockWorkSession(agent))
+  // Fall back to the most recent session once the agent is done with it
+  const currentSession = activeWorkSession || workSessionHistory[0] || null
 
-  const getAgentConfig = (type: AgentType) => {
+  const getAgentConfig = (type: AgentRole) => {
     const configs = {
       [AgentType.PRODUCER]: {
         emoji: '👔',
@@ -67,7 +67,11 @@ export const AgentDetailModal: React.FC<AgentDetailModalProps> = ({
         role: 'Quality Assurance'
       }
     }
-    return configs[type]
+    return configs[type as AgentType] ?? {
+      emoji: agent.avatar ?? '🤖',
+      color: 'gray',
+      role: agent.name
+    }
   }
 
   const agentConfig = getAgentConfig(agent.type)
@@ -301,7 +305,7 @@ const CurrentWorkTab: React.FC<CurrentWorkTabProps> = ({ session, agent }) => {
               <strong>Started:</strong> {session.startTime.toLocaleString()}
             </p>
             <p className="text-sm text-blue-700">
-              <strong>Duration:</strong> {formatDuration(session.startTime, new Date())}
+              <strong>Duration:</strong> {formatDuration(session.startTime, session.endTime ?? new Date())}
             </p>
           </div>
         </div>
@@ -336,10 +340,10 @@ const CurrentWorkTab: React.FC<CurrentWorkTabProps> = ({ session, agent }) => {
                   <span className="text-xs text-gray-500">
                     {step.timestamp.toLocaleTimeString()}
                   </span>
-                  <ConfidenceBar confidence={step.confidence} />
+                  {step.confidence !== undefined && <ConfidenceBar confidence={step.confidence} />}
                 </div>
               </div>
-              <p className="text-sm text-gray-700">{step.content}</p>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{step.content}</p>
             </div>
           ))}
         </div>
@@ -407,11 +411,11 @@ const ThinkingProcessTab: React.FC<ThinkingProcessTabProps> = ({ session }) => {
                     <span className="text-xs text-gray-500">
                       {step.timestamp.toLocaleTimeString()}
                     </span>
-                    <ConfidenceBar confidence={step.confidence} />
+                    {step.confidence !== undefined && <ConfidenceBar confidence={step.confidence} />}
                   </div>
                 </div>
                 
-                <p className="text-sm text-gray-700 mb-3">{step.content}</p>
+                <p className="text-sm text-gray-700 mb-3 whitespace-pre-wrap">{step.content}</p>
                 
                 {step.metadata && (
                   <div className="border-t border-gray-100 pt-2">
@@ -504,6 +508,7 @@ const WorkHistoryTab: React.FC<WorkHistoryTabProps> = ({ activityLogs, workSessi
                     session.status === 'completed' ? 'bg-green-100 text-green-700' :
                     session.status === 'active' ? 'bg-blue-100 text-blue-700' :
                     session.status === 'paused' ? 'bg-yellow-100 text-yellow-700' :
+                    session.status === 'failed' ? 'bg-red-100 text-red-700' :
                     'bg-gray-100 text-gray-700'
                   )}>
                     {session.status}
@@ -767,94 +772,3 @@ function formatFileSize(bytes: number): string {
   if (kb < 1024) return `${kb.toFixed(1)} KB`
   return `${(kb / 1024).toFixed(1)} MB`
 }
-
-function createMockWorkSession(agent: Agent): AgentWorkSession {
-  const now = new Date()
-  const startTime = new Date(now.getTime() - 45 * 60 * 1000) // 45 minutes ago
-  const sessionId = `session-${agent.id}-${Date.now()}`
-
-  return {
-    id: sessionId,
-    agentId: agent.id,
-    startTime,
-    status: 'active',
-    taskId: 'task-123',
-    taskTitle: 'Implement user authentication system',
-    objective: 'Design and implement secure user authentication with JWT tokens',
-    progressPercentage: 65,
-    currentPhase: 'implementing',
-    thinkingSteps: [
-      {
-        id: '1',
-        timestamp: new Date(startTime.getTime() + 5 * 60 * 1000),
-        type: 'analysis',
-        title: 'Analyzing authentication requirements',
-        content: 'Need to implement secure JWT-based authentication with refresh tokens. Security requirements include password hashing, session management, and RBAC.',
-        confidence: 85,
-        metadata: { complexity: 'medium', dependencies: 'jwt, bcrypt' }
-      },
-      {
-        id: '2',
-        timestamp: new Date(startTime.getTime() + 15 * 60 * 1000),
-        type: 'planning',
-        title: 'Planning authentication architecture',
-        content: 'Will implement a 3-layer approach: authentication middleware, user service, and token management. Using bcrypt for password hashing and JWT for tokens.',
-        confidence: 92,
-        metadata: { approach: 'layered', security_level: 'high' }
-      },
-      {
-        id: '3',
-        timestamp: new Date(startTime.getTime() + 25 * 60 * 1000),
-        type: 'execution',
-        title: 'Implementing JWT token service',
-        content: 'Creating token generation and validation functions. Implementing both access tokens (15min) and refresh tokens (7 days) with proper secret management.',
-        confidence: 78,
-        metadata: { component: 'token-service', progress: '60%' }
-      },
-      {
-        id: '4',
-        timestamp: new Date(startTime.getTime() + 40 * 60 * 1000),
-        type: 'decision',
-        title: 'Choosing password complexity rules',
-        content: 'Implementing minimum 8 characters with mixed case, numbers, and special characters. Adding password strength meter on frontend.',
-        confidence: 88,
-        metadata: { security_impact: 'high', user_experience: 'good' }
-      }
-    ],
-    artifacts: [
-      {
-        id: 'art-1',
-        sessionId,
-        type: 'code',
-        title: 'auth.service.ts',
-        content: 'export class AuthService {\n  async generateToken(user: User): Promise<string> {\n    // JWT token generation logic\n  }\n}',
-        createdAt: new Date(startTime.getTime() + 20 * 60 * 1000),
-        updatedAt: new Date(startTime.getTime() + 35 * 60 * 1000),
-        tags: ['typescript', 'authentication', 'jwt'],
-        size: 1250
-      },
-      {
-        id: 'art-2',
-        sessionId,
-        type: 'plan',
-        title: 'Authentication Implementation Plan',
-        content: '1. Token Service\n2. User Model\n3. Authentication Middleware\n4. Password Validation\n5. Session Management',
-        createdAt: new Date(startTime.getTime() + 10 * 60 * 1000),
-        updatedAt: new Date(startTime.getTime() + 10 * 60 * 1000),
-        tags: ['planning', 'architecture'],
-        size: 486
-      },
-      {
-        id: 'art-3',
-        sessionId,
-        type: 'test',
-        title: 'auth.service.test.ts',
-        content: 'describe("AuthService", () => {\n  it("should generate valid JWT tokens", () => {\n    // Test implementation\n  });\n});',
-        createdAt: new Date(startTime.getTime() + 30 * 60 * 1000),
-        updatedAt: new Date(startTime.getTime() + 30 * 60 * 1000),
-        tags: ['testing', 'jest', 'authentication'],
-        size: 324
-      }
-    ]
-  }
-}
\ No newline at end of file
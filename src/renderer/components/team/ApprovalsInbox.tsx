@@ -0,0 +1,237 @@
+/**
+ * Approvals Inbox Component
+ *
+ * Lists agent actions waiting for the user's confirmation. Each can be
+ * approved as proposed, approved with edited parameters, or rejected with an
+ * optional reason.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { cn } from '@/renderer/utils/cn'
+import { ActionApproval } from '@/shared/contracts/AgentDomain'
+import type { PlanSyncChange } from '@/shared/types/tasks'
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface ApprovalsInboxProps {
+  projectId?: string
+  className?: string
+}
+
+interface ApprovalItemProps {
+  approval: ActionApproval
+}
+
+interface PlanChangeListProps {
+  changes: PlanSyncChange[]
+}
+
+// =============================================================================
+// Plan Change List Component
+// =============================================================================
+
+const CHANGE_MARKERS: Record<PlanSyncChange['kind'], { marker: string, className: string }> = {
+  create: { marker: '+', className: 'text-green-700' },
+  update: { marker: '~', className: 'text-blue-700' },
+  remove: { marker: '-', className: 'text-red-700' }
+}
+
+const PlanChangeList: React.FC<PlanChangeListProps> = ({ changes }) => (
+  <ul className="text-xs space-y-0.5">
+    {changes.map(change => (
+      <li key={`${change.kind}-${change.itemId}`} className={CHANGE_MARKERS[change.kind].className}>
+        <span className="font-mono">{CHANGE_MARKERS[change.kind].marker}</span>{' '}
+        {change.itemType === 'epic' ? 'Epic' : 'Story'}: {change.title}
+        {change.previousParentId && <span className="text-gray-500"> (moved to another epic)</span>}
+        {change.kind === 'update' && change.fields.length > 0 && (
+          <span className="text-gray-500">
+            {' '}({change.fields.map(({ field, before, after }) => `${field}: ${before ?? '—'} → ${after ?? '—'}`).join(', ')})
+          </span>
+        )}
+      </li>
+    ))}
+  </ul>
+)
+
+// =============================================================================
+// Approval Item Component
+// =============================================================================
+
+const ApprovalItem: React.FC<ApprovalItemProps> = ({ approval }) => {
+  const [mode, setMode] = useState<'view' | 'edit' | 'reject'>('view')
+  const [parameters, setParameters] = useState('')
+  const [reason, setReason] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | undefined>()
+
+  const startEditing = () => {
+    setParameters(JSON.stringify(approval.action.parameters, null, 2))
+    setError(undefined)
+    setMode('edit')
+  }
+
+  const decide = async (decision: () => Promise<ActionApproval>) => {
+    setIsWorking(true)
+    setError(undefined)
+    try {
+      await decision()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the decision')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const approve = () => {
+    if (mode !== 'edit') {
+      return decide(() => window.api.approveAction({ id: approval.id }))
+    }
+
+    let edited: unknown
+    try {
+      edited = JSON.parse(parameters)
+    } catch {
+      setError('Parameters must be valid JSON')
+      return
+    }
+    if (!edited || typeof edited !== 'object' || Array.isArray(edited)) {
+      setError('Parameters must be a JSON object')
+      return
+    }
+    return decide(() => window.api.approveAction({ id: approval.id, parameters: edited as Record<string, unknown> }))
+  }
+
+  const reject = () => decide(() => window.api.rejectAction({ id: approval.id, reason: reason.trim() || undefined }))
+
+  return (
+    <div className="p-2 rounded border border-gray-200 bg-white space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium truncate">{approval.action.description}</span>
+        <span className="ml-2 shrink-0 text-gray-500">{approval.agentType}</span>
+      </div>
+      <div className="text-xs font-mono text-gray-500">{approval.action.type}</div>
+      {approval.action.type === 'sync_task_hierarchy' && mode !== 'edit' && (
+        <PlanChangeList changes={approval.action.parameters.changes as PlanSyncChange[]} />
+      )}
+
+      {mode === 'edit' && (
+        <textarea
+          value={parameters}
+          onChange={e => setParameters(e.target.value)}
+          rows={6}
+          className="w-full text-xs font-mono p-1 border border-gray-300 rounded"
+          aria-label="Action parameters"
+        />
+      )}
+      {mode === 'reject' && (
+        <input
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="w-full text-xs p-1 border border-gray-300 rounded"
+        />
+      )}
+
+      <div className="flex gap-2 pt-1">
+        {mode === 'reject' ? (
+          <button
+            onClick={reject}
+            disabled={isWorking}
+            className="px-2 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            Confirm rejection
+          </button>
+        ) : (
+          <button
+            onClick={approve}
+            disabled={isWorking}
+            className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {mode === 'edit' ? 'Approve with changes' : 'Approve'}
+          </button>
+        )}
+        {mode === 'view' ? (
+          <>
+            <button
+              onClick={startEditing}
+              disabled={isWorking}
+              className="px-2 py-1 text-xs rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => setMode('reject')}
+              disabled={isWorking}
+              className="px-2 py-1 text-xs rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setMode('view')}
+            disabled={isWorking}
+            className="px-2 py-1 text-xs rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Approvals Inbox Component
+// =============================================================================
+
+export const ApprovalsInbox: React.FC<ApprovalsInboxProps> = ({ projectId, className }) => {
+  const [approvals, setApprovals] = useState<ActionApproval[]>([])
+
+  const isShown = useCallback((approval: ActionApproval) => {
+    return projectId === undefined || approval.projectId === projectId
+  }, [projectId])
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.listApprovals({ projectId, status: 'pending' })
+      .then(pending => {
+        if (!cancelled) setApprovals(pending)
+      })
+      .catch(error => console.error('Failed to load approvals:', error))
+
+    const onUpdated = (updated: ActionApproval) => {
+      if (!isShown(updated)) return
+      setApprovals(current => {
+        const others = current.filter(approval => approval.id !== updated.id)
+        return updated.status === 'pending' ? [updated, ...others] : others
+      })
+    }
+    window.api.on('approvals:updated', onUpdated)
+    return () => {
+      cancelled = true
+      window.api.off('approvals:updated', onUpdated)
+    }
+  }, [projectId, isShown])
+
+  if (approvals.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn('flex-shrink-0 px-4 py-3 border-b border-gray-200 space-y-2', className)}>
+      <h3 className="text-xs font-medium text-gray-700">
+        Waiting for approval ({approvals.length})
+      </h3>
+      {approvals.map(approval => (
+        <ApprovalItem key={approval.id} approval={approval} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+/**
+ * Message Queue Panel Component
+ *
+ * Shows the messages each agent is working on and the ones still waiting,
+ * in the order they will start, and lets the user cancel any of them.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAgentStore } from '@/renderer/stores/agentStore'
+import { cn } from '@/renderer/utils/cn'
+import { AgentRole, MessagePriority, MessageQueueMetrics, QueuedAgentMessage } from '@/shared/contracts/AgentDomain'
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface MessageQueuePanelProps {
+  className?: string
+}
+
+const PRIORITY_STYLES: Record<MessagePriority, string> = {
+  urgent: 'bg-red-100 text-red-700',
+  high: 'bg-orange-100 text-orange-700',
+  normal: 'bg-gray-100 text-gray-600',
+  low: 'bg-gray-50 text-gray-400'
+}
+
+// =============================================================================
+// Message Queue Panel Component
+// =============================================================================
+
+export const MessageQueuePanel: React.FC<MessageQueuePanelProps> = ({ className }) => {
+  const { agents } = useAgentStore()
+  const [messages, setMessages] = useState<QueuedAgentMessage[]>([])
+  const [metrics, setMetrics] = useState<MessageQueueMetrics | null>(null)
+  const [cancelling, setCancelling] = useState<Set<string>>(new Set())
+
+  const getAgentName = useCallback((role: AgentRole) => {
+    return agents.find(agent => agent.type === role)?.name ?? role
+  }, [agents])
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      Promise.all([window.api.getMessageQueue(), window.api.getMessageQueueMetrics()])
+        .then(([loadedMessages, loadedMetrics]) => {
+          if (cancelled) return
+          setMessages(loadedMessages)
+          setMetrics(loadedMetrics)
+        })
+        .catch(error => console.error('Failed to load message queue:', error))
+    }
+    load()
+
+    window.api.on('agent:queue-updated', load)
+    return () => {
+      cancelled = true
+      window.api.off('agent:queue-updated', load)
+    }
+  }, [])
+
+  const handleCancel = async (messageId: string) => {
+    setCancelling(current => new Set(current).add(messageId))
+    try {
+      await window.api.cancelAgentMessage({ messageId })
+    } catch (error) {
+      console.error('Failed to cancel message:', error)
+      setCancelling(current => {
+        const next = new Set(current)
+        next.delete(messageId)
+        return next
+      })
+    }
+  }
+
+  if (messages.length === 0 || !metrics) {
+    return null
+  }
+
+  const agentsInQueue = [...new Set(messages.map(message => message.agentType))]
+
+  return (
+    <div className={cn('flex-shrink-0 px-4 py-3 border-b border-gray-200 space-y-2', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-700">Message queue</span>
+        <span className="text-gray-500">{metrics.running} running · {metrics.queued} waiting</span>
+      </div>
+
+      {agentsInQueue.map(agentType => {
+        const agentMetrics = metrics.byAgent[agentType]
+        const isFull = agentMetrics && agentMetrics.queued >= agentMetrics.maxQueueDepth
+
+        return (
+          <div key={agentType} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span className="font-medium">{getAgentName(agentType)}</span>
+              {agentMetrics && (
+                <span className={cn(isFull && 'text-red-700')}>
+                  {agentMetrics.running}/{agentMetrics.maxConcurrentTasks} running · {agentMetrics.queued}/{agentMetrics.maxQueueDepth} waiting
+                </span>
+              )}
+            </div>
+
+            {messages.filter(message => message.agentType === agentType).map(message => (
+              <div key={message.messageId} className="flex items-center space-x-2 text-xs">
+                <span className={cn(
+                  'w-1.5 h-1.5 rounded-full flex-shrink-0',
+                  message.status === 'running' ? 'bg-blue-500 animate-pulse' : 'bg-gray-300'
+                )} />
+                <span className="flex-1 truncate text-gray-600" title={message.preview}>{message.preview}</span>
+                {message.priority !== 'normal' && (
+                  <span className={cn('px-1.5 rounded', PRIORITY_STYLES[message.priority])}>{message.priority}</span>
+                )}
+                <button
+                  onClick={() => handleCancel(message.messageId)}
+                  disabled={cancelling.has(message.messageId)}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title={message.status === 'running' ? 'Stop this message' : 'Remove from queue'}
+                >
+                  {cancelling.has(message.messageId) ? 'Cancelling…' : 'Cancel'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+/**
+ * Routing Accuracy Panel Component
+ *
+ * Shows how often the user overrode the agent the router picked, per agent,
+ * with the most recent corrections the router is learning from.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAgentStore } from '@/renderer/stores/agentStore'
+import { cn } from '@/renderer/utils/cn'
+import { AgentRole, RoutingAccuracyReport } from '@/shared/contracts/AgentDomain'
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface RoutingAccuracyPanelProps {
+  projectId?: string
+  className?: string
+}
+
+// =============================================================================
+// Routing Accuracy Panel Component
+// =============================================================================
+
+export const RoutingAccuracyPanel: React.FC<RoutingAccuracyPanelProps> = ({ projectId, className }) => {
+  const { agents } = useAgentStore()
+  const [report, setReport] = useState<RoutingAccuracyReport | null>(null)
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const getAgentName = useCallback((role: AgentRole) => {
+    return agents.find(agent => agent.type === role)?.name ?? role
+  }, [agents])
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      window.api.getRoutingAccuracy(projectId)
+        .then(loaded => {
+          if (!cancelled) setReport(loaded)
+        })
+        .catch(error => console.error('Failed to load routing accuracy:', error))
+    }
+    load()
+
+    const onUpdated = (update: { projectId: string }) => {
+      if (projectId === undefined || update.projectId === projectId) load()
+    }
+    window.api.on('routing:accuracy-updated', onUpdated)
+    return () => {
+      cancelled = true
+      window.api.off('routing:accuracy-updated', onUpdated)
+    }
+  }, [projectId])
+
+  if (!report || report.autoRouted === 0) {
+    return null
+  }
+
+  const accuracyPercent = Math.round(report.accuracy * 100)
+
+  return (
+    <div className={cn('flex-shrink-0 px-4 py-3 border-b border-gray-200 space-y-2', className)}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-xs"
+      >
+        <span className="font-medium text-gray-700">Routing accuracy</span>
+        <span className={cn(
+          'font-medium',
+          accuracyPercent >= 80 ? 'text-green-700' : accuracyPercent >= 60 ? 'text-yellow-700' : 'text-red-700'
+        )}>
+          {accuracyPercent}% · {report.overridden} of {report.autoRouted} overridden
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            {Object.entries(report.byAgent).map(([role, counts]) => (
+              <div key={role} className="flex items-center justify-between text-xs text-gray-600">
+                <span>{getAgentName(role)}</span>
+                <span>{counts.overridden} of {counts.autoRouted} overridden</span>
+              </div>
+            ))}
+          </div>
+
+          {report.recentCorrections.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-gray-700">Recent corrections</h4>
+              {report.recentCorrections.map(correction => (
+                <div key={correction.id} className="text-xs text-gray-600">
+                  <div className="truncate" title={correction.content}>"{correction.content}"</div>
+                  <div className="text-gray-400">
+                    Sent to {getAgentName(correction.routedTo)}, you asked {getAgentName(correction.correctedTo)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
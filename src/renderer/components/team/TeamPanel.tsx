@@ -7,9 +7,13 @@
 
 import React, { useEffect, useMemo, useState } from 'react'
 import { useAgentStore } from '@/renderer/stores/agentStore'
-import { AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import { useProjectStore } from '@/renderer/stores/projectStore'
+import { AgentRole, AgentStatus, AgentTokenBudgetStatus, AgentType, TokenBudgetStatus } from '@/shared/contracts/AgentDomain'
 import { cn } from '@/renderer/utils/cn'
 import { AgentActivityMonitor } from './AgentActivityMonitor'
+import { ApprovalsInbox } from './ApprovalsInbox'
+import { RoutingAccuracyPanel } from './RoutingAccuracyPanel'
+import { MessageQueuePanel } from './MessageQueuePanel'
 import { AgentConfigurationModal } from './AgentConfigurationModal'
 import { AgentDetailModal } from './AgentDetailModal'
 
@@ -22,16 +26,14 @@ export const TeamPanel: React.FC = () => {
     agents, 
     statuses, 
     statistics, 
+    tokenBudget,
     isInitialized, 
     initializeDefaultTeam, 
     updateAgentStatus,
-    startWorkSession,
-    endWorkSession,
-    updateWorkProgress,
-    addArtifact,
-    addThinkingStep,
-    getActiveWorkSession
+    loadTokenBudget,
+    loadWorkSessions
   } = useAgentStore()
+  const { currentProject } = useProjectStore()
   const [showActivityMonitor, setShowActivityMonitor] = useState(false)
   const [configureAgent, setConfigureAgent] = useState<string | null>(null)
   const [detailAgent, setDetailAgent] = useState<string | null>(null)
@@ -68,6 +70,18 @@ export const TeamPanel: React.FC = () => {
     }
   }, [isInitialized, agents.length, initializeDefaultTeam])
 
+  // Pick up work sessions the agents started before the panel opened
+  useEffect(() => {
+    if (isInitialized) {
+      loadWorkSessions()
+    }
+  }, [isInitialized, loadWorkSessions])
+
+  // Load token usage for the budget meter whenever the project changes
+  useEffect(() => {
+    loadTokenBudget(currentProject?.id)
+  }, [currentProject?.id, loadTokenBudget])
+
   // Calculate team metrics
   const teamMetrics = useMemo(() => {
     const activeCount = Object.values(statuses).filter(s => s !== AgentStatus.OFFLINE).length
@@ -96,150 +110,6 @@ export const TeamPanel: React.FC = () => {
     }
   }
 
-  // Demo function to simulate work sessions
-  const simulateWorkSession = () => {
-    if (agents.length > 0) {
-      const randomAgent = agents[Math.floor(Math.random() * agents.length)]
-      const activeSession = getActiveWorkSession(randomAgent.id)
-      
-      if (activeSession) {
-        // End current session
-        endWorkSession(randomAgent.id, activeSession.id)
-      } else {
-        // Start new session
-        const objectives = [
-          'Implement user authentication system',
-          'Design REST API endpoints',
-          'Create database schema',
-          'Build responsive UI components',
-          'Write comprehensive tests'
-        ]
-        const randomObjective = objectives[Math.floor(Math.random() * objectives.length)]
-        const sessionId = startWorkSession(randomAgent.id, randomObjective, 'task-demo', randomObjective)
-        
-        // Simulate some progress after a short delay
-        setTimeout(() => {
-          updateWorkProgress(randomAgent.id, sessionId, 25, 'analyzing')
-          
-          // Add initial thinking step
-          addThinkingStep(randomAgent.id, sessionId, {
-            type: 'analysis',
-            title: 'Analyzing task requirements',
-            content: `Starting work on: ${randomObjective}. Need to understand the scope and identify key components.`,
-            confidence: 85,
-            metadata: { phase: 'initial_analysis' }
-          })
-          
-          // Add a demo artifact
-          addArtifact(randomAgent.id, sessionId, {
-            type: 'plan',
-            title: 'Implementation Plan',
-            content: '1. Set up project structure\n2. Install dependencies\n3. Create base components\n4. Implement core logic',
-            tags: ['planning', 'implementation'],
-            size: 120
-          })
-        }, 1000)
-      }
-    }
-  }
-
-  // Demo function to simulate work progress
-  const simulateWorkProgress = () => {
-    if (agents.length > 0) {
-      const activeAgents = agents.filter(agent => getActiveWorkSession(agent.id))
-      
-      if (activeAgents.length > 0) {
-        const randomAgent = activeAgents[Math.floor(Math.random() * activeAgents.length)]
-        const activeSession = getActiveWorkSession(randomAgent.id)
-        
-        if (activeSession) {
-          const currentProgress = activeSession.progressPercentage
-          const newProgress = Math.min(100, currentProgress + Math.floor(Math.random() * 30) + 10)
-          
-          // Update phase based on progress
-          let newPhase: typeof activeSession.currentPhase = activeSession.currentPhase
-          if (newProgress >= 80) newPhase = 'reviewing'
-          else if (newProgress >= 60) newPhase = 'implementing'
-          else if (newProgress >= 40) newPhase = 'planning'
-          else if (newProgress >= 20) newPhase = 'analyzing'
-          
-          updateWorkProgress(randomAgent.id, activeSession.id, newProgress, newPhase)
-          
-          // Add thinking step based on phase
-          const thinkingSteps = {
-            analyzing: {
-              type: 'analysis' as const,
-              title: 'Analyzing implementation approach',
-              content: `Progress: ${newProgress}%. Analyzing different approaches and identifying potential challenges.`
-            },
-            planning: {
-              type: 'planning' as const,
-              title: 'Planning implementation steps',
-              content: `Progress: ${newProgress}%. Creating detailed implementation plan and breaking down tasks.`
-            },
-            implementing: {
-              type: 'execution' as const,
-              title: 'Implementing solution',
-              content: `Progress: ${newProgress}%. Writing code and implementing the planned solution.`
-            },
-            reviewing: {
-              type: 'reflection' as const,
-              title: 'Reviewing implementation',
-              content: `Progress: ${newProgress}%. Reviewing implementation quality and testing functionality.`
-            }
-          }
-          
-          if (newPhase in thinkingSteps) {
-            const stepConfig = thinkingSteps[newPhase as keyof typeof thinkingSteps]
-            addThinkingStep(randomAgent.id, activeSession.id, {
-              ...stepConfig,
-              confidence: Math.floor(Math.random() * 30) + 70, // 70-100% confidence
-              metadata: { progress: newProgress, phase: newPhase }
-            })
-          }
-        }
-      }
-    }
-  }
-
-  // Demo function to simulate artifact creation
-  const simulateArtifactCreation = () => {
-    if (agents.length > 0) {
-      const activeAgents = agents.filter(agent => getActiveWorkSession(agent.id))
-      
-      if (activeAgents.length > 0) {
-        const randomAgent = activeAgents[Math.floor(Math.random() * activeAgents.length)]
-        const activeSession = getActiveWorkSession(randomAgent.id)
-        
-        if (activeSession) {
-          const artifactTypes = ['code', 'document', 'analysis', 'plan', 'test', 'review'] as const
-          const artifactTitles = {
-            code: ['auth.service.ts', 'user.model.ts', 'api.controller.ts', 'database.config.ts'],
-            document: ['Architecture Overview', 'User Requirements', 'Design Specification', 'API Documentation'],
-            analysis: ['Performance Analysis', 'Security Assessment', 'Code Quality Report', 'Risk Analysis'],
-            plan: ['Implementation Plan', 'Testing Strategy', 'Deployment Plan', 'Migration Plan'],
-            test: ['Unit Tests', 'Integration Tests', 'E2E Tests', 'Performance Tests'],
-            review: ['Code Review', 'Design Review', 'Security Review', 'Architecture Review']
-          }
-          
-          const randomType = artifactTypes[Math.floor(Math.random() * artifactTypes.length)]
-          const possibleTitles = artifactTitles[randomType]
-          const randomTitle = possibleTitles[Math.floor(Math.random() * possibleTitles.length)]
-          
-          const content = `Generated ${randomType} content for ${randomTitle}.\n\nThis is demo content created during work session simulation.\n\nTimestamp: ${new Date().toISOString()}`
-          
-          addArtifact(randomAgent.id, activeSession.id, {
-            type: randomType,
-            title: randomTitle,
-            content,
-            tags: [randomType, 'demo', 'generated'],
-            size: content.length
-          })
-        }
-      }
-    }
-  }
-
   return (
     <div className="flex flex-col h-full bg-white">
       {/* Team Header */}
@@ -269,6 +139,20 @@ export const TeamPanel: React.FC = () => {
         </div>
       </div>
 
+      {/* Project Token Budget */}
+      {tokenBudget?.project && (
+        <ProjectBudgetMeter project={tokenBudget.project} />
+      )}
+
+      {/* Actions Waiting for Approval */}
+      <ApprovalsInbox projectId={currentProject?.id} />
+
+      {/* Messages the Agents Are Working On or Still Have Waiting */}
+      <MessageQueuePanel />
+
+      {/* How Often Auto-Routing Was Overridden */}
+      <RoutingAccuracyPanel projectId={currentProject?.id} />
+
       {/* Team Roster */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {agents.length === 0 ? (
@@ -301,6 +185,7 @@ export const TeamPanel: React.FC = () => {
                 agent={agent}
                 status={statuses[agent.id] || AgentStatus.OFFLINE}
                 stats={statistics[agent.id]}
+                tokenBudget={tokenBudget?.agents.find(budget => budget.agentType === agent.type)}
                 currentTask={currentTask}
                 assignedTasksCount={assignedTasks.length}
                 onConfigure={() => setConfigureAgent(agent.id)}
@@ -369,25 +254,6 @@ export const TeamPanel: React.FC = () => {
                 onClick={() => simulateStatusChange(AgentStatus.ERROR)}
               />
             </div>
-            
-            {/* Advanced Work Session Controls */}
-            <div className="mt-2 pt-2 border-t border-gray-100">
-              <p className="text-xs text-gray-500 mb-2">Work Sessions:</p>
-              <div className="space-y-1">
-                <StatusDemoButton 
-                  label="🔄 Toggle Session" 
-                  onClick={simulateWorkSession}
-                />
-                <StatusDemoButton 
-                  label="📈 Progress Work" 
-                  onClick={simulateWorkProgress}
-                />
-                <StatusDemoButton 
-                  label="📁 Add Artifact" 
-                  onClick={simulateArtifactCreation}
-                />
-              </div>
-            </div>
           </div>
         </div>
       </div>
@@ -421,7 +287,8 @@ interface AgentCardProps {
   agent: {
     id: string
     name: string
-    type: AgentType
+    type: AgentRole
+    avatar?: string
     description?: string
   }
   status: AgentStatus
@@ -437,12 +304,13 @@ interface AgentCardProps {
     status: string
   }
   assignedTasksCount: number
+  tokenBudget?: AgentTokenBudgetStatus
   onConfigure: () => void
   onShowDetails: () => void
 }
 
-const AgentCard: React.FC<AgentCardProps> = ({ agent, status, stats, currentTask, assignedTasksCount, onConfigure, onShowDetails }) => {
-  const getAgentConfig = (type: AgentType) => {
+const AgentCard: React.FC<AgentCardProps> = ({ agent, status, stats, currentTask, assignedTasksCount, tokenBudget, onConfigure, onShowDetails }) => {
+  const getAgentConfig = (type: AgentRole) => {
     const configs = {
       [AgentType.PRODUCER]: {
         emoji: '👔',
@@ -469,7 +337,13 @@ const AgentCard: React.FC<AgentCardProps> = ({ agent, status, stats, currentTask
         borderColor: 'border-orange-200'
       }
     }
-    return configs[type]
+    // Custom personas from config show their own avatar on a neutral card
+    return configs[type as AgentType] ?? {
+      emoji: agent.avatar ?? '🤖',
+      bgColor: 'bg-gray-100',
+      textColor: 'text-gray-800',
+      borderColor: 'border-gray-200'
+    }
   }
 
   const getStatusConfig = (status: AgentStatus) => {
@@ -618,6 +492,17 @@ const AgentCard: React.FC<AgentCardProps> = ({ agent, status, stats, currentTask
         </div>
       )}
 
+      {/* Token Budget */}
+      {tokenBudget && (
+        <div className="mt-3">
+          <TokenBudgetMeter
+            label="Tokens this hour"
+            used={tokenBudget.usedLastHour}
+            limit={tokenBudget.tokensPerHour}
+          />
+        </div>
+      )}
+
       {/* Agent Actions */}
       <div className="mt-3 pt-3 border-t border-gray-100">
         <div className="grid grid-cols-3 gap-1">
@@ -718,10 +603,146 @@ const WorkloadIndicator: React.FC<WorkloadIndicatorProps> = ({ taskCount }) => {
   )
 }
 
+// =============================================================================
+// Token Budget Components
+// =============================================================================
+
+interface ProjectBudgetMeterProps {
+  project: NonNullable<TokenBudgetStatus['project']>
+}
+
+const ProjectBudgetMeter: React.FC<ProjectBudgetMeterProps> = ({ project }) => {
+  const { setProjectTokenBudget } = useAgentStore()
+  const [isEditing, setIsEditing] = useState(false)
+  const [dailyLimit, setDailyLimit] = useState('')
+  const [totalLimit, setTotalLimit] = useState('')
+
+  const startEditing = () => {
+    setDailyLimit(project.budget?.dailyLimit?.toString() ?? '')
+    setTotalLimit(project.budget?.totalLimit?.toString() ?? '')
+    setIsEditing(true)
+  }
+
+  const parseLimit = (value: string): number | undefined => {
+    const limit = parseInt(value, 10)
+    return Number.isNaN(limit) ? undefined : Math.max(0, limit)
+  }
+
+  const saveBudget = async () => {
+    try {
+      await setProjectTokenBudget({
+        projectId: project.projectId,
+        dailyLimit: parseLimit(dailyLimit),
+        totalLimit: parseLimit(totalLimit)
+      })
+      setIsEditing(false)
+    } catch (error) {
+      console.error('Failed to save project token budget:', error)
+    }
+  }
+
+  return (
+    <div className="flex-shrink-0 px-4 py-3 border-b border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium text-gray-700">Project Token Budget</h3>
+        {!isEditing && (
+          <button onClick={startEditing} className="text-xs text-blue-600 hover:text-blue-700">
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <BudgetLimitInput label="Daily limit" value={dailyLimit} onChange={setDailyLimit} />
+          <BudgetLimitInput label="Total limit" value={totalLimit} onChange={setTotalLimit} />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveBudget}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <TokenBudgetMeter label="Today" used={project.usedToday} limit={project.budget?.dailyLimit} />
+          <TokenBudgetMeter label="All time" used={project.usedTotal} limit={project.budget?.totalLimit} />
+        </>
+      )}
+    </div>
+  )
+}
+
+interface BudgetLimitInputProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+}
+
+const BudgetLimitInput: React.FC<BudgetLimitInputProps> = ({ label, value, onChange }) => {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-gray-500">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={value}
+        placeholder="No limit"
+        onChange={(event) => onChange(event.target.value)}
+        className="w-28 px-2 py-1 border border-gray-300 rounded text-gray-900"
+      />
+    </label>
+  )
+}
+
+interface TokenBudgetMeterProps {
+  label: string
+  used: number
+  limit?: number
+}
+
+const TokenBudgetMeter: React.FC<TokenBudgetMeterProps> = ({ label, used, limit }) => {
+  const percentage = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0
+  const color = percentage >= 100 ? 'bg-red-500' : percentage >= 80 ? 'bg-yellow-500' : 'bg-green-500'
+
+  return (
+    <div className="space-y-1" title={limit ? `${percentage}% of budget used` : 'No limit configured'}>
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-gray-500">{label}</span>
+        <span className="font-medium text-gray-900">
+          {formatTokens(used)}{limit !== undefined ? ` / ${formatTokens(limit)}` : ''}
+        </span>
+      </div>
+      {limit !== undefined && (
+        <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={cn('h-full transition-all duration-500', color)}
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`
+  return String(tokens)
+}
+
 const formatRelativeTime = (date: Date): string => {
   const now = new Date()
   const diffMs = now.getTime() - date.getTime()
@@ -1,5 +1,8 @@
 // Team components export 
 export { TeamPanel } from './TeamPanel'
 export { AgentActivityMonitor, CompactActivityDisplay } from './AgentActivityMonitor'
+export { ApprovalsInbox } from './ApprovalsInbox'
+export { RoutingAccuracyPanel } from './RoutingAccuracyPanel'
+export { MessageQueuePanel } from './MessageQueuePanel'
 export { AgentConfigurationModal } from './AgentConfigurationModal'
 export { AgentDetailModal } from './AgentDetailModal'
@@ -77,7 +77,7 @@ export const AgentAssignmentDropdown: React.FC<AgentAssignmentDropdownProps> = (
               value={agent.id}
               disabled={!isAvailable}
             >
-              {getAgentConfig(agent.type).emoji} {agent.name} {!isAvailable ? `(${status})` : ''}
+              {getAgentConfig(agent.type, agent.avatar).emoji} {agent.name} {!isAvailable ? `(${status})` : ''}
             </option>
           )
         })}
@@ -94,7 +94,7 @@ export const AgentAssignmentDropdown: React.FC<AgentAssignmentDropdownProps> = (
       {selectedAgent && (
         <div className="absolute inset-y-0 left-0 flex items-center pl-2 pointer-events-none">
           <span className="text-sm">
-            {getAgentConfig(selectedAgent.type).emoji}
+            {getAgentConfig(selectedAgent.type, selectedAgent.avatar).emoji}
           </span>
         </div>
       )}
@@ -142,7 +142,7 @@ export const AgentAssignmentBadge: React.FC<AgentAssignmentBadgeProps> = ({
     )
   }
 
-  const agentConfig = getAgentConfig(agent.type)
+  const agentConfig = getAgentConfig(agent.type, agent.avatar)
   const status = statuses[agent.id] || 'idle'
   const statusConfig = getAgentStatusConfig(status)
 
@@ -267,8 +267,14 @@ const AGENT_CONFIGS: Record<AgentType, AgentConfig> = {
   }
 }
 
-function getAgentConfig(type: AgentType): AgentConfig {
-  return AGENT_CONFIGS[type]
+// Custom personas from config use their own avatar on a neutral badge
+function getAgentConfig(type: string, avatar?: string): AgentConfig {
+  return AGENT_CONFIGS[type as AgentType] ?? {
+    name: type,
+    emoji: avatar ?? '🤖',
+    className: 'bg-gray-100 text-gray-800 border-gray-200',
+    color: 'gray'
+  }
 }
 
 interface AgentStatusConfig {
@@ -558,18 +558,29 @@ const TaskTypeIcon: React.FC<{ type: TaskType }> = ({ type }) => {
 // Tree Building Utility
 // =============================================================================
 
-function buildTreeNodes(items: HierarchyItem[]): TaskTreeNode[] {
-  // For now, create a simple tree structure
-  // In a real implementation, this would build the actual hierarchy
+function buildTreeNodes(items: HierarchyItem[], level = 0, path: string[] = []): TaskTreeNode[] {
   return items.map(item => ({
     item,
-    children: [],
-    level: 0,
+    children: buildTreeNodes(getChildItems(item), level + 1, [...path, item.id]),
+    level,
     expanded: false,
-    path: []
+    path
   }))
 }
 
+function getChildItems(item: HierarchyItem): HierarchyItem[] {
+  switch (item.type) {
+    case 'epic':
+      return item.stories ?? []
+    case 'story':
+      return item.tasks ?? []
+    case 'task':
+      return item.subtasks ?? []
+    default:
+      return []
+  }
+}
+
 function getValidChildTypes(parentType: TaskType): TaskType[] {
   switch (parentType) {
     case 'epic':
@@ -5,7 +5,7 @@
  * for project management, task boards, and context switching
  */
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { useUIStore } from '@/renderer/stores/uiStore'
 import { useProjectStore } from '@/renderer/stores/projectStore'
 import { cn } from '@/renderer/utils/cn'
@@ -15,7 +15,9 @@ import type {
   CreateStoryInput,
   CreateSubtaskInput,
   CreateTaskInput,
-  HierarchyItem
+  Epic,
+  HierarchyItem,
+  TaskHierarchy
 } from '@/shared/types/tasks'
 
 // =============================================================================
@@ -263,49 +265,33 @@ const FilesView: React.FC = () => {
 // =============================================================================
 
 const TreeViewTab: React.FC = () => {
-  // Mock data for demonstration - will be replaced with real data
-  const mockTasks: HierarchyItem[] = [
-    {
-      id: '1',
-      title: 'User Authentication System',
-      description: 'Complete user login and registration functionality',
-      type: 'epic',
-      status: 'in-progress',
-      priority: 'high',
-      storyPoints: 21,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      projectId: 'project-1',
-      stories: [],
-      businessValue: 'Enable secure user access and personalization',
-      acceptanceCriteria: [
-        'Users can register with email and password',
-        'Users can login securely', 
-        'Password reset functionality works',
-        'User sessions are managed properly'
-      ]
-    },
-    {
-      id: '2', 
-      title: 'Project Dashboard Interface',
-      description: 'Main dashboard for project management',
-      type: 'epic',
-      status: 'not-started',
-      priority: 'medium',
-      storyPoints: 13,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      projectId: 'project-1',
-      stories: [],
-      businessValue: 'Provide centralized project visibility and control',
-      acceptanceCriteria: [
-        'Dashboard shows project overview',
-        'Real-time status updates',
-        'Quick action buttons available',
-        'Performance metrics displayed'
-      ]
+  const { currentProject } = useProjectStore()
+  const projectId = currentProject?.id
+  const [epics, setEpics] = useState<Epic[]>([])
+
+  // Load the project's task tree and follow plan changes as they are applied
+  useEffect(() => {
+    setEpics([])
+    if (!projectId) return
+
+    let cancelled = false
+    window.api.getTaskHierarchy(projectId)
+      .then(hierarchy => {
+        if (!cancelled) setEpics(hierarchy.epics)
+      })
+      .catch(error => console.error('Failed to load task hierarchy:', error))
+
+    const onUpdated = (update: { projectId: string, hierarchy: TaskHierarchy }) => {
+      if (update.projectId === projectId) {
+        setEpics(update.hierarchy.epics)
+      }
+    }
+    window.api.on('tasks:hierarchy-updated', onUpdated)
+    return () => {
+      cancelled = true
+      window.api.off('tasks:hierarchy-updated', onUpdated)
     }
-  ]
+  }, [projectId])
 
   const handleItemSelect = (item: HierarchyItem) => {
     console.log('Selected item:', item)
@@ -323,8 +309,8 @@ const TreeViewTab: React.FC = () => {
   return (
     <div className="h-full">
       <TreeView
-        items={mockTasks}
-        projectId="project-1"
+        items={epics}
+        projectId={projectId ?? ''}
         onItemSelect={handleItemSelect}
         onItemUpdate={handleItemUpdate}
         onCreateItem={handleCreateItem}
@@ -7,7 +7,14 @@
 
 import { create } from 'zustand'
 import { immer } from 'zustand/middleware/immer'
-import { AgentStatus, AgentType } from '@/shared/contracts/AgentDomain'
+import {
+  AgentRole,
+  AgentStatus,
+  AgentType,
+  AgentWorkSessionRecord,
+  ProjectTokenBudget,
+  TokenBudgetStatus
+} from '@/shared/contracts/AgentDomain'
 
 // =============================================================================
 // Agent Types
@@ -50,7 +57,11 @@ export interface AgentConfiguration {
 export interface Agent {
   id: string
   name: string
-  type: AgentType
+  type: AgentRole
+  /**
+   * Emoji shown for custom personas; built-in agents use their own avatars
+   */
+  avatar?: string
   description: string
   isActive: boolean
   capabilities: string[]
@@ -93,7 +104,7 @@ export interface AgentThinkingStep {
   type: 'analysis' | 'planning' | 'decision' | 'execution' | 'reflection'
   title: string
   content: string
-  confidence: number // 0-100
+  confidence?: number // 0-100, when the step reports one
   relatedTaskId?: string
   metadata?: Record<string, any>
 }
@@ -103,7 +114,8 @@ export interface AgentWorkSession {
   agentId: string
   startTime: Date
   endTime?: Date
-  status: 'active' | 'paused' | 'completed' | 'cancelled'
+  status: 'active' | 'paused' | 'completed' | 'cancelled' | 'failed'
+  error?: string
   taskId?: string
   taskTitle?: string
   objective: string
@@ -129,6 +141,7 @@ export interface AgentState {
   agents: Agent[]
   statuses: Record<string, AgentStatus>
   statistics: Record<string, AgentStatistics>
+  tokenBudget: TokenBudgetStatus | null // Live usage from the main process; not persisted
   statusHistory: AgentStatusChange[]
   activityLogs: AgentActivityLog[]
   workSessions: Record<string, AgentWorkSession[]> // agentId -> sessions
@@ -161,11 +174,13 @@ export interface AgentActions {
   
   // Statistics
   updateAgentStats: (agentId: string, updates: Partial<AgentStatistics>) => void
+  loadTokenBudget: (projectId?: string) => Promise<void>
+  setProjectTokenBudget: (budget: ProjectTokenBudget) => Promise<void>
   
   // Team Coordination
   getAvailableAgents: () => Agent[]
   getBusyAgents: () => Agent[]
-  getAgentByType: (type: AgentType) => Agent | undefined
+  getAgentByType: (type: AgentRole) => Agent | undefined
   
   // Agent Configuration
   updateAgentConfiguration: (agentId: string, config: Partial<AgentConfiguration>) => void
@@ -184,6 +199,8 @@ export interface AgentActions {
   addThinkingStep: (agentId: string, sessionId: string, step: Omit<AgentThinkingStep, 'id' | 'timestamp'>) => string
   getActiveWorkSession: (agentId: string) => AgentWorkSession | null
   getWorkSessionHistory: (agentId: string, limit?: number) => AgentWorkSession[]
+  applyWorkSession: (session: AgentWorkSessionRecord) => void
+  loadWorkSessions: () => Promise<void>
   
   // Persistence
   saveAgentState: () => Promise<void>
@@ -194,6 +211,40 @@ export interface AgentActions {
 // Default Configuration Helper
 // =============================================================================
 
+// Work sessions come from the main process keyed by agent type; the store keys them by agent id
+const toWorkSession = (record: AgentWorkSessionRecord, agentId: string): AgentWorkSession => ({
+  id: record.id,
+  agentId,
+  startTime: new Date(record.startedAt),
+  endTime: record.endedAt ? new Date(record.endedAt) : undefined,
+  status: record.status,
+  error: record.error,
+  taskId: record.taskId,
+  objective: record.objective,
+  progressPercentage: record.progressPercentage,
+  currentPhase: record.phase,
+  thinkingSteps: record.thinkingSteps.map(step => ({
+    id: step.id,
+    timestamp: new Date(step.timestamp),
+    type: step.type,
+    title: step.title,
+    content: step.content,
+    confidence: step.confidence,
+    relatedTaskId: record.taskId
+  })),
+  artifacts: record.artifacts.map(artifact => ({
+    id: artifact.id,
+    sessionId: record.id,
+    type: artifact.type,
+    title: artifact.title,
+    content: artifact.content,
+    createdAt: new Date(artifact.createdAt),
+    updatedAt: new Date(artifact.createdAt),
+    tags: artifact.tags,
+    size: artifact.content.length
+  }))
+})
+
 const createDefaultAgentConfiguration = (): AgentConfiguration => ({
   // Personality Settings
   communicationStyle: 'professional',
@@ -235,6 +286,7 @@ const DEFAULT_AGENT_STATE: AgentState = {
   agents: [],
   statuses: {},
   statistics: {},
+  tokenBudget: null,
   statusHistory: [],
   activityLogs: [],
   workSessions: {},
@@ -291,6 +343,22 @@ export const useAgentStore = create<AgentState & AgentActions>()(
         }
       ]
 
+      // Personas declared in config join the team after the built-in agents
+      try {
+        const customPersonas = await window.api.listCustomPersonas()
+        defaultAgents.push(...customPersonas.map(persona => ({
+          name: persona.name,
+          type: persona.id,
+          avatar: persona.avatar,
+          description: persona.description,
+          isActive: true,
+          capabilities: persona.capabilities,
+          systemPrompt: persona.systemPrompt
+        })))
+      } catch (error) {
+        console.error('Failed to load custom personas:', error)
+      }
+
       set((state) => {
         state.agents = defaultAgents.map((agent, index) => ({
           ...agent,
@@ -513,6 +581,22 @@ export const useAgentStore = create<AgentState & AgentActions>()(
       })
     },
 
+    loadTokenBudget: async (projectId) => {
+      try {
+        const tokenBudget = await window.api.getTokenBudgetStatus(projectId)
+        set((state) => {
+          state.tokenBudget = tokenBudget
+        })
+      } catch (error) {
+        console.error('Failed to load token budget:', error)
+      }
+    },
+
+    setProjectTokenBudget: async (budget) => {
+      await window.api.setProjectTokenBudget(budget)
+      await get().loadTokenBudget(budget.projectId)
+    },
+
     // =============================================================================
     // Team Coordination
     // =============================================================================
@@ -868,6 +952,59 @@ export const useAgentStore = create<AgentState & AgentActions>()(
         .slice(0, limit)
     },
 
+    applyWorkSession: (record) => {
+      set((state) => {
+        const agent = state.agents.find(candidate => candidate.type === record.agentType)
+        if (!agent) {
+          return
+        }
+
+        const sessions = state.workSessions[agent.id] ?? (state.workSessions[agent.id] = [])
+        const index = sessions.findIndex(session => session.id === record.id)
+        const previousStatus = index === -1 ? undefined : sessions[index].status
+        const session = toWorkSession(record, agent.id)
+        if (index === -1) {
+          sessions.push(session)
+        } else {
+          sessions[index] = session
+        }
+
+        if (record.status === 'active') {
+          state.activeWorkSessions[agent.id] = record.id
+        } else if (state.activeWorkSessions[agent.id] === record.id) {
+          delete state.activeWorkSessions[agent.id]
+        }
+
+        // Log the start and the end of each session, not every step in between
+        if (previousStatus === record.status) {
+          return
+        }
+        const description = record.status === 'active'
+          ? `${agent.name} started work session: ${record.objective}`
+          : record.status === 'completed'
+            ? `${agent.name} completed work session`
+            : `${agent.name}'s work session failed: ${record.error ?? 'unknown error'}`
+        state.activityLogs.push({
+          id: `activity-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          agentId: agent.id,
+          type: record.status === 'active' ? 'task_assignment' : record.status === 'failed' ? 'error' : 'interaction',
+          description,
+          timestamp: new Date(),
+          metadata: { sessionId: record.id, messageId: record.messageId, taskId: record.taskId }
+        })
+      })
+    },
+
+    loadWorkSessions: async () => {
+      try {
+        const sessions = await window.api.listWorkSessions()
+        // Oldest first, so the most recent session of an agent ends up active
+        sessions.reverse().forEach(session => get().applyWorkSession(session))
+      } catch (error) {
+        console.error('Failed to load work sessions:', error)
+      }
+    },
+
     // =============================================================================
     // Persistence
     // =============================================================================
@@ -946,4 +1083,15 @@ useAgentStore.subscribe(() => {
 // Load agent state on initialization
 if (typeof window !== 'undefined') {
   useAgentStore.getState().loadAgentState()
+
+  // Refresh the budget meter whenever the main process records token usage
+  window.api?.on('usage:recorded', () => {
+    const { tokenBudget, loadTokenBudget } = useAgentStore.getState()
+    loadTokenBudget(tokenBudget?.project?.projectId)
+  })
+
+  // Agents report their work on each message as it happens
+  window.api?.on('agent:work-session-updated', (session: AgentWorkSessionRecord) => {
+    useAgentStore.getState().applyWorkSession(session)
+  })
 }
\ No newline at end of file
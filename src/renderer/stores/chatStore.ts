@@ -20,7 +20,7 @@ export interface ChatMessage {
   agentId?: string
   timestamp: Date
   threadId?: string
-  status: 'sending' | 'delivered' | 'error'
+  status: 'sending' | 'delivered' | 'error' | 'cancelled'
   metadata?: {
     userInitiated?: boolean
     agentResponse?: boolean
@@ -29,6 +29,32 @@ export interface ChatMessage {
   }
 }
 
+export interface ChatStreamUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ChatStreamChunk {
+  messageId: string
+  /**
+   * User message the reply answers; round table turns stream under ids of their own
+   */
+  contextId?: string
+  agentId: string
+  delta: string
+  content: string
+  threadId?: string
+}
+
+export interface ChatStreamCompletion {
+  messageId: string
+  contextId?: string
+  agentId: string
+  content: string
+  threadId?: string
+  usage?: ChatStreamUsage
+}
+
 export interface ChatThread {
   id: string
   name: string
@@ -73,16 +99,56 @@ export interface ChatState {
 export interface SendMessageInput {
   content: string
   targetAgent?: string
+  /**
+   * Id of the earlier message this one resends to `targetAgent` instead of the agent it was routed to
+   */
+  rerouteOf?: string
+  /**
+   * Project the message is about; agents keep their state, plans and approvals per project
+   */
+  projectId?: string
   threadId?: string
+  /**
+   * Let the router's secondary agents comment on the answer and the Producer sum up
+   */
+  roundTable?: boolean
   metadata?: Record<string, unknown>
 }
 
+/**
+ * Where a reply sits in a round-table exchange started by the user message `id`
+ */
+export interface ChatRoundTableTurn {
+  id: string
+  kind: 'answer' | 'comment' | 'summary'
+  participants: string[]
+}
+
+interface AgentReplyResponse {
+  id?: string
+  agentId: string
+  content: string
+  contextId?: string
+  streamId?: string
+  routing?: unknown
+  roundTable?: ChatRoundTableTurn
+  actions?: unknown[]
+}
+
 export interface ChatActions {
   // Message Management
   sendMessage: (input: SendMessageInput) => Promise<void>
   addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void
   updateMessage: (id: string, updates: Partial<ChatMessage>) => void
   deleteMessage: (id: string) => void
+  /**
+   * Stops the agent working on a message, or takes it out of the agent's queue
+   */
+  cancelMessage: (id: string) => Promise<void>
+  
+  // Response Streaming
+  handleStreamChunk: (chunk: ChatStreamChunk) => void
+  handleStreamComplete: (completion: ChatStreamCompletion) => void
   
   // Thread Management
   createThread: (name: string, description?: string) => string
@@ -128,6 +194,12 @@ const DEFAULT_CHAT_STATE: ChatState = {
   totalMessageCount: 0
 }
 
+/**
+ * Whether a streamed reply belongs to a user message that was cancelled
+ */
+const isCancelled = (messages: ChatMessage[], stream: Pick<ChatStreamChunk, 'messageId' | 'contextId'>): boolean =>
+  messages.some(m => (m.id === stream.messageId || m.id === stream.contextId) && m.status === 'cancelled')
+
 // =============================================================================
 // Chat Store Implementation
 // =============================================================================
@@ -173,12 +245,24 @@ export const useChatStore = create<ChatState & ChatActions>()(
         try {
           // Send message through IPC
           const response = await window.api.sendChatMessage({
+            messageId,
             content: input.content,
             targetAgent: input.targetAgent,
+            rerouteOf: input.rerouteOf,
+            projectId: input.projectId,
             threadId: input.threadId || get().activeThread || undefined,
-            context: get().conversationContext.slice(-10) // Send recent context
+            context: get().conversationContext.slice(-10), // Send recent context
+            roundTable: input.roundTable
           })
 
+          if (!response.success) {
+            throw new Error(response.error || 'The agent could not answer')
+          }
+          // A round table cancelled partway still answers with the turns that finished
+          if (get().messages.find(m => m.id === messageId)?.status === 'cancelled') {
+            return
+          }
+
           // Update message status
           set((state) => {
             const message = state.messages.find(m => m.id === messageId)
@@ -187,29 +271,65 @@ export const useChatStore = create<ChatState & ChatActions>()(
             }
           })
 
-          // Add agent response if provided
-          if (response.agentResponse) {
-            const agentMessage: ChatMessage = {
-              id: crypto.randomUUID(),
-              content: response.agentResponse.content,
-              sender: 'agent',
-              agentId: response.agentResponse.agentId,
-              timestamp: new Date(),
-              threadId: input.threadId || get().activeThread || undefined,
-              status: 'delivered',
-              metadata: {
-                agentResponse: true,
-                contextId: response.agentResponse.contextId
+          // Finalize each streamed reply if one is in flight, otherwise add the response.
+          // The main process has already saved the replies under the ids it returns; a
+          // round table adds the other agents' comments and the summary after the answer.
+          const agentResponses: AgentReplyResponse[] = response.agentResponse
+            ? [response.agentResponse, ...(response.roundTableReplies ?? [])]
+            : []
+          for (const agentResponse of agentResponses) {
+            const streamId = agentResponse.streamId ?? messageId
+            const streamedMessage = get().messages.find(m => m.metadata?.streamId === streamId)
+            if (streamedMessage) {
+              get().handleStreamComplete({
+                messageId: streamId,
+                agentId: agentResponse.agentId,
+                content: agentResponse.content,
+                usage: streamedMessage.metadata?.usage as ChatStreamUsage | undefined
+              })
+              set((state) => {
+                const message = state.messages.find(m => m.metadata?.streamId === streamId)
+                if (message) {
+                  message.id = agentResponse.id ?? message.id
+                  message.metadata = {
+                    ...message.metadata,
+                    routing: agentResponse.routing,
+                    roundTable: agentResponse.roundTable,
+                    actions: agentResponse.actions
+                  }
+                }
+              })
+            } else {
+              const agentMessage: ChatMessage = {
+                id: agentResponse.id ?? crypto.randomUUID(),
+                content: agentResponse.content,
+                sender: 'agent',
+                agentId: agentResponse.agentId,
+                timestamp: new Date(),
+                threadId: input.threadId || get().activeThread || undefined,
+                status: 'delivered',
+                metadata: {
+                  agentResponse: true,
+                  contextId: agentResponse.contextId,
+                  streamId,
+                  routing: agentResponse.routing,
+                  roundTable: agentResponse.roundTable,
+                  actions: agentResponse.actions
+                }
               }
-            }
 
-            set((state) => {
-              state.messages.push(agentMessage)
-              state.conversationContext.push(response.agentResponse.content)
-            })
+              set((state) => {
+                state.messages.push(agentMessage)
+                state.conversationContext.push(agentResponse.content)
+              })
+            }
           }
 
         } catch (error) {
+          // Cancelling makes the send fail on purpose
+          if (get().messages.find(m => m.id === messageId)?.status === 'cancelled') {
+            return
+          }
           console.error('Failed to send message:', error)
           
           // Update message status to error
@@ -258,6 +378,94 @@ export const useChatStore = create<ChatState & ChatActions>()(
         })
       },
 
+      cancelMessage: async (id) => {
+        const { success } = await window.api.cancelAgentMessage({ messageId: id })
+        if (!success) {
+          return
+        }
+
+        // The partial reply streamed so far is dropped along with the message
+        set((state) => {
+          const message = state.messages.find(m => m.id === id)
+          if (message?.status === 'sending') {
+            message.status = 'cancelled'
+          }
+          state.messages = state.messages.filter(m =>
+            !((m.metadata?.streamId === id || m.metadata?.contextId === id) && m.status === 'sending'))
+        })
+      },
+
+      // =============================================================================
+      // Response Streaming
+      // =============================================================================
+
+      handleStreamChunk: (chunk) => {
+        set((state) => {
+          const existing = state.messages.find(m => m.metadata?.streamId === chunk.messageId)
+          if (existing) {
+            // Chunks carry the accumulated text, so out-of-order deltas cannot corrupt it
+            if (chunk.content.length >= existing.content.length) {
+              existing.content = chunk.content
+            }
+            return
+          }
+          // Chunks already on their way when the message was cancelled
+          if (isCancelled(state.messages, chunk)) {
+            return
+          }
+
+          state.messages.push({
+            id: crypto.randomUUID(),
+            content: chunk.content,
+            sender: 'agent',
+            agentId: chunk.agentId,
+            timestamp: new Date(),
+            threadId: chunk.threadId,
+            status: 'sending',
+            metadata: {
+              agentResponse: true,
+              contextId: chunk.contextId,
+              streamId: chunk.messageId
+            }
+          })
+        })
+        get().setTyping(chunk.agentId, false)
+      },
+
+      handleStreamComplete: (completion) => {
+        const pending = get().messages.find(m => m.metadata?.streamId === completion.messageId)
+        if ((pending && pending.status !== 'sending') || (!pending && isCancelled(get().messages, completion))) {
+          return
+        }
+
+        set((state) => {
+          const existing = state.messages.find(m => m.metadata?.streamId === completion.messageId)
+          if (existing) {
+            state.conversationContext.push(completion.content)
+            existing.content = completion.content
+            existing.status = 'delivered'
+            existing.metadata = { ...existing.metadata, usage: completion.usage }
+          } else {
+            state.messages.push({
+              id: crypto.randomUUID(),
+              content: completion.content,
+              sender: 'agent',
+              agentId: completion.agentId,
+              timestamp: new Date(),
+              threadId: completion.threadId,
+              status: 'delivered',
+              metadata: {
+                agentResponse: true,
+                contextId: completion.contextId,
+                streamId: completion.messageId,
+                usage: completion.usage
+              }
+            })
+            state.conversationContext.push(completion.content)
+          }
+        })
+      },
+
       // =============================================================================
       // Thread Management
       // =============================================================================
@@ -560,8 +768,13 @@ useChatStore.subscribe(
     if (messages.length > previousMessages.length) {
       // Debounce saves
       const timeoutId = setTimeout(() => {
-        const newMessages = messages.slice(previousMessages.length)
-        useChatStore.getState().saveMessagesToHistory(newMessages)
+        // Streaming replies are saved once complete, not with partial content
+        const newMessages = messages
+          .slice(previousMessages.length)
+          .filter(m => !(m.sender === 'agent' && m.status === 'sending'))
+        if (newMessages.length > 0) {
+          useChatStore.getState().saveMessagesToHistory(newMessages)
+        }
       }, 1000)
       
       return () => clearTimeout(timeoutId)
@@ -593,4 +806,12 @@ if (typeof window !== 'undefined') {
   const store = useChatStore.getState()
   store.loadChatHistory()
   store.loadThreadHistory()
+
+  // Render agent replies incrementally as they stream in from the main process
+  window.api?.on('chat:stream-chunk', (_event: unknown, chunk: ChatStreamChunk) => {
+    useChatStore.getState().handleStreamChunk(chunk)
+  })
+  window.api?.on('chat:stream-complete', (_event: unknown, completion: ChatStreamCompletion) => {
+    useChatStore.getState().handleStreamComplete(completion)
+  })
 }
\ No newline at end of file
@@ -6,7 +6,7 @@
  */
 
 import { AgentConfiguration } from '@/renderer/stores/agentStore'
-import { AgentType } from '@/shared/contracts/AgentDomain'
+import { AgentRole, AgentType } from '@/shared/contracts/AgentDomain'
 
 // =============================================================================
 // Configuration Preset Types
@@ -276,9 +276,9 @@ export const CONFIGURATION_PRESETS: ConfigurationPreset[] = [
 /**
  * Get presets applicable to a specific agent type
  */
-export function getPresetsForAgentType(agentType: AgentType): ConfigurationPreset[] {
+export function getPresetsForAgentType(agentType: AgentRole): ConfigurationPreset[] {
   return CONFIGURATION_PRESETS.filter(preset => 
-    preset.applicableAgents.includes(agentType)
+    preset.applicableAgents.some(applicable => applicable === agentType)
   )
 }
 
@@ -32,6 +32,11 @@ export enum AgentType {
   QA = 'qa'
 }
 
+/**
+ * A built-in agent type or the id of a custom persona declared in config
+ */
+export type AgentRole = AgentType | (string & {})
+
 export enum AgentStatus {
   IDLE = 'idle',
   THINKING = 'thinking',
@@ -42,7 +47,7 @@ export enum AgentStatus {
 }
 
 export interface Agent extends DomainEntity {
-  readonly type: AgentType
+  readonly type: AgentRole
   readonly name: string
   readonly avatar: string
   readonly status: AgentStatus
@@ -63,9 +68,25 @@ export interface AgentConfiguration {
   readonly temperature: number
   readonly maxTokens: number
   readonly systemPrompt: string
+  /**
+   * Names of the tools the agent may call
+   */
   readonly tools: string[]
+  /**
+   * Permissions held for tool calls, such as `files:read`; a tool runs only
+   * when its required permission is among them
+   */
+  readonly permissions?: string[]
   readonly memoryAccess: MemoryAccessLevel
   readonly rateLimits: RateLimits
+  /**
+   * Per-attempt LLM call timeout; the provider default applies when absent
+   */
+  readonly timeoutMs?: number
+  /**
+   * Models tried in order when the primary model keeps failing
+   */
+  readonly fallbackModels?: string[]
 }
 
 export interface MemoryAccessLevel {
@@ -87,6 +108,102 @@ export interface AgentStatistics {
   readonly averageResponseTime: number
   readonly successRate: number
   readonly lastActiveAt: Date
+  readonly llmAttempts?: LLMAttemptStatistics
+}
+
+export type LLMAttemptOutcome = 'success' | 'retry' | 'fallback' | 'failed'
+
+/**
+ * One attempt at an LLM call. `retry` and `fallback` name what happens next
+ * after a failed attempt; `failed` means the call gave up.
+ */
+export interface LLMCallAttempt {
+  readonly model?: string
+  readonly attempt: number
+  readonly outcome: LLMAttemptOutcome
+  readonly durationMs: number
+  readonly error?: string
+  readonly timedOut?: boolean
+}
+
+export interface LLMAttemptStatistics {
+  readonly totalAttempts: number
+  readonly retries: number
+  readonly fallbacks: number
+  readonly timeouts: number
+  readonly failedCalls: number
+  readonly lastAttempt?: LLMCallAttempt
+}
+
+export type ToolInvocationOutcome = 'success' | 'denied' | 'timeout' | 'failed'
+
+/**
+ * One tool call made by an agent, logged whether or not it was allowed to run
+ */
+export interface ToolInvocationRecord {
+  readonly id: string
+  readonly toolName: string
+  readonly agentId: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly parameters: unknown
+  readonly outcome: ToolInvocationOutcome
+  /**
+   * Characters in the JSON-serialised result; 0 when the call produced none
+   */
+  readonly resultSize: number
+  readonly durationMs: number
+  readonly error?: string
+  readonly timestamp: Date
+}
+
+// =============================================================================
+// Work Sessions
+// =============================================================================
+
+export type AgentWorkPhase = 'initializing' | 'analyzing' | 'planning' | 'implementing' | 'reviewing' | 'completed'
+export type AgentWorkSessionStatus = 'active' | 'completed' | 'failed'
+
+export interface AgentThinkingStepRecord {
+  readonly id: string
+  readonly type: 'analysis' | 'planning' | 'decision' | 'execution' | 'reflection'
+  readonly title: string
+  readonly content: string
+  /**
+   * 0-100; only set when the step comes with a measure of certainty
+   */
+  readonly confidence?: number
+  readonly timestamp: Date
+}
+
+export interface AgentArtifactRecord {
+  readonly id: string
+  readonly type: 'code' | 'document' | 'analysis' | 'plan' | 'test' | 'review'
+  readonly title: string
+  readonly content: string
+  readonly tags: string[]
+  readonly createdAt: Date
+}
+
+/**
+ * The work an agent did on one message, folded from its agent.work.* events
+ */
+export interface AgentWorkSessionRecord {
+  readonly id: string
+  readonly agentId: string
+  readonly agentType: AgentRole
+  readonly messageId: string
+  readonly projectId?: string
+  readonly taskId?: string
+  readonly objective: string
+  readonly status: AgentWorkSessionStatus
+  readonly phase: AgentWorkPhase
+  readonly progressPercentage: number
+  readonly startedAt: Date
+  readonly endedAt?: Date
+  readonly error?: string
+  readonly thinkingSteps: AgentThinkingStepRecord[]
+  readonly artifacts: AgentArtifactRecord[]
 }
 
 // =============================================================================
@@ -96,8 +213,8 @@ export interface AgentStatistics {
 export interface AgentMessage {
   readonly id: string
   readonly timestamp: Date
-  readonly from: AgentType | 'user' | 'system'
-  readonly to: AgentType | 'all' | 'user'
+  readonly from: AgentRole | 'user' | 'system'
+  readonly to: AgentRole | 'all' | 'user'
   readonly content: string
   readonly messageType: MessageType
   readonly projectId?: string
@@ -113,10 +230,21 @@ export enum MessageType {
   SYSTEM = 'system'
 }
 
+export type MessagePriority = 'low' | 'normal' | 'high' | 'urgent'
+
 export interface MessageMetadata {
-  readonly priority: 'low' | 'normal' | 'high' | 'urgent'
+  readonly priority: MessagePriority
   readonly requiresResponse: boolean
   readonly threadId?: string
+  /**
+   * Message this one follows up on, such as the user message that started a
+   * round table; cancelling the parent cancels it too
+   */
+  readonly parentMessageId?: string
+  /**
+   * The agent only replies: it is offered no tools and takes no actions
+   */
+  readonly actionsDisabled?: boolean
   readonly references?: string[]
   readonly suggestedActions?: AgentAction[]
   readonly context?: Record<string, unknown>
@@ -131,11 +259,15 @@ export interface AgentAction {
 
 export interface AgentResponse {
   readonly messageId: string
-  readonly agentType: AgentType
+  readonly agentType: AgentRole
   readonly content: string
   readonly actions: AgentAction[]
   readonly statusUpdate?: AgentStatusUpdate
   readonly errors?: AgentError[]
+  /**
+   * Prompt templates, with versions, that produced this response
+   */
+  readonly promptTemplates?: PromptTemplateUsage[]
 }
 
 export interface AgentStatusUpdate {
@@ -146,6 +278,122 @@ export interface AgentStatusUpdate {
   readonly blockedReason?: string
 }
 
+export interface TokenUsage {
+  readonly inputTokens: number
+  readonly outputTokens: number
+}
+
+// =============================================================================
+// Prompt Templates
+// =============================================================================
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'list'
+
+export type PromptVariableValue = string | number | boolean | string[]
+
+export interface PromptVariableDefinition {
+  readonly name: string
+  readonly type: PromptVariableType
+  readonly description: string
+  /**
+   * Variables are required unless marked optional; optional ones render as empty text
+   */
+  readonly optional?: boolean
+}
+
+/**
+ * Where the template that was used came from; project overrides win over
+ * global overrides, which win over the built-in template
+ */
+export type PromptTemplateSource = 'builtin' | 'global' | 'project'
+
+export interface PromptTemplateOverride {
+  readonly id: string
+  readonly version: string
+  readonly template: string
+  readonly updatedAt?: Date
+}
+
+export interface PromptTemplateUsage {
+  readonly id: string
+  readonly version: string
+  readonly source: PromptTemplateSource
+}
+
+export interface PromptTemplateSummary extends PromptTemplateUsage {
+  readonly description: string
+  readonly variables: PromptVariableDefinition[]
+  readonly template: string
+  readonly builtinVersion: string
+}
+
+// =============================================================================
+// Token Accounting
+// =============================================================================
+
+export interface TokenUsageRecord {
+  readonly agentId: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly model?: string
+  readonly inputTokens: number
+  readonly outputTokens: number
+  readonly timestamp: Date
+}
+
+export interface TokenUsageTotals {
+  readonly inputTokens: number
+  readonly outputTokens: number
+  readonly totalTokens: number
+  readonly calls: number
+}
+
+export interface TokenUsageSummary {
+  readonly totals: TokenUsageTotals
+  readonly byAgent: Record<string, TokenUsageTotals>
+  readonly byProject: Record<string, TokenUsageTotals>
+  /**
+   * Keyed by UTC day (YYYY-MM-DD)
+   */
+  readonly byDay: Record<string, TokenUsageTotals>
+}
+
+export interface TokenUsageQuery {
+  readonly projectId?: string
+  readonly agentType?: AgentRole
+  readonly days?: number
+}
+
+export interface ProjectTokenBudget {
+  readonly projectId: string
+  readonly dailyLimit?: number
+  readonly totalLimit?: number
+}
+
+export interface AgentTokenBudgetStatus {
+  readonly agentType: AgentRole
+  readonly usedLastHour: number
+  readonly tokensPerHour?: number
+}
+
+export interface TokenBudgetStatus {
+  readonly agents: AgentTokenBudgetStatus[]
+  readonly project?: {
+    readonly projectId: string
+    readonly budget?: ProjectTokenBudget
+    readonly usedToday: number
+    readonly usedTotal: number
+  }
+}
+
+export type TokenLimitType = 'tokensPerHour' | 'projectDailyTokens' | 'projectTotalTokens'
+
+export interface RateLimitDetails {
+  readonly limit: number
+  readonly used: number
+  readonly retryAfterMs?: number
+}
+
 export interface AgentError {
   readonly code: string
   readonly message: string
@@ -154,6 +402,303 @@ export interface AgentError {
   readonly context?: Record<string, unknown>
 }
 
+// =============================================================================
+// AI Provider Configuration
+// =============================================================================
+
+export type AIProviderName = 'bedrock' | 'openai-compatible' | 'ollama'
+
+export interface BedrockProviderSettings {
+  readonly region: string
+  readonly modelId: string
+}
+
+export interface HttpProviderSettings {
+  readonly baseUrl: string
+  readonly modelId: string
+}
+
+/**
+ * Non-secret provider settings; credentials are stored separately and encrypted
+ */
+export interface AIConfig {
+  readonly defaultProvider: AIProviderName
+  readonly providers: {
+    readonly bedrock: BedrockProviderSettings
+    readonly 'openai-compatible': HttpProviderSettings
+    readonly ollama: HttpProviderSettings
+  }
+}
+
+export interface AICredentials {
+  readonly bedrock?: { readonly accessKeyId: string; readonly secretAccessKey: string }
+  readonly 'openai-compatible'?: { readonly apiKey: string }
+}
+
+export type AICredentialProvider = keyof AICredentials
+
+export interface AICredentialStatus {
+  readonly configured: boolean
+  /**
+   * Last characters of the access key or API key, for recognizing which one is stored
+   */
+  readonly hint?: string
+}
+
+/**
+ * What the renderer sees of the configuration; secrets never leave the main process
+ */
+export interface AIConfigView extends AIConfig {
+  readonly credentials: Record<AICredentialProvider, AICredentialStatus>
+  /**
+   * False when the OS offers no encryption, in which case credentials are kept for the session only
+   */
+  readonly encryptionAvailable: boolean
+}
+
+export interface AIConfigUpdate {
+  readonly defaultProvider?: AIProviderName
+  readonly providers?: {
+    readonly bedrock?: Partial<BedrockProviderSettings>
+    readonly 'openai-compatible'?: Partial<HttpProviderSettings>
+    readonly ollama?: Partial<HttpProviderSettings>
+  }
+  /**
+   * Credentials to store; `null` removes the stored credentials of that provider
+   */
+  readonly credentials?: {
+    readonly bedrock?: AICredentials['bedrock'] | null
+    readonly 'openai-compatible'?: AICredentials['openai-compatible'] | null
+  }
+}
+
+export interface AIConnectionTestResult {
+  readonly success: boolean
+  readonly provider: AIProviderName
+  readonly model: string
+  readonly latencyMs: number
+  readonly error?: string
+}
+
+// =============================================================================
+// Change Sets
+// =============================================================================
+
+export type ChangeSetStatus = 'pending' | 'applied' | 'rejected'
+
+/**
+ * One file an agent proposes to write, with a unified diff against the file on disk
+ */
+export interface ChangeSetFile {
+  /**
+   * Relative to the project root
+   */
+  readonly path: string
+  readonly operation: 'create' | 'modify'
+  readonly content: string
+  readonly diff: string
+  readonly additions: number
+  readonly deletions: number
+}
+
+/**
+ * Files an agent proposes to write together. Nothing reaches disk until the
+ * user approves the change set.
+ */
+export interface ChangeSet {
+  readonly id: string
+  readonly projectId?: string
+  readonly agentType: AgentRole
+  readonly title: string
+  readonly description: string
+  readonly files: ChangeSetFile[]
+  readonly status: ChangeSetStatus
+  readonly createdAt: Date
+  readonly resolvedAt?: Date
+  /**
+   * Why the last attempt to apply the change set failed
+   */
+  readonly error?: string
+}
+
+// =============================================================================
+// Action Approvals
+// =============================================================================
+
+/**
+ * `approved` while the action runs, then `executed` or `failed`
+ */
+export type ActionApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed'
+
+/**
+ * An agent action held until the user approves it, possibly with edited parameters
+ */
+export interface ActionApproval {
+  readonly id: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly action: AgentAction
+  readonly status: ActionApprovalStatus
+  readonly createdAt: Date
+  readonly decidedAt?: Date
+  readonly reason?: string
+  /**
+   * What running the approved action produced, such as the applied change set
+   */
+  readonly result?: Record<string, unknown>
+  readonly error?: string
+}
+
+export interface ActionApprovalDecision {
+  /**
+   * Replaces the action's parameters when approving
+   */
+  readonly parameters?: Record<string, unknown>
+  readonly reason?: string
+}
+
+/**
+ * Audit record of a decision on an approval
+ */
+export interface ActionApprovalRecord {
+  readonly approvalId: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly actionType: string
+  readonly decision: 'approved' | 'rejected'
+  readonly parameters: Record<string, unknown>
+  readonly parametersEdited: boolean
+  readonly reason?: string
+  readonly decidedAt: Date
+}
+
+export interface ActionApprovalFilter {
+  readonly projectId?: string
+  readonly status?: ActionApprovalStatus
+}
+
+// =============================================================================
+// Clarification Questions
+// =============================================================================
+
+/**
+ * A question the Producer needs the user to answer to close a gap in the requirements
+ */
+export interface ClarificationQuestion {
+  readonly id: string
+  readonly question: string
+  readonly context: string
+  /**
+   * Choices offered alongside a free-text answer
+   */
+  readonly suggestedAnswers?: string[]
+  readonly priority: 'low' | 'medium' | 'high'
+  readonly projectId?: string
+  readonly askedAt?: Date
+}
+
+export interface ClarificationAnswer {
+  readonly questionId: string
+  readonly answer: string
+  readonly projectId?: string
+}
+
+// =============================================================================
+// Custom Personas
+// =============================================================================
+
+/**
+ * An agent role declared in config, registered alongside the built-in agents
+ */
+export interface CustomPersonaDefinition {
+  /**
+   * Used as the agent type, e.g. `devops`; must not collide with a built-in type
+   */
+  readonly id: string
+  readonly name: string
+  readonly description: string
+  readonly avatar: string
+  readonly systemPrompt: string
+  readonly personalityTraits: string[]
+  readonly capabilities: string[]
+  /**
+   * Names of the tools the persona may call
+   */
+  readonly allowedTools: string[]
+  /**
+   * Permissions those tools require, such as `files:write`
+   */
+  readonly permissions: string[]
+  readonly routing: {
+    readonly keywords: string[]
+    /**
+     * Message router intents, such as `architecture_review`, the persona should answer
+     */
+    readonly intents: string[]
+  }
+}
+
+// =============================================================================
+// Message Routing
+// =============================================================================
+
+/**
+ * Which stage of the message router decided the intent of a message
+ */
+export type IntentClassifierKind = 'keyword' | 'embedding'
+
+/**
+ * An utterance a user labeled with the intent it should be classified as
+ */
+export interface IntentExampleRecord {
+  readonly id: string
+  readonly projectId: string
+  /**
+   * Message router intent, such as `code_implementation`
+   */
+  readonly intent: string
+  readonly text: string
+  readonly createdAt: Date
+}
+
+/**
+ * A user re-asking a specific agent right after the router picked another one
+ */
+export interface RoutingCorrectionRecord {
+  readonly id: string
+  readonly projectId: string
+  /**
+   * The auto-routed message that was corrected
+   */
+  readonly messageId: string
+  readonly correctionMessageId: string
+  readonly content: string
+  readonly intent: string
+  readonly routedTo: AgentRole
+  readonly correctedTo: AgentRole
+  readonly createdAt: Date
+}
+
+export interface RoutingAgentAccuracy {
+  readonly autoRouted: number
+  readonly overridden: number
+}
+
+export interface RoutingAccuracyReport {
+  /**
+   * Omitted when the report covers every project
+   */
+  readonly projectId?: string
+  readonly autoRouted: number
+  readonly overridden: number
+  /**
+   * Share of auto-routed messages that were not overridden; 1 when nothing was auto-routed
+   */
+  readonly accuracy: number
+  readonly byAgent: Record<string, RoutingAgentAccuracy>
+  readonly recentCorrections: RoutingCorrectionRecord[]
+}
+
 // =============================================================================
 // Agent State Machine
 // =============================================================================
@@ -186,7 +731,7 @@ export interface StateTransition {
 export interface AgentEvent extends DomainEvent {
   readonly domain: 'agent'
   readonly agentId: string
-  readonly agentType: AgentType
+  readonly agentType: AgentRole
 }
 
 export interface AgentStatusChangedEvent extends AgentEvent {
@@ -207,6 +752,91 @@ export interface AgentMessageSentEvent extends AgentEvent {
   }
 }
 
+export interface AgentResponseChunkEvent extends AgentEvent {
+  readonly type: 'agent.response.chunk'
+  readonly payload: {
+    readonly messageId: string
+    /**
+     * Message the streamed one follows up on, such as the user message of a round table
+     */
+    readonly parentMessageId?: string
+    readonly delta: string
+    readonly content: string
+    readonly threadId?: string
+  }
+}
+
+export interface AgentResponseCompletedEvent extends AgentEvent {
+  readonly type: 'agent.response.completed'
+  readonly payload: {
+    readonly messageId: string
+    readonly parentMessageId?: string
+    readonly content: string
+    readonly threadId?: string
+    readonly usage?: TokenUsage
+  }
+}
+
+export interface ClarificationQuestionAskedEvent extends AgentEvent {
+  readonly type: 'agent.question.asked'
+  readonly payload: {
+    readonly question: ClarificationQuestion
+  }
+}
+
+export interface ClarificationQuestionAnsweredEvent extends AgentEvent {
+  readonly type: 'agent.question.answered'
+  readonly payload: {
+    readonly question: ClarificationQuestion
+    readonly answer: string
+  }
+}
+
+export interface AgentToolInvokedEvent extends AgentEvent {
+  readonly type: 'agent.tool.invoked'
+  readonly payload: {
+    readonly invocation: ToolInvocationRecord
+  }
+}
+
+export interface AgentWorkStartedEvent extends AgentEvent {
+  readonly type: 'agent.work.started'
+  readonly payload: {
+    readonly sessionId: string
+    readonly messageId: string
+    readonly projectId?: string
+    readonly taskId?: string
+    readonly objective: string
+  }
+}
+
+export interface AgentWorkProgressEvent extends AgentEvent {
+  readonly type: 'agent.work.progress'
+  readonly payload: {
+    readonly sessionId: string
+    readonly phase: AgentWorkPhase
+    readonly progressPercentage: number
+    readonly thinkingStep?: AgentThinkingStepRecord
+  }
+}
+
+export interface AgentWorkArtifactEvent extends AgentEvent {
+  readonly type: 'agent.work.artifact'
+  readonly payload: {
+    readonly sessionId: string
+    readonly artifact: AgentArtifactRecord
+  }
+}
+
+export interface AgentWorkEndedEvent extends AgentEvent {
+  readonly type: 'agent.work.ended'
+  readonly payload: {
+    readonly sessionId: string
+    readonly status: Exclude<AgentWorkSessionStatus, 'active'>
+    readonly error?: string
+  }
+}
+
 export interface AgentErrorOccurredEvent extends AgentEvent {
   readonly type: 'agent.error.occurred'
   readonly payload: {
@@ -220,6 +850,8 @@ export interface AgentErrorOccurredEvent extends AgentEvent {
 // =============================================================================
 
 export const AgentTypeSchema = z.nativeEnum(AgentType)
+// Custom persona ids share the lowercase slug format of the built-in types
+export const AgentRoleSchema = z.string().regex(/^[a-z][a-z0-9_-]{0,39}$/, 'Invalid agent type')
 export const AgentStatusSchema = z.nativeEnum(AgentStatus)
 export const MessageTypeSchema = z.nativeEnum(MessageType)
 
@@ -229,6 +861,7 @@ export const AgentConfigurationSchema = z.object({
   maxTokens: z.number().positive(),
   systemPrompt: NonEmptyStringSchema,
   tools: z.array(z.string()),
+  permissions: z.array(z.string()).optional(),
   memoryAccess: z.object({
     global: z.boolean(),
     project: z.boolean(),
@@ -245,21 +878,52 @@ export const AgentConfigurationSchema = z.object({
 export const AgentMessageSchema = z.object({
   id: IdSchema,
   timestamp: z.date(),
-  from: z.union([AgentTypeSchema, z.literal('user'), z.literal('system')]),
-  to: z.union([AgentTypeSchema, z.literal('all'), z.literal('user')]),
+  from: z.union([AgentRoleSchema, z.literal('user'), z.literal('system')]),
+  to: z.union([AgentRoleSchema, z.literal('all'), z.literal('user')]),
   content: NonEmptyStringSchema,
   messageType: MessageTypeSchema,
-  projectId: IdSchema.optional(),
+  // Projects are created with `proj-` ids rather than UUIDs
+  projectId: NonEmptyStringSchema.optional(),
   taskId: IdSchema.optional(),
   metadata: z.object({
     priority: z.enum(['low', 'normal', 'high', 'urgent']),
     requiresResponse: z.boolean(),
     threadId: IdSchema.optional(),
+    parentMessageId: IdSchema.optional(),
+    actionsDisabled: z.boolean().optional(),
     references: z.array(z.string()).optional(),
     context: z.record(z.unknown()).optional()
   })
 })
 
+const HttpProviderSettingsSchema = z.object({
+  baseUrl: z.string().url(),
+  modelId: NonEmptyStringSchema
+})
+
+export const AIProviderNameSchema = z.enum(['bedrock', 'openai-compatible', 'ollama'])
+
+export const AIConfigUpdateSchema = z.object({
+  defaultProvider: AIProviderNameSchema.optional(),
+  providers: z.object({
+    bedrock: z.object({
+      region: z.string().regex(/^[a-z]{2}(-[a-z]+)+-\d+$/, 'Invalid AWS region'),
+      modelId: NonEmptyStringSchema
+    }).partial().optional(),
+    'openai-compatible': HttpProviderSettingsSchema.partial().optional(),
+    ollama: HttpProviderSettingsSchema.partial().optional()
+  }).strict().optional(),
+  credentials: z.object({
+    bedrock: z.object({
+      accessKeyId: z.string().regex(/^[A-Z0-9]{16,128}$/, 'Invalid AWS access key id'),
+      secretAccessKey: z.string().min(16).max(256)
+    }).nullable().optional(),
+    'openai-compatible': z.object({
+      apiKey: z.string().min(1).max(512)
+    }).nullable().optional()
+  }).strict().optional()
+}).strict()
+
 // =============================================================================
 // Agent Domain Service Contract
 // =============================================================================
@@ -278,13 +942,13 @@ export interface IAgentDomainService extends DomainService<Agent>, DomainService
   /**
    * Get agents by type
    */
-  getAgentsByType(type: AgentType): Promise<Agent[]>
+  getAgentsByType(type: AgentRole): Promise<Agent[]>
   
   /**
    * Get agent by type (single instance)
    * @throws EntityNotFoundError if agent not found
    */
-  getAgentByType(type: AgentType): Promise<Agent>
+  getAgentByType(type: AgentRole): Promise<Agent>
   
   /**
    * Update agent configuration
@@ -456,6 +1120,43 @@ export interface ResourceUsage {
   readonly apiCallsPerMinute: number
 }
 
+/**
+ * A message waiting for, or being worked on by, its agent
+ */
+export interface QueuedAgentMessage {
+  readonly messageId: string
+  readonly agentType: AgentRole
+  readonly projectId?: string
+  readonly priority: MessagePriority
+  readonly status: 'queued' | 'running'
+  /**
+   * Start of the message content, for showing in the queue
+   */
+  readonly preview: string
+  readonly enqueuedAt: Date
+  readonly startedAt?: Date
+}
+
+export interface AgentQueueMetrics {
+  readonly queued: number
+  readonly running: number
+  readonly maxConcurrentTasks: number
+  readonly maxQueueDepth: number
+  readonly queuedByPriority: Record<MessagePriority, number>
+  /**
+   * Messages turned away because the queue was full
+   */
+  readonly rejected: number
+  readonly cancelled: number
+  readonly averageWaitMs: number
+}
+
+export interface MessageQueueMetrics {
+  readonly queued: number
+  readonly running: number
+  readonly byAgent: Record<string, AgentQueueMetrics>
+}
+
 // =============================================================================
 // Agent Domain Errors
 // =============================================================================
@@ -473,8 +1174,23 @@ export class RateLimitExceededError extends DomainError {
   readonly code = 'RATE_LIMIT_EXCEEDED'
   readonly domain = 'agent'
   
-  constructor(agentId: string, limitType: string, cause?: Error) {
-    super(`Rate limit exceeded for agent ${agentId}: ${limitType}`, cause)
+  constructor(
+    public readonly agentId: string,
+    public readonly limitType: string,
+    cause?: Error,
+    public readonly details?: RateLimitDetails
+  ) {
+    super(`Rate limit exceeded for agent ${agentId}: ${limitType}${RateLimitExceededError.describe(details)}`, cause)
+  }
+
+  private static describe(details?: RateLimitDetails): string {
+    if (!details) {
+      return ''
+    }
+    const retry = details.retryAfterMs !== undefined
+      ? `, retry in ${Math.ceil(details.retryAfterMs / 60000)} min`
+      : ''
+    return ` (used ${details.used} of ${details.limit}${retry})`
   }
 }
 
@@ -487,6 +1203,24 @@ export class InvalidStateTransitionError extends DomainError {
   }
 }
 
+export class MessageQueueFullError extends DomainError {
+  readonly code = 'MESSAGE_QUEUE_FULL'
+  readonly domain = 'agent'
+  
+  constructor(public readonly agentId: string, public readonly maxQueueDepth: number, cause?: Error) {
+    super(`Agent ${agentId} already has ${maxQueueDepth} messages waiting; try again once it catches up`, cause)
+  }
+}
+
+export class MessageCancelledError extends DomainError {
+  readonly code = 'MESSAGE_CANCELLED'
+  readonly domain = 'agent'
+  
+  constructor(public readonly messageId: string, cause?: Error) {
+    super(`Message ${messageId} was cancelled`, cause)
+  }
+}
+
 export class MessageTimeoutError extends DomainError {
   readonly code = 'MESSAGE_TIMEOUT'
   readonly domain = 'agent'
@@ -496,6 +1230,24 @@ export class MessageTimeoutError extends DomainError {
   }
 }
 
+export class ToolPermissionDeniedError extends DomainError {
+  readonly code = 'TOOL_PERMISSION_DENIED'
+  readonly domain = 'agent'
+  
+  constructor(public readonly toolName: string, agentType: AgentRole, reason: string, cause?: Error) {
+    super(`Agent ${agentType} may not call ${toolName}: ${reason}`, cause)
+  }
+}
+
+export class ToolTimeoutError extends DomainError {
+  readonly code = 'TOOL_TIMEOUT'
+  readonly domain = 'agent'
+  
+  constructor(public readonly toolName: string, timeoutMs: number, cause?: Error) {
+    super(`Tool ${toolName} did not finish within ${timeoutMs}ms`, cause)
+  }
+}
+
 export class CollaborationError extends DomainError {
   readonly code = 'COLLABORATION_ERROR'
   readonly domain = 'agent'
@@ -503,4 +1255,13 @@ export class CollaborationError extends DomainError {
   constructor(workflowId: string, reason: string, cause?: Error) {
     super(`Collaboration ${workflowId} failed: ${reason}`, cause)
   }
+}
+
+export class PathOutsideProjectError extends DomainError {
+  readonly code = 'PATH_OUTSIDE_PROJECT'
+  readonly domain = 'workspace'
+  
+  constructor(public readonly filePath: string, cause?: Error) {
+    super(`Path ${filePath} is outside the project root`, cause)
+  }
 }
\ No newline at end of file
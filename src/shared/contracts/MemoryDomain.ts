@@ -233,6 +233,15 @@ export class EmbeddingGenerationError extends DomainError {
   }
 }
 
+export class VectorDimensionMismatchError extends DomainError {
+  readonly code = 'VECTOR_DIMENSION_MISMATCH'
+  readonly domain = 'memory'
+  
+  constructor(public readonly expected: number, public readonly actual: number, cause?: Error) {
+    super(`Vector has ${actual} dimensions but the vector store expects ${expected}`, cause)
+  }
+}
+
 // =============================================================================
 // Domain Service Interface
 // =============================================================================
@@ -303,26 +312,35 @@ export interface IMemoryDomainService extends DomainService<Memory> {
 // Vector Store Interface
 // =============================================================================
 
+/**
+ * A vector along with the model that produced it. Vectors from different
+ * models live in different spaces and are never compared with each other.
+ */
+export interface TextEmbedding {
+  readonly vector: number[]
+  readonly model: string
+}
+
 export interface IVectorStore {
   /**
    * Generate embedding for text content
    */
-  generateEmbedding(content: string): Promise<number[]>
+  generateEmbedding(content: string): Promise<TextEmbedding>
   
   /**
    * Store vector with metadata
    */
-  storeVector(id: string, vector: number[], metadata: Record<string, any>): Promise<void>
+  storeVector(id: string, embedding: TextEmbedding, metadata: Record<string, any>): Promise<void>
   
   /**
-   * Search for similar vectors
+   * Search for similar vectors made by the same model as the query
    */
-  searchSimilar(queryVector: number[], limit: number, threshold: number): Promise<VectorSearchResult[]>
+  searchSimilar(query: TextEmbedding, limit: number, threshold: number): Promise<VectorSearchResult[]>
   
   /**
    * Update vector and metadata
    */
-  updateVector(id: string, vector: number[], metadata: Record<string, any>): Promise<void>
+  updateVector(id: string, embedding: TextEmbedding, metadata: Record<string, any>): Promise<void>
   
   /**
    * Delete vector
@@ -349,6 +367,7 @@ export interface VectorSearchResult {
 export interface VectorResult {
   readonly id: string
   readonly vector: number[]
+  readonly model: string
   readonly metadata: Record<string, any>
 }
 
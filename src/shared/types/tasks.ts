@@ -21,6 +21,8 @@ export interface BaseTask {
   readonly updatedAt: Date
   readonly completedAt?: Date
   readonly projectId: string
+  readonly planSource?: PlanItemSource // Set on items created from the Producer's project plan
+  readonly planFields?: PlanSyncedFields // Values last taken from the plan; fields the user changed since are kept
 }
 
 export interface Epic extends BaseTask {
@@ -145,4 +147,43 @@ export interface ProgressStats {
   readonly storyPointsTotal: number
   readonly storyPointsCompleted: number
   readonly storyPointsPercentage: number
+}
+
+// Producer plan synchronization
+export type PlanItemKind = 'phase' | 'task'
+
+export interface PlanItemSource {
+  readonly planId: string
+  readonly kind: PlanItemKind
+  readonly sourceId: string // Id of the plan phase or task the item was created from
+}
+
+export type PlanSyncChangeKind = 'create' | 'update' | 'remove'
+
+export type PlanSyncField = 'title' | 'description' | 'status' | 'priority' | 'assignedAgent'
+
+export type PlanSyncedFields = Partial<Record<PlanSyncField, string>>
+
+export interface PlanSyncFieldChange {
+  readonly field: PlanSyncField
+  readonly before?: string
+  readonly after?: string
+}
+
+export interface PlanSyncChange {
+  readonly kind: PlanSyncChangeKind
+  readonly itemType: 'epic' | 'story'
+  readonly itemId: string
+  readonly parentId?: string // Epic a story belongs to
+  readonly previousParentId?: string // Epic a story is moved out of, with its tasks
+  readonly title: string
+  readonly source: PlanItemSource
+  readonly fields: PlanSyncFieldChange[]
+}
+
+export interface PlanSyncPreview {
+  readonly projectId: string
+  readonly planId: string
+  readonly planTitle: string
+  readonly changes: PlanSyncChange[]
 }
\ No newline at end of file
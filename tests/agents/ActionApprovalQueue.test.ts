@@ -0,0 +1,124 @@
+// @vitest-environment node
+/**
+ * Action Approval Queue Tests
+ *
+ * Covers approving actions as proposed or with edited parameters, rejecting
+ * them, and keeping the decision log across restarts
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { AgentAction, AgentType } from '../../src/shared/contracts/AgentDomain'
+import { ActionApprovalQueue, createActionApprovalQueue } from '../../src/main/services/agents/approvals/ActionApprovalQueue'
+
+// The decision log is a real file; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = 'recipes'
+
+const refactorAction: AgentAction = {
+  type: 'refactor_code',
+  description: 'Extract the search query builder',
+  parameters: { files: ['src/search.ts'], goal: 'readability' },
+  confirmation: true
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ActionApprovalQueue', () => {
+  let tempDir: string
+  let storagePath: string
+  let queue: ActionApprovalQueue
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'approvals-'))
+    storagePath = path.join(tempDir, 'approval-decisions.json')
+    queue = createActionApprovalQueue({ storagePath })
+    await queue.initialize()
+  })
+
+  afterEach(async () => {
+    await queue.flush()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('runs an approved action with edited parameters and keeps the decision after a restart', async () => {
+    const execute = vi.fn(async (parameters: Record<string, unknown>) => ({ refactored: parameters.files }))
+    const updates: string[] = []
+    queue.on('approval-updated', approval => updates.push(approval.status))
+
+    const approval = queue.enqueue({
+      agentType: AgentType.ENGINEER,
+      projectId: PROJECT_ID,
+      action: refactorAction,
+      handlers: { execute }
+    })
+    expect(queue.list({ status: 'pending' }).map(pending => pending.id)).toEqual([approval.id])
+    expect(execute).not.toHaveBeenCalled()
+
+    const edited = { files: ['src/search.ts', 'src/query.ts'], goal: 'readability' }
+    const result = await queue.approve(approval.id, { parameters: edited, reason: 'Include the query module' })
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(execute).toHaveBeenCalledWith(edited)
+    expect(result.data).toMatchObject({ status: 'executed', result: { refactored: edited.files } })
+    expect(updates).toEqual(['pending', 'approved', 'executed'])
+
+    // Deciding twice is refused
+    expect((await queue.reject(approval.id)).success).toBe(false)
+
+    await queue.flush()
+    const restarted = createActionApprovalQueue({ storagePath })
+    await restarted.initialize()
+    expect(restarted.list()).toEqual([])
+    const [record] = restarted.getDecisionLog({ projectId: PROJECT_ID })
+    expect(record).toMatchObject({
+      approvalId: approval.id,
+      agentType: AgentType.ENGINEER,
+      actionType: 'refactor_code',
+      decision: 'approved',
+      parameters: edited,
+      parametersEdited: true,
+      reason: 'Include the query module'
+    })
+    expect(record.decidedAt).toBeInstanceOf(Date)
+  })
+
+  it('records rejections and reports actions that fail once approved', async () => {
+    const reject = vi.fn(async () => undefined)
+    const rejected = queue.enqueue({
+      agentType: AgentType.ENGINEER,
+      action: refactorAction,
+      handlers: { execute: vi.fn(), reject }
+    })
+    const failing = queue.enqueue({
+      agentType: AgentType.ENGINEER,
+      action: { ...refactorAction, type: 'optimize_performance' },
+      handlers: { execute: async () => { throw new Error('disk full') } }
+    })
+
+    const rejection = await queue.reject(rejected.id, { reason: 'Not now' })
+    expect(rejection.success && rejection.data.status).toBe('rejected')
+    expect(reject).toHaveBeenCalled()
+
+    const failure = await queue.approve(failing.id)
+    expect(failure.success).toBe(false)
+    if (failure.success) return
+    expect(failure.error.code).toBe('ACTION_FAILED')
+    expect(queue.get(failing.id)).toMatchObject({ status: 'failed', error: 'disk full' })
+
+    expect(queue.getDecisionLog().map(record => [record.actionType, record.decision, record.parametersEdited])).toEqual([
+      ['optimize_performance', 'approved', false],
+      ['refactor_code', 'rejected', false]
+    ])
+  })
+})
@@ -0,0 +1,607 @@
+// @vitest-environment node
+/**
+ * Agent Orchestrator Tests
+ *
+ * Covers building the real persona agents, routing messages to them, and
+ * lifecycle, health and statistics that reflect the agents' own state, plus
+ * the memory manager backed by the memory domain service, persona state
+ * that is saved per project, and the per-agent message queue
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AgentMessage,
+  AgentStatus,
+  AgentType,
+  MessagePriority,
+  MessageType
+} from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { IMemoryDomainService } from '../../src/shared/contracts/MemoryDomain'
+import { Ok } from '../../src/shared/contracts/common'
+import { AgentOrchestrator, createAgentOrchestrator } from '../../src/main/services/agents/AgentOrchestrator'
+import { createAgentMemoryManager } from '../../src/main/services/agents/AgentMemoryManager'
+import { createActionApprovalQueue } from '../../src/main/services/agents/approvals/ActionApprovalQueue'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import { QAAgent } from '../../src/main/services/agents/personas/QA'
+import { createPersonaStateService } from '../../src/main/services/agents/state/PersonaStateService'
+
+// Persona state is written to a real temporary directory; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = '6a0f3c1e-2b4d-4e5f-8a9b-0c1d2e3f4a5b'
+
+const createEventBus = () => ({
+  publish: vi.fn(),
+  publishAsync: vi.fn(),
+  subscribe: vi.fn(() => uuidv4())
+}) as unknown as IEventBus
+
+const createProvider = (): LLMProvider & { chat: ReturnType<typeof vi.fn> } => ({
+  chat: vi.fn(async () => ({ content: 'Happy to help with that.', usage: { inputTokens: 12, outputTokens: 6 } })),
+  generateEmbedding: vi.fn(async () => []),
+  isAvailable: () => true
+})
+
+const createMemoryService = () => ({
+  storeMemory: vi.fn(async (input: any) => Ok({ id: uuidv4(), ...input })),
+  searchMemories: vi.fn(async () => Ok([])),
+  archiveMemory: vi.fn(async () => Ok(undefined))
+}) as unknown as IMemoryDomainService & Record<'storeMemory' | 'searchMemories' | 'archiveMemory', ReturnType<typeof vi.fn>>
+
+const userMessage = (
+  to: AgentType,
+  content: string,
+  priority: MessagePriority = 'normal',
+  projectId = PROJECT_ID
+): AgentMessage => ({
+  id: uuidv4(),
+  timestamp: new Date(),
+  from: 'user',
+  to,
+  content,
+  messageType: MessageType.CHAT,
+  projectId,
+  metadata: { priority, requiresResponse: true }
+})
+
+// Replies are held back per message, told apart by the abort signal each one
+// gets, until the test releases that message; an aborted call fails with the abort reason
+const createHeldProvider = () => {
+  const held: Array<{ signal: AbortSignal, release: () => void }> = []
+  const released = new Set<AbortSignal>()
+  const waiting: Array<{ signal: AbortSignal, reply: () => void }> = []
+  const provider = createProvider()
+  provider.chat.mockImplementation((_messages: unknown, options: { signal: AbortSignal }) => new Promise((resolve, reject) => {
+    const { signal } = options
+    const reply = () => resolve({ content: 'Done.', usage: { inputTokens: 12, outputTokens: 6 } })
+    if (released.has(signal)) {
+      return reply()
+    }
+
+    if (!held.some(message => message.signal === signal)) {
+      held.push({
+        signal,
+        release: () => {
+          released.add(signal)
+          waiting.filter(call => call.signal === signal).forEach(call => call.reply())
+        }
+      })
+    }
+    waiting.push({ signal, reply })
+    signal.addEventListener('abort', () => reject(signal.reason))
+  }))
+  return { provider, held }
+}
+
+// =============================================================================
+// Orchestrator
+// =============================================================================
+
+describe('AgentOrchestrator', () => {
+  let orchestrator: AgentOrchestrator | undefined
+
+  afterEach(async () => {
+    await orchestrator?.shutdown()
+    orchestrator = undefined
+  })
+
+  it('builds the persona agents and brings them online', async () => {
+    orchestrator = createAgentOrchestrator(createEventBus(), undefined, undefined, { llmProvider: createProvider() })
+    await orchestrator.initialize()
+
+    expect(orchestrator.getAgentInstance(AgentType.PRODUCER)).toBeInstanceOf(ProducerAgent)
+    expect(orchestrator.getAgentInstance(AgentType.QA)).toBeInstanceOf(QAAgent)
+    expect(Object.values(await orchestrator.getAllAgentStatuses())).toEqual(Array(4).fill(AgentStatus.IDLE))
+    expect((await orchestrator.getAgentByType(AgentType.ENGINEER)).configuration.model).toBe('default')
+  })
+
+  it('routes messages to the persona and reports its statistics', async () => {
+    const provider = createProvider()
+    const memoryService = createMemoryService()
+    orchestrator = createAgentOrchestrator(createEventBus(), memoryService, undefined, { llmProvider: provider })
+    await orchestrator.initialize()
+
+    const result = await orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Plan a recipe app'))
+
+    expect(result.success).toBe(true)
+    expect(provider.chat).toHaveBeenCalled()
+    const producer = await orchestrator.getAgentByType(AgentType.PRODUCER)
+    expect(await orchestrator.getAgentStatistics(producer.id)).toMatchObject({ totalMessages: 1 })
+    expect(producer.status).toBe(AgentStatus.IDLE)
+
+    const metrics = await orchestrator.getSystemMetrics()
+    expect(metrics.totalMessages).toBe(1)
+    expect(metrics.resourceUsage.apiCallsPerMinute).toBe(1)
+
+    expect(memoryService.storeMemory).toHaveBeenCalledWith(expect.objectContaining({
+      content: 'User message: Plan a recipe app',
+      type: 'conversation',
+      metadata: expect.objectContaining({ projectId: PROJECT_ID, agentType: AgentType.PRODUCER })
+    }))
+  })
+
+  it('offers no tools for a message with actions disabled', async () => {
+    const provider = createProvider()
+    provider.chat.mockImplementation(async (_messages: unknown, options?: { tools?: unknown[] }) => ({
+      content: 'Here is where we landed.',
+      toolCalls: options?.tools
+        ? [{ id: 'call-1', name: 'celebrate_milestone', input: { milestone: 'Round table' } }]
+        : undefined
+    }))
+    orchestrator = createAgentOrchestrator(createEventBus(), undefined, undefined, { llmProvider: provider })
+    await orchestrator.initialize()
+
+    const message = userMessage(AgentType.PRODUCER, 'Sum up the discussion')
+    const result = await orchestrator.sendMessage({ ...message, metadata: { ...message.metadata, actionsDisabled: true } })
+
+    expect(result).toMatchObject({ success: true, data: { content: 'Here is where we landed.', actions: [] } })
+    expect(provider.chat.mock.calls.every(([, options]) => !options?.tools)).toBe(true)
+  })
+
+  it('reflects disabled agents in availability and health', async () => {
+    orchestrator = createAgentOrchestrator(createEventBus(), undefined, undefined, { llmProvider: createProvider() })
+    await orchestrator.initialize()
+    const qa = await orchestrator.getAgentByType(AgentType.QA)
+
+    const disabled = await orchestrator.setAgentEnabled(qa.id, false)
+    const result = await orchestrator.sendMessage(userMessage(AgentType.QA, 'Run the tests'))
+    const health = await orchestrator.healthCheck()
+
+    expect(disabled.status).toBe(AgentStatus.OFFLINE)
+    expect(result.success).toBe(false)
+    expect(health.checks.find(check => check.name === 'agent_qa')).toMatchObject({
+      healthy: true,
+      details: { status: AgentStatus.OFFLINE }
+    })
+    expect(health.checks.find(check => check.name === 'agents_available')?.details).toMatchObject({
+      available: 3,
+      offline: 1
+    })
+  })
+
+  it('saves persona state per project and restores it after a restart', async () => {
+    const storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'persona-state-'))
+    const provider = createProvider()
+    provider.chat.mockImplementation(async (_messages: unknown, options?: { tools?: unknown[] }) => ({
+      content: 'Filed it.',
+      toolCalls: options?.tools
+        ? [{
+            id: 'call-1',
+            name: 'report_bug',
+            input: { title: 'Apostrophe search returns 500', description: 'Searching for pie fails', severity: 'high' }
+          }]
+        : undefined
+    }))
+    const start = async () => {
+      const personaState = createPersonaStateService({ storagePath })
+      const started = createAgentOrchestrator(createEventBus(), undefined, undefined, { llmProvider: provider, personaState })
+      await started.initialize()
+      return started
+    }
+    const bugTitles = (running: AgentOrchestrator) =>
+      (running.getAgentInstance(AgentType.QA) as QAAgent).getBugReports().map(bug => bug.title)
+    const reportNothing = () => provider.chat.mockResolvedValue({ content: 'Nothing to file.' })
+
+    try {
+      orchestrator = await start()
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Search breaks on apostrophes'))
+      expect(bugTitles(orchestrator)).toEqual(['Apostrophe search returns 500'])
+
+      // Another project starts empty, and a message for the first one brings the bug back
+      reportNothing()
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Anything open?', 'normal', 'other-project'))
+      expect(bugTitles(orchestrator)).toEqual([])
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Anything open?'))
+      expect(bugTitles(orchestrator)).toEqual(['Apostrophe search returns 500'])
+      await orchestrator.shutdown()
+
+      orchestrator = await start()
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Anything open?'))
+      const [bug] = (orchestrator.getAgentInstance(AgentType.QA) as QAAgent).getBugReports()
+      expect(bug).toMatchObject({ title: 'Apostrophe search returns 500', status: 'new' })
+      expect(bug.createdAt).toBeInstanceOf(Date)
+      await orchestrator.shutdown()
+      orchestrator = undefined
+
+      const saved = JSON.parse(await fs.readFile(path.join(storagePath, 'projects', `${PROJECT_ID}.json`), 'utf-8'))
+      expect(saved).toMatchObject({ version: 1, projectId: PROJECT_ID, personas: { qa: { version: 1 } } })
+    } finally {
+      await orchestrator?.shutdown()
+      orchestrator = undefined
+      await fs.rm(storagePath, { recursive: true, force: true })
+    }
+  })
+
+  it('runs an approved action with the state of the project it was queued in', async () => {
+    const storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'persona-state-'))
+    const provider = createProvider()
+    provider.chat.mockImplementation(async (messages: Array<{ content: string }>, options?: { tools?: unknown[] }) => ({
+      content: 'Filed it.',
+      toolCalls: options?.tools
+        ? [{
+            id: 'call-1',
+            name: 'report_bug',
+            input: {
+              title: messages.some(message => message.content.includes('apostrophes')) ? 'Apostrophe search returns 500' : 'Login button is misaligned',
+              description: 'Reported by the user',
+              severity: 'high'
+            }
+          }]
+        : undefined
+    }))
+    const personaState = createPersonaStateService({ storagePath })
+    const approvals = createActionApprovalQueue()
+    const savedBugs = async (projectId: string) => {
+      await personaState.flush()
+      const saved = JSON.parse(await fs.readFile(path.join(storagePath, 'projects', `${projectId}.json`), 'utf-8'))
+      return saved.personas.qa.data.bugReports.map((bug: { title: string, status: string }) => [bug.title, bug.status])
+    }
+
+    try {
+      orchestrator = createAgentOrchestrator(createEventBus(), undefined, undefined, { llmProvider: provider, personaState, approvals })
+      await orchestrator.initialize()
+      const qa = orchestrator.getAgentInstance(AgentType.QA) as QAAgent
+
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Search breaks on apostrophes'))
+      const [bug] = qa.getBugReports()
+      const approval = approvals.enqueue({
+        agentType: AgentType.QA,
+        projectId: PROJECT_ID,
+        action: { type: 'resolve_bug', description: `Resolve ${bug.title}`, parameters: { bugId: bug.id }, confirmation: true },
+        handlers: { execute: async parameters => qa.resolveBug(parameters.bugId as string) }
+      })
+
+      // Another project's message leaves its own state loaded
+      await orchestrator.sendMessage(userMessage(AgentType.QA, 'Login button is misaligned', 'normal', 'other-project'))
+      const approved = await approvals.approve(approval.id)
+
+      expect(approved).toMatchObject({ success: true, data: { status: 'executed' } })
+      expect(await savedBugs(PROJECT_ID)).toEqual([['Apostrophe search returns 500', 'resolved']])
+      expect(await savedBugs('other-project')).toEqual([['Login button is misaligned', 'new']])
+    } finally {
+      await orchestrator?.shutdown()
+      orchestrator = undefined
+      await fs.rm(storagePath, { recursive: true, force: true })
+    }
+  })
+
+  it('lists the Producer\'s clarification questions and records the answers', async () => {
+    const provider = createProvider()
+    provider.chat.mockImplementation(async (_messages: unknown, options?: { tools?: unknown[] }) => ({
+      content: 'One question before I plan this.',
+      usage: { inputTokens: 12, outputTokens: 6 },
+      toolCalls: options?.tools
+        ? [{
+            id: 'call-1',
+            name: 'ask_clarifying_question',
+            input: {
+              question: 'Who are the main users?',
+              context: 'Shapes the onboarding flow',
+              priority: 'high',
+              suggestedAnswers: ['Home cooks', 'Professional chefs']
+            }
+          }]
+        : undefined
+    }))
+    const eventBus = createEventBus()
+    const memoryService = createMemoryService()
+    orchestrator = createAgentOrchestrator(eventBus, memoryService, undefined, { llmProvider: provider })
+    await orchestrator.initialize()
+
+    await orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Plan a recipe app'))
+    const [question] = await orchestrator.listClarificationQuestions(PROJECT_ID)
+
+    expect(question).toMatchObject({
+      question: 'Who are the main users?',
+      priority: 'high',
+      suggestedAnswers: ['Home cooks', 'Professional chefs'],
+      projectId: PROJECT_ID
+    })
+    expect(eventBus.publishAsync).toHaveBeenCalledWith(expect.objectContaining({ type: 'agent.question.asked' }))
+
+    const empty = await orchestrator.answerClarificationQuestion({ questionId: question.id, answer: '  ', projectId: PROJECT_ID })
+    expect(empty.success).toBe(false)
+
+    const answered = await orchestrator.answerClarificationQuestion({ questionId: question.id, answer: 'Home cooks', projectId: PROJECT_ID })
+
+    expect(answered.success).toBe(true)
+    expect(await orchestrator.listClarificationQuestions(PROJECT_ID)).toEqual([])
+    expect(memoryService.storeMemory).toHaveBeenCalledWith(expect.objectContaining({
+      content: 'Clarification answered: Who are the main users?\nAnswer: Home cooks',
+      metadata: expect.objectContaining({ projectId: PROJECT_ID, tags: ['clarification', AgentType.PRODUCER] })
+    }))
+    expect(eventBus.publishAsync).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'agent.question.answered',
+      payload: expect.objectContaining({ answer: 'Home cooks' })
+    }))
+
+    // A question that was already answered cannot be answered again
+    const again = await orchestrator.answerClarificationQuestion({ questionId: question.id, answer: 'Chefs', projectId: PROJECT_ID })
+    expect(again.success).toBe(false)
+  })
+})
+
+// =============================================================================
+// Message Queue
+// =============================================================================
+
+describe('AgentOrchestrator message queue', () => {
+  let orchestrator: AgentOrchestrator | undefined
+
+  afterEach(async () => {
+    await orchestrator?.shutdown()
+    orchestrator = undefined
+  })
+
+  const start = async (maxConcurrentTasks: number, maxQueueDepth?: number) => {
+    const { provider, held } = createHeldProvider()
+    orchestrator = createAgentOrchestrator(createEventBus(), undefined, { maxQueueDepth }, { llmProvider: provider })
+    await orchestrator.initialize()
+    const producer = await orchestrator.getAgentByType(AgentType.PRODUCER)
+    await orchestrator.updateAgentConfiguration(producer.id, {
+      rateLimits: { ...producer.configuration.rateLimits, maxConcurrentTasks }
+    })
+    return { orchestrator, held }
+  }
+
+  const runningContent = (orchestrator: AgentOrchestrator) => orchestrator.getMessageQueue()
+    .filter(queued => queued.status === 'running')
+    .map(queued => queued.preview)
+
+  it('starts waiting messages by priority, up to the agent\'s concurrent task limit and one project at a time', async () => {
+    const { orchestrator, held } = await start(2)
+    const OTHER_PROJECT = 'c4ca4238-a0b9-4382-8dcc-509a6f75849b'
+    const send = (content: string, priority?: MessagePriority, projectId?: string) =>
+      orchestrator.sendMessage(userMessage(AgentType.PRODUCER, content, priority, projectId))
+
+    const results = [
+      send('First'),
+      send('Second'),
+      send('Later', 'low'),
+      send('Other project', 'normal', OTHER_PROJECT),
+      send('Now', 'urgent')
+    ]
+    await vi.waitFor(() => expect(held).toHaveLength(2))
+
+    expect(orchestrator.getMessageQueue().map(queued => [queued.preview, queued.status])).toEqual([
+      ['First', 'running'],
+      ['Second', 'running'],
+      ['Now', 'queued'],
+      ['Other project', 'queued'],
+      ['Later', 'queued']
+    ])
+    expect(orchestrator.getQueueMetrics().byAgent[AgentType.PRODUCER]).toMatchObject({
+      queued: 3,
+      running: 2,
+      maxConcurrentTasks: 2,
+      queuedByPriority: { urgent: 1, high: 0, normal: 1, low: 1 }
+    })
+
+    // Whichever of the first two finishes, the urgent message takes its place
+    held[0].release()
+    await vi.waitFor(() => expect(runningContent(orchestrator)).toContain('Now'))
+    expect(runningContent(orchestrator)).toHaveLength(2)
+
+    // The other project's message waits for the agent to finish this project's work, and holds back the rest
+    held[1].release()
+    await vi.waitFor(() => expect(runningContent(orchestrator)).toEqual(['Now']))
+    held[2].release()
+    await vi.waitFor(() => expect(runningContent(orchestrator)).toEqual(['Other project']))
+    held[3].release()
+    await vi.waitFor(() => expect(runningContent(orchestrator)).toEqual(['Later']))
+    held[4].release()
+
+    expect((await Promise.all(results)).every(result => result.success)).toBe(true)
+    expect(orchestrator.getMessageQueue()).toEqual([])
+    expect((await orchestrator.getAgentByType(AgentType.PRODUCER)).status).toBe(AgentStatus.IDLE)
+  })
+
+  it('turns messages away once too many are waiting', async () => {
+    const { orchestrator, held } = await start(1, 1)
+
+    const first = orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'First'))
+    const second = orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Second'))
+    const rejected = await orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Third'))
+
+    expect(rejected.success).toBe(false)
+    expect(!rejected.success && rejected.error.code).toBe('MESSAGE_QUEUE_FULL')
+    expect(orchestrator.getQueueMetrics()).toMatchObject({
+      queued: 1,
+      byAgent: { [AgentType.PRODUCER]: { rejected: 1, maxQueueDepth: 1 } }
+    })
+    const health = await orchestrator.healthCheck()
+    expect(health.checks.find(check => check.name === 'message_queue')?.healthy).toBe(false)
+
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+    held[0].release()
+    await vi.waitFor(() => expect(held).toHaveLength(2))
+    held[1].release()
+    expect((await first).success && (await second).success).toBe(true)
+  })
+
+  it('cancels waiting messages and aborts the LLM call of running ones', async () => {
+    const { orchestrator, held } = await start(1)
+    const queueUpdated = vi.fn()
+    orchestrator.on('queue:updated', queueUpdated)
+    const running = userMessage(AgentType.PRODUCER, 'Write the full spec')
+    const waiting = userMessage(AgentType.PRODUCER, 'And the test plan')
+
+    const runningResult = orchestrator.sendMessage(running)
+    const waitingResult = orchestrator.sendMessage(waiting)
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+
+    expect(orchestrator.cancelMessage(waiting.id)).toBe(true)
+    const cancelledWaiting = await waitingResult
+    expect(!cancelledWaiting.success && cancelledWaiting.error.code).toBe('MESSAGE_CANCELLED')
+
+    expect(orchestrator.cancelMessage(running.id)).toBe(true)
+    const cancelledRunning = await runningResult
+    expect(held[0].signal.aborted).toBe(true)
+    expect(!cancelledRunning.success && cancelledRunning.error.code).toBe('MESSAGE_CANCELLED')
+
+    // Cancelling is not an agent failure, and the waiting message never reached the LLM
+    expect(held).toHaveLength(1)
+    expect((await orchestrator.getAgentByType(AgentType.PRODUCER)).status).toBe(AgentStatus.IDLE)
+    expect(orchestrator.cancelMessage(running.id)).toBe(false)
+    expect(orchestrator.getQueueMetrics().byAgent[AgentType.PRODUCER]).toMatchObject({ queued: 0, running: 0, cancelled: 2 })
+    expect(queueUpdated).toHaveBeenCalled()
+  })
+
+  it('cancels the follow-ups of a message along with it', async () => {
+    const { orchestrator, held } = await start(1)
+    const answer = userMessage(AgentType.PRODUCER, 'What should we build first?')
+    const comment = userMessage(AgentType.PRODUCER, 'Comment on the answer')
+    const other = userMessage(AgentType.PRODUCER, 'Unrelated question')
+
+    const answerResult = orchestrator.sendMessage(answer)
+    const commentResult = orchestrator.sendMessage({ ...comment, metadata: { ...comment.metadata, parentMessageId: answer.id } })
+    const otherResult = orchestrator.sendMessage(other)
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+
+    expect(orchestrator.cancelMessage(answer.id)).toBe(true)
+    for (const result of [await answerResult, await commentResult]) {
+      expect(!result.success && result.error.code).toBe('MESSAGE_CANCELLED')
+    }
+
+    await vi.waitFor(() => expect(held).toHaveLength(2))
+    held[1].release()
+    expect((await otherResult).success).toBe(true)
+  })
+
+  it('lets the follow-ups of an open group in even when too many messages are waiting', async () => {
+    const { orchestrator, held } = await start(1, 1)
+    const answer = userMessage(AgentType.PRODUCER, 'What should we build first?')
+    const comment = userMessage(AgentType.PRODUCER, 'Comment on the answer')
+    const closeGroup = orchestrator.openMessageGroup(answer.id)
+
+    void orchestrator.sendMessage(answer)
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+    void orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Unrelated question'))
+    void orchestrator.sendMessage({ ...comment, metadata: { ...comment.metadata, parentMessageId: answer.id } })
+    const rejected = await orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'One more'))
+
+    expect(!rejected.success && rejected.error.code).toBe('MESSAGE_QUEUE_FULL')
+    expect(orchestrator.getMessageQueue().map(queued => queued.preview)).toEqual([
+      'What should we build first?',
+      'Unrelated question',
+      'Comment on the answer'
+    ])
+    closeGroup()
+  })
+
+  it('cancels follow-ups of an open group that are sent after it was cancelled', async () => {
+    const { orchestrator, held } = await start(1)
+    const answer = userMessage(AgentType.PRODUCER, 'What should we build first?')
+    const comment = userMessage(AgentType.PRODUCER, 'Comment on the answer')
+    const closeGroup = orchestrator.openMessageGroup(answer.id)
+
+    const answerResult = orchestrator.sendMessage(answer)
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+    held[0].release()
+    expect((await answerResult).success).toBe(true)
+
+    // Between turns nothing is queued, but the group is still there to cancel
+    expect(orchestrator.cancelMessage(answer.id)).toBe(true)
+    const cancelled = await orchestrator.sendMessage({ ...comment, metadata: { ...comment.metadata, parentMessageId: answer.id } })
+    expect(!cancelled.success && cancelled.error.code).toBe('MESSAGE_CANCELLED')
+    expect(held).toHaveLength(1)
+
+    closeGroup()
+    expect(orchestrator.cancelMessage(answer.id)).toBe(false)
+  })
+
+  it('reads clarification questions for a project only once the agent is done with another project', async () => {
+    const { orchestrator, held } = await start(2)
+    const reply = orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Plan the admin area', 'normal', 'other-project'))
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+
+    const questions = orchestrator.listClarificationQuestions(PROJECT_ID)
+    expect(orchestrator.getMessageQueue().map(queued => [queued.preview, queued.status])).toEqual([
+      ['Plan the admin area', 'running'],
+      ['List clarification questions', 'queued']
+    ])
+
+    held[0].release()
+    expect((await reply).success).toBe(true)
+    expect(await questions).toEqual([])
+  })
+
+  it('never turns away its own work for a full queue, nor counts it against the depth', async () => {
+    const { orchestrator, held } = await start(1, 1)
+
+    const first = orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'First'))
+    await vi.waitFor(() => expect(held).toHaveLength(1))
+    const questions = orchestrator.listClarificationQuestions(PROJECT_ID)
+    const second = orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Second'))
+    const rejected = await orchestrator.sendMessage(userMessage(AgentType.PRODUCER, 'Third'))
+
+    expect(!rejected.success && rejected.error.code).toBe('MESSAGE_QUEUE_FULL')
+    expect(orchestrator.getMessageQueue().map(queued => queued.preview)).toEqual([
+      'First',
+      'List clarification questions',
+      'Second'
+    ])
+
+    held[0].release()
+    expect(await questions).toEqual([])
+    await vi.waitFor(() => expect(held).toHaveLength(2))
+    held[1].release()
+    expect((await first).success && (await second).success).toBe(true)
+  })
+})
+
+// =============================================================================
+// Memory Manager
+// =============================================================================
+
+describe('AgentMemoryManager', () => {
+  it('keeps persona memory kinds as tags and scopes memories to the project', async () => {
+    const memoryService = createMemoryService()
+    const manager = createAgentMemoryManager(memoryService, AgentType.ARCHITECT)
+
+    await manager.store('architect-id', 'Chose PostgreSQL', 'technical_decision', PROJECT_ID)
+    await manager.store('architect-id', 'Prefers dark mode', 'user_preference')
+    await manager.retrieve('architect-id', 'database', 3, PROJECT_ID)
+
+    expect(memoryService.storeMemory.mock.calls.map(([input]) => [input.type, input.metadata.tags])).toEqual([
+      ['project', ['technical_decision', AgentType.ARCHITECT]],
+      ['global', ['user_preference', AgentType.ARCHITECT]]
+    ])
+    expect(memoryService.searchMemories).toHaveBeenCalledWith(expect.objectContaining({
+      query: 'database',
+      agentType: AgentType.ARCHITECT,
+      projectId: PROJECT_ID,
+      limit: 3
+    }))
+  })
+})
@@ -0,0 +1,271 @@
+// @vitest-environment node
+/**
+ * Agent Tool Library Tests
+ *
+ * Covers the standard tools against a real project directory, which agent
+ * types get which tools, and agents running tool calls from the model with
+ * permission checks, timeouts and invocation logging
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentType, CustomPersonaDefinition, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentOrchestrator, createAgentOrchestrator } from '../../src/main/services/agents/AgentOrchestrator'
+import { AgentContext, LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ActionApprovalQueue, createActionApprovalQueue } from '../../src/main/services/agents/approvals/ActionApprovalQueue'
+import { AgentToolLibrary, createAgentToolLibrary } from '../../src/main/services/agents/tools/AgentToolLibrary'
+import { WorkspaceService, createWorkspaceService } from '../../src/main/services/workspace/WorkspaceService'
+
+// Tools work on a real temporary project; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = '3b7e9d2c-4f1a-4c8e-9d6b-5a2f0e1c7b84'
+
+const OPS: CustomPersonaDefinition = {
+  id: 'ops',
+  name: 'Operations',
+  description: 'Keeps the project running.',
+  avatar: '🛠️',
+  systemPrompt: 'You are the operations engineer of Project Maestro.',
+  personalityTraits: [],
+  capabilities: [],
+  allowedTools: ['read_file', 'write_file', 'run_command'],
+  permissions: ['files:read', 'commands:run'],
+  routing: { keywords: [], intents: [] }
+}
+
+const createContext = (agentType: string = AgentType.ENGINEER): AgentContext => ({
+  agentId: uuidv4(),
+  agentType,
+  projectId: PROJECT_ID,
+  userId: 'current-user',
+  sessionId: uuidv4(),
+  metadata: {}
+})
+
+const run = (library: AgentToolLibrary, name: string, params: unknown) => {
+  const tool = library.getTools().find(candidate => candidate.name === name)
+  if (!tool) {
+    throw new Error(`No ${name} tool`)
+  }
+  return tool.execute(params, createContext())
+}
+
+// =============================================================================
+// Tool Library
+// =============================================================================
+
+describe('AgentToolLibrary', () => {
+  let workspacesPath: string
+  let projectRoot: string
+  let workspace: WorkspaceService
+  let approvals: ActionApprovalQueue
+  let library: AgentToolLibrary
+
+  beforeEach(async () => {
+    workspacesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-tools-'))
+    projectRoot = path.join(workspacesPath, PROJECT_ID)
+    await fs.mkdir(path.join(projectRoot, 'src'), { recursive: true })
+    await fs.mkdir(path.join(projectRoot, 'node_modules/lib'), { recursive: true })
+    await fs.writeFile(path.join(projectRoot, 'README.md'), '# Recipes\nSearch recipes by ingredient.\n')
+    await fs.writeFile(path.join(projectRoot, 'src/search.ts'), 'export const searchRecipes = () => []\n')
+    await fs.writeFile(path.join(projectRoot, 'node_modules/lib/index.js'), 'module.exports = "searchRecipes"\n')
+
+    workspace = createWorkspaceService(workspacesPath)
+    approvals = createActionApprovalQueue()
+    library = createAgentToolLibrary({ workspace, approvals }, { customPersonas: [OPS] })
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspacesPath, { recursive: true, force: true })
+  })
+
+  it('reads, lists and searches project files', async () => {
+    expect(await run(library, 'read_file', { path: 'README.md' })).toEqual({
+      path: 'README.md',
+      content: '# Recipes\nSearch recipes by ingredient.\n',
+      truncated: false
+    })
+    expect(await run(library, 'list_directory', {})).toEqual([
+      { name: 'node_modules', path: 'node_modules', type: 'directory' },
+      { name: 'src', path: 'src', type: 'directory' },
+      { name: 'README.md', path: 'README.md', type: 'file' }
+    ])
+
+    // Dependencies are not searched
+    expect(await run(library, 'search_project', { query: 'SEARCHRECIPES' })).toEqual({
+      query: 'SEARCHRECIPES',
+      matches: [{ path: 'src/search.ts', line: 1, text: 'export const searchRecipes = () => []' }],
+      searchedFiles: 2,
+      complete: true
+    })
+
+    await expect(run(library, 'read_file', { path: '../secrets.txt' })).rejects.toThrow()
+    await expect(run(library, 'read_file', {})).rejects.toThrow('Invalid input for read_file')
+  })
+
+  it('proposes file writes as change sets that are written once approved and discarded once rejected', async () => {
+    const searchPath = path.join(projectRoot, 'src/search.ts')
+    const approved = await run(library, 'write_file', { path: 'src/search.ts', content: 'export const searchRecipes = () => [1]\n' })
+    const rejected = await run(library, 'write_file', { path: 'README.md', content: '# Cookbook\n' })
+
+    expect(approved).toMatchObject({ status: 'pending' })
+    expect(workspace.listChangeSets()).toHaveLength(2)
+    expect(await fs.readFile(searchPath, 'utf-8')).toBe('export const searchRecipes = () => []\n')
+    const pending = approvals.list({ status: 'pending' })
+    expect(pending.map(approval => approval.action.type)).toEqual(['apply_change_set', 'apply_change_set'])
+    expect(pending.flatMap(approval => approval.action.parameters.files as string[]).sort()).toEqual(['README.md', 'src/search.ts'])
+
+    const { approvalId, changeSetId } = approved as { approvalId: string; changeSetId: string }
+    expect((await approvals.approve(approvalId)).success).toBe(true)
+    expect(await fs.readFile(searchPath, 'utf-8')).toBe('export const searchRecipes = () => [1]\n')
+    expect(workspace.getChangeSet(changeSetId)?.status).toBe('applied')
+
+    const discarded = rejected as { approvalId: string; changeSetId: string }
+    expect((await approvals.reject(discarded.approvalId)).success).toBe(true)
+    expect(workspace.getChangeSet(discarded.changeSetId)?.status).toBe('rejected')
+    expect(await fs.readFile(path.join(projectRoot, 'README.md'), 'utf-8')).toBe('# Recipes\nSearch recipes by ingredient.\n')
+  })
+
+  it('only runs allowlisted commands with project paths as extra arguments', async () => {
+    const commands = createAgentToolLibrary({ workspace }, { allowedCommands: ['ls'] })
+
+    expect(await run(commands, 'run_command', { command: 'ls src' })).toEqual({
+      command: 'ls src',
+      exitCode: 0,
+      output: 'search.ts\n'
+    })
+    await expect(run(commands, 'run_command', { command: 'rm -rf src' })).rejects.toThrow('is not an allowed command')
+    await expect(run(commands, 'run_command', { command: 'ls -la' })).rejects.toThrow('Argument -la is not allowed')
+    await expect(run(commands, 'run_command', { command: 'ls ../..' })).rejects.toThrow('Argument ../.. is not allowed')
+  })
+
+  it.skipIf(process.platform === 'win32')('stops the processes an aborted command started', async () => {
+    await fs.writeFile(path.join(projectRoot, 'slow.sh'), '(sleep 1; touch finished) &\nwait\n')
+    const commands = createAgentToolLibrary({ workspace }, { allowedCommands: ['sh slow.sh'] })
+    const tool = commands.getTools().find(candidate => candidate.name === 'run_command')!
+    const controller = new AbortController()
+
+    const result = tool.execute({ command: 'sh slow.sh' }, createContext(), controller.signal)
+    setTimeout(() => controller.abort(), 200)
+    expect(await result).toMatchObject({ exitCode: null })
+
+    await new Promise(resolve => setTimeout(resolve, 1500))
+    await expect(fs.access(path.join(projectRoot, 'finished'))).rejects.toThrow()
+  })
+
+  it('hands out tools by agent type and the tools custom personas list', () => {
+    expect(library.getToolNamesFor(AgentType.PRODUCER)).toEqual(['read_file', 'list_directory', 'search_project'])
+    expect(library.getToolNamesFor(AgentType.ENGINEER)).toEqual([
+      'read_file',
+      'list_directory',
+      'search_project',
+      'write_file',
+      'run_command'
+    ])
+    expect(library.getToolNamesFor('ops')).toEqual(['read_file', 'write_file', 'run_command'])
+    expect(library.getToolsFor(AgentType.QA, ['read_file', 'write_file', 'run_command']).map(tool => tool.name))
+      .toEqual(['read_file', 'run_command'])
+  })
+})
+
+// =============================================================================
+// Agents Calling Tools
+// =============================================================================
+
+describe('Agents with the standard tools', () => {
+  let workspacesPath: string
+  let orchestrator: AgentOrchestrator | undefined
+
+  beforeEach(async () => {
+    workspacesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-tools-'))
+    await fs.mkdir(path.join(workspacesPath, PROJECT_ID), { recursive: true })
+    await fs.writeFile(path.join(workspacesPath, PROJECT_ID, 'README.md'), '# Recipes\n')
+  })
+
+  afterEach(async () => {
+    await orchestrator?.shutdown()
+    orchestrator = undefined
+    await fs.rm(workspacesPath, { recursive: true, force: true })
+  })
+
+  it('runs permitted tool calls, refuses the rest and feeds the results back to the model', async () => {
+    const eventBus = { publish: vi.fn(), publishAsync: vi.fn(), subscribe: vi.fn(() => uuidv4()) }
+    const provider = {
+      chat: vi.fn()
+        .mockResolvedValueOnce({
+          content: '',
+          toolCalls: [
+            { id: 'call-1', name: 'read_file', input: { path: 'README.md' } },
+            { id: 'call-2', name: 'write_file', input: { path: 'NOTES.md', content: 'notes' } },
+            { id: 'call-3', name: 'run_command', input: { command: 'sleep 5' } }
+          ],
+          usage: { inputTokens: 20, outputTokens: 10 }
+        })
+        .mockResolvedValueOnce({ content: 'The README is a heading.', usage: { inputTokens: 40, outputTokens: 8 } }),
+      generateEmbedding: vi.fn(async () => []),
+      isAvailable: () => true
+    } satisfies LLMProvider
+    const workspace = createWorkspaceService(workspacesPath)
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    try {
+      orchestrator = createAgentOrchestrator(eventBus as unknown as IEventBus, undefined, undefined, {
+        llmProvider: provider,
+        workspace,
+        customPersonas: [OPS],
+        tools: createAgentToolLibrary({ workspace, approvals: createActionApprovalQueue() }, { allowedCommands: ['sleep 5'], commandTimeoutMs: 50, customPersonas: [OPS] })
+      })
+      await orchestrator.initialize()
+
+      const result = await orchestrator.sendMessage({
+        id: uuidv4(),
+        timestamp: new Date(),
+        from: 'user',
+        to: 'ops',
+        content: 'What does the README say?',
+        messageType: MessageType.CHAT,
+        projectId: PROJECT_ID,
+        metadata: { priority: 'normal', requiresResponse: true }
+      })
+
+      expect(result.success && result.data).toMatchObject({ content: 'The README is a heading.' })
+      expect(provider.chat).toHaveBeenCalledTimes(2)
+      expect(provider.chat.mock.calls[0][1].tools.map((tool: { name: string }) => tool.name))
+        .toEqual(['read_file', 'write_file', 'run_command'])
+
+      const [messages] = provider.chat.mock.calls[1]
+      const toolResults = messages[messages.length - 1].content
+      expect(toolResults).toContain('read_file (call-1) returned:')
+      expect(toolResults).toContain('# Recipes')
+      expect(toolResults).toContain('write_file (call-2) failed: ')
+      expect(toolResults).toContain('files:write permission is required')
+      expect(toolResults).toContain('run_command (call-3) failed: ')
+      expect(toolResults).toContain('did not finish within 50ms')
+      expect(workspace.listChangeSets()).toEqual([])
+
+      const invocations = eventBus.publishAsync.mock.calls
+        .map(([event]) => event)
+        .filter(event => event.type === 'agent.tool.invoked')
+        .map(event => event.payload.invocation)
+      expect(invocations.map(invocation => [invocation.toolName, invocation.outcome])).toEqual([
+        ['read_file', 'success'],
+        ['write_file', 'denied'],
+        ['run_command', 'timeout']
+      ])
+      expect(invocations[0]).toMatchObject({ agentType: 'ops', projectId: PROJECT_ID, parameters: { path: 'README.md' } })
+      expect(invocations[0].resultSize).toBeGreaterThan(0)
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('Tool read_file called by ops: success'))
+    } finally {
+      log.mockRestore()
+    }
+  })
+})
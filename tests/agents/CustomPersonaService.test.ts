@@ -0,0 +1,198 @@
+// @vitest-environment node
+/**
+ * Custom Persona Tests
+ *
+ * Covers loading persona definitions from config, routing messages to them
+ * by their keywords, and the orchestrator running them next to the
+ * built-in agents
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentStatus, AgentType, CustomPersonaDefinition, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentOrchestrator, createAgentOrchestrator } from '../../src/main/services/agents/AgentOrchestrator'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { createCustomPersonaService } from '../../src/main/services/agents/custom/CustomPersonaService'
+import { MessageRouter } from '../../src/main/services/agents/MessageRouter'
+import { CustomPersonaAgent } from '../../src/main/services/agents/personas/CustomPersona'
+
+// The persona config is read from a real temporary file; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DEVOPS: CustomPersonaDefinition = {
+  id: 'devops',
+  name: 'DevOps Engineer',
+  description: 'Owns builds, deployments and infrastructure.',
+  avatar: '🚀',
+  systemPrompt: 'You are the DevOps engineer of Project Maestro.',
+  personalityTraits: ['Automates everything'],
+  capabilities: ['ci_cd', 'infrastructure'],
+  allowedTools: ['read_file', 'run_command'],
+  permissions: ['files:read', 'commands:run'],
+  routing: { keywords: ['docker', 'pipeline', 'kubernetes', 'deploy'], intents: [] }
+}
+
+const writeConfig = async (dir: string, content: unknown) => {
+  const configPath = path.join(dir, 'custom-personas.json')
+  await fs.writeFile(configPath, JSON.stringify(content), 'utf-8')
+  return configPath
+}
+
+const createEventBus = () => ({
+  publish: vi.fn(),
+  publishAsync: vi.fn(),
+  subscribe: vi.fn(() => uuidv4())
+}) as unknown as IEventBus
+
+const createProvider = (): LLMProvider & { chat: ReturnType<typeof vi.fn> } => ({
+  chat: vi.fn(async () => ({ content: 'The pipeline builds the image first.', usage: { inputTokens: 12, outputTokens: 6 } })),
+  generateEmbedding: vi.fn(async () => []),
+  isAvailable: () => true
+})
+
+// =============================================================================
+// Config Loading
+// =============================================================================
+
+describe('CustomPersonaService', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'custom-personas-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('loads valid personas with defaults and skips invalid ones', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const configPath = await writeConfig(dir, {
+      version: 1,
+      personas: [
+        { id: 'designer', name: 'Designer', systemPrompt: 'You design the UI.', routing: { keywords: ['Figma'] } },
+        DEVOPS,
+        { ...DEVOPS, name: 'Second DevOps' },
+        { ...DEVOPS, id: AgentType.QA },
+        { ...DEVOPS, id: 'Security Reviewer' },
+        { ...DEVOPS, id: 'security', systemPrompt: 'Review {{code}}' },
+        { ...DEVOPS, id: 'writer', routing: { keywords: [], intents: ['poetry'] } }
+      ]
+    })
+    const service = createCustomPersonaService({ configPath })
+
+    try {
+      await service.initialize()
+
+      expect(service.list().map(persona => persona.id)).toEqual(['designer', 'devops'])
+      expect(service.get('designer')).toMatchObject({
+        avatar: '🤖',
+        description: '',
+        allowedTools: [],
+        permissions: ['files:read', 'tasks:read', 'memory:read'],
+        routing: { keywords: ['figma'], intents: [] }
+      })
+      expect(service.get('devops')).toEqual(DEVOPS)
+      expect(warn).toHaveBeenCalledTimes(5)
+    } finally {
+      warn.mockRestore()
+    }
+  })
+
+  it('loads nothing without a config file or with an unsupported version', async () => {
+    const missing = createCustomPersonaService({ configPath: path.join(dir, 'missing.json') })
+    await missing.initialize()
+    expect(missing.list()).toEqual([])
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const future = createCustomPersonaService({ configPath: await writeConfig(dir, { version: 2, personas: [DEVOPS] }) })
+    try {
+      await future.initialize()
+      expect(future.list()).toEqual([])
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
+
+// =============================================================================
+// Routing
+// =============================================================================
+
+describe('MessageRouter with custom personas', () => {
+  it('routes by the persona\'s keywords and accepts it as an explicit target', async () => {
+    const router = new MessageRouter(undefined, [DEVOPS])
+
+    const routed = await router.routeMessage({
+      content: 'Add a docker build step to the pipeline and deploy it',
+      conversationHistory: []
+    })
+    expect(routed.success && routed.data.primaryAgent).toBe('devops')
+    expect(routed.success && routed.data.reasoning).toContain('DevOps Engineer')
+
+    const explicit = await router.routeWithExplicitTarget('devops', { content: 'Hello', conversationHistory: [] })
+    expect(explicit.success && explicit.data.primaryAgent).toBe('devops')
+
+    const unknown = await router.routeWithExplicitTarget('designer', { content: 'Hello', conversationHistory: [] })
+    expect(unknown.success).toBe(false)
+  })
+})
+
+// =============================================================================
+// Orchestrator
+// =============================================================================
+
+describe('AgentOrchestrator with custom personas', () => {
+  let orchestrator: AgentOrchestrator | undefined
+
+  afterEach(async () => {
+    await orchestrator?.shutdown()
+    orchestrator = undefined
+  })
+
+  it('registers the persona next to the built-in agents and lets it reply', async () => {
+    const provider = createProvider()
+    orchestrator = createAgentOrchestrator(createEventBus(), undefined, undefined, {
+      llmProvider: provider,
+      customPersonas: [DEVOPS]
+    })
+    await orchestrator.initialize()
+
+    expect(orchestrator.getAgentInstance('devops')).toBeInstanceOf(CustomPersonaAgent)
+    expect(await orchestrator.getAgentByType('devops')).toMatchObject({
+      name: 'DevOps Engineer',
+      avatar: '🚀',
+      configuration: { systemPrompt: DEVOPS.systemPrompt, tools: ['read_file', 'run_command'] }
+    })
+    expect(Object.values(await orchestrator.getAllAgentStatuses())).toEqual(Array(5).fill(AgentStatus.IDLE))
+
+    const result = await orchestrator.sendMessage({
+      id: uuidv4(),
+      timestamp: new Date(),
+      from: 'user',
+      to: 'devops',
+      content: 'How should we deploy?',
+      messageType: MessageType.CHAT,
+      metadata: { priority: 'normal', requiresResponse: true }
+    })
+
+    expect(result.success && result.data).toMatchObject({ agentType: 'devops', content: 'The pipeline builds the image first.' })
+    const [messages] = provider.chat.mock.calls[0]
+    expect(messages[0]).toMatchObject({ role: 'system', content: expect.stringContaining(DEVOPS.systemPrompt) })
+    expect(messages[0].content).toContain('- Automates everything')
+
+    // The persona's state machine type goes away with the orchestrator
+    await orchestrator.shutdown()
+    orchestrator = undefined
+    expect(() => AgentStateMachineFactory.create(uuidv4(), 'devops')).toThrow('Unknown agent type devops')
+  })
+})
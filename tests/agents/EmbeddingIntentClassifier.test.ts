@@ -0,0 +1,175 @@
+// @vitest-environment node
+/**
+ * Embedding Intent Classifier Tests
+ *
+ * Covers the message router falling back to labeled example messages when
+ * keywords do not settle the intent, recording which classifier decided,
+ * and users adding their own examples per project
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { AgentType } from '../../src/shared/contracts/AgentDomain'
+import { MessageRouter, UserIntent } from '../../src/main/services/agents/MessageRouter'
+import {
+  BUILTIN_INTENT_EXAMPLES,
+  EmbeddingIntentClassifier,
+  createEmbeddingIntentClassifier
+} from '../../src/main/services/agents/routing/EmbeddingIntentClassifier'
+import { createLocalEmbedder } from '../../src/main/services/ai/LocalEmbedder'
+
+// Examples are persisted to a real temporary file; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = 'recipes'
+
+const createEmbeddings = () => {
+  const embedder = createLocalEmbedder({ dimensions: 512 })
+  return { generateEmbedding: vi.fn(async (text: string) => embedder.embed(text)) }
+}
+
+const route = (router: MessageRouter, content: string, projectId?: string) =>
+  router.routeMessage({ content, projectId, conversationHistory: [] })
+
+// =============================================================================
+// Routing
+// =============================================================================
+
+describe('MessageRouter with the embedding intent classifier', () => {
+  it('classifies messages the keywords miss by their closest example', async () => {
+    const embeddings = createEmbeddings()
+    const router = new MessageRouter(undefined, [], createEmbeddingIntentClassifier(embeddings))
+
+    const routed = await route(router, 'can you make the login faster')
+
+    expect(routed.success && routed.data).toMatchObject({
+      primaryAgent: AgentType.ENGINEER,
+      intent: UserIntent.CODE_IMPLEMENTATION,
+      intentClassifier: 'embedding'
+    })
+    expect(routed.success && routed.data.reasoning).toContain('similar example messages')
+
+    // Example embeddings are computed once and reused
+    const calls = embeddings.generateEmbedding.mock.calls.length
+    await route(router, 'can you make the login faster')
+    expect(embeddings.generateEmbedding.mock.calls.length).toBe(calls + 1)
+  })
+
+  it('embeds the examples again for another embedding model or once the cache is cleared', async () => {
+    let model = 'bedrock:amazon.titan-embed-text-v1'
+    const embeddings = { ...createEmbeddings(), getEmbeddingModel: () => model }
+    const classifier = createEmbeddingIntentClassifier(embeddings)
+    const exampleCount = Object.values(BUILTIN_INTENT_EXAMPLES).flat().length
+
+    await classifier.classify('can you make the login faster')
+    expect(embeddings.generateEmbedding).toHaveBeenCalledTimes(exampleCount + 1)
+
+    model = 'ollama:nomic-embed-text'
+    await classifier.classify('can you make the login faster')
+    expect(embeddings.generateEmbedding).toHaveBeenCalledTimes(2 * (exampleCount + 1))
+
+    classifier.clearExampleEmbeddings()
+    await classifier.classify('can you make the login faster')
+    expect(embeddings.generateEmbedding).toHaveBeenCalledTimes(3 * (exampleCount + 1))
+  })
+
+  it('keeps the keyword intent when keywords are clear or no example is close enough', async () => {
+    const embeddings = createEmbeddings()
+    const router = new MessageRouter(undefined, [], createEmbeddingIntentClassifier(embeddings, { minSimilarity: 0.99 }))
+
+    const clear = await route(router, 'Write a test to verify the coverage of the checkout spec')
+    expect(clear.success && clear.data).toMatchObject({ intent: UserIntent.TESTING_QA, intentClassifier: 'keyword' })
+    expect(embeddings.generateEmbedding).not.toHaveBeenCalled()
+
+    const unclear = await route(router, 'the login is slow on phones')
+    expect(unclear.success && unclear.data.intentClassifier).toBe('keyword')
+    expect(embeddings.generateEmbedding).toHaveBeenCalled()
+  })
+
+  it('falls back to keywords when messages cannot be embedded', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const failing = createEmbeddingIntentClassifier({
+      generateEmbedding: vi.fn(async () => {
+        throw new Error('Embeddings are not supported')
+      })
+    })
+    const empty = createEmbeddingIntentClassifier({ generateEmbedding: vi.fn(async () => []) })
+
+    try {
+      for (const classifier of [failing, empty]) {
+        const routed = await route(new MessageRouter(undefined, [], classifier), 'can you make the login faster')
+        expect(routed.success && routed.data).toMatchObject({
+          intent: UserIntent.GENERAL_QUESTION,
+          intentClassifier: 'keyword'
+        })
+      }
+      expect(warn).toHaveBeenCalledWith('Embedding intent classification failed:', expect.any(Error))
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
+
+// =============================================================================
+// Project Examples
+// =============================================================================
+
+describe('EmbeddingIntentClassifier project examples', () => {
+  let dir: string
+  let storagePath: string
+  let classifier: EmbeddingIntentClassifier
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intent-examples-'))
+    storagePath = path.join(dir, 'intent-examples.json')
+    classifier = createEmbeddingIntentClassifier(createEmbeddings(), { storagePath })
+    await classifier.initialize()
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('classifies by a project\'s own examples only within that project', async () => {
+    const added = classifier.addExample(PROJECT_ID, UserIntent.PROJECT_STATUS, 'Is the pantry sync shipped yet?')
+    expect(added.success).toBe(true)
+
+    expect(await classifier.classify('is the pantry sync shipped yet', PROJECT_ID)).toMatchObject({
+      intent: UserIntent.PROJECT_STATUS,
+      example: 'Is the pantry sync shipped yet?'
+    })
+    expect((await classifier.classify('is the pantry sync shipped yet', 'other'))?.example)
+      .not.toBe('Is the pantry sync shipped yet?')
+  })
+
+  it('persists examples, relabels repeated ones and validates them', async () => {
+    classifier.addExample(PROJECT_ID, UserIntent.DEBUGGING, 'The pantry page is empty')
+    const relabeled = classifier.addExample(PROJECT_ID, UserIntent.CODE_IMPLEMENTATION, ' the pantry page is empty ')
+    const kept = classifier.addExample(PROJECT_ID, UserIntent.TESTING_QA, 'Check the pantry import')
+    await classifier.flush()
+
+    const reloaded = createEmbeddingIntentClassifier(createEmbeddings(), { storagePath })
+    await reloaded.initialize()
+    expect(reloaded.listExamples(PROJECT_ID).map(example => [example.intent, example.text])).toEqual([
+      [UserIntent.CODE_IMPLEMENTATION, 'the pantry page is empty'],
+      [UserIntent.TESTING_QA, 'Check the pantry import']
+    ])
+    expect(reloaded.listExamples(PROJECT_ID)[0].createdAt).toBeInstanceOf(Date)
+
+    expect(relabeled.success && reloaded.removeExample(PROJECT_ID, relabeled.data.id)).toBe(true)
+    expect(kept.success && reloaded.removeExample('other', kept.data.id)).toBe(false)
+    expect(reloaded.listExamples(PROJECT_ID)).toHaveLength(1)
+
+    expect(classifier.addExample(PROJECT_ID, 'poetry', 'Write me a poem').success).toBe(false)
+    expect(classifier.addExample(PROJECT_ID, UserIntent.DEBUGGING, '   ').success).toBe(false)
+    const limited = createEmbeddingIntentClassifier(createEmbeddings(), { maxExamplesPerProject: 1 })
+    limited.addExample(PROJECT_ID, UserIntent.DEBUGGING, 'The pantry page is empty')
+    expect(limited.addExample(PROJECT_ID, UserIntent.DEBUGGING, 'Sync drops items').success).toBe(false)
+  })
+})
@@ -0,0 +1,189 @@
+// @vitest-environment node
+/**
+ * Prompt Template Service Tests
+ *
+ * Covers rendering of typed variables, override precedence and validation,
+ * persistence of overrides, and the template versions reported on persona
+ * responses
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { Agent, AgentStatus, AgentType, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMMessage, LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import {
+  PromptRenderError,
+  PromptTemplateNotFoundError,
+  createPromptTemplateService
+} from '../../src/main/services/agents/prompts/PromptTemplateService'
+
+// Overrides are persisted to a real file; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+const PROJECT_ID = '0f3c2b1a-6d5e-4c7b-8a9f-1e2d3c4b5a69'
+
+const analysisVariables = {
+  conversationHistory: 'Earlier: a recipe app',
+  currentPlan: 'No active project',
+  message: 'Add search'
+}
+
+// =============================================================================
+// Rendering and Overrides
+// =============================================================================
+
+describe('PromptTemplateService', () => {
+  it('renders built-in templates with their variables and reports the version', () => {
+    const service = createPromptTemplateService()
+
+    const { text, usage } = service.render('producer.analysis', analysisVariables)
+
+    expect(text.startsWith('Analyze this user message')).toBe(true)
+    expect(text).toContain('USER MESSAGE:\n"Add search"')
+    expect(usage).toEqual({ id: 'producer.analysis', version: '1.0.0', source: 'builtin' })
+  })
+
+  it('rejects missing or mistyped variables and unknown templates', () => {
+    const service = createPromptTemplateService({}, [{
+      id: 'custom.greeting',
+      version: '2',
+      description: 'Greeting',
+      variables: [
+        { name: 'names', type: 'list', description: 'People to greet' },
+        { name: 'excited', type: 'boolean', description: 'Add an exclamation mark', optional: true }
+      ],
+      template: 'Hello {{ names }}{{excited}}'
+    }])
+
+    expect(service.render('custom.greeting', { names: ['Ada', 'Lin'] }).text).toBe('Hello Ada\nLin')
+    expect(() => service.render('custom.greeting', {})).toThrow(PromptRenderError)
+    expect(() => service.render('custom.greeting', { names: 'Ada' })).toThrow("variable 'names' must be a list")
+    expect(() => service.render('producer.system', {})).toThrow(PromptTemplateNotFoundError)
+  })
+
+  it('prefers project overrides over global overrides over built-ins', () => {
+    const service = createPromptTemplateService()
+    service.setOverride({ id: 'producer.analysis', version: 'team-1', template: 'Global: {{message}}' })
+    service.setOverride({ id: 'producer.analysis', version: 'recipes-3', template: 'Project: {{message}}' }, PROJECT_ID)
+
+    expect(service.render('producer.analysis', analysisVariables, PROJECT_ID)).toEqual({
+      text: 'Project: Add search',
+      usage: { id: 'producer.analysis', version: 'recipes-3', source: 'project' }
+    })
+    expect(service.render('producer.analysis', analysisVariables, uuidv4()).usage.source).toBe('global')
+
+    expect(service.removeOverride('producer.analysis', PROJECT_ID)).toBe(true)
+    expect(service.render('producer.analysis', analysisVariables, PROJECT_ID).usage.version).toBe('team-1')
+  })
+
+  it('validates overrides against the declared variables', () => {
+    const service = createPromptTemplateService()
+
+    const unknownVariable = service.setOverride({ id: 'producer.response', version: '2', template: 'Hi {{userName}}' })
+    const unknownTemplate = service.setOverride({ id: 'producer.missing', version: '1', template: 'Hi' })
+    const noVersion = service.setOverride({ id: 'producer.response', version: ' ', template: 'Hi' })
+
+    expect(!unknownVariable.success && unknownVariable.error.message).toContain('unknown variables userName')
+    expect(unknownTemplate.success).toBe(false)
+    expect(noVersion.success).toBe(false)
+    expect(service.listTemplates().find(summary => summary.id === 'producer.response')?.source).toBe('builtin')
+  })
+
+  describe('persistence', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('reloads global and project overrides from disk', async () => {
+      const storagePath = path.join(tempDir, 'app-data', 'prompt-templates.json')
+      const service = createPromptTemplateService({ storagePath })
+      service.setOverride({ id: 'qa.system', version: 'strict-1', template: 'You are a strict QA.' })
+      service.setOverride({ id: 'qa.system', version: 'strict-2', template: 'You are a very strict QA.' }, PROJECT_ID)
+      await service.flush()
+
+      const reloaded = createPromptTemplateService({ storagePath })
+      await reloaded.initialize()
+
+      expect(reloaded.render('qa.system', {}).usage.version).toBe('strict-1')
+      expect(reloaded.render('qa.system', {}, PROJECT_ID).text).toBe('You are a very strict QA.')
+    })
+  })
+})
+
+// =============================================================================
+// Persona Integration
+// =============================================================================
+
+describe('persona prompt templates', () => {
+  const createProducer = (provider: LLMProvider, service = createPromptTemplateService()) => {
+    const entity: Agent = {
+      id: 'producer-prompt-agent',
+      type: AgentType.PRODUCER,
+      name: 'Producer',
+      avatar: '',
+      status: AgentStatus.IDLE,
+      capabilities: [],
+      configuration: {
+        model: 'bedrock:test-model',
+        temperature: 0.7,
+        maxTokens: 1024,
+        systemPrompt: 'You are the producer agent in Project Maestro.',
+        tools: [],
+        memoryAccess: { global: true, project: true, task: true, personal: true },
+        rateLimits: { messagesPerMinute: 20, tokensPerHour: 100000, maxConcurrentTasks: 3 }
+      },
+      statistics: { totalMessages: 0, totalTokensUsed: 0, averageResponseTime: 0, successRate: 1, lastActiveAt: new Date() },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    const eventBus = { publish: vi.fn(), publishAsync: vi.fn(), subscribe: vi.fn(() => uuidv4()) } as unknown as IEventBus
+    const stateMachine = AgentStateMachineFactory.create(entity.id, AgentType.PRODUCER)
+    return new ProducerAgent(entity, stateMachine, eventBus, provider, undefined, undefined, service)
+  }
+
+  it('uses project overrides and records the template versions on the response', async () => {
+    const prompts: LLMMessage[][] = []
+    const provider: LLMProvider = {
+      chat: vi.fn(async (messages: LLMMessage[]) => {
+        prompts.push(messages)
+        return { content: 'Sounds good.' }
+      }),
+      generateEmbedding: vi.fn(async () => []),
+      isAvailable: () => true
+    }
+    const service = createPromptTemplateService()
+    service.setOverride({ id: 'producer.system', version: 'terse-2', template: 'You are a terse producer.' }, PROJECT_ID)
+
+    const result = await createProducer(provider, service).sendMessage({
+      id: uuidv4(),
+      timestamp: new Date(),
+      from: 'user',
+      to: AgentType.PRODUCER,
+      content: 'Plan a recipe app',
+      messageType: MessageType.CHAT,
+      projectId: PROJECT_ID,
+      metadata: { priority: 'normal', requiresResponse: true }
+    })
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(prompts[0][0]).toEqual({ role: 'system', content: 'You are a terse producer.' })
+    expect(result.data.promptTemplates).toEqual([
+      { id: 'producer.analysis', version: '1.0.0', source: 'builtin' },
+      { id: 'producer.system', version: 'terse-2', source: 'project' },
+      { id: 'producer.response', version: '1.0.0', source: 'builtin' }
+    ])
+  })
+})
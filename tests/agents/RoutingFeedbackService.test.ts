@@ -0,0 +1,191 @@
+// @vitest-environment node
+/**
+ * Routing Feedback Tests
+ *
+ * Covers detecting when the user re-asks or reroutes a message to a specific
+ * agent right after the router picked another one, the router learning from
+ * those corrections, and the routing accuracy report
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { IpcMainInvokeEvent, ipcMain } from 'electron'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentMessage, AgentType } from '../../src/shared/contracts/AgentDomain'
+import { Ok } from '../../src/shared/contracts/common'
+import { MessageRouter, UserIntent } from '../../src/main/services/agents/MessageRouter'
+import {
+  RoutingDecision,
+  RoutingFeedbackService,
+  createRoutingFeedbackService
+} from '../../src/main/services/agents/routing/RoutingFeedbackService'
+import { IChatHistoryService } from '../../src/main/services/chat/ChatHistoryService'
+import { ChatIPCHandlers } from '../../src/main/services/chat/ChatIPCHandlers'
+
+// Feedback is persisted to a real temporary file; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = '8f14e45f-ceea-4e7a-9c3b-2d6f1a0b5c71'
+
+const decide = (
+  feedback: RoutingFeedbackService,
+  agent: AgentType,
+  explicit: boolean,
+  seconds: number,
+  overrides: Partial<RoutingDecision> = {}
+) => feedback.recordDecision({
+  messageId: uuidv4(),
+  projectId: PROJECT_ID,
+  content: 'How should we store user sessions?',
+  agent,
+  intent: UserIntent.GENERAL_QUESTION,
+  explicit,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 9, 0, seconds)),
+  ...overrides
+})
+
+const createChat = async (feedback: RoutingFeedbackService) => {
+  const chatHistory = { saveMessages: vi.fn(async () => Ok(undefined)) } as unknown as IChatHistoryService
+  const handlers = new ChatIPCHandlers(undefined, chatHistory)
+  handlers.attachAgentSystem({
+    router: new MessageRouter(undefined, [], undefined, feedback),
+    orchestrator: {
+      sendMessage: vi.fn(async (message: AgentMessage) => Ok({
+        messageId: message.id,
+        agentType: message.to as AgentType,
+        content: 'On it.',
+        actions: []
+      }))
+    },
+    routingFeedback: feedback
+  })
+  await handlers.initialize()
+  const handleChatMessage = vi.mocked(ipcMain.handle).mock.calls.find(([channel]) => channel === 'chat:message')![1]
+
+  return async (content: string, targetAgent?: AgentType) => {
+    const response = await handleChatMessage({} as IpcMainInvokeEvent, {
+      messageId: uuidv4(),
+      content,
+      targetAgent,
+      projectId: PROJECT_ID
+    })
+    return response.agentResponse.routing.agent as AgentType
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('RoutingFeedbackService', () => {
+  let dir: string
+  let storagePath: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'routing-feedback-'))
+    storagePath = path.join(dir, 'routing-feedback.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('routes to the agent the user keeps correcting to and reports the overrides', async () => {
+    const feedback = createRoutingFeedbackService({ storagePath })
+    const updated = vi.fn()
+    feedback.on('feedback-updated', updated)
+    const send = await createChat(feedback)
+    const question = 'How should we store user sessions?'
+
+    for (let i = 0; i < 3; i++) {
+      expect(await send(question)).toBe(AgentType.PRODUCER)
+      expect(await send(question, AgentType.ENGINEER)).toBe(AgentType.ENGINEER)
+    }
+    expect(await send(question)).toBe(AgentType.ENGINEER)
+
+    // Learning stays within the project and the intent it was corrected for
+    expect(feedback.getWeightAdjustments(PROJECT_ID, UserIntent.GENERAL_QUESTION)).toEqual({
+      [AgentType.ENGINEER]: 0.3,
+      [AgentType.PRODUCER]: -0.3
+    })
+    expect(feedback.getWeightAdjustments(PROJECT_ID, UserIntent.DEBUGGING)).toEqual({})
+    expect(feedback.getWeightAdjustments(undefined, UserIntent.GENERAL_QUESTION)).toEqual({})
+
+    const report = feedback.getAccuracyReport(PROJECT_ID)
+    expect(report).toMatchObject({
+      autoRouted: 4,
+      overridden: 3,
+      accuracy: 0.25,
+      byAgent: {
+        [AgentType.PRODUCER]: { autoRouted: 3, overridden: 3 },
+        [AgentType.ENGINEER]: { autoRouted: 1, overridden: 0 }
+      }
+    })
+    expect(report.recentCorrections).toHaveLength(3)
+    expect(report.recentCorrections[0]).toMatchObject({
+      content: question,
+      intent: UserIntent.GENERAL_QUESTION,
+      routedTo: AgentType.PRODUCER,
+      correctedTo: AgentType.ENGINEER
+    })
+    expect(updated).toHaveBeenCalledWith(PROJECT_ID)
+
+    await feedback.flush()
+    const reloaded = createRoutingFeedbackService({ storagePath })
+    await reloaded.initialize()
+    expect(reloaded.getAccuracyReport()).toMatchObject({ autoRouted: 4, overridden: 3 })
+    expect(reloaded.getAccuracyReport().recentCorrections[0].createdAt).toBeInstanceOf(Date)
+  })
+
+  it('only counts an immediate re-ask of a different agent in the same conversation', () => {
+    const feedback = createRoutingFeedbackService({ correctionWindowMs: 60 * 1000 })
+
+    // Asking the same agent again is not a correction
+    decide(feedback, AgentType.ARCHITECT, false, 0)
+    expect(decide(feedback, AgentType.ARCHITECT, true, 10)).toBeUndefined()
+
+    // Too late to be a correction
+    decide(feedback, AgentType.ARCHITECT, false, 20)
+    expect(decide(feedback, AgentType.ENGINEER, true, 90)).toBeUndefined()
+
+    // Re-asking in another thread is a new conversation
+    decide(feedback, AgentType.ARCHITECT, false, 100, { threadId: 'a' })
+    expect(decide(feedback, AgentType.ENGINEER, true, 101, { threadId: 'b' })).toBeUndefined()
+
+    // Asking another agent something else is a follow-up, not a correction
+    decide(feedback, AgentType.ARCHITECT, false, 110)
+    expect(decide(feedback, AgentType.ENGINEER, true, 111, { content: '@engineer can you write the migration?' }))
+      .toBeUndefined()
+
+    // A message is corrected at most once
+    decide(feedback, AgentType.ARCHITECT, false, 120)
+    expect(decide(feedback, AgentType.ENGINEER, true, 130)).toMatchObject({
+      routedTo: AgentType.ARCHITECT,
+      correctedTo: AgentType.ENGINEER
+    })
+    expect(decide(feedback, AgentType.QA, true, 131)).toBeUndefined()
+
+    // Rerouting a message corrects it however the resend is worded, but only the message it names
+    decide(feedback, AgentType.ARCHITECT, false, 140, { messageId: 'routed' })
+    expect(decide(feedback, AgentType.ENGINEER, true, 141, { content: 'Over to you', rerouteOf: 'other' })).toBeUndefined()
+    decide(feedback, AgentType.ARCHITECT, false, 150, { messageId: 'routed' })
+    expect(decide(feedback, AgentType.ENGINEER, true, 600, { content: 'Over to you', rerouteOf: 'routed' })).toMatchObject({
+      messageId: 'routed',
+      routedTo: AgentType.ARCHITECT,
+      correctedTo: AgentType.ENGINEER
+    })
+
+    // Re-asks with the agent mentioned still match the original wording
+    decide(feedback, AgentType.ARCHITECT, false, 700)
+    expect(decide(feedback, AgentType.QA, true, 701, { content: '@qa how should we store user sessions' })).toBeDefined()
+
+    expect(feedback.getAccuracyReport()).toMatchObject({ autoRouted: 8, overridden: 3 })
+    expect(createRoutingFeedbackService().getAccuracyReport()).toMatchObject({ autoRouted: 0, accuracy: 1 })
+  })
+})
@@ -0,0 +1,233 @@
+// @vitest-environment node
+/**
+ * Test Runner Tests
+ *
+ * Covers running a project's configured test command inside its workspace,
+ * parsing the JSON and JUnit reports it writes, the QA agent opening bugs for
+ * new failures only when asked to run the tests, and stopping runs that exceed the timeout
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { Agent, AgentMessage, AgentStatus, AgentType, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { QAAgent, TestExecutionSummary } from '../../src/main/services/agents/personas/QA'
+import { TestCommand, TestRunner, createTestRunner } from '../../src/main/services/agents/testing/TestRunner'
+import { parseJUnitReport } from '../../src/main/services/agents/testing/testReports'
+import { createWorkspaceService } from '../../src/main/services/workspace/WorkspaceService'
+
+// The project and its report are real files; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = 'recipes'
+
+// Writes a Jest-style JSON report for whichever tests are listed in FAILING
+const FAKE_JSON_RUNNER = `
+const fs = require('fs')
+const failing = fs.existsSync('FAILING') ? fs.readFileSync('FAILING', 'utf-8').split('\\n').filter(Boolean) : []
+const assertion = title => ({
+  ancestorTitles: ['search'],
+  title,
+  fullName: 'search ' + title,
+  status: failing.includes(title) ? 'failed' : 'passed',
+  duration: 4,
+  failureMessages: failing.includes(title) ? ['Expected 200, received 500'] : []
+})
+fs.writeFileSync(process.argv[1], JSON.stringify({
+  testResults: [{
+    name: require('path').join(process.cwd(), process.argv[2] || 'src/search.test.ts'),
+    startTime: 1000,
+    endTime: 1012,
+    status: failing.length > 0 ? 'failed' : 'passed',
+    assertionResults: [assertion('finds by ingredient'), assertion('handles apostrophes')]
+  }]
+}))
+process.exit(failing.length > 0 ? 1 : 0)
+`
+
+const fakeCommand = (script: string): TestCommand => ({
+  command: process.execPath,
+  args: (reportPath, scope) => ['-e', script, reportPath, ...(scope ? [scope] : [])],
+  report: 'json'
+})
+
+// Answers the QA agent's response prompt with an execute_tests call for `scope`
+const createProvider = (): LLMProvider & { scope?: string } => {
+  const provider: LLMProvider & { scope?: string } = {
+    chat: async (_messages, options) => ({
+      content: 'Running the tests.',
+      toolCalls: options?.tools
+        ? [{ id: 'call-1', name: 'execute_tests', input: { testSuite: 'search', scope: provider.scope } }]
+        : undefined
+    }),
+    generateEmbedding: async () => [],
+    isAvailable: () => true
+  }
+  return provider
+}
+
+const userMessage = (content: string): AgentMessage => ({
+  id: uuidv4(),
+  timestamp: new Date(),
+  from: 'user',
+  to: AgentType.QA,
+  content,
+  messageType: MessageType.CHAT,
+  projectId: PROJECT_ID,
+  metadata: { priority: 'normal', requiresResponse: true }
+})
+
+const createQA = (eventBus: IEventBus, llmProvider: LLMProvider, testRunner: TestRunner): QAAgent => {
+  const entity = {
+    id: 'qa-test-agent',
+    type: AgentType.QA,
+    name: 'QA',
+    status: AgentStatus.IDLE,
+    configuration: {
+      model: 'test-model',
+      temperature: 0,
+      maxTokens: 1024,
+      tools: [],
+      rateLimits: { messagesPerMinute: 20, tokensPerHour: 100000, maxConcurrentTasks: 1 }
+    }
+  } as unknown as Agent
+  const stateMachine = AgentStateMachineFactory.create(entity.id, AgentType.QA)
+  return new QAAgent(entity, stateMachine, eventBus, llmProvider, undefined, undefined, undefined, testRunner)
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('TestRunner', () => {
+  let workspacesPath: string
+  let projectRoot: string
+
+  beforeEach(async () => {
+    workspacesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'workspaces-'))
+    projectRoot = path.join(workspacesPath, PROJECT_ID)
+    await fs.mkdir(projectRoot, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspacesPath, { recursive: true, force: true })
+  })
+
+  it('runs the configured framework in the project and QA opens a bug for each new failure', async () => {
+    const getProjectSettings = vi.fn(async () => ({ testFramework: 'Fake' }))
+    const runner = createTestRunner(createWorkspaceService(workspacesPath), getProjectSettings, {
+      commands: { fake: fakeCommand(FAKE_JSON_RUNNER) }
+    })
+    const eventBus = { publishAsync: vi.fn(), subscribe: vi.fn() } as unknown as IEventBus & {
+      publishAsync: ReturnType<typeof vi.fn>
+    }
+    const provider = createProvider()
+    const qa = createQA(eventBus, provider, runner)
+    const executeTests = async (scope?: string): Promise<TestExecutionSummary> => {
+      provider.scope = scope
+      const response = await qa.sendMessage(userMessage('Run the search tests'))
+      if (!response.success) throw response.error
+      expect(response.data.errors).toBeUndefined()
+      return response.data.actions?.[0].parameters.testRun as TestExecutionSummary
+    }
+
+    await fs.writeFile(path.join(projectRoot, 'FAILING'), 'handles apostrophes\n')
+    const first = await executeTests('src/search.test.ts')
+
+    expect(getProjectSettings).toHaveBeenCalledWith(PROJECT_ID)
+    expect(first).toMatchObject({ exitCode: 1, total: 2, passed: 1, failed: 1, skipped: 0 })
+    expect(qa.getLastTestRun()?.suites[0]).toMatchObject({ name: 'src/search.test.ts', framework: 'Fake', executionTime: 12 })
+    const [bug] = qa.getBugReports()
+    expect(first.newBugIds).toEqual([bug.id])
+    expect(bug).toMatchObject({
+      title: 'Failing test: search handles apostrophes',
+      component: 'src/search.test.ts',
+      actualResult: 'Expected 200, received 500',
+      status: 'new'
+    })
+    expect(eventBus.publishAsync).toHaveBeenCalledWith(expect.objectContaining({ type: 'bug.reported' }))
+
+    // Still failing: the open bug covers it
+    const second = await executeTests()
+    expect(second.newBugIds).toEqual([])
+
+    // Failing again after the bug was resolved is a regression
+    qa.resolveBug(bug.id)
+    await fs.writeFile(path.join(projectRoot, 'FAILING'), 'handles apostrophes\nfinds by ingredient\n')
+    const third = await executeTests()
+    expect(third).toMatchObject({ failed: 2 })
+    expect(third.newBugIds).toHaveLength(2)
+    expect(qa.getBugReports()).toHaveLength(3)
+  })
+
+  it('refuses projects without a test framework and scopes outside the project', async () => {
+    const workspace = createWorkspaceService(workspacesPath)
+    const commands = { fake: fakeCommand(FAKE_JSON_RUNNER) }
+
+    const unconfigured = await createTestRunner(workspace, async () => undefined, { commands }).run({ projectId: PROJECT_ID })
+    expect(unconfigured.success).toBe(false)
+
+    const runner = createTestRunner(workspace, async () => ({ testFramework: 'fake' }), { commands })
+    for (const scope of ['../other', '--watch']) {
+      const result = await runner.run({ projectId: PROJECT_ID, scope })
+      expect(result.success).toBe(false)
+    }
+  })
+
+  it('stops a run that exceeds the timeout', async () => {
+    const runner = createTestRunner(createWorkspaceService(workspacesPath), async () => ({ testFramework: 'fake' }), {
+      timeoutMs: 200,
+      killGraceMs: 200,
+      commands: { fake: fakeCommand('console.log("starting"); setTimeout(() => {}, 60000)') }
+    })
+
+    const result = await runner.run({ projectId: PROJECT_ID })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.code).toBe('TEST_RUN_TIMEOUT')
+    expect(result.error.message).toContain('starting')
+  })
+})
+
+describe('parseJUnitReport', () => {
+  it('reads failures, errors and skipped tests with entities and CDATA', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+  <testsuite name="pytest" tests="4" time="0.52">
+    <testcase classname="tests.test_search" name="test_plain" time="0.01"/>
+    <testcase classname="tests.test_search" name="test_apostrophe" time="0.2">
+      <failure message="assert 500 == 200 &amp; more">
+        <![CDATA[E   assert <Response 500> == 200]]>
+      </failure>
+    </testcase>
+    <testcase classname="tests.test_search" name="test_db" time="0.3"><error message="ConnectionError"/></testcase>
+    <testcase classname="tests.test_search" name="test_slow"><skipped message="slow"/></testcase>
+  </testsuite>
+</testsuites>`
+
+    const result = parseJUnitReport(xml, { framework: 'pytest' })
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    const [suite] = result.data
+    expect(suite).toMatchObject({ name: 'pytest', executionTime: 520 })
+    expect(suite.testCases.map(testCase => [testCase.name, testCase.status, testCase.duration])).toEqual([
+      ['tests.test_search test_plain', 'passed', 10],
+      ['tests.test_search test_apostrophe', 'failed', 200],
+      ['tests.test_search test_db', 'failed', 300],
+      ['tests.test_search test_slow', 'skipped', undefined]
+    ])
+    expect(suite.testCases[1].actualResult).toBe('assert 500 == 200 & more\nE   assert <Response 500> == 200')
+    expect(suite.testCases[2].actualResult).toBe('ConnectionError')
+  })
+})
@@ -0,0 +1,199 @@
+// @vitest-environment node
+/**
+ * Work Session Tests
+ *
+ * Runs personas against recorded cassettes with the tracker listening on the
+ * event bus, and covers how the tracker folds the published work events into
+ * sessions and prunes old ones
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Agent,
+  AgentMessage,
+  AgentStatus,
+  AgentType,
+  AgentWorkSessionRecord,
+  MessageType
+} from '../../src/shared/contracts/AgentDomain'
+import { DomainEvent } from '../../src/shared/contracts/common'
+import { EventHandler, IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import { createWorkSessionTracker } from '../../src/main/services/agents/work/WorkSessionTracker'
+import { createCassetteProvider } from '../../src/main/services/ai/providers/cassette'
+
+// Cassettes are real files on disk; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PRODUCER_SCENARIO = 'I want to build a recipe sharing app where friends can swap family recipes.'
+
+/**
+ * Delivers published events to subscribers right away, in publish order
+ */
+const createForwardingEventBus = () => {
+  const subscriptions = new Map<string, { types: string[], handler: EventHandler<DomainEvent> }>()
+  const publish = async (event: DomainEvent) => {
+    for (const { types, handler } of subscriptions.values()) {
+      if (types.includes(event.type)) {
+        await handler.handle(event)
+      }
+    }
+  }
+  return {
+    publish: vi.fn(publish),
+    publishAsync: vi.fn((event: DomainEvent) => {
+      void publish(event)
+    }),
+    subscribe: vi.fn(() => uuidv4()),
+    subscribeToMany: vi.fn((types: string[], handler: EventHandler<DomainEvent>) => {
+      const id = uuidv4()
+      subscriptions.set(id, { types, handler })
+      return id
+    }),
+    unsubscribe: vi.fn((id: string) => subscriptions.delete(id))
+  }
+}
+
+const createProducer = (eventBus: IEventBus, provider: LLMProvider): ProducerAgent => {
+  const entity: Agent = {
+    id: `${AgentType.PRODUCER}-test-agent`,
+    type: AgentType.PRODUCER,
+    name: AgentType.PRODUCER,
+    avatar: '',
+    status: AgentStatus.IDLE,
+    capabilities: [],
+    configuration: {
+      model: 'bedrock:anthropic.claude-3-sonnet-20240229-v1:0',
+      temperature: 0.7,
+      maxTokens: 4096,
+      systemPrompt: `You are the ${AgentType.PRODUCER} agent in Project Maestro.`,
+      tools: [],
+      memoryAccess: { global: true, project: true, task: true, personal: true },
+      rateLimits: { messagesPerMinute: 20, tokensPerHour: 100000, maxConcurrentTasks: 3 }
+    },
+    statistics: { totalMessages: 0, totalTokensUsed: 0, averageResponseTime: 0, successRate: 1, lastActiveAt: new Date() },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+  return new ProducerAgent(entity, AgentStateMachineFactory.create(entity.id, AgentType.PRODUCER), eventBus, provider)
+}
+
+const createUserMessage = (content: string): AgentMessage => ({
+  id: uuidv4(),
+  timestamp: new Date(),
+  from: 'user',
+  to: AgentType.PRODUCER,
+  content,
+  messageType: MessageType.CHAT,
+  metadata: { priority: 'normal', requiresResponse: true }
+})
+
+// =============================================================================
+// Agents Publishing Work Sessions
+// =============================================================================
+
+describe('WorkSessionTracker', () => {
+  it('follows a persona through its phases and collects its thinking steps and artifacts', async () => {
+    const eventBus = createForwardingEventBus()
+    const tracker = createWorkSessionTracker(eventBus as unknown as IEventBus)
+    const updates: AgentWorkSessionRecord[] = []
+    tracker.initialize()
+    tracker.on('session-updated', session => updates.push(session))
+
+    const producer = createProducer(eventBus as unknown as IEventBus, createCassetteProvider({
+      cassettePath: path.join(__dirname, '../fixtures/cassettes/producer.json'),
+      mode: 'replay'
+    }))
+    const message = createUserMessage(PRODUCER_SCENARIO)
+    const result = await producer.sendMessage(message)
+
+    expect(result.success).toBe(true)
+    const [session] = tracker.list({ agentType: AgentType.PRODUCER })
+    expect(session).toMatchObject({
+      agentType: AgentType.PRODUCER,
+      messageId: message.id,
+      objective: PRODUCER_SCENARIO,
+      status: 'completed',
+      phase: 'completed',
+      progressPercentage: 100
+    })
+    expect(session.endedAt).toBeInstanceOf(Date)
+    expect(updates.map(update => update.phase)).toEqual(expect.arrayContaining(['initializing', 'analyzing', 'planning', 'implementing']))
+    expect(session.thinkingSteps.map(step => [step.type, step.title])).toEqual([
+      ['analysis', 'Analyzed the request'],
+      ['planning', expect.stringMatching(/^Planned \d+ action/)],
+      ['execution', expect.any(String)]
+    ])
+    expect(session.artifacts).toEqual([
+      expect.objectContaining({ type: 'plan', title: 'Family Recipe Exchange', tags: ['project-plan'] })
+    ])
+
+    tracker.shutdown()
+    expect(eventBus.unsubscribe).toHaveBeenCalledTimes(1)
+  })
+
+  it('records the error when a session fails', async () => {
+    const eventBus = createForwardingEventBus()
+    const tracker = createWorkSessionTracker(eventBus as unknown as IEventBus)
+    tracker.initialize()
+
+    const producer = createProducer(eventBus as unknown as IEventBus, {
+      chat: vi.fn(async () => {
+        throw new Error('Model is unavailable')
+      }),
+      generateEmbedding: vi.fn(async () => []),
+      isAvailable: () => true
+    })
+    const result = await producer.sendMessage(createUserMessage('Plan the next sprint'))
+
+    expect(result.success).toBe(false)
+    expect(tracker.list({ status: 'failed' })).toEqual([
+      expect.objectContaining({ phase: 'analyzing', error: expect.stringContaining('Model is unavailable') })
+    ])
+    expect(tracker.list({ status: 'completed' })).toEqual([])
+  })
+
+  it('keeps progress from moving backwards and drops the oldest finished sessions', async () => {
+    const eventBus = createForwardingEventBus()
+    const tracker = createWorkSessionTracker(eventBus as unknown as IEventBus, { maxSessionsPerAgent: 2 })
+    tracker.initialize()
+    const publish = (type: string, sessionId: string, payload: Record<string, unknown>, minutes: number) => eventBus.publish({
+      id: uuidv4(),
+      type,
+      domain: 'agent',
+      agentId: 'qa-agent',
+      agentType: AgentType.QA,
+      timestamp: new Date(Date.UTC(2026, 0, 1, 9, minutes)),
+      version: 1,
+      payload: { sessionId, ...payload }
+    } as DomainEvent)
+    const start = (sessionId: string, minutes: number) =>
+      publish('agent.work.started', sessionId, { messageId: uuidv4(), objective: sessionId }, minutes)
+
+    await start('first', 0)
+    await publish('agent.work.progress', 'first', { phase: 'planning', progressPercentage: 40 }, 1)
+    await publish('agent.work.progress', 'first', { phase: 'reviewing', progressPercentage: 20 }, 2)
+    expect(tracker.get('first')).toMatchObject({ phase: 'reviewing', progressPercentage: 40 })
+    await publish('agent.work.ended', 'first', { status: 'completed' }, 3)
+
+    await start('second', 4)
+    await start('third', 5)
+    expect(tracker.list().map(session => session.id)).toEqual(['third', 'second'])
+
+    // Sessions still running are kept even over the limit
+    await start('fourth', 6)
+    expect(tracker.list().map(session => session.id)).toEqual(['fourth', 'third', 'second'])
+
+    // Events for sessions the tracker never saw start are ignored
+    await publish('agent.work.ended', 'unknown', { status: 'failed' }, 7)
+    expect(tracker.get('unknown')).toBeUndefined()
+  })
+})
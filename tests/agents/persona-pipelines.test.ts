@@ -0,0 +1,420 @@
+// @vitest-environment node
+/**
+ * Persona Pipeline Tests
+ * 
+ * Runs each persona's full processAgentMessage pipeline (analysis, response,
+ * action extraction and execution) against recorded LLM cassettes, so no
+ * network access is needed. Re-record with LLM_CASSETTE_MODE=record.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Agent,
+  AgentMessage,
+  AgentStatus,
+  AgentType,
+  ChangeSet,
+  MessageType
+} from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import { ArchitectAgent } from '../../src/main/services/agents/personas/Architect'
+import { EngineerAgent } from '../../src/main/services/agents/personas/Engineer'
+import { QAAgent } from '../../src/main/services/agents/personas/QA'
+import {
+  CassetteConfigurationError,
+  CassetteFixtureMissingError,
+  CassetteProvider,
+  createCassetteProvider,
+  getCassetteModeFromEnv
+} from '../../src/main/services/ai/providers/cassette'
+import { createDefaultProviderRegistry } from '../../src/main/services/ai/providers/registry'
+import { createWorkspaceService } from '../../src/main/services/workspace/WorkspaceService'
+import { createActionApprovalQueue } from '../../src/main/services/agents/approvals/ActionApprovalQueue'
+
+// Cassettes are real files on disk; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const CASSETTE_DIR = path.join(__dirname, '../fixtures/cassettes')
+
+const PERSONA_SCENARIOS = {
+  producer: 'I want to build a recipe sharing app where friends can swap family recipes.',
+  architect: 'Design the architecture for a recipe sharing app with a React frontend and a Node API.',
+  engineer: 'Implement the recipe search endpoint with filtering by ingredient.',
+  qa: 'Searching for recipes with an apostrophe in the name returns a 500 error.'
+} as const
+
+const createCassette = (name: keyof typeof PERSONA_SCENARIOS): CassetteProvider => {
+  const mode = getCassetteModeFromEnv()
+  return createCassetteProvider({
+    cassettePath: path.join(CASSETTE_DIR, `${name}.json`),
+    mode,
+    inner: mode === 'record' ? createDefaultProviderRegistry() : undefined
+  })
+}
+
+const createMockEventBus = (): IEventBus & { publishAsync: ReturnType<typeof vi.fn> } => ({
+  publish: vi.fn(),
+  publishAsync: vi.fn(),
+  subscribe: vi.fn(() => uuidv4()),
+  subscribeToMany: vi.fn(() => uuidv4()),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+  hasSubscribers: vi.fn(() => false),
+  getMetrics: vi.fn(),
+  clear: vi.fn()
+} as unknown as IEventBus & { publishAsync: ReturnType<typeof vi.fn> })
+
+const createAgentEntity = (type: AgentType): Agent => ({
+  id: `${type}-test-agent`,
+  type,
+  name: type,
+  avatar: '',
+  status: AgentStatus.IDLE,
+  capabilities: [],
+  configuration: {
+    model: 'bedrock:anthropic.claude-3-sonnet-20240229-v1:0',
+    temperature: 0.7,
+    maxTokens: 4096,
+    systemPrompt: `You are the ${type} agent in Project Maestro.`,
+    tools: [],
+    memoryAccess: { global: true, project: true, task: true, personal: true },
+    rateLimits: { messagesPerMinute: 20, tokensPerHour: 100000, maxConcurrentTasks: 3 }
+  },
+  statistics: {
+    totalMessages: 0,
+    totalTokensUsed: 0,
+    averageResponseTime: 0,
+    successRate: 1,
+    lastActiveAt: new Date()
+  },
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+const createUserMessage = (to: AgentType, content: string): AgentMessage => ({
+  id: uuidv4(),
+  timestamp: new Date(),
+  from: 'user',
+  to,
+  content,
+  messageType: MessageType.CHAT,
+  metadata: {
+    priority: 'normal',
+    requiresResponse: true
+  }
+})
+
+type PersonaConstructor<T> = new (
+  entity: Agent,
+  stateMachine: ReturnType<typeof AgentStateMachineFactory.create>,
+  eventBus: IEventBus,
+  llmProvider: LLMProvider
+) => T
+
+const createPersona = <T>(Persona: PersonaConstructor<T>, type: AgentType, provider: LLMProvider, eventBus: IEventBus): T => {
+  const entity = createAgentEntity(type)
+  return new Persona(entity, AgentStateMachineFactory.create(entity.id, type), eventBus, provider)
+}
+
+// =============================================================================
+// Persona Pipelines
+// =============================================================================
+
+describe('persona pipelines (cassette replay)', () => {
+  let eventBus: ReturnType<typeof createMockEventBus>
+
+  beforeEach(() => {
+    eventBus = createMockEventBus()
+  })
+
+  it('Producer responds and creates a project plan', async () => {
+    const producer = createPersona(ProducerAgent, AgentType.PRODUCER, createCassette('producer'), eventBus)
+
+    const result = await producer.sendMessage(createUserMessage(AgentType.PRODUCER, PERSONA_SCENARIOS.producer))
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.agentType).toBe(AgentType.PRODUCER)
+    expect(result.data.content).toContain('recipe')
+    expect(result.data.actions.map(action => action.type)).toContain('update_project_plan')
+    expect(producer.getCurrentProjectPlan()?.title).toBe('Family Recipe Exchange')
+    expect(producer.getPendingQuestions()).toHaveLength(1)
+    expect(producer.status).toBe(AgentStatus.IDLE)
+  })
+
+  it('Architect responds and records a system design', async () => {
+    const architect = createPersona(ArchitectAgent, AgentType.ARCHITECT, createCassette('architect'), eventBus)
+
+    const result = await architect.sendMessage(createUserMessage(AgentType.ARCHITECT, PERSONA_SCENARIOS.architect))
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.actions.map(action => action.type)).toEqual(['create_system_design'])
+    const design = architect.getCurrentSystemDesign()
+    expect(design?.architecture.type).toBe('monolithic')
+    expect(design?.components.map(component => component.name)).toEqual(['Web Client', 'Recipe API', 'Search Index'])
+    expect(architect.getDesignHistory()).toHaveLength(1)
+  })
+
+  it('Engineer responds and proposes the feature as a change set awaiting approval', async () => {
+    const workspacesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'engineer-workspace-'))
+    const workspace = createWorkspaceService(workspacesPath)
+    const entity = createAgentEntity(AgentType.ENGINEER)
+    const engineer = new EngineerAgent(
+      entity,
+      AgentStateMachineFactory.create(entity.id, AgentType.ENGINEER),
+      eventBus,
+      createCassette('engineer'),
+      undefined,
+      undefined,
+      undefined,
+      workspace
+    )
+
+    try {
+      const result = await engineer.sendMessage(createUserMessage(AgentType.ENGINEER, PERSONA_SCENARIOS.engineer))
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      const [action] = result.data.actions
+      expect(action).toMatchObject({ type: 'implement_feature', confirmation: true })
+      const implementation = engineer.getCurrentImplementation()
+      expect(implementation?.title).toBe('Recipe search endpoint')
+      expect(implementation?.files.map(file => file.path)).toEqual(['src/api/recipes/search.ts'])
+      expect(implementation?.files[0].content).toMatch(/^import \{ Request, Response, Router \} from 'express'/)
+      expect(implementation?.testFiles.map(file => file.path)).toEqual(['src/api/recipes/search.test.ts'])
+
+      const changeSet = action.parameters.changeSet as ChangeSet
+      expect(changeSet.status).toBe('pending')
+      expect(changeSet.files.map(file => [file.path, file.operation])).toEqual([
+        ['src/api/recipes/search.ts', 'create'],
+        ['src/api/recipes/search.test.ts', 'create']
+      ])
+      expect(changeSet.files[0].diff).toContain('+++ b/src/api/recipes/search.ts')
+      await expect(fs.access(path.join(workspacesPath, 'default', 'src'))).rejects.toThrow()
+
+      const applied = await workspace.applyChangeSet(changeSet.id)
+      expect(applied.success).toBe(true)
+      expect(await fs.readFile(path.join(workspacesPath, 'default', 'src/api/recipes/search.ts'), 'utf-8'))
+        .toBe(implementation?.files[0].content)
+    } finally {
+      await fs.rm(workspacesPath, { recursive: true, force: true })
+    }
+  })
+
+  it('Engineer writes its change set only once the approval for it is approved', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'engineer-approval-'))
+    const workspace = createWorkspaceService(path.join(tempDir, 'workspaces'))
+    const approvals = createActionApprovalQueue({ storagePath: path.join(tempDir, 'approval-decisions.json') })
+    await approvals.initialize()
+    const entity = createAgentEntity(AgentType.ENGINEER)
+    const engineer = new EngineerAgent(
+      entity,
+      AgentStateMachineFactory.create(entity.id, AgentType.ENGINEER),
+      eventBus,
+      createCassette('engineer'),
+      undefined,
+      undefined,
+      undefined,
+      workspace
+    )
+    engineer.attachApprovalQueue(approvals)
+
+    try {
+      const result = await engineer.sendMessage(createUserMessage(AgentType.ENGINEER, PERSONA_SCENARIOS.engineer))
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      const [action] = result.data.actions
+      const changeSet = action.parameters.changeSet as ChangeSet
+      const approvalId = action.parameters.approvalId as string
+      expect(approvals.get(approvalId)).toMatchObject({
+        status: 'pending',
+        action: {
+          type: 'apply_change_set',
+          parameters: { changeSetId: changeSet.id, files: ['src/api/recipes/search.ts', 'src/api/recipes/search.test.ts'] }
+        }
+      })
+      const target = path.join(tempDir, 'workspaces', 'default', 'src/api/recipes/search.ts')
+      await expect(fs.access(target)).rejects.toThrow()
+
+      const approved = await approvals.approve(approvalId)
+
+      expect(approved.success && approved.data.status).toBe('executed')
+      expect(await fs.readFile(target, 'utf-8')).toBe(engineer.getCurrentImplementation()?.files[0].content)
+      expect(workspace.getChangeSet(changeSet.id)?.status).toBe('applied')
+    } finally {
+      await approvals.flush()
+      await fs.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('QA responds and files a bug report', async () => {
+    const qa = createPersona(QAAgent, AgentType.QA, createCassette('qa'), eventBus)
+
+    const result = await qa.sendMessage(createUserMessage(AgentType.QA, PERSONA_SCENARIOS.qa))
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.actions.map(action => action.type)).toEqual(['report_bug'])
+    const [bug] = qa.getBugReports()
+    expect(bug.title).toBe('Recipe search fails on apostrophes')
+    expect(bug.severity).toBe('high')
+    expect(eventBus.publishAsync).toHaveBeenCalledWith(expect.objectContaining({ type: 'bug.reported' }))
+  })
+
+  it('publishes the streamed reply for the originating message', async () => {
+    const producer = createPersona(ProducerAgent, AgentType.PRODUCER, createCassette('producer'), eventBus)
+    const message = createUserMessage(AgentType.PRODUCER, PERSONA_SCENARIOS.producer)
+
+    await producer.sendMessage(message)
+
+    expect(eventBus.publishAsync).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'agent.response.completed',
+      payload: expect.objectContaining({ messageId: message.id })
+    }))
+  })
+
+  it('surfaces a missing fixture as a failed message instead of calling the network', async () => {
+    const producer = createPersona(ProducerAgent, AgentType.PRODUCER, createCassette('producer'), eventBus)
+
+    const result = await producer.sendMessage(createUserMessage(AgentType.PRODUCER, 'A prompt that was never recorded'))
+
+    expect(result.success).toBe(false)
+    expect(producer.status).toBe(AgentStatus.ERROR)
+  })
+
+  it('offers persona actions as tools and reports unusable tool calls as errors', async () => {
+    const provider: LLMProvider = {
+      chat: vi.fn(async (_messages, options) => ({
+        content: options?.tools ? 'Noted.' : 'analysis',
+        toolCalls: options?.tools ? [
+          { id: 'toolu_0', name: 'celebrate_milestone', input: { milestone: 'First sketch' } },
+          { id: 'toolu_1', name: 'delete_everything', input: {} },
+          { id: 'toolu_2', name: 'ask_clarifying_question', input: { context: 'no question given' } }
+        ] : undefined
+      })),
+      generateEmbedding: vi.fn(async () => []),
+      isAvailable: () => true
+    }
+    const producer = createPersona(ProducerAgent, AgentType.PRODUCER, provider, eventBus)
+
+    const result = await producer.sendMessage(createUserMessage(AgentType.PRODUCER, 'We finished the first sketch'))
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    const toolNames = vi.mocked(provider.chat).mock.calls
+      .flatMap(([, options]) => options?.tools?.map(tool => tool.name) ?? [])
+    expect(toolNames).toEqual(expect.arrayContaining(['update_project_plan', 'coordinate_with_agent']))
+    expect(result.data.actions.map(action => action.type)).toEqual(['celebrate_milestone'])
+    expect(result.data.errors?.map(error => error.code)).toEqual(['UNKNOWN_TOOL_CALL', 'INVALID_TOOL_CALL'])
+  })
+})
+
+// =============================================================================
+// Cassette Provider
+// =============================================================================
+
+describe('CassetteProvider', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const scriptedProvider = (): LLMProvider => ({
+    chat: vi.fn(async messages => ({
+      content: `reply to ${messages[messages.length - 1].content}`,
+      usage: { inputTokens: 12, outputTokens: 4 }
+    })),
+    generateEmbedding: vi.fn(async () => [0.5, 0.25]),
+    isAvailable: () => true
+  })
+
+  it('records responses and replays them by prompt hash', async () => {
+    const cassettePath = path.join(tempDir, 'nested', 'cassette.json')
+    const inner = scriptedProvider()
+    const recorder = createCassetteProvider({ cassettePath, mode: 'record', inner })
+
+    await recorder.chat([{ role: 'user', content: 'hello' }], { model: 'm1' })
+    await recorder.generateEmbedding('some text')
+
+    const player = createCassetteProvider({ cassettePath, mode: 'replay' })
+    await expect(player.chat([{ role: 'user', content: 'hello' }], { model: 'm1', temperature: 0 }))
+      .resolves.toEqual({ content: 'reply to hello', usage: { inputTokens: 12, outputTokens: 4 } })
+    await expect(player.generateEmbedding('some text')).resolves.toEqual([0.5, 0.25])
+    expect(inner.chat).toHaveBeenCalledTimes(1)
+  })
+
+  it('keys recordings by model as well as messages', async () => {
+    const cassettePath = path.join(tempDir, 'cassette.json')
+    await createCassetteProvider({ cassettePath, mode: 'record', inner: scriptedProvider() })
+      .chat([{ role: 'user', content: 'hello' }], { model: 'm1' })
+
+    const player = createCassetteProvider({ cassettePath, mode: 'replay' })
+
+    await expect(player.chat([{ role: 'user', content: 'hello' }], { model: 'm2' }))
+      .rejects.toThrow(CassetteFixtureMissingError)
+  })
+
+  it('keys recordings by tool definitions and replays tool calls', async () => {
+    const cassettePath = path.join(tempDir, 'cassette.json')
+    const tools = [{ name: 'report_bug', description: 'Report a defect', inputSchema: { type: 'object' } }]
+    const toolCalls = [{ id: 'toolu_0', name: 'report_bug', input: { title: 'Crash' } }]
+    const inner: LLMProvider = {
+      ...scriptedProvider(),
+      chat: vi.fn(async () => ({ content: 'filed', toolCalls }))
+    }
+    await createCassetteProvider({ cassettePath, mode: 'record', inner })
+      .chat([{ role: 'user', content: 'it crashed' }], { tools })
+
+    const player = createCassetteProvider({ cassettePath, mode: 'replay' })
+    const chunks = []
+    for await (const chunk of player.chatStream([{ role: 'user', content: 'it crashed' }], { tools })) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks[chunks.length - 1].toolCalls).toEqual(toolCalls)
+    await expect(player.chat([{ role: 'user', content: 'it crashed' }]))
+      .rejects.toThrow(CassetteFixtureMissingError)
+  })
+
+  it('names the cassette and prompt when a fixture is missing', async () => {
+    const cassettePath = path.join(tempDir, 'cassette.json')
+    await createCassetteProvider({ cassettePath, mode: 'record', inner: scriptedProvider() })
+      .chat([{ role: 'user', content: 'recorded' }])
+
+    const player = createCassetteProvider({ cassettePath, mode: 'replay' })
+    const messages = [{ role: 'user' as const, content: 'not recorded' }]
+
+    await expect(player.chat(messages)).rejects.toThrow(
+      `No recorded response for prompt ${CassetteProvider.hashPrompt(messages)} in cassette ${cassettePath}`
+    )
+  })
+
+  it('refuses to replay from a cassette that does not exist', async () => {
+    const player = createCassetteProvider({ cassettePath: path.join(tempDir, 'missing.json'), mode: 'replay' })
+
+    await expect(player.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow(CassetteConfigurationError)
+  })
+
+  it('requires an inner provider to record', () => {
+    expect(() => createCassetteProvider({ cassettePath: path.join(tempDir, 'c.json'), mode: 'record' }))
+      .toThrow(CassetteConfigurationError)
+  })
+})
@@ -0,0 +1,155 @@
+// @vitest-environment node
+/**
+ * Bedrock Provider Tests
+ *
+ * Covers the Claude request format (native system field, strict role
+ * alternation), context window trimming and tool use parsing
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { BedrockProvider, BedrockResponse } from '../../src/main/services/ai/providers/bedrock'
+import {
+  DEFAULT_CONTEXT_WINDOW_CONFIG,
+  estimateConversationTokens,
+  trimToContextWindow
+} from '../../src/main/services/ai/providers/contextWindow'
+import { EmbeddingService } from '../../src/main/services/ai/EmbeddingService'
+
+const mockSend = vi.fn()
+
+vi.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  BedrockRuntimeClient: vi.fn(() => ({ send: mockSend })),
+  InvokeModelCommand: vi.fn(input => input),
+  InvokeModelWithResponseStreamCommand: vi.fn(input => input)
+}))
+
+const claudeResponse = (content: unknown[]) => ({
+  body: new TextEncoder().encode(JSON.stringify({ content, usage: { input_tokens: 10, output_tokens: 5 } }))
+})
+
+const createProvider = (contextWindowTokens?: number) => new BedrockProvider({
+  region: 'us-east-1',
+  modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
+  maxTokens: 100,
+  temperature: 0.5,
+  contextWindowTokens
+}, {} as EmbeddingService)
+
+const sentBody = () => JSON.parse(mockSend.mock.calls[mockSend.mock.calls.length - 1][0].body)
+
+describe('BedrockProvider request format', () => {
+  beforeEach(() => {
+    mockSend.mockReset()
+    mockSend.mockResolvedValue(claudeResponse([{ type: 'text', text: 'ok' }]))
+  })
+
+  it('sends the system prompt in the native system field', async () => {
+    await createProvider().chat([
+      { role: 'system', content: 'You are the producer.' },
+      { role: 'user', content: 'Hello' }
+    ])
+
+    expect(sentBody()).toMatchObject({
+      system: 'You are the producer.',
+      messages: [{ role: 'user', content: 'Hello' }]
+    })
+  })
+
+  it('merges consecutive same-role messages and starts with a user turn', async () => {
+    await createProvider().chat([
+      { role: 'assistant', content: 'Welcome back.' },
+      { role: 'user', content: 'First thought' },
+      { role: 'user', content: 'Second thought' },
+      { role: 'assistant', content: '' },
+      { role: 'assistant', content: 'Reply' }
+    ])
+
+    const { messages, system } = sentBody()
+    expect(system).toBeUndefined()
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant', 'user', 'assistant'])
+    expect(messages[2].content).toBe('First thought\n\nSecond thought')
+  })
+
+  it('trims the oldest turns of a conversation that exceeds the context window', async () => {
+    const history = Array.from({ length: 40 }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `turn ${i} ${'x'.repeat(400)}`
+    }))
+
+    await createProvider(2000).chat([{ role: 'system', content: 'system prompt' }, ...history])
+
+    const { messages } = sentBody()
+    expect(messages.length).toBeLessThan(history.length)
+    expect(messages[0].role).toBe('user')
+    expect(messages[0].content).toMatch(/^\[Summary of \d+ earlier messages trimmed/)
+    expect(messages[messages.length - 1].content).toBe(history[history.length - 1].content)
+  })
+
+  it('returns text and tool_use blocks separately', async () => {
+    mockSend.mockResolvedValue(claudeResponse([
+      { type: 'text', text: 'Filing it.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'report_bug', input: { title: 'Crash' } }
+    ]))
+
+    const result: BedrockResponse = await createProvider().chat([{ role: 'user', content: 'It crashed' }], {
+      tools: [{ name: 'report_bug', description: 'Report a defect', inputSchema: { type: 'object' } }]
+    })
+
+    expect(result.content).toBe('Filing it.')
+    expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'report_bug', input: { title: 'Crash' } }])
+    expect(sentBody().tools).toEqual([
+      { name: 'report_bug', description: 'Report a defect', input_schema: { type: 'object' } }
+    ])
+  })
+})
+
+describe('trimToContextWindow', () => {
+  const config = { ...DEFAULT_CONTEXT_WINDOW_CONFIG, contextWindowTokens: 1000, reservedOutputTokens: 200 }
+
+  it('leaves conversations that fit untouched', () => {
+    const messages = [{ role: 'user' as const, content: 'short' }]
+
+    expect(trimToContextWindow('system', messages, config)).toEqual({
+      messages,
+      droppedMessages: 0,
+      estimatedTokens: estimateConversationTokens('system', messages)
+    })
+  })
+
+  it('keeps the result within budget and summarizes what was dropped', () => {
+    const messages = Array.from({ length: 20 }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `message ${i} ${'y'.repeat(200)}`
+    }))
+
+    const result = trimToContextWindow('system', messages, config)
+
+    expect(result.droppedMessages).toBeGreaterThan(0)
+    expect(result.estimatedTokens).toBeLessThanOrEqual((1000 - 200) * (1 - config.safetyMargin))
+    expect(result.messages[0].content).toContain(`message ${result.droppedMessages - 1}`)
+  })
+
+  it('cuts the beginning of a single message that is too long on its own', () => {
+    const content = `${'z'.repeat(10000)} final instruction`
+
+    const result = trimToContextWindow(undefined, [{ role: 'user', content }], config)
+
+    expect(result.estimatedTokens).toBeLessThanOrEqual((1000 - 200) * (1 - config.safetyMargin))
+    expect(result.messages[0].content.endsWith('final instruction')).toBe(true)
+  })
+
+  it('starts on a user turn carrying the summary when only an assistant turn is kept', () => {
+    const messages = [
+      { role: 'user' as const, content: 'first question' },
+      { role: 'assistant' as const, content: `${'z'.repeat(4000)} final answer` }
+    ]
+
+    const result = trimToContextWindow('system', messages, config)
+
+    expect(result.droppedMessages).toBe(1)
+    expect(result.messages.map(message => message.role)).toEqual(['user', 'assistant'])
+    expect(result.messages[0].content).toContain('first question')
+    expect(result.messages[1].content.endsWith('final answer')).toBe(true)
+    expect(result.estimatedTokens).toBeLessThanOrEqual((1000 - 200) * (1 - config.safetyMargin))
+  })
+})
@@ -0,0 +1,124 @@
+// @vitest-environment node
+/**
+ * Embedding Service Tests
+ * 
+ * Covers the deterministic local embedder and the automatic fallback
+ * from Bedrock Titan, including dimension mismatch handling
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { EmbeddingDimensionMismatchError, createEmbeddingService } from '../../src/main/services/ai/EmbeddingService'
+import { LOCAL_EMBEDDING_MODEL, createLocalEmbedder } from '../../src/main/services/ai/LocalEmbedder'
+
+const mockSend = vi.fn()
+
+vi.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  BedrockRuntimeClient: vi.fn(() => ({ send: mockSend })),
+  InvokeModelCommand: vi.fn(input => input)
+}))
+
+vi.mock('@aws-sdk/credential-provider-ini', () => ({
+  fromIni: vi.fn(() => ({}))
+}))
+
+const titanResponse = (dimensions: number) => ({
+  body: new TextEncoder().encode(JSON.stringify({ embedding: new Array(dimensions).fill(0.01) }))
+})
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+describe('LocalEmbedder', () => {
+  const embedder = createLocalEmbedder({ dimensions: 256 })
+
+  it('produces deterministic, normalized vectors of the configured size', () => {
+    const first = embedder.embed('Set up the React frontend')
+    const second = embedder.embed('Set up the React frontend')
+
+    expect(first).toHaveLength(256)
+    expect(first).toEqual(second)
+    expect(cosine(first, first)).toBeCloseTo(1, 6)
+  })
+
+  it('places related texts closer together than unrelated ones', () => {
+    const query = embedder.embed('database schema for user accounts')
+    const related = embedder.embed('design the user account database tables')
+    const unrelated = embedder.embed('celebrate the release with the team')
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+
+  it('can project into a different dimension on request', () => {
+    expect(embedder.embed('hello', 64)).toHaveLength(64)
+  })
+})
+
+describe('EmbeddingService fallback', () => {
+  beforeEach(() => {
+    mockSend.mockReset()
+  })
+
+  it('returns Titan embeddings when Bedrock is available', async () => {
+    mockSend.mockResolvedValue(titanResponse(1536))
+    const service = createEmbeddingService({ enableCache: false })
+
+    const result = await service.generateEmbedding({ text: 'hello' })
+
+    expect(result.success && result.data.model).toBe('amazon.titan-embed-text-v1')
+    expect(service.isUsingLocalFallback()).toBe(false)
+  })
+
+  it('switches to the local embedder when Bedrock fails and stops calling it', async () => {
+    mockSend.mockRejectedValue(new Error('Could not load credentials from any providers'))
+    const service = createEmbeddingService({ enableCache: false })
+
+    const first = await service.generateEmbedding({ text: 'hello world' })
+    const second = await service.generateEmbedding({ text: 'hello world' })
+
+    expect(first.success && first.data.model).toBe(LOCAL_EMBEDDING_MODEL)
+    expect(first.success && first.data.embedding).toHaveLength(1536)
+    expect(second.success && second.data.embedding).toEqual(first.success && first.data.embedding)
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(service.isUsingLocalFallback()).toBe(true)
+    expect(service.getMetrics().localFallbacks).toBe(2)
+  })
+
+  it('retries Bedrock once the unavailable window has passed', async () => {
+    mockSend.mockRejectedValueOnce(new Error('connect ECONNREFUSED')).mockResolvedValue(titanResponse(1536))
+    const service = createEmbeddingService({ enableCache: false, unavailableRetryMs: 0 })
+
+    await service.generateEmbedding({ text: 'first' })
+    const result = await service.generateEmbedding({ text: 'second' })
+
+    expect(result.success && result.data.model).toBe('amazon.titan-embed-text-v1')
+  })
+
+  it('does not fall back on rate limiting', async () => {
+    mockSend.mockRejectedValue(new Error('throttling exception'))
+    const service = createEmbeddingService({ enableCache: false })
+
+    const result = await service.generateEmbedding({ text: 'hello' })
+
+    expect(result.success).toBe(false)
+    expect(service.isUsingLocalFallback()).toBe(false)
+  })
+
+  it('replaces a wrong-sized Bedrock vector with a local one of the expected size', async () => {
+    mockSend.mockResolvedValue(titanResponse(1024))
+    const service = createEmbeddingService({ enableCache: false })
+
+    const result = await service.generateEmbedding({ text: 'hello', dimensions: 1536 })
+
+    expect(result.success && result.data.model).toBe(LOCAL_EMBEDDING_MODEL)
+    expect(result.success && result.data.embedding).toHaveLength(1536)
+  })
+
+  it('reports a dimension mismatch when fallback is disabled', async () => {
+    mockSend.mockResolvedValue(titanResponse(1024))
+    const service = createEmbeddingService({ enableCache: false, fallbackToLocal: false })
+
+    const result = await service.generateEmbedding({ text: 'hello' })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error).toBeInstanceOf(EmbeddingDimensionMismatchError)
+  })
+})
@@ -0,0 +1,282 @@
+// @vitest-environment node
+/**
+ * LLM Provider Registry Tests
+ * 
+ * Verifies provider resolution by model prefix and exercises the
+ * OpenAI-compatible provider against a local stub HTTP server
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { DEFAULT_MODEL, LLMProviderNotFoundError, LLMProviderRegistry } from '../../src/main/services/ai/providers/registry'
+import { OpenAICompatibleProvider } from '../../src/main/services/ai/providers/openaiCompatible'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+
+vi.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  BedrockRuntimeClient: vi.fn(),
+  InvokeModelCommand: vi.fn()
+}))
+
+const createStubProvider = (reply: string): LLMProvider & { chat: ReturnType<typeof vi.fn> } => ({
+  chat: vi.fn(async () => ({ content: reply })),
+  generateEmbedding: vi.fn(async () => [0.1, 0.2]),
+  isAvailable: () => true
+})
+
+describe('LLMProviderRegistry', () => {
+  it('routes prefixed models to the named provider and strips the prefix', async () => {
+    const bedrock = createStubProvider('from bedrock')
+    const ollama = createStubProvider('from ollama')
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', bedrock)
+    registry.register('ollama', ollama)
+
+    const reply = await registry.chat([{ role: 'user', content: 'hi' }], { model: 'ollama:llama3' })
+
+    expect(reply.content).toBe('from ollama')
+    expect(ollama.chat).toHaveBeenCalledWith(
+      [{ role: 'user', content: 'hi' }],
+      expect.objectContaining({ model: 'llama3' })
+    )
+    expect(bedrock.chat).not.toHaveBeenCalled()
+  })
+
+  it('keeps colons inside model ids after the provider prefix', () => {
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', createStubProvider(''))
+
+    const resolved = registry.resolve('bedrock:anthropic.claude-3-sonnet-20240229-v1:0')
+
+    expect(resolved.providerName).toBe('bedrock')
+    expect(resolved.modelId).toBe('anthropic.claude-3-sonnet-20240229-v1:0')
+  })
+
+  it('sends unprefixed or unknown-prefix models to the default provider unchanged', () => {
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', createStubProvider(''))
+
+    expect(registry.resolve('anthropic.claude-v2:1')).toMatchObject({
+      providerName: 'bedrock',
+      modelId: 'anthropic.claude-v2:1'
+    })
+    expect(registry.resolve()).toMatchObject({ providerName: 'bedrock', modelId: undefined })
+  })
+
+  it('follows the current default provider and its model for the default model string', () => {
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', createStubProvider(''))
+    registry.register('ollama', createStubProvider(''))
+    registry.setDefaultProvider('ollama')
+
+    expect(registry.resolve(DEFAULT_MODEL)).toMatchObject({ providerName: 'ollama', modelId: undefined })
+  })
+
+  it('throws when the default provider is not registered', () => {
+    const registry = new LLMProviderRegistry('missing')
+
+    expect(() => registry.resolve('some-model')).toThrow(LLMProviderNotFoundError)
+  })
+})
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server
+  let baseUrl: string
+  const requests: Array<{ url?: string, headers: http.IncomingHttpHeaders, body: any }> = []
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        const body = JSON.parse(raw || '{}')
+        requests.push({ url: req.url, headers: req.headers, body })
+        res.setHeader('Content-Type', 'application/json')
+
+        if (req.url === '/v1/chat/completions' && body.tools && body.stream) {
+          res.setHeader('Content-Type', 'text/event-stream')
+          const events = [
+            { choices: [{ delta: { content: 'Planning.' } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'report_bug', arguments: '{"title":' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Crash"}' } }] } }] },
+            { choices: [], usage: { prompt_tokens: 9, completion_tokens: 6 } }
+          ]
+          res.end(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n')
+        } else if (req.url === '/v1/chat/completions' && body.tools) {
+          res.end(JSON.stringify({
+            choices: [{
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: body.tools[0].function.name, arguments: '{"title":"Crash"}' }
+                }]
+              }
+            }],
+            usage: { prompt_tokens: 20, completion_tokens: 8 }
+          }))
+        } else if (req.url === '/v1/chat/completions' && body.stream) {
+          res.setHeader('Content-Type', 'text/event-stream')
+          const events = [
+            { choices: [{ delta: { content: 'Hel' } }] },
+            { choices: [{ delta: { content: 'lo' } }] },
+            { choices: [], usage: { prompt_tokens: 7, completion_tokens: 2 } }
+          ]
+          res.end(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n')
+        } else if (req.url === '/v1/chat/completions') {
+          if (body.model === 'broken') {
+            res.statusCode = 500
+            res.end(JSON.stringify({ error: 'model exploded' }))
+            return
+          }
+          const lastMessage = body.messages[body.messages.length - 1]
+          res.end(JSON.stringify({
+            choices: [{ message: { role: 'assistant', content: `echo: ${lastMessage.content}` } }],
+            usage: { prompt_tokens: 11, completion_tokens: 3 }
+          }))
+        } else if (req.url === '/v1/embeddings') {
+          res.end(JSON.stringify({ data: [{ embedding: [1, 2, 3] }] }))
+        } else {
+          res.statusCode = 404
+          res.end('{}')
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  const createProvider = () => new OpenAICompatibleProvider({
+    baseUrl,
+    apiKey: 'test-key',
+    modelId: 'stub-model',
+    maxTokens: 256,
+    temperature: 0.2,
+    timeoutMs: 5000
+  })
+
+  it('posts chat completions and returns the assistant content with usage', async () => {
+    const provider = createProvider()
+
+    const reply = await provider.chat([
+      { role: 'system', content: 'be brief' },
+      { role: 'user', content: 'ping' }
+    ])
+
+    expect(reply).toEqual({ content: 'echo: ping', usage: { inputTokens: 11, outputTokens: 3 } })
+    const request = requests[requests.length - 1]
+    expect(request.headers.authorization).toBe('Bearer test-key')
+    expect(request.body).toMatchObject({
+      model: 'stub-model',
+      max_tokens: 256,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: 'be brief' },
+        { role: 'user', content: 'ping' }
+      ]
+    })
+  })
+
+  it('is reachable through the registry with an openai-compatible prefix', async () => {
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', createStubProvider('wrong provider'))
+    registry.register('openai-compatible', createProvider())
+
+    const reply = await registry.chat(
+      [{ role: 'user', content: 'routed' }],
+      { model: 'openai-compatible:other-model' }
+    )
+
+    expect(reply.content).toBe('echo: routed')
+    expect(requests[requests.length - 1].body.model).toBe('other-model')
+  })
+
+  it('streams server-sent event deltas and reports usage on the final chunk', async () => {
+    const chunks = []
+    for await (const chunk of createProvider().chatStream([{ role: 'user', content: 'hi' }])) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks.map(chunk => chunk.delta).join('')).toBe('Hello')
+    expect(chunks[chunks.length - 1]).toEqual({
+      delta: '',
+      done: true,
+      usage: { inputTokens: 7, outputTokens: 2 }
+    })
+  })
+
+  it('streams through the registry for providers without native streaming', async () => {
+    const registry = new LLMProviderRegistry('bedrock')
+    registry.register('bedrock', createStubProvider('whole reply'))
+
+    const deltas: string[] = []
+    for await (const chunk of registry.chatStream([{ role: 'user', content: 'hi' }])) {
+      deltas.push(chunk.delta)
+    }
+
+    expect(deltas.join('')).toBe('whole reply')
+  })
+
+  const reportBugTool = {
+    name: 'report_bug',
+    description: 'Report a defect',
+    inputSchema: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] }
+  }
+
+  it('sends tool definitions and returns tool calls with parsed arguments', async () => {
+    const reply = await createProvider().chat([{ role: 'user', content: 'it crashed' }], { tools: [reportBugTool] })
+
+    expect(reply).toEqual({
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'report_bug', input: { title: 'Crash' } }],
+      usage: { inputTokens: 20, outputTokens: 8 }
+    })
+    expect(requests[requests.length - 1].body.tools).toEqual([{
+      type: 'function',
+      function: { name: 'report_bug', description: 'Report a defect', parameters: reportBugTool.inputSchema }
+    }])
+  })
+
+  it('assembles streamed tool call fragments on the final chunk', async () => {
+    const chunks = []
+    for await (const chunk of createProvider().chatStream([{ role: 'user', content: 'it crashed' }], { tools: [reportBugTool] })) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks.map(chunk => chunk.delta).join('')).toBe('Planning.')
+    expect(chunks[chunks.length - 1]).toEqual({
+      delta: '',
+      done: true,
+      usage: { inputTokens: 9, outputTokens: 6 },
+      toolCalls: [{ id: 'call_1', name: 'report_bug', input: { title: 'Crash' } }]
+    })
+  })
+
+  it('returns embeddings from the embeddings endpoint', async () => {
+    const embedding = await createProvider().generateEmbedding('text')
+
+    expect(embedding).toEqual([1, 2, 3])
+  })
+
+  it('names the embedding model of the default provider through the registry', () => {
+    const registry = new LLMProviderRegistry('openai-compatible')
+    registry.register('openai-compatible', createProvider())
+    registry.register('bedrock', createStubProvider('unused'))
+
+    expect(registry.getEmbeddingModel()).toBe('openai-compatible:stub-model')
+    registry.setDefaultProvider('bedrock')
+    expect(registry.getEmbeddingModel()).toBe('bedrock:default')
+  })
+
+  it('surfaces HTTP errors', async () => {
+    await expect(
+      createProvider().chat([{ role: 'user', content: 'x' }], { model: 'broken' })
+    ).rejects.toThrow(/HTTP 500/)
+  })
+})
@@ -0,0 +1,227 @@
+// @vitest-environment node
+/**
+ * Resilient Provider Tests
+ *
+ * Covers retries with backoff on transient errors, per-attempt timeouts,
+ * cancellation during backoff, fallback model chains, stream retries before
+ * the first chunk, and the attempt statistics kept by BaseAgent
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import { Agent, AgentStatus, AgentType, LLMCallAttempt, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMChatOptions, LLMProvider, LLMStreamChunk } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import {
+  LLMCallFailedError,
+  LLMTimeoutError,
+  createResilientProvider,
+  isTransientLLMError
+} from '../../src/main/services/ai/providers/resilient'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const fastRetries = { baseDelayMs: 1, maxDelayMs: 2, jitter: false }
+
+const createFlakyProvider = (failures: Error[], reply = 'ok'): LLMProvider & { chat: ReturnType<typeof vi.fn> } => {
+  const queue = [...failures]
+  return {
+    chat: vi.fn(async (_messages, options?: LLMChatOptions) => {
+      const failure = queue.shift()
+      if (failure) {
+        throw failure
+      }
+      return { content: `${reply} from ${options?.model ?? 'default'}` }
+    }),
+    generateEmbedding: vi.fn(async () => [1]),
+    isAvailable: () => true
+  }
+}
+
+const throttled = () => new Error('Bedrock provider error: ThrottlingException: Too many requests')
+
+// =============================================================================
+// Retries, Timeouts and Fallbacks
+// =============================================================================
+
+describe('ResilientProvider', () => {
+  it('classifies throttling and server errors as transient', () => {
+    expect(isTransientLLMError(throttled())).toBe(true)
+    expect(isTransientLLMError(new Error('OpenAI-compatible provider error: HTTP 503 Service Unavailable'))).toBe(true)
+    expect(isTransientLLMError(new Error('OpenAI-compatible provider error: HTTP 400 Bad Request'))).toBe(false)
+  })
+
+  it('retries transient errors with backoff and reports each attempt', async () => {
+    const inner = createFlakyProvider([throttled(), throttled()])
+    const attempts: LLMCallAttempt[] = []
+
+    const result = await createResilientProvider(inner, fastRetries)
+      .chat([{ role: 'user', content: 'hi' }], { model: 'primary', onAttempt: attempt => attempts.push(attempt) })
+
+    expect(result.content).toBe('ok from primary')
+    expect(attempts.map(attempt => attempt.outcome)).toEqual(['retry', 'retry', 'success'])
+    expect(inner.chat.mock.calls[0][1]).not.toHaveProperty('onAttempt')
+  })
+
+  it('times out slow attempts and retries them', async () => {
+    const inner = createFlakyProvider([])
+    inner.chat.mockImplementationOnce(() => new Promise(() => undefined))
+    const attempts: LLMCallAttempt[] = []
+
+    const result = await createResilientProvider(inner, fastRetries)
+      .chat([{ role: 'user', content: 'hi' }], { timeoutMs: 20, onAttempt: attempt => attempts.push(attempt) })
+
+    expect(result.content).toBe('ok from default')
+    expect(attempts[0]).toMatchObject({ outcome: 'retry', timedOut: true })
+  })
+
+  it('aborts the request of a timed-out attempt and passes the caller\'s cancellation on', async () => {
+    const inner = createFlakyProvider([])
+    const signals: AbortSignal[] = []
+    inner.chat.mockImplementation((_messages, options?: LLMChatOptions) => {
+      signals.push(options!.signal!)
+      return new Promise(() => undefined)
+    })
+    const caller = new AbortController()
+    const provider = createResilientProvider(inner, { ...fastRetries, maxRetries: 1 })
+
+    const timedOut = provider.chat([{ role: 'user', content: 'hi' }], { timeoutMs: 20, signal: caller.signal })
+    await expect(timedOut).rejects.toThrow(LLMCallFailedError)
+    expect(signals).toHaveLength(2)
+    expect(signals.every(signal => signal.aborted && signal.reason instanceof LLMTimeoutError)).toBe(true)
+
+    const cancelled = provider.chat([{ role: 'user', content: 'hi' }], { timeoutMs: 1000, signal: caller.signal })
+    caller.abort(new Error('cancelled'))
+    await expect(cancelled).rejects.toThrow('cancelled')
+    expect(signals[2].aborted).toBe(true)
+  })
+
+  it('stops waiting out the backoff as soon as the caller cancels', async () => {
+    const inner = createFlakyProvider([throttled()])
+    const caller = new AbortController()
+    const startedAt = Date.now()
+
+    const call = createResilientProvider(inner, { baseDelayMs: 60000, maxDelayMs: 60000, jitter: false }).chat(
+      [{ role: 'user', content: 'hi' }],
+      { signal: caller.signal, onAttempt: () => setTimeout(() => caller.abort(new Error('cancelled')), 10) }
+    )
+
+    await expect(call).rejects.toThrow('cancelled')
+    expect(Date.now() - startedAt).toBeLessThan(1000)
+    expect(inner.chat).toHaveBeenCalledTimes(1)
+  })
+
+  it('walks the fallback chain once retries are exhausted or the error is permanent', async () => {
+    const inner = createFlakyProvider([throttled(), throttled(), new Error('HTTP 403 access denied')])
+    const attempts: LLMCallAttempt[] = []
+
+    const result = await createResilientProvider(inner, { ...fastRetries, maxRetries: 1 }).chat(
+      [{ role: 'user', content: 'hi' }],
+      { model: 'primary', fallbackModels: ['secondary', 'ollama:llama3'], onAttempt: attempt => attempts.push(attempt) }
+    )
+
+    expect(result.content).toBe('ok from ollama:llama3')
+    expect(attempts.map(attempt => [attempt.model, attempt.outcome])).toEqual([
+      ['primary', 'retry'],
+      ['primary', 'fallback'],
+      ['secondary', 'fallback'],
+      ['ollama:llama3', 'success']
+    ])
+  })
+
+  it('gives up with every attempt attached when the chain is exhausted', async () => {
+    const inner = createFlakyProvider([throttled(), throttled()])
+
+    const call = createResilientProvider(inner, { ...fastRetries, maxRetries: 0, fallbackModels: ['backup'] })
+      .chat([{ role: 'user', content: 'hi' }], { model: 'primary' })
+
+    await expect(call).rejects.toBeInstanceOf(LLMCallFailedError)
+    await call.catch((error: LLMCallFailedError) => {
+      expect(error.attempts.map(attempt => attempt.outcome)).toEqual(['fallback', 'failed'])
+      expect(error.message).toContain('ThrottlingException')
+    })
+  })
+
+  it('retries a stream that fails before its first chunk', async () => {
+    let calls = 0
+    const inner: LLMProvider = {
+      chat: vi.fn(),
+      async *chatStream(): AsyncIterable<LLMStreamChunk> {
+        calls++
+        if (calls === 1) {
+          throw throttled()
+        }
+        yield { delta: 'Hel', done: false }
+        yield { delta: 'lo', done: false }
+        yield { delta: '', done: true, usage: { inputTokens: 1, outputTokens: 1 } }
+      },
+      generateEmbedding: vi.fn(),
+      isAvailable: () => true
+    }
+
+    const chunks: LLMStreamChunk[] = []
+    for await (const chunk of createResilientProvider(inner, fastRetries).chatStream([{ role: 'user', content: 'hi' }])) {
+      chunks.push(chunk)
+    }
+
+    expect(calls).toBe(2)
+    expect(chunks.map(chunk => chunk.delta).join('')).toBe('Hello')
+    expect(chunks[chunks.length - 1].done).toBe(true)
+  })
+})
+
+// =============================================================================
+// Agent Statistics
+// =============================================================================
+
+describe('BaseAgent attempt statistics', () => {
+  it('records retries and fallbacks made for the agent', async () => {
+    const entity: Agent = {
+      id: 'producer-resilience-agent',
+      type: AgentType.PRODUCER,
+      name: 'Producer',
+      avatar: '',
+      status: AgentStatus.IDLE,
+      capabilities: [],
+      configuration: {
+        model: 'primary',
+        temperature: 0.7,
+        maxTokens: 1024,
+        systemPrompt: 'You are the producer agent in Project Maestro.',
+        tools: [],
+        memoryAccess: { global: true, project: true, task: true, personal: true },
+        rateLimits: { messagesPerMinute: 20, tokensPerHour: 100000, maxConcurrentTasks: 3 },
+        fallbackModels: ['secondary']
+      },
+      statistics: { totalMessages: 0, totalTokensUsed: 0, averageResponseTime: 0, successRate: 1, lastActiveAt: new Date() },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    const eventBus = { publish: vi.fn(), publishAsync: vi.fn(), subscribe: vi.fn(() => uuidv4()) } as unknown as IEventBus
+    const provider = createResilientProvider(
+      createFlakyProvider([throttled(), new Error('HTTP 404 model not found')]),
+      { ...fastRetries, maxRetries: 1 }
+    )
+    const producer = new ProducerAgent(entity, AgentStateMachineFactory.create(entity.id, AgentType.PRODUCER), eventBus, provider)
+
+    const result = await producer.sendMessage({
+      id: uuidv4(),
+      timestamp: new Date(),
+      from: 'user',
+      to: AgentType.PRODUCER,
+      content: 'Hello there',
+      messageType: MessageType.CHAT,
+      metadata: { priority: 'normal', requiresResponse: true }
+    })
+
+    expect(result.success).toBe(true)
+    const statistics = await producer.getAgentStatistics(producer.id)
+    expect(statistics.llmAttempts).toMatchObject({ retries: 1, fallbacks: 1, failedCalls: 0 })
+    expect(statistics.llmAttempts.totalAttempts).toBeGreaterThanOrEqual(3)
+    expect(statistics.llmAttempts.lastAttempt.outcome).toBe('success')
+  })
+})
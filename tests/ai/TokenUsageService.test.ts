@@ -0,0 +1,264 @@
+// @vitest-environment node
+/**
+ * Token Usage Service Tests
+ *
+ * Covers usage accounting per agent, project and day, enforcement of
+ * tokensPerHour and per-project budgets, ledger persistence, and the
+ * BaseAgent integration that records usage and refuses work over budget.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Agent,
+  AgentStatus,
+  AgentType,
+  MessageType,
+  RateLimitExceededError,
+  TokenUsageRecord
+} from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { AgentStateMachineFactory } from '../../src/main/services/agents/AgentStateMachine'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProducerAgent } from '../../src/main/services/agents/personas/Producer'
+import { createTokenUsageService } from '../../src/main/services/ai/TokenUsageService'
+
+// The ledger is a real file on disk; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = '5b0a64a4-5f6e-4f0a-9a43-6a2d4b1f7c11'
+
+const createRecord = (overrides: Partial<TokenUsageRecord> = {}): TokenUsageRecord => ({
+  agentId: 'producer-1',
+  agentType: AgentType.PRODUCER,
+  projectId: PROJECT_ID,
+  model: 'bedrock:test-model',
+  inputTokens: 100,
+  outputTokens: 50,
+  timestamp: new Date(),
+  ...overrides
+})
+
+const createAgentEntity = (tokensPerHour: number): Agent => ({
+  id: 'producer-test-agent',
+  type: AgentType.PRODUCER,
+  name: 'Producer',
+  avatar: '',
+  status: AgentStatus.IDLE,
+  capabilities: [],
+  configuration: {
+    model: 'bedrock:test-model',
+    temperature: 0.7,
+    maxTokens: 4096,
+    systemPrompt: 'You are the producer agent in Project Maestro.',
+    tools: [],
+    memoryAccess: { global: true, project: true, task: true, personal: true },
+    rateLimits: { messagesPerMinute: 20, tokensPerHour, maxConcurrentTasks: 3 }
+  },
+  statistics: {
+    totalMessages: 0,
+    totalTokensUsed: 0,
+    averageResponseTime: 0,
+    successRate: 1,
+    lastActiveAt: new Date()
+  },
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+const createMockEventBus = (): IEventBus => ({
+  publish: vi.fn(),
+  publishAsync: vi.fn(),
+  subscribe: vi.fn(() => uuidv4()),
+  subscribeToMany: vi.fn(() => uuidv4()),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+  hasSubscribers: vi.fn(() => false),
+  getMetrics: vi.fn(),
+  clear: vi.fn()
+} as unknown as IEventBus)
+
+// =============================================================================
+// Accounting and Enforcement
+// =============================================================================
+
+describe('TokenUsageService', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accumulates usage per agent, per project and per day', () => {
+    const service = createTokenUsageService()
+    service.recordUsage(createRecord())
+    service.recordUsage(createRecord({ agentId: 'qa-1', agentType: AgentType.QA, inputTokens: 10, outputTokens: 5 }))
+    service.recordUsage(createRecord({ projectId: undefined, inputTokens: 1, outputTokens: 1 }))
+
+    const summary = service.getSummary()
+    const today = new Date().toISOString().slice(0, 10)
+
+    expect(summary.totals).toEqual({ inputTokens: 111, outputTokens: 56, totalTokens: 167, calls: 3 })
+    expect(summary.byAgent[AgentType.PRODUCER].totalTokens).toBe(152)
+    expect(summary.byAgent[AgentType.QA].totalTokens).toBe(15)
+    expect(summary.byProject[PROJECT_ID].totalTokens).toBe(165)
+    expect(summary.byProject.unassigned.totalTokens).toBe(2)
+    expect(summary.byDay[today].calls).toBe(3)
+    expect(service.getSummary({ agentType: AgentType.QA }).totals.calls).toBe(1)
+  })
+
+  it('rejects an agent that has spent its tokensPerHour until the window moves on', () => {
+    vi.useFakeTimers()
+    const service = createTokenUsageService()
+    service.recordUsage(createRecord({ inputTokens: 800, outputTokens: 200 }))
+
+    const check = { agentId: 'producer-1', agentType: AgentType.PRODUCER, tokensPerHour: 1000 }
+    const result = service.checkBudget(check)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(RateLimitExceededError)
+      expect(result.error.limitType).toBe('tokensPerHour')
+      expect(result.error.details).toMatchObject({ limit: 1000, used: 1000 })
+      expect(result.error.message).toContain('tokensPerHour (used 1000 of 1000, retry in 60 min)')
+    }
+
+    expect(service.checkBudget({ ...check, agentId: 'producer-2' }).success).toBe(true)
+
+    vi.advanceTimersByTime(60 * 60 * 1000)
+    expect(service.checkBudget(check).success).toBe(true)
+  })
+
+  it('enforces per-project daily and total budgets', () => {
+    const service = createTokenUsageService()
+    const check = { agentId: 'producer-1', agentType: AgentType.PRODUCER, projectId: PROJECT_ID, tokensPerHour: 1000000 }
+    service.recordUsage(createRecord({ inputTokens: 400, outputTokens: 100 }))
+
+    expect(service.setProjectBudget({ projectId: PROJECT_ID, dailyLimit: 500 }).success).toBe(true)
+    const daily = service.checkBudget(check)
+    expect(!daily.success && daily.error.limitType).toBe(`projectDailyTokens for project ${PROJECT_ID}`)
+
+    service.setProjectBudget({ projectId: PROJECT_ID, totalLimit: 400 })
+    const total = service.checkBudget(check)
+    expect(!total.success && total.error.limitType).toBe(`projectTotalTokens for project ${PROJECT_ID}`)
+
+    service.setProjectBudget({ projectId: PROJECT_ID })
+    expect(service.checkBudget(check).success).toBe(true)
+    expect(service.setProjectBudget({ projectId: PROJECT_ID, dailyLimit: -1 }).success).toBe(false)
+  })
+
+  it('reports budget status for the meter', () => {
+    const service = createTokenUsageService()
+    service.checkBudget({ agentId: 'qa-1', agentType: AgentType.QA, tokensPerHour: 5000 })
+    service.recordUsage(createRecord())
+    service.setProjectBudget({ projectId: PROJECT_ID, dailyLimit: 1000 })
+
+    const status = service.getBudgetStatus(PROJECT_ID)
+
+    expect(status.agents).toEqual(expect.arrayContaining([
+      { agentType: AgentType.PRODUCER, usedLastHour: 150, tokensPerHour: undefined },
+      { agentType: AgentType.QA, usedLastHour: 0, tokensPerHour: 5000 }
+    ]))
+    expect(status.project).toEqual({
+      projectId: PROJECT_ID,
+      budget: { projectId: PROJECT_ID, dailyLimit: 1000 },
+      usedToday: 150,
+      usedTotal: 150
+    })
+  })
+
+  describe('persistence', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-usage-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('reloads usage and budgets from the ledger file', async () => {
+      const storagePath = path.join(tempDir, 'app-data', 'token-usage.json')
+      const service = createTokenUsageService({ storagePath })
+      service.recordUsage(createRecord())
+      service.setProjectBudget({ projectId: PROJECT_ID, totalLimit: 150 })
+      await service.flush()
+
+      const reloaded = createTokenUsageService({ storagePath })
+      await reloaded.initialize()
+
+      expect(reloaded.getSummary().totals.totalTokens).toBe(150)
+      expect(reloaded.getProjectBudget(PROJECT_ID)).toEqual({ projectId: PROJECT_ID, totalLimit: 150 })
+      expect(reloaded.checkBudget({
+        agentId: 'producer-1',
+        agentType: AgentType.PRODUCER,
+        projectId: PROJECT_ID,
+        tokensPerHour: 1000000
+      }).success).toBe(false)
+    })
+  })
+})
+
+// =============================================================================
+// Agent Integration
+// =============================================================================
+
+describe('BaseAgent token accounting', () => {
+  const provider: LLMProvider = {
+    chat: vi.fn(async () => ({ content: '[]', usage: { inputTokens: 300, outputTokens: 100 } })),
+    generateEmbedding: vi.fn(async () => []),
+    isAvailable: () => true
+  }
+
+  const createProducer = (tokensPerHour: number, service = createTokenUsageService()) => {
+    const entity = createAgentEntity(tokensPerHour)
+    const stateMachine = AgentStateMachineFactory.create(entity.id, AgentType.PRODUCER)
+    return new ProducerAgent(entity, stateMachine, createMockEventBus(), provider, undefined, service)
+  }
+
+  const sendPlanRequest = (producer: ProducerAgent) => producer.sendMessage({
+    id: uuidv4(),
+    timestamp: new Date(),
+    from: 'user',
+    to: AgentType.PRODUCER,
+    content: 'Plan a small todo app',
+    messageType: MessageType.CHAT,
+    projectId: PROJECT_ID,
+    metadata: { priority: 'normal', requiresResponse: true }
+  })
+
+  it('records provider usage against the agent and project', async () => {
+    const service = createTokenUsageService()
+    const producer = createProducer(100000, service)
+
+    const result = await sendPlanRequest(producer)
+
+    expect(result.success).toBe(true)
+    const summary = service.getSummary({ projectId: PROJECT_ID })
+    expect(summary.totals.calls).toBeGreaterThan(0)
+    expect(summary.totals.totalTokens).toBe(summary.totals.calls * 400)
+    const statistics = await producer.getAgentStatistics(producer.id)
+    expect(statistics.totalTokensUsed).toBe(summary.totals.totalTokens)
+  })
+
+  it('refuses messages once tokensPerHour is spent and stays available', async () => {
+    const producer = createProducer(400)
+
+    // The first LLM call uses the whole budget, so the next call within the same message is refused
+    const first = await sendPlanRequest(producer)
+    expect(first.success).toBe(false)
+    if (!first.success) {
+      expect(first.error).toBeInstanceOf(RateLimitExceededError)
+    }
+    expect(producer.status).toBe(AgentStatus.IDLE)
+
+    const second = await sendPlanRequest(producer)
+    expect(!second.success && second.error.message).toContain('Rate limit exceeded for agent producer-test-agent: tokensPerHour')
+  })
+})
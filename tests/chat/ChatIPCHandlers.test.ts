@@ -0,0 +1,195 @@
+// @vitest-environment node
+/**
+ * Chat IPC Handler Tests
+ *
+ * Covers routing chat:message through the message router and the
+ * orchestrator, persisting the agent's reply with the routing reason,
+ * round-table exchanges between the routed and secondary agents, and
+ * listing clarification questions
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { IpcMainInvokeEvent, ipcMain } from 'electron'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentMessage, AgentType, MessageCancelledError } from '../../src/shared/contracts/AgentDomain'
+import { Err, GenericDomainError, Ok } from '../../src/shared/contracts/common'
+import { IChatHistoryService } from '../../src/main/services/chat/ChatHistoryService'
+import { ChatIPCHandlers } from '../../src/main/services/chat/ChatIPCHandlers'
+import { MessageRouter } from '../../src/main/services/agents/MessageRouter'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Calls the handler registered for `channel`, as the renderer's invoke would
+ */
+const invokeHandler = (channel: string, data: unknown) => {
+  const handler = vi.mocked(ipcMain.handle).mock.calls.find(([registered]) => registered === channel)?.[1]
+  if (!handler) {
+    throw new Error(`No handler registered for ${channel}`)
+  }
+  return handler({} as IpcMainInvokeEvent, data)
+}
+
+const createHandlers = async (sendMessage: ReturnType<typeof vi.fn>) => {
+  const saveMessages = vi.fn(async () => Ok(undefined))
+  const closeGroup = vi.fn()
+  const messageGroups = { openMessageGroup: vi.fn(() => closeGroup) }
+  const handlers = new ChatIPCHandlers(undefined, { saveMessages } as unknown as IChatHistoryService)
+  handlers.attachAgentSystem({ router: new MessageRouter(), orchestrator: { sendMessage }, messageGroups })
+  await handlers.initialize()
+
+  return {
+    saveMessages,
+    messageGroups,
+    closeGroup,
+    send: (data: unknown) => invokeHandler('chat:message', data)
+  }
+}
+
+const replyWith = (content: string) => vi.fn(async (message: AgentMessage) => Ok({
+  messageId: message.id,
+  agentType: message.to as AgentType,
+  content,
+  actions: []
+}))
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ChatIPCHandlers chat:message', () => {
+  let messageId: string
+
+  beforeEach(() => {
+    messageId = uuidv4()
+  })
+
+  it('routes untargeted messages by content and saves the reply with the routing reason', async () => {
+    const sendMessage = replyWith('Here is the schema.')
+    const { saveMessages, send } = await createHandlers(sendMessage)
+
+    const response = await send({ messageId, content: 'Design the database schema and system architecture' })
+
+    expect(response.success).toBe(true)
+    const agentMessage: AgentMessage = sendMessage.mock.calls[0][0]
+    expect(agentMessage).toMatchObject({ id: messageId, to: AgentType.ARCHITECT })
+    expect(response.agentResponse).toMatchObject({ agentId: AgentType.ARCHITECT, content: 'Here is the schema.' })
+
+    const [[[userMessage]], [[reply]]] = saveMessages.mock.calls as any[]
+    expect(userMessage).toMatchObject({ id: messageId, sender: 'user' })
+    expect(reply).toMatchObject({ id: response.agentResponse.id, sender: 'agent', agentId: AgentType.ARCHITECT })
+    expect(reply.metadata.routing).toMatchObject({ agent: AgentType.ARCHITECT, explicit: false, intentClassifier: 'keyword' })
+    expect(reply.metadata.routing.reasoning).toEqual(expect.any(String))
+    expect(reply.metadata.routing.confidence).toBeGreaterThan(0)
+  })
+
+  it('honors an explicit target agent', async () => {
+    const sendMessage = replyWith('Running the suite now.')
+    const { send } = await createHandlers(sendMessage)
+
+    const response = await send({ messageId, content: 'Design the database schema', targetAgent: AgentType.QA })
+
+    expect(sendMessage.mock.calls[0][0].to).toBe(AgentType.QA)
+    expect(response.agentResponse.routing).toMatchObject({ agent: AgentType.QA, explicit: true })
+  })
+
+  it('runs a round table where secondary agents comment in turn and the Producer sums up', async () => {
+    const sendMessage = vi.fn(async (message: AgentMessage) => {
+      if (message.to === AgentType.QA) {
+        return Err(new GenericDomainError('AGENT_OFFLINE', 'agent', 'Agent is offline'))
+      }
+      return Ok({
+        messageId: message.id,
+        agentType: message.to as AgentType,
+        content: `${message.to} reply`,
+        actions: []
+      })
+    })
+    const { saveMessages, messageGroups, closeGroup, send } = await createHandlers(sendMessage)
+
+    const response = await send({
+      messageId,
+      content: 'Is our system architecture scalable enough to build the checkout feature?',
+      roundTable: true
+    })
+
+    expect(response.success).toBe(true)
+    expect(messageGroups.openMessageGroup).toHaveBeenCalledWith(messageId)
+    expect(closeGroup).toHaveBeenCalledTimes(1)
+    const calls: AgentMessage[] = sendMessage.mock.calls.map(([message]) => message)
+    expect(calls.map(message => message.to)).toEqual([AgentType.ARCHITECT, AgentType.ENGINEER, AgentType.QA, AgentType.PRODUCER])
+    expect(calls[0]).toMatchObject({ id: messageId, content: 'Is our system architecture scalable enough to build the checkout feature?' })
+    expect(calls[1].content).toContain('architect: architect reply')
+    expect(calls[1].content).toContain('comments or objections')
+    expect(calls[3].content).toContain('engineer: engineer reply')
+    expect(calls[3].content).toContain('Summarize')
+    expect(new Set(calls.map(message => message.id)).size).toBe(4)
+    // Later turns follow up on the user's message, and only the summary is kept from taking actions
+    expect(calls.map(message => message.metadata.parentMessageId)).toEqual([undefined, messageId, messageId, messageId])
+    expect(calls.map(message => !!message.metadata.actionsDisabled)).toEqual([false, false, false, true])
+
+    const participants = [AgentType.ARCHITECT, AgentType.ENGINEER, AgentType.QA]
+    expect(response.agentResponse).toMatchObject({
+      agentId: AgentType.ARCHITECT,
+      streamId: messageId,
+      roundTable: { id: messageId, kind: 'answer', participants }
+    })
+    // QA was offline, so the exchange goes on without its comment
+    expect(response.roundTableReplies).toMatchObject([
+      { agentId: AgentType.ENGINEER, streamId: calls[1].id, roundTable: { id: messageId, kind: 'comment' } },
+      { agentId: AgentType.PRODUCER, content: 'producer reply', roundTable: { id: messageId, kind: 'summary', participants } }
+    ])
+    expect(response.roundTableReplies[0].routing).toBeUndefined()
+    expect(saveMessages).toHaveBeenCalledTimes(4)
+  })
+
+  it('ends a round table once the user cancels it', async () => {
+    const sendMessage = vi.fn(async (message: AgentMessage) => message.to === AgentType.ENGINEER
+      ? Err(new MessageCancelledError(message.id))
+      : Ok({ messageId: message.id, agentType: message.to as AgentType, content: `${message.to} reply`, actions: [] }))
+    const { send } = await createHandlers(sendMessage)
+
+    const response = await send({
+      messageId,
+      content: 'Is our system architecture scalable enough to build the checkout feature?',
+      roundTable: true
+    })
+
+    expect(sendMessage.mock.calls.map(([message]) => message.to)).toEqual([AgentType.ARCHITECT, AgentType.ENGINEER])
+    expect(response).toMatchObject({ success: true, roundTableReplies: [] })
+  })
+
+  it('reports orchestrator failures without saving a reply', async () => {
+    const sendMessage = vi.fn(async () => Err(new GenericDomainError('AGENT_OFFLINE', 'agent', 'Agent is offline')))
+    const { saveMessages, send } = await createHandlers(sendMessage)
+
+    const response = await send({ messageId, content: 'Plan the next milestone' })
+
+    expect(response).toMatchObject({ success: false, messageId, error: 'Agent is offline' })
+    expect(response.routing.agent).toBe(AgentType.PRODUCER)
+    expect(saveMessages).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('ChatIPCHandlers chat:questions:list', () => {
+  it('answers an invalid filter with no questions instead of failing the call', async () => {
+    const listClarificationQuestions = vi.fn(async () => [])
+    const handlers = new ChatIPCHandlers(undefined, {} as IChatHistoryService)
+    handlers.attachAgentSystem({
+      router: new MessageRouter(),
+      orchestrator: { sendMessage: replyWith('') },
+      questions: { listClarificationQuestions, answerClarificationQuestion: vi.fn() }
+    })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    await handlers.initialize()
+
+    try {
+      expect(await invokeHandler('chat:questions:list', { projectId: '' })).toEqual([])
+      expect(listClarificationQuestions).not.toHaveBeenCalled()
+    } finally {
+      error.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Chat Store Tests
+ *
+ * Covers the payload chat messages are sent to the main process with, and
+ * dropping the streamed replies of a cancelled round table
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { useChatStore } from '../../src/renderer/stores/chatStore'
+import { mockAPI } from '../setup/vitest-setup'
+
+describe('chatStore', () => {
+  it('sends messages with the project they are about', async () => {
+    await useChatStore.getState().sendMessage({
+      content: 'Plan the next milestone',
+      projectId: 'proj-1735725600000',
+      roundTable: true
+    })
+
+    expect(mockAPI.sendChatMessage).toHaveBeenCalledWith(expect.objectContaining({
+      content: 'Plan the next milestone',
+      projectId: 'proj-1735725600000',
+      roundTable: true
+    }))
+    expect(useChatStore.getState().messages.at(-1)).toMatchObject({
+      content: 'Plan the next milestone',
+      status: 'delivered'
+    })
+  })
+  it('drops the replies of a round table once it is cancelled', async () => {
+    let respond: (response: unknown) => void = () => undefined
+    vi.mocked(mockAPI.sendChatMessage).mockImplementationOnce(() => new Promise(resolve => { respond = resolve as (response: unknown) => void }))
+    const sent = useChatStore.getState().sendMessage({ content: 'Is the architecture scalable?', roundTable: true })
+    const { id } = useChatStore.getState().messages.at(-1)!
+    const store = useChatStore.getState()
+
+    store.handleStreamChunk({ messageId: id, contextId: id, agentId: 'architect', delta: 'Yes', content: 'Yes' })
+    store.handleStreamComplete({ messageId: id, contextId: id, agentId: 'architect', content: 'Yes' })
+    store.handleStreamChunk({ messageId: 'comment-turn', contextId: id, agentId: 'engineer', delta: 'But', content: 'But' })
+    await store.cancelMessage(id)
+
+    // Chunks of the turns still on their way, and the answer that arrives afterwards, are ignored
+    store.handleStreamChunk({ messageId: 'comment-turn', contextId: id, agentId: 'engineer', delta: ' no', content: 'But no' })
+    store.handleStreamComplete({ messageId: 'summary-turn', contextId: id, agentId: 'producer', content: 'In short' })
+    respond({
+      success: true,
+      messageId: id,
+      agentResponse: { id: 'answer', agentId: 'architect', content: 'Yes', streamId: id },
+      roundTableReplies: [{ id: 'summary', agentId: 'producer', content: 'In short', streamId: 'summary-turn' }]
+    })
+    await sent
+
+    const messages = useChatStore.getState().messages
+    expect(messages.find(message => message.id === id)?.status).toBe('cancelled')
+    expect(messages.filter(message => message.metadata?.contextId === id).map(message => message.content)).toEqual(['Yes'])
+    expect(messages.some(message => message.content === 'In short')).toBe(false)
+  })
+})
@@ -54,7 +54,7 @@ describe('Memory-Agent Integration', () => {
     ;(memoryService as any).isInitialized = true
     ;(memoryService as any).vectorStore = {
       initialize: vi.fn(() => Promise.resolve({ success: true, data: undefined })),
-      generateEmbedding: vi.fn(() => Promise.resolve(new Array(1536).fill(0.1))),
+      generateEmbedding: vi.fn(() => Promise.resolve({ vector: new Array(1536).fill(0.1), model: 'amazon.titan-embed-text-v1' })),
       storeVector: vi.fn(),
       searchSimilar: vi.fn(() => Promise.resolve([])),
       healthCheck: vi.fn(() => Promise.resolve(true)),
@@ -87,7 +87,7 @@ describe('MemoryDomainService', () => {
 
     mockVectorStore = {
       initialize: vi.fn(() => Promise.resolve({ success: true as const, data: undefined as void })),
-      generateEmbedding: vi.fn(() => Promise.resolve(new Array(1536).fill(0.1))),
+      generateEmbedding: vi.fn(() => Promise.resolve({ vector: new Array(1536).fill(0.1), model: 'amazon.titan-embed-text-v1' })),
       storeVector: vi.fn(),
       updateVector: vi.fn(),
       searchSimilar: vi.fn(() => Promise.resolve([])),
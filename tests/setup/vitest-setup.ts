@@ -133,6 +133,30 @@ const mockAPI = {
     engineer: 'idle',
     qa: 'idle'
   })),
+  listCustomPersonas: vi.fn(() => Promise.resolve([])),
+  listWorkSessions: vi.fn(() => Promise.resolve([])),
+  getMessageQueue: vi.fn(() => Promise.resolve([])),
+  getMessageQueueMetrics: vi.fn(() => Promise.resolve({ queued: 0, running: 0, byAgent: {} })),
+  cancelAgentMessage: vi.fn(() => Promise.resolve({ success: true })),
+  
+  // Chat
+  sendChatMessage: vi.fn(() => Promise.resolve({ success: true, messageId: 'test-message-id' })),
+  
+  // Clarification questions
+  listClarificationQuestions: vi.fn(() => Promise.resolve([])),
+  answerClarificationQuestion: vi.fn(() => Promise.resolve({ success: true })),
+  
+  // Message routing
+  listIntentExamples: vi.fn(() => Promise.resolve([])),
+  addIntentExample: vi.fn((request: any) => Promise.resolve({ id: 'example-1', createdAt: new Date(), ...request })),
+  removeIntentExample: vi.fn(() => Promise.resolve({ success: true })),
+  getRoutingAccuracy: vi.fn(() => Promise.resolve({
+    autoRouted: 0,
+    overridden: 0,
+    accuracy: 1,
+    byAgent: {},
+    recentCorrections: []
+  })),
   
   // File operations
   readFile: vi.fn(() => Promise.resolve('Mock file content')),
@@ -154,6 +178,40 @@ const mockAPI = {
   })),
   searchMemories: vi.fn(() => Promise.resolve([])),
   
+  // Token usage and budgets
+  getTokenUsageSummary: vi.fn(() => Promise.resolve({
+    totals: { inputTokens: 0, outputTokens: 0, totalTokens: 0, calls: 0 },
+    byAgent: {},
+    byProject: {},
+    byDay: {}
+  })),
+  getTokenBudgetStatus: vi.fn(() => Promise.resolve({ agents: [] })),
+  setProjectTokenBudget: vi.fn((budget: any) => Promise.resolve(budget)),
+  
+  // Prompt templates
+  listPromptTemplates: vi.fn(() => Promise.resolve([])),
+  setPromptTemplateOverride: vi.fn((request: any) => Promise.resolve({ ...request.override, source: 'project' })),
+  removePromptTemplateOverride: vi.fn(() => Promise.resolve({ success: true })),
+  
+  // Workspace change sets
+  getChangeSet: vi.fn(() => Promise.resolve(null)),
+  listChangeSets: vi.fn(() => Promise.resolve([])),
+  
+  // Action approvals
+  listApprovals: vi.fn(() => Promise.resolve([])),
+  getApproval: vi.fn(() => Promise.resolve(null)),
+  approveAction: vi.fn(),
+  rejectAction: vi.fn(),
+  getApprovalDecisions: vi.fn(() => Promise.resolve([])),
+  
+  // Task hierarchy
+  getTaskHierarchy: vi.fn(() => Promise.resolve({
+    epics: [],
+    totalStoryPoints: 0,
+    completedStoryPoints: 0,
+    progressPercentage: 0
+  })),
+  
   // Git operations
   createCheckpoint: vi.fn(() => Promise.resolve({
     id: 'test-checkpoint-id',
@@ -165,9 +223,17 @@ const mockAPI = {
   restoreCheckpoint: vi.fn(() => Promise.resolve()),
   
   // Configuration
-  updateAIConfig: vi.fn(() => Promise.resolve()),
+  updateAIConfig: vi.fn(() => Promise.resolve({
+    defaultProvider: 'bedrock'
+  })),
   getAIConfig: vi.fn(() => Promise.resolve({
-    provider: 'bedrock'
+    defaultProvider: 'bedrock'
+  })),
+  testAIConnection: vi.fn(() => Promise.resolve({
+    success: true,
+    provider: 'bedrock',
+    model: 'test-model',
+    latencyMs: 1
   })),
   
   // Event subscriptions
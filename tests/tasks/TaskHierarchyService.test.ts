@@ -0,0 +1,342 @@
+// @vitest-environment node
+/**
+ * Task Hierarchy Service Tests
+ *
+ * Covers mapping the Producer's plan phases and tasks onto epics and stories,
+ * updating them in place when the plan is revised, leaving hand-made items
+ * and the user's edits alone, moving stories between phases, and holding the
+ * changes for approval before they are applied
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { AgentMessage, AgentType, MessageType } from '../../src/shared/contracts/AgentDomain'
+import { IEventBus } from '../../src/shared/contracts/EventBus'
+import { Epic, PlanSyncChange, Story, Task } from '../../src/shared/types/tasks'
+import { createAgentOrchestrator } from '../../src/main/services/agents/AgentOrchestrator'
+import { LLMProvider } from '../../src/main/services/agents/base/Agent'
+import { ProjectPlan } from '../../src/main/services/agents/personas/Producer'
+import { createActionApprovalQueue } from '../../src/main/services/agents/approvals/ActionApprovalQueue'
+import { createPersonaStateService } from '../../src/main/services/agents/state/PersonaStateService'
+import { TaskHierarchyService, createTaskHierarchyService } from '../../src/main/services/tasks/TaskHierarchyService'
+
+// Hierarchies are saved to a real temporary directory; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = 'recipes'
+
+const plan: ProjectPlan = {
+  id: 'plan-1',
+  title: 'Recipe app',
+  description: 'Share and search recipes',
+  currentPhase: 'Build',
+  lastUpdated: new Date('2026-01-05T10:00:00Z'),
+  phases: [
+    {
+      id: 'phase-build',
+      name: 'Build',
+      description: 'Core features',
+      status: 'active',
+      dependencies: [],
+      tasks: [
+        { id: 'task-search', title: 'Recipe search', description: 'Search by ingredient', status: 'in_progress', priority: 'urgent', assignedAgent: AgentType.ENGINEER },
+        { id: 'task-upload', title: 'Photo upload', description: 'Attach photos', status: 'pending', priority: 'medium' }
+      ]
+    },
+    {
+      id: 'phase-launch',
+      name: 'Launch',
+      description: 'Go live',
+      status: 'planned',
+      dependencies: ['phase-build'],
+      tasks: []
+    }
+  ]
+}
+
+const withTask = (story: Story, title: string): Story => {
+  const task: Task = {
+    id: `task-${title}`,
+    title,
+    description: '',
+    type: 'task',
+    status: 'not-started',
+    priority: 'medium',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    projectId: PROJECT_ID,
+    storyId: story.id,
+    subtasks: [],
+    estimatedHours: 2
+  }
+  return { ...story, tasks: [...story.tasks, task] }
+}
+
+const applyPreview = async (service: TaskHierarchyService, revision: ProjectPlan) => {
+  const preview = await service.previewPlanSync(PROJECT_ID, revision)
+  const applied = await service.applyPlanSync(PROJECT_ID, preview.changes)
+  expect(applied.success).toBe(true)
+  return preview
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('TaskHierarchyService', () => {
+  let storagePath: string
+  let service: TaskHierarchyService
+
+  beforeEach(async () => {
+    storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'task-hierarchy-'))
+    service = createTaskHierarchyService({ storagePath })
+  })
+
+  afterEach(async () => {
+    await service.flush()
+    await fs.rm(storagePath, { recursive: true, force: true })
+  })
+
+  // Stands in for the user changing the tree: the saved tree is edited and read back in
+  const editTree = async (edit: (epics: Epic[]) => Epic[]) => {
+    await service.flush()
+    const file = path.join(storagePath, `${PROJECT_ID}.json`)
+    const saved = JSON.parse(await fs.readFile(file, 'utf-8'))
+    await fs.writeFile(file, JSON.stringify({ ...saved, epics: edit(saved.epics) }))
+    service = createTaskHierarchyService({ storagePath })
+  }
+
+  it('maps phases to epics and tasks to stories, and updates them when the plan is revised', async () => {
+    const first = await service.previewPlanSync(PROJECT_ID, plan)
+    expect(first.changes.map(change => [change.kind, change.itemType, change.title])).toEqual([
+      ['create', 'epic', 'Build'],
+      ['create', 'story', 'Recipe search'],
+      ['create', 'story', 'Photo upload'],
+      ['create', 'epic', 'Launch']
+    ])
+    // Nothing is applied by previewing
+    expect(await service.getEpics(PROJECT_ID)).toEqual([])
+
+    await service.applyPlanSync(PROJECT_ID, first.changes)
+    const [build, launch] = await service.getEpics(PROJECT_ID)
+    expect(build).toMatchObject({ title: 'Build', status: 'in-progress', planSource: { kind: 'phase', sourceId: 'phase-build' } })
+    expect(launch).toMatchObject({ title: 'Launch', status: 'not-started' })
+    expect(build.stories[0]).toMatchObject({
+      title: 'Recipe search',
+      epicId: build.id,
+      status: 'in-progress',
+      priority: 'critical',
+      assignedAgent: AgentType.ENGINEER
+    })
+
+    // A story the user added by hand is never touched by the plan
+    await editTree(([savedBuild, savedLaunch]) => {
+      const manualStory: Story = {
+        ...savedBuild.stories[1],
+        id: 'manual-story',
+        title: 'Accessibility review',
+        planSource: undefined,
+        planFields: undefined
+      }
+      return [{ ...savedBuild, stories: [...savedBuild.stories, manualStory] }, savedLaunch]
+    })
+
+    const revision: ProjectPlan = {
+      ...plan,
+      phases: [{
+        ...plan.phases[0],
+        tasks: [
+          { ...plan.phases[0].tasks[0], status: 'completed' },
+          { id: 'task-share', title: 'Share links', description: 'Share a recipe', status: 'pending', priority: 'low' }
+        ]
+      }]
+    }
+    const second = await applyPreview(service, revision)
+
+    expect(second.changes.map(change => [change.kind, change.itemType, change.title])).toEqual([
+      ['update', 'story', 'Recipe search'],
+      ['create', 'story', 'Share links'],
+      ['remove', 'story', 'Photo upload'],
+      ['remove', 'epic', 'Launch']
+    ])
+    expect(second.changes[0].fields).toEqual([{ field: 'status', before: 'in-progress', after: 'completed' }])
+
+    const epics = await service.getEpics(PROJECT_ID)
+    expect(epics).toHaveLength(1)
+    expect(epics[0].id).toBe(build.id)
+    expect(epics[0].stories.map(story => [story.title, story.status])).toEqual([
+      ['Recipe search', 'completed'],
+      ['Accessibility review', 'not-started'],
+      ['Share links', 'not-started']
+    ])
+    expect(epics[0].stories[0].completedAt).toBeInstanceOf(Date)
+
+    // Syncing the same plan again changes nothing
+    expect((await service.previewPlanSync(PROJECT_ID, revision)).changes).toEqual([])
+
+    // A plan recreated with new ids still matches the existing items by title
+    const recreated: ProjectPlan = {
+      ...revision,
+      id: 'plan-2',
+      phases: [{ ...revision.phases[0], id: 'phase-new', tasks: revision.phases[0].tasks.map(task => ({ ...task, id: `new-${task.id}` })) }]
+    }
+    const third = await applyPreview(service, recreated)
+    expect(third.changes.every(change => change.kind === 'update' && change.fields.length === 0)).toBe(true)
+    expect((await service.getEpics(PROJECT_ID))[0].stories).toHaveLength(3)
+
+    // The tree survives a restart
+    await service.flush()
+    const restarted = createTaskHierarchyService({ storagePath })
+    const hierarchy = await restarted.getHierarchy(PROJECT_ID)
+    expect(hierarchy.epics[0].stories.map(story => story.title)).toEqual(['Recipe search', 'Accessibility review', 'Share links'])
+    expect(hierarchy.epics[0].createdAt).toBeInstanceOf(Date)
+  })
+
+  it('refuses edited changes that are malformed', async () => {
+    const result = await service.applyPlanSync(PROJECT_ID, [{ kind: 'create', itemType: 'story', itemId: 'x', title: 'Orphan' }])
+    expect(result.success).toBe(false)
+  })
+
+  it('keeps fields the user changed since the last sync', async () => {
+    await applyPreview(service, plan)
+    await editTree(([build, launch]) => [
+      { ...build, stories: [{ ...build.stories[0], status: 'blocked' }, build.stories[1]] },
+      launch
+    ])
+
+    const revision: ProjectPlan = {
+      ...plan,
+      phases: [{
+        ...plan.phases[0],
+        tasks: [{ ...plan.phases[0].tasks[0], title: 'Ingredient search', status: 'completed' }, plan.phases[0].tasks[1]]
+      }, plan.phases[1]]
+    }
+    const preview = await applyPreview(service, revision)
+
+    expect(preview.changes).toHaveLength(1)
+    expect(preview.changes[0].fields).toEqual([{ field: 'title', before: 'Recipe search', after: 'Ingredient search' }])
+    const [search] = (await service.getEpics(PROJECT_ID))[0].stories
+    expect(search).toMatchObject({ title: 'Ingredient search', status: 'blocked' })
+
+    // Fields the user left alone still follow the plan
+    const later: ProjectPlan = {
+      ...revision,
+      phases: [{
+        ...revision.phases[0],
+        tasks: [{ ...revision.phases[0].tasks[0], description: 'Search by ingredient or cuisine' }, plan.phases[0].tasks[1]]
+      }, plan.phases[1]]
+    }
+    await applyPreview(service, later)
+    expect((await service.getEpics(PROJECT_ID))[0].stories[0]).toMatchObject({
+      description: 'Search by ingredient or cuisine',
+      status: 'blocked'
+    })
+  })
+
+  it('moves a story to the epic of its new phase along with its tasks', async () => {
+    await applyPreview(service, plan)
+    await editTree(([build, launch]) => [
+      { ...build, stories: [build.stories[0], withTask(build.stories[1], 'Resize images')] },
+      launch
+    ])
+    const [build, launch] = await service.getEpics(PROJECT_ID)
+
+    const revision: ProjectPlan = {
+      ...plan,
+      phases: [
+        { ...plan.phases[0], tasks: [plan.phases[0].tasks[0]] },
+        { ...plan.phases[1], tasks: [plan.phases[0].tasks[1]] }
+      ]
+    }
+    const preview = await applyPreview(service, revision)
+
+    expect(preview.changes.map(change => [change.kind, change.title, change.parentId, change.previousParentId])).toEqual([
+      ['update', 'Photo upload', launch.id, build.id]
+    ])
+    const [movedFrom, movedTo] = await service.getEpics(PROJECT_ID)
+    expect(movedFrom.stories.map(story => story.title)).toEqual(['Recipe search'])
+    expect(movedTo.stories).toMatchObject([{
+      id: build.stories[1].id,
+      title: 'Photo upload',
+      epicId: launch.id,
+      tasks: [{ title: 'Resize images' }]
+    }])
+  })
+
+  it('refuses edited changes that are malformed', async () => {
+    const result = await service.applyPlanSync(PROJECT_ID, [{ kind: 'create', itemType: 'story', itemId: 'x', title: 'Orphan' }])
+    expect(result.success).toBe(false)
+  })
+
+  describe('Producer', () => {
+    const startProducer = async (projectId?: string) => {
+      const provider = {
+        chat: vi.fn(async (_messages: unknown, options?: { tools?: unknown[] }) => ({
+          content: 'Updated the plan.',
+          toolCalls: options?.tools
+            ? [{ id: 'call-1', name: 'update_project_plan', input: { title: plan.title, description: plan.description } }]
+            : undefined
+        })),
+        generateEmbedding: vi.fn(async () => []),
+        isAvailable: () => true
+      } as LLMProvider
+      const eventBus = { publish: vi.fn(), publishAsync: vi.fn(), subscribe: vi.fn(() => uuidv4()) } as unknown as IEventBus
+      const personaState = createPersonaStateService()
+      personaState.save(AgentType.PRODUCER, { version: 1, data: { currentProjectPlan: plan, pendingQuestions: [] } }, projectId)
+      const approvals = createActionApprovalQueue()
+      const orchestrator = createAgentOrchestrator(eventBus, undefined, undefined, {
+        llmProvider: provider,
+        personaState,
+        approvals,
+        taskHierarchy: service
+      })
+      await orchestrator.initialize()
+
+      const message: AgentMessage = {
+        id: uuidv4(),
+        timestamp: new Date(),
+        from: 'user',
+        to: AgentType.PRODUCER,
+        content: 'Keep the plan up to date',
+        messageType: MessageType.CHAT,
+        projectId,
+        metadata: { priority: 'normal', requiresResponse: true }
+      }
+      const response = await orchestrator.sendMessage(message)
+      expect(response.success).toBe(true)
+      return { orchestrator, approvals }
+    }
+
+    it('holds plan changes for approval before they reach the tree', async () => {
+      const { orchestrator, approvals } = await startProducer(PROJECT_ID)
+      const [approval] = approvals.list()
+
+      expect(approval).toMatchObject({ projectId: PROJECT_ID, action: { type: 'sync_task_hierarchy' } })
+      expect(await service.getEpics(PROJECT_ID)).toEqual([])
+
+      // Dropping the second phase from the changes before approving
+      const changes = (approval.action.parameters.changes as PlanSyncChange[]).filter(change => change.title !== 'Launch')
+      const result = await approvals.approve(approval.id, { parameters: { ...approval.action.parameters, changes } })
+
+      expect(result.success).toBe(true)
+      expect((await service.getEpics(PROJECT_ID)).map(epic => epic.title)).toEqual(['Build'])
+      await orchestrator.shutdown()
+    })
+
+    it('syncs the plan of a message without a project into the default project', async () => {
+      const { orchestrator, approvals } = await startProducer()
+      const [approval] = approvals.list()
+
+      expect((await approvals.approve(approval.id)).success).toBe(true)
+      expect((await service.getEpics('default')).map(epic => epic.title)).toEqual(['Build', 'Launch'])
+      await orchestrator.shutdown()
+    })
+  })
+})
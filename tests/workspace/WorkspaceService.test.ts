@@ -0,0 +1,134 @@
+// @vitest-environment node
+/**
+ * Workspace Service Tests
+ *
+ * Covers change set proposals with diff previews, writing files only once a
+ * change set is approved, and refusing paths outside the project root
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { AgentType } from '../../src/shared/contracts/AgentDomain'
+import { WorkspaceService, createWorkspaceService } from '../../src/main/services/workspace/WorkspaceService'
+import { createUnifiedDiff } from '../../src/main/services/workspace/unifiedDiff'
+
+// Files are written to a real temporary directory; the global setup mocks fs/promises
+vi.unmock('fs/promises')
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PROJECT_ID = 'recipes'
+
+const propose = (service: WorkspaceService, files: Array<{ path: string; content: string }>) =>
+  service.proposeChangeSet({
+    projectId: PROJECT_ID,
+    agentType: AgentType.ENGINEER,
+    title: 'Recipe search',
+    description: 'Search endpoint',
+    files
+  })
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('WorkspaceService', () => {
+  let workspacesPath: string
+  let projectRoot: string
+  let service: WorkspaceService
+
+  beforeEach(async () => {
+    workspacesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'workspaces-'))
+    projectRoot = path.join(workspacesPath, PROJECT_ID)
+    service = createWorkspaceService(workspacesPath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspacesPath, { recursive: true, force: true })
+  })
+
+  it('previews a diff per file and writes nothing until the change set is applied', async () => {
+    await fs.mkdir(path.join(projectRoot, 'src'), { recursive: true })
+    await fs.writeFile(path.join(projectRoot, 'src/index.ts'), 'export const a = 1\nexport const b = 2\n')
+
+    const proposed = await propose(service, [
+      { path: 'src/index.ts', content: 'export const a = 1\nexport const b = 3\n' },
+      { path: './src/search.ts', content: 'export const search = () => []\n' }
+    ])
+
+    expect(proposed.success).toBe(true)
+    if (!proposed.success) return
+    expect(proposed.data.files.map(file => [file.path, file.operation, file.additions, file.deletions])).toEqual([
+      ['src/index.ts', 'modify', 1, 1],
+      ['src/search.ts', 'create', 1, 0]
+    ])
+    expect(proposed.data.files[0].diff).toBe([
+      '--- a/src/index.ts',
+      '+++ b/src/index.ts',
+      '@@ -1,2 +1,2 @@',
+      ' export const a = 1',
+      '-export const b = 2',
+      '+export const b = 3'
+    ].join('\n'))
+    await expect(fs.access(path.join(projectRoot, 'src/search.ts'))).rejects.toThrow()
+
+    const applied = await service.applyChangeSet(proposed.data.id)
+
+    expect(applied.success && applied.data.status).toBe('applied')
+    expect(await fs.readFile(path.join(projectRoot, 'src/index.ts'), 'utf-8')).toBe('export const a = 1\nexport const b = 3\n')
+    expect(await fs.readFile(path.join(projectRoot, 'src/search.ts'), 'utf-8')).toBe('export const search = () => []\n')
+    expect((await service.applyChangeSet(proposed.data.id)).success).toBe(false)
+  })
+
+  it('refuses paths outside the project root, including through symbolic links', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'outside-'))
+    await fs.mkdir(projectRoot, { recursive: true })
+    await fs.symlink(outside, path.join(projectRoot, 'escape'), 'dir')
+
+    try {
+      for (const filePath of ['../other/evil.ts', '/etc/passwd', 'src/../../evil.ts', 'escape/evil.ts']) {
+        const result = await propose(service, [{ path: filePath, content: 'evil' }])
+        expect(result.success).toBe(false)
+        if (result.success) continue
+        expect(result.error.code).toBe('PATH_OUTSIDE_PROJECT')
+      }
+      expect(await fs.readdir(outside)).toEqual([])
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true })
+    }
+  })
+
+  it('does not apply a change set whose files changed on disk since it was proposed', async () => {
+    const proposed = await propose(service, [{ path: 'README.md', content: '# Recipes\n' }])
+    if (!proposed.success) throw proposed.error
+    await fs.mkdir(projectRoot, { recursive: true })
+    await fs.writeFile(path.join(projectRoot, 'README.md'), '# Written by hand\n')
+
+    const applied = await service.applyChangeSet(proposed.data.id)
+
+    expect(applied.success).toBe(false)
+    expect(service.getChangeSet(proposed.data.id)).toMatchObject({ status: 'pending', error: expect.stringContaining('README.md') })
+    expect(await fs.readFile(path.join(projectRoot, 'README.md'), 'utf-8')).toBe('# Written by hand\n')
+    expect(service.rejectChangeSet(proposed.data.id).success).toBe(true)
+    expect(service.listChangeSets({ status: 'pending' })).toEqual([])
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  it('keeps distant changes in separate hunks with three lines of context', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n')
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '')
+
+    const diff = createUnifiedDiff('notes.txt', before, after)
+
+    expect(diff.text.split('\n').filter(line => line.startsWith('@@'))).toEqual([
+      '@@ -1,5 +1,5 @@',
+      '@@ -15,6 +15,5 @@'
+    ])
+    expect(diff).toMatchObject({ additions: 1, deletions: 2 })
+  })
+})